@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test';
+import type { Message, Task } from '@a2a-js/sdk';
+import {
+  authenticateCaller,
+  authorizeClientRequest,
+  isOwnerOrInternal,
+  signClientId,
+  taskClientId,
+} from '../a2a/client-scope';
+import type { A2AClientCaller, ScopedTaskStore } from '../a2a/client-scope';
+
+const INTERNAL_KEY = 'internal-key';
+const CLIENT_A: A2AClientCaller = { kind: 'client', clientId: 'key-a', isOwner: false };
+
+function message(clientId?: string, extra: Partial<Message> = {}): Message {
+  return {
+    kind: 'message',
+    messageId: 'm-1',
+    role: 'user',
+    parts: [{ kind: 'text', text: 'hi' }],
+    ...(clientId && { metadata: { a2aClientId: clientId } }),
+    ...extra,
+  };
+}
+
+function task(id: string, contextId: string, clientId?: string): Task {
+  return {
+    kind: 'task',
+    id,
+    contextId,
+    status: { state: 'completed' },
+    history: [message(clientId)],
+  };
+}
+
+function storeWith(tasks: Task[]): ScopedTaskStore {
+  return {
+    load: async (taskId) => tasks.find((t) => t.id === taskId),
+    listContextHistory: async (contextId) => tasks.filter((t) => t.contextId === contextId).map((t) => ({ task: t })),
+  };
+}
+
+const store = storeWith([task('own', 'ctx-own', 'key-a'), task('other', 'ctx-other', 'key-b'), task('room', 'room-1')]);
+
+describe('A2A client scope', () => {
+  it('should accept the internal key or a correctly signed client ID', () => {
+    const owner = signClientId('key-a', true, INTERNAL_KEY);
+
+    expect(authenticateCaller({ apiKey: INTERNAL_KEY }, INTERNAL_KEY)).toEqual({ kind: 'internal' });
+    expect(authenticateCaller({ clientId: 'key-a', owner: 'true', signature: owner }, INTERNAL_KEY)).toEqual({
+      kind: 'client',
+      clientId: 'key-a',
+      isOwner: true,
+    });
+    expect(
+      authenticateCaller(
+        { clientId: 'key-a', owner: 'false', signature: signClientId('key-a', false, INTERNAL_KEY) },
+        INTERNAL_KEY
+      )
+    ).toEqual(CLIENT_A);
+    expect(authenticateCaller({ clientId: 'key-b', owner: 'true', signature: owner }, INTERNAL_KEY)).toBeNull();
+    expect(
+      authenticateCaller(
+        { clientId: 'key-a', owner: 'true', signature: signClientId('key-a', false, INTERNAL_KEY) },
+        INTERNAL_KEY
+      )
+    ).toBeNull();
+    expect(authenticateCaller({ apiKey: 'a2a_client_key' }, INTERNAL_KEY)).toBeNull();
+  });
+
+  it('should tag a client message with the client, overriding its own claim', async () => {
+    const claimed = message(undefined, { metadata: { a2aClientId: 'key-b', a2aClientIsOwner: true } });
+    const body = { method: 'message/send', params: { message: claimed } };
+
+    expect(isOwnerOrInternal(message())).toBe(true);
+    expect(await authorizeClientRequest(body, CLIENT_A, store)).toBeNull();
+    expect(claimed.metadata).toEqual({ a2aClientId: 'key-a', a2aClientIsOwner: false });
+    expect(isOwnerOrInternal(claimed)).toBe(false);
+    expect(taskClientId(task('new', 'ctx-new', 'key-a'))).toBe('key-a');
+
+    await authorizeClientRequest(body, { ...CLIENT_A, isOwner: true }, store);
+    expect(isOwnerOrInternal(claimed)).toBe(true);
+  });
+
+  it('should only let a client continue its own contexts and tasks', async () => {
+    const send = (extra: Partial<Message>) => ({ method: 'message/send', params: { message: message(undefined, extra) } });
+
+    expect(await authorizeClientRequest(send({ contextId: 'ctx-own' }), CLIENT_A, store)).toBeNull();
+    expect(await authorizeClientRequest(send({ taskId: 'own' }), CLIENT_A, store)).toBeNull();
+    expect((await authorizeClientRequest(send({ contextId: 'ctx-other' }), CLIENT_A, store))?.code).toBe(-32602);
+    expect((await authorizeClientRequest(send({ contextId: 'room-1' }), CLIENT_A, store))?.code).toBe(-32602);
+    expect((await authorizeClientRequest(send({ contextId: 'unused' }), CLIENT_A, store))?.code).toBe(-32602);
+    expect((await authorizeClientRequest(send({ taskId: 'other' }), CLIENT_A, store))?.code).toBe(-32001);
+  });
+
+  it("should hide other clients' tasks from tasks/* methods", async () => {
+    expect(await authorizeClientRequest({ method: 'tasks/get', params: { id: 'own' } }, CLIENT_A, store)).toBeNull();
+    expect(
+      await authorizeClientRequest(
+        { method: 'tasks/pushNotificationConfig/set', params: { taskId: 'own' } },
+        CLIENT_A,
+        store
+      )
+    ).toBeNull();
+    for (const id of ['other', 'room', 'missing']) {
+      expect(await authorizeClientRequest({ method: 'tasks/cancel', params: { id } }, CLIENT_A, store)).toEqual({
+        code: -32001,
+        message: 'Task not found',
+      });
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@a2a-js/sdk';
+import { formatOffer, splitForSummary, taskToTurns } from '../a2a/conversation-memory';
+import type { ConversationTurn } from '../a2a/conversation-memory';
+import { createOfferPart } from '../a2a/offer';
+
+function task(state: Task['status']['state'], withReply = true): Task {
+  return {
+    kind: 'task',
+    id: 'task-1',
+    contextId: 'room-1',
+    history: [
+      {
+        kind: 'message',
+        messageId: 'msg-1',
+        role: 'user',
+        parts: [{ kind: 'text', text: 'Would you take 10?' }, createOfferPart({ type: 'offer', price: 10, currency: 'HBAR' })],
+      },
+    ],
+    status: {
+      state,
+      ...(withReply
+        ? {
+            message: {
+              kind: 'message',
+              messageId: 'msg-2',
+              role: 'agent',
+              parts: [{ kind: 'text', text: 'I can do 13.' }, createOfferPart({ type: 'counter_offer', price: 13, currency: 'HBAR' })],
+            },
+          }
+        : {}),
+    },
+  };
+}
+
+function turns(count: number): ConversationTurn[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'agent',
+    text: `turn ${i}`,
+    offer: null,
+  }));
+}
+
+describe('Conversation memory', () => {
+  it('should turn a completed task into a request and a reply', () => {
+    expect(taskToTurns(task('completed'))).toEqual([
+      { role: 'user', text: 'Would you take 10?', offer: { type: 'offer', price: 10, currency: 'HBAR' } },
+      { role: 'agent', text: 'I can do 13.', offer: { type: 'counter_offer', price: 13, currency: 'HBAR' } },
+    ]);
+  });
+
+  it('should skip tasks that did not complete with a reply', () => {
+    expect(taskToTurns(task('canceled'))).toEqual([]);
+    expect(taskToTurns(task('completed', false))).toEqual([]);
+  });
+
+  it('should keep short transcripts verbatim', () => {
+    expect(splitForSummary(turns(6), 20, 10)).toEqual({ summarize: [], keep: turns(6) });
+  });
+
+  it('should summarize the oldest turns past the cap without splitting a request from its reply', () => {
+    const { summarize, keep } = splitForSummary(turns(22), 20, 9);
+
+    expect(summarize).toHaveLength(14);
+    expect(keep).toHaveLength(8);
+    expect(keep[0].role).toBe('user');
+  });
+
+  it('should annotate offers', () => {
+    expect(formatOffer({ type: 'accept', price: 12, currency: 'HBAR' })).toBe('[accept 12 HBAR]');
+    expect(formatOffer({ type: 'reject', currency: 'HBAR' })).toBe('[reject]');
+    expect(formatOffer(null)).toBe('');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'bun:test';
+import { createOfferPart, extractOffer, parseNegotiationOffer } from '../a2a/offer';
+
+describe('A2A negotiation offers', () => {
+  it('should round-trip an offer through a DataPart', () => {
+    const part = createOfferPart({ type: 'counter_offer', price: 42.5, currency: 'HBAR' });
+
+    expect(part.kind).toBe('data');
+    expect(extractOffer([{ kind: 'text', text: 'How about 42.5 HBAR?' }, part])).toEqual({
+      type: 'counter_offer',
+      price: 42.5,
+      currency: 'HBAR',
+    });
+  });
+
+  it('should ignore messages without an offer DataPart', () => {
+    expect(extractOffer([{ kind: 'text', text: 'Sorry, I accept 10 HBAR' }])).toBeNull();
+    expect(extractOffer([{ kind: 'data', data: { type: 'accept', price: 10 } }])).toBeNull();
+  });
+
+  it('should require a price for everything except reject', () => {
+    expect(parseNegotiationOffer({ type: 'accept' })).toBeNull();
+    expect(parseNegotiationOffer({ type: 'offer', price: -1 })).toBeNull();
+    expect(parseNegotiationOffer({ type: 'reject' })).toEqual({ type: 'reject', currency: 'HBAR' });
+  });
+
+  it('should reject unknown types and currencies', () => {
+    expect(parseNegotiationOffer({ type: 'maybe', price: 5 })).toBeNull();
+    expect(parseNegotiationOffer({ type: 'offer', price: 5, currency: 'USD' })).toBeNull();
+    expect(parseNegotiationOffer({ type: 'offer', price: '5' })).toEqual({
+      type: 'offer',
+      price: 5,
+      currency: 'HBAR',
+    });
+  });
+});
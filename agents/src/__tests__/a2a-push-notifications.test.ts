@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { createHmac } from 'crypto';
+import { signPushNotificationToken } from '../a2a/push-notifications';
+import type { PushNotificationClaims } from '../a2a/push-notifications';
+
+const claims: PushNotificationClaims = {
+  iss: 'http://localhost:3333/agents/abc/a2a',
+  aud: 'http://localhost:3001/api/negotiation/rooms/room-1/push?senderAgentId=2',
+  iat: 1700000000,
+  exp: 1700000300,
+  jti: 'jti-1',
+  taskId: 'task-1',
+  bodySha256: 'deadbeef',
+};
+
+describe('Push notification token', () => {
+  it('should produce an HS256 JWT carrying the claims', () => {
+    const [header, payload] = signPushNotificationToken(claims, 'secret').split('.');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual(claims);
+  });
+
+  it('should sign header and payload with the shared secret', () => {
+    const [header, payload, signature] = signPushNotificationToken(claims, 'secret').split('.');
+    const expected = createHmac('sha256', 'secret').update(`${header}.${payload}`).digest('base64url');
+
+    expect(signature).toBe(expected);
+    expect(signPushNotificationToken(claims, 'other').split('.')[2]).not.toBe(signature);
+  });
+});
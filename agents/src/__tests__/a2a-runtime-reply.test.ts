@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  ACTION_RESULT_SCHEMA,
+  isIgnored,
+  isSimpleReply,
+  parsePlannedResponse,
+  restrictToA2AActions,
+  toReplyParts,
+} from '../a2a/runtime-reply';
+
+describe('A2A runtime replies', () => {
+  it('should parse the planned response block', () => {
+    const planned = parsePlannedResponse(
+      '<response><thought>Greet</thought><actions>REPLY, CREATE_LISTING</actions><providers></providers><text>Sure!</text></response>'
+    );
+
+    expect(planned).toEqual({ thought: 'Greet', actions: ['REPLY', 'CREATE_LISTING'], providers: [], text: 'Sure!' });
+    expect(isSimpleReply(planned!)).toBe(false);
+    expect(parsePlannedResponse('')).toBeNull();
+  });
+
+  it('should answer with the planned text when no action has to run', () => {
+    const reply = (actions: string[]) => ({ thought: '', actions, providers: [], text: 'Hi' });
+
+    expect(isSimpleReply(reply([]))).toBe(true);
+    expect(isSimpleReply(reply(['REPLY']))).toBe(true);
+    expect(isIgnored(reply(['IGNORE']))).toBe(true);
+    expect(isIgnored(reply(['REPLY']))).toBe(false);
+  });
+
+  it('should only run actions A2A callers may trigger', () => {
+    const reply = (actions: string[], text = 'Sure!') => ({ thought: '', actions, providers: [], text });
+
+    expect(restrictToA2AActions(reply(['REPLY', 'REVIEW_INQUIRIES']))).toEqual({
+      response: reply(['REPLY', 'REVIEW_INQUIRIES']),
+      blocked: [],
+    });
+
+    const { response, blocked } = restrictToA2AActions(reply(['REPLY', 'WITHDRAW_LISTING']));
+    expect(blocked).toEqual(['WITHDRAW_LISTING']);
+    expect(response.actions).toEqual(['REPLY']);
+    expect(response.text).toBe("Sure!\n\nThat can only be done by this agent's owner from their own chat.");
+
+    expect(restrictToA2AActions(reply(['CREATE_BUY_REQUEST'], '')).response).toMatchObject({
+      actions: ['REPLY'],
+      text: "That can only be done by this agent's owner from their own chat.",
+    });
+  });
+
+  it('should return sent messages as text parts and action results as data parts', () => {
+    const parts = toReplyParts(
+      [{ text: 'Listing it now.', actions: ['REPLY'] }, { text: '' }, { text: 'Listed #7 for 12 HBAR.' }],
+      [{ success: true, data: { listingId: '7', createdAt: new Date(0) } }, { success: false, error: new Error('No wallet') }]
+    );
+
+    expect(parts).toEqual([
+      { kind: 'text', text: 'Listing it now.', metadata: { actions: ['REPLY'] } },
+      { kind: 'text', text: 'Listed #7 for 12 HBAR.' },
+      { kind: 'data', data: { success: true, data: { listingId: '7', createdAt: '1970-01-01T00:00:00.000Z' } }, metadata: { schema: ACTION_RESULT_SCHEMA } },
+      { kind: 'data', data: { success: false, error: 'No wallet' }, metadata: { schema: ACTION_RESULT_SCHEMA } },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@a2a-js/sdk';
+import { decideByPolicy, enforceSellerPolicy, fallbackPolicy, minimumPrice, negotiationRound } from '../a2a/seller-policy';
+import type { NegotiationPolicy } from '../actions/marketplace/shared/types';
+
+const policy: NegotiationPolicy = {
+  listingId: '7',
+  basePrice: 10,
+  floorPrice: 12,
+  targetPrice: 15,
+  maxRounds: 3,
+  autoAcceptPrice: 14,
+  isDefault: false,
+};
+
+describe('Seller negotiation policy', () => {
+  it('should never use a floor below basePrice', () => {
+    expect(minimumPrice(policy)).toBe(12);
+    expect(minimumPrice({ ...policy, floorPrice: 8 })).toBe(10);
+  });
+
+  it('should veto an accept of a buyer price below the floor', () => {
+    const result = enforceSellerPolicy(
+      { type: 'accept', price: 13, currency: 'HBAR' },
+      policy,
+      { type: 'counter_offer', price: 9, currency: 'HBAR' }
+    );
+
+    expect(result.vetoed).toBe(true);
+    expect(result.offer).toEqual({ type: 'counter_offer', price: 12, currency: 'HBAR' });
+  });
+
+  it('should let counter-offers at or above the floor through', () => {
+    const offer = { type: 'counter_offer' as const, price: 14, currency: 'HBAR' as const };
+    expect(enforceSellerPolicy(offer, policy, null)).toEqual({ offer, vetoed: false });
+  });
+
+  it('should auto-accept offers at or above autoAcceptPrice', () => {
+    expect(decideByPolicy(policy, { type: 'offer', price: 14.5, currency: 'HBAR' }, 1)).toEqual({
+      type: 'accept',
+      price: 14.5,
+      currency: 'HBAR',
+    });
+    expect(decideByPolicy(policy, { type: 'offer', price: 11, currency: 'HBAR' }, 1)).toBeNull();
+  });
+
+  it('should accept or reject at maxRounds', () => {
+    expect(decideByPolicy(policy, { type: 'counter_offer', price: 12, currency: 'HBAR' }, 3)?.type).toBe('accept');
+    expect(decideByPolicy(policy, { type: 'counter_offer', price: 11, currency: 'HBAR' }, 3)?.type).toBe('reject');
+  });
+
+  it('should count rounds from stored tasks, not the caller', () => {
+    const task = (id: string, listingId: string, state: Task['status']['state'] = 'completed'): Task => ({
+      kind: 'task',
+      id,
+      contextId: 'ctx',
+      status: { state },
+      history: [
+        {
+          kind: 'message',
+          messageId: `${id}-m`,
+          role: 'user',
+          parts: [{ kind: 'text', text: 'offer' }],
+          metadata: { listingId, roundNumber: 99 },
+        },
+      ],
+    });
+
+    expect(negotiationRound([], '7', 't1')).toBe(1);
+    expect(negotiationRound([task('t1', '7'), task('t2', '7')], '7', 't3')).toBe(3);
+    // The current task, other listings and unanswered tasks don't count
+    expect(
+      negotiationRound([task('t1', '7'), task('t2', '8'), task('t3', '7', 'failed'), task('t4', '7')], '7', 't4')
+    ).toBe(2);
+  });
+});
+
+describe('Fallback seller policy', () => {
+  const listing = {
+    listingId: '7',
+    sellerAgentId: 3,
+    title: 'Desk lamp',
+    description: '',
+    basePrice: 10,
+    expectedPrice: 15,
+    status: 'OPEN',
+  };
+
+  it('should use the public basePrice as the floor and auto-accept nothing', () => {
+    const fallback = fallbackPolicy(listing);
+
+    expect(fallback).toMatchObject({ listingId: '7', floorPrice: 10, targetPrice: 15, autoAcceptPrice: null, isDefault: true });
+    expect(decideByPolicy(fallback, { type: 'offer', price: 100, currency: 'HBAR' }, 1)).toBeNull();
+    expect(enforceSellerPolicy({ type: 'accept', price: 9, currency: 'HBAR' }, fallback, null).offer).toEqual({
+      type: 'counter_offer',
+      price: 10,
+      currency: 'HBAR',
+    });
+  });
+
+  it('should never target below the floor when expectedPrice is unbounded', () => {
+    expect(fallbackPolicy({ ...listing, expectedPrice: 0 }).targetPrice).toBe(10);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import type { Message } from '@a2a-js/sdk';
+import { createOfferPart } from '../a2a/offer';
+import { describeSkills, resolveSkillId, skillsForAgent, validateSkillInput } from '../a2a/skills';
+
+function message(parts: Message['parts'], metadata?: Record<string, unknown>): Message {
+  return { kind: 'message', messageId: 'msg-1', role: 'user', parts, ...(metadata ? { metadata } : {}) };
+}
+
+describe('Marketplace skills', () => {
+  it('should offer different skills to sellers and buyers', () => {
+    expect(skillsForAgent('give')).toContain('quote-price');
+    expect(skillsForAgent('give')).not.toContain('submit-buy-request');
+    expect(skillsForAgent('want')).toContain('submit-buy-request');
+    expect(skillsForAgent('want')).not.toContain('quote-price');
+  });
+
+  it('should publish a schema for every advertised skill', () => {
+    const { skills, extension } = describeSkills(skillsForAgent('give'), []);
+    const schemas = extension.params?.skills as Record<string, unknown>;
+
+    expect(skills.map((skill) => skill.id)).toEqual(skillsForAgent('give'));
+    expect(Object.keys(schemas)).toEqual(skillsForAgent('give'));
+  });
+
+  it('should route by metadata.skillId and reject skills the agent does not offer', () => {
+    const seller = skillsForAgent('give');
+
+    expect(resolveSkillId(message([{ kind: 'data', data: { listingId: '7' } }], { skillId: 'quote-price' }), seller)).toBe('quote-price');
+    expect(resolveSkillId(message([{ kind: 'text', text: 'hi' }], { skillId: 'submit-buy-request' }), seller)).toBeNull();
+  });
+
+  it('should infer negotiation without an explicit skill', () => {
+    const seller = skillsForAgent('give');
+    const offer = createOfferPart({ type: 'offer', price: 12, currency: 'HBAR' });
+
+    expect(resolveSkillId(message([{ kind: 'text', text: 'How about 12?' }, offer]), seller)).toBe('negotiate-listing');
+    expect(resolveSkillId(message([{ kind: 'text', text: 'Hello' }]), seller)).toBe('general-conversation');
+  });
+
+  it('should validate skill input against its schema', () => {
+    expect(validateSkillInput('quote-price', { listingId: '7' })).toEqual([]);
+    expect(validateSkillInput('quote-price', null)).toEqual(['input must be an object']);
+    expect(
+      validateSkillInput('submit-buy-request', { title: 'Chair', description: 'Blue', minPrice: 5, maxPrice: '20' })
+    ).toEqual(['input.maxPrice must be a number']);
+  });
+});
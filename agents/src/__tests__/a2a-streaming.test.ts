@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'bun:test';
+import { partialJsonStringField } from '../a2a/streaming';
+
+describe('A2A reply streaming', () => {
+  it('should read a string field from incomplete JSON', () => {
+    expect(partialJsonStringField('{"message": "I can do 4', 'message')).toBe('I can do 4');
+    expect(partialJsonStringField('{"message": "Deal!", "offer": {"type": "acc', 'message')).toBe('Deal!');
+  });
+
+  it('should return nothing until the field has started', () => {
+    expect(partialJsonStringField('', 'message')).toBe('');
+    expect(partialJsonStringField('{"mess', 'message')).toBe('');
+  });
+
+  it('should decode escapes and wait for cut-off ones', () => {
+    expect(partialJsonStringField('{"message": "a\\"b\\nc', 'message')).toBe('a"b\nc');
+    expect(partialJsonStringField('{"message": "caf\\u00e9', 'message')).toBe('café');
+    expect(partialJsonStringField('{"message": "caf\\u00', 'message')).toBe('caf');
+    expect(partialJsonStringField('{"message": "end\\', 'message')).toBe('end');
+  });
+});
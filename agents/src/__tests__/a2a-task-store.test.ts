@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '@a2a-js/sdk';
+import type { IAgentRuntime } from '@elizaos/core';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle, type PgliteDatabase } from 'drizzle-orm/pglite';
+import { ElizaTaskStore, normalizePage } from '../a2a/task-store';
+
+describe('A2A task store paging', () => {
+  it('should default to the first page of 50', () => {
+    expect(normalizePage()).toEqual({ offset: 0, limit: 50 });
+    expect(normalizePage({ offset: NaN, limit: NaN })).toEqual({ offset: 0, limit: 50 });
+  });
+
+  it('should clamp offset and limit', () => {
+    expect(normalizePage({ offset: -5, limit: 1000 })).toEqual({ offset: 0, limit: 200 });
+    expect(normalizePage({ offset: 10.7, limit: 0.5 })).toEqual({ offset: 10, limit: 1 });
+  });
+});
+
+const AGENT_ID = '00000000-0000-0000-0000-000000000001';
+
+// Mirrors task-schema.ts (the SQL plugin migrates it in a real agent)
+const SCHEMA_SQL = `
+  CREATE SCHEMA a2a;
+  CREATE TABLE a2a.tasks (
+    id text PRIMARY KEY,
+    agent_id uuid NOT NULL,
+    context_id text NOT NULL,
+    state text NOT NULL,
+    task jsonb NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+  );
+  CREATE TABLE a2a.task_transitions (
+    task_id text NOT NULL REFERENCES a2a.tasks(id) ON DELETE CASCADE,
+    sequence integer NOT NULL,
+    state text NOT NULL,
+    status jsonb NOT NULL,
+    timestamp timestamptz NOT NULL,
+    PRIMARY KEY (task_id, sequence)
+  );
+`;
+
+async function createStore(): Promise<{ store: ElizaTaskStore; db: PgliteDatabase }> {
+  const client = new PGlite();
+  await client.exec(SCHEMA_SQL);
+  const db = drizzle(client);
+  const runtime = { agentId: AGENT_ID, db } as unknown as IAgentRuntime;
+  return { store: new ElizaTaskStore(runtime), db };
+}
+
+function task(state: Task['status']['state'], timestamp: string, contextId = 'room-1', id = 'task-1'): Task {
+  return { kind: 'task', id, contextId, status: { state, timestamp } };
+}
+
+describe('A2A task store persistence', () => {
+  it('should record each status transition in order', async () => {
+    const { store } = await createStore();
+
+    await store.save(task('submitted', '2025-01-01T00:00:00.000Z'));
+    await store.save(task('working', '2025-01-01T00:00:01.000Z'));
+    await store.save(task('completed', '2025-01-01T00:00:02.000Z'));
+
+    const transitions = await store.getTransitions('task-1');
+    expect(transitions?.total).toBe(3);
+    expect(transitions?.items.map((item) => [item.sequence, item.state, item.timestamp])).toEqual([
+      [1, 'submitted', '2025-01-01T00:00:00.000Z'],
+      [2, 'working', '2025-01-01T00:00:01.000Z'],
+      [3, 'completed', '2025-01-01T00:00:02.000Z'],
+    ]);
+    expect((await store.load('task-1'))?.status.state).toBe('completed');
+  });
+
+  it('should not record a transition when the status is saved again unchanged', async () => {
+    const { store } = await createStore();
+
+    await store.save(task('working', '2025-01-01T00:00:01.000Z'));
+    await store.save(task('working', '2025-01-01T00:00:01.000Z'));
+    await store.save(task('working', '2025-01-01T00:00:02.000Z'));
+
+    const transitions = await store.getTransitions('task-1');
+    expect(transitions?.items.map((item) => item.sequence)).toEqual([1, 2]);
+  });
+
+  it('should give concurrent saves of one task distinct sequences', async () => {
+    const { store } = await createStore();
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => store.save(task('working', `2025-01-01T00:00:0${i}.000Z`)))
+    );
+
+    const transitions = await store.getTransitions('task-1');
+    expect(transitions?.items.map((item) => item.sequence)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should retry a save that lost the sequence to a concurrent one', async () => {
+    const { store, db } = await createStore();
+    await store.save(task('submitted', '2025-01-01T00:00:00.000Z'));
+
+    // Another save commits sequence 2 after this one has read sequence 1 as the last
+    const transaction = db.transaction.bind(db);
+    let raced = false;
+    db.transaction = (async (run: Parameters<typeof transaction>[0]) => {
+      if (!raced) {
+        raced = true;
+        await store.save(task('working', '2025-01-01T00:00:01.000Z'));
+        throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+      }
+      return transaction(run);
+    }) as typeof db.transaction;
+
+    await store.save(task('completed', '2025-01-01T00:00:02.000Z'));
+
+    const transitions = await store.getTransitions('task-1');
+    expect(transitions?.items.map((item) => [item.sequence, item.state])).toEqual([
+      [1, 'submitted'],
+      [2, 'working'],
+      [3, 'completed'],
+    ]);
+  });
+
+  it('should not expose tasks of another agent', async () => {
+    const { store, db } = await createStore();
+    await store.save(task('submitted', '2025-01-01T00:00:00.000Z'));
+    const other = new ElizaTaskStore({ agentId: '00000000-0000-0000-0000-000000000002', db } as unknown as IAgentRuntime);
+
+    expect(await other.load('task-1')).toBeUndefined();
+    expect(await other.getTransitions('task-1')).toBeUndefined();
+  });
+
+  it('should list a context oldest first for history and newest first for paging', async () => {
+    const { store } = await createStore();
+    await store.save(task('completed', '2025-01-01T00:00:00.000Z', 'room-1', 'task-1'));
+    await Bun.sleep(5);
+    await store.save(task('completed', '2025-01-01T00:00:01.000Z', 'room-1', 'task-2'));
+    await store.save(task('completed', '2025-01-01T00:00:02.000Z', 'room-2', 'task-3'));
+
+    const history = await store.listContextHistory('room-1');
+    expect(history.map((entry) => entry.task.id)).toEqual(['task-1', 'task-2']);
+    expect((await store.listContextHistory('room-1', history[0].createdAt)).map((entry) => entry.task.id)).toEqual(['task-2']);
+
+    const page = await store.listByContext('room-1', { limit: 1 });
+    expect(page.total).toBe(2);
+    expect(page.items.map((item) => item.id)).toEqual(['task-2']);
+  });
+});
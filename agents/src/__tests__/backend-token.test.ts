@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { IAgentRuntime } from '@elizaos/core';
+
+// marketplaceApi reads BACKEND_URL at import time
+process.env.BACKEND_URL ??= 'http://localhost:4000';
+const { BackendTokenService, tokenExpiry } = await import('../actions/marketplace/services/backendToken');
+const { marketplaceApi } = await import('../actions/marketplace/services/marketplaceApi');
+
+const MINUTE = 60 * 1000;
+
+function jwtExpiringAt(expiresAtMs: number): string {
+  const payload = Buffer.from(JSON.stringify({ exp: expiresAtMs / 1000 })).toString('base64url');
+  return `header.${payload}.signature`;
+}
+
+function runtimeWith(token: string | undefined) {
+  const settings: Record<string, string | undefined> = { BACKEND_AUTH_TOKEN: token };
+  return {
+    agentId: 'agent-1',
+    getSetting: (key: string) => settings[key],
+    setSetting: mock((key: string, value: string) => {
+      settings[key] = value;
+    }),
+  } as unknown as IAgentRuntime & { setSetting: ReturnType<typeof mock> };
+}
+
+describe('Backend token refresh', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should read the expiry of a JWT', () => {
+    expect(tokenExpiry(jwtExpiringAt(60 * MINUTE))).toBe(60 * MINUTE);
+    expect(tokenExpiry('not-a-jwt')).toBeNull();
+  });
+
+  it('should keep a token with more than 15 minutes left', async () => {
+    const refresh = spyOn(marketplaceApi, 'refreshAgentToken');
+    const token = jwtExpiringAt(60 * MINUTE);
+
+    expect(await new BackendTokenService().get(runtimeWith(token), 44 * MINUTE)).toBe(token);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should refresh a token about to expire once for concurrent callers', async () => {
+    const refresh = spyOn(marketplaceApi, 'refreshAgentToken').mockResolvedValue('fresh-token');
+    const runtime = runtimeWith(jwtExpiringAt(60 * MINUTE));
+    const tokens = new BackendTokenService();
+
+    const results = await Promise.all([tokens.get(runtime, 50 * MINUTE), tokens.get(runtime, 50 * MINUTE)]);
+
+    expect(results).toEqual(['fresh-token', 'fresh-token']);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(runtime.setSetting).toHaveBeenCalledWith('BACKEND_AUTH_TOKEN', 'fresh-token', true);
+  });
+
+  it('should fall back to the current token when the refresh fails', async () => {
+    spyOn(marketplaceApi, 'refreshAgentToken').mockRejectedValue(new Error('Agent not found'));
+    spyOn(console, 'warn').mockImplementation(() => {});
+    const token = jwtExpiringAt(60 * MINUTE);
+    const runtime = runtimeWith(token);
+
+    expect(await new BackendTokenService().get(runtime, 50 * MINUTE)).toBe(token);
+    expect(runtime.setSetting).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+
+// marketplaceApi reads BACKEND_URL at import time
+process.env.BACKEND_URL ??= 'http://localhost:4000';
+const { ConfirmationService } = await import('../actions/marketplace/services/confirmation');
+const { isFromOwnerChat } = await import('../actions/marketplace/seller/listingManagement');
+
+const write = {
+  kind: 'cancel_listing' as const,
+  sellerAgentId: 7,
+  listingId: '3',
+  summary: 'Withdraw listing #3',
+  proposedBy: 'owner',
+};
+
+function runtimeWith(room: { source?: string } | null, entity: { names: string[]; metadata?: object } | null) {
+  return {
+    getRoom: async () => room,
+    getEntityById: async () => entity,
+  } as unknown as IAgentRuntime;
+}
+
+function chatMessage(source?: string): Memory {
+  return { entityId: 'owner', roomId: 'room-1', content: { text: 'withdraw listing 3', source } } as unknown as Memory;
+}
+
+describe('Seller listing write confirmation', () => {
+  it('should hold a proposal per conversation until taken', () => {
+    const confirmations = new ConfirmationService();
+    confirmations.request('room-1', write, 1000);
+
+    expect(confirmations.peek('room-2', 1000)).toBeNull();
+    expect(confirmations.peek('room-1', 1000)?.listingId).toBe('3');
+    expect(confirmations.take('room-1', 'owner', 1000)?.kind).toBe('cancel_listing');
+    expect(confirmations.take('room-1', 'owner', 1000)).toBeNull();
+  });
+
+  it('should replace an earlier proposal in the same conversation', () => {
+    const confirmations = new ConfirmationService();
+    confirmations.request('room-1', write, 1000);
+    confirmations.request('room-1', { ...write, kind: 'complete_listing', listingId: '4' }, 1000);
+
+    expect(confirmations.take('room-1', 'owner', 1000)).toMatchObject({ kind: 'complete_listing', listingId: '4' });
+  });
+
+  it('should drop proposals after 10 minutes', () => {
+    const confirmations = new ConfirmationService();
+    confirmations.request('room-1', write, 0);
+
+    expect(confirmations.peek('room-1', 10 * 60 * 1000 - 1)).not.toBeNull();
+    expect(confirmations.peek('room-1', 10 * 60 * 1000)).toBeNull();
+  });
+
+  it('should only treat whole-message replies as yes or no', () => {
+    const confirmations = new ConfirmationService();
+
+    expect(confirmations.classifyReply('Yes!')).toBe('confirm');
+    expect(confirmations.classifyReply(' はい。')).toBe('confirm');
+    expect(confirmations.classifyReply('no')).toBe('reject');
+    expect(confirmations.classifyReply('cancel')).toBe('reject');
+    expect(confirmations.classifyReply('cancel listing 3')).toBeNull();
+    expect(confirmations.classifyReply('yes but lower the price first')).toBeNull();
+  });
+
+  it('should only let the entity that proposed a write answer it', () => {
+    const confirmations = new ConfirmationService();
+    confirmations.request('room-1', write, 1000);
+
+    expect(confirmations.pendingFor('room-1', 'a2a-client', 1000)).toBeNull();
+    expect(confirmations.take('room-1', 'a2a-client', 1000)).toBeNull();
+    expect(confirmations.pendingFor('room-1', 'owner', 1000)?.listingId).toBe('3');
+    expect(confirmations.take('room-1', 'owner', 1000)?.kind).toBe('cancel_listing');
+  });
+
+  it("should only treat the owner's own chat as allowed to change listings", async () => {
+    const owner = { names: ['Alice'], metadata: { web: {} } };
+
+    expect(await isFromOwnerChat(runtimeWith({ source: 'web' }, owner), chatMessage('web'))).toBe(true);
+    expect(await isFromOwnerChat(runtimeWith({ source: 'web' }, owner), chatMessage('a2a'))).toBe(false);
+    expect(await isFromOwnerChat(runtimeWith({ source: 'a2a' }, owner), chatMessage())).toBe(false);
+    expect(
+      await isFromOwnerChat(runtimeWith({ source: 'web' }, { names: ['A2A client', 'a2a-client'] }), chatMessage())
+    ).toBe(false);
+    expect(await isFromOwnerChat(runtimeWith(null, { names: [], metadata: { a2a: {} } }), chatMessage())).toBe(false);
+  });
+});
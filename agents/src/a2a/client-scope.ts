@@ -0,0 +1,154 @@
+/**
+ * A2A Client Scope
+ * The backend proxy checks each client's own API key and forwards the client's
+ * key ID, signed with A2A_INTERNAL_API_KEY, instead of the internal key itself.
+ * Messages from a client are tagged with its ID, so the tasks and contexts it
+ * starts are its own; it cannot reach anyone else's. Requests carrying the
+ * internal key (the backend's own negotiation traffic) reach every task.
+ * The proxy also signs whether the client's key belongs to the agent's owner,
+ * which owner-only skills check (see isOwnerOrInternal).
+ */
+
+import type { Message, Task } from '@a2a-js/sdk';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+export const CLIENT_ID_HEADER = 'X-A2A-Client-Id';
+export const CLIENT_OWNER_HEADER = 'X-A2A-Client-Owner';
+export const CLIENT_SIGNATURE_HEADER = 'X-A2A-Client-Signature';
+
+// Message metadata keys holding the client that sent it (absent for internal traffic)
+export const CLIENT_METADATA_KEY = 'a2aClientId';
+export const CLIENT_OWNER_METADATA_KEY = 'a2aClientIsOwner';
+
+// JSON-RPC error codes (A2A TaskNotFoundError, JSON-RPC invalid params)
+const TASK_NOT_FOUND = -32001;
+const INVALID_PARAMS = -32602;
+
+export type A2AClientCaller = { kind: 'client'; clientId: string; isOwner: boolean };
+export type A2ACaller = { kind: 'internal' } | A2AClientCaller;
+
+export interface ScopeError {
+  code: number;
+  message: string;
+}
+
+/**
+ * Tasks the scope checks look up
+ */
+export interface ScopedTaskStore {
+  load(taskId: string): Promise<Task | undefined>;
+  listContextHistory(contextId: string): Promise<Array<{ task: Task }>>;
+}
+
+/**
+ * Signature the backend proxy sends with a client's ID and owner flag
+ */
+export function signClientId(clientId: string, isOwner: boolean, internalKey: string): string {
+  return createHmac('sha256', internalKey)
+    .update(`${clientId}:${isOwner ? 'owner' : 'client'}`)
+    .digest('hex');
+}
+
+/**
+ * Identify the caller from the request headers
+ * Returns null unless it has the internal key or a correctly signed client ID.
+ */
+export function authenticateCaller(
+  headers: { apiKey?: string; clientId?: string; owner?: string; signature?: string },
+  internalKey: string
+): A2ACaller | null {
+  if (headers.apiKey !== undefined && constantTimeEquals(headers.apiKey, internalKey)) {
+    return { kind: 'internal' };
+  }
+
+  const isOwner = headers.owner === 'true';
+  if (
+    headers.clientId &&
+    headers.signature !== undefined &&
+    constantTimeEquals(headers.signature, signClientId(headers.clientId, isOwner, internalKey))
+  ) {
+    return { kind: 'client', clientId: headers.clientId, isOwner };
+  }
+  return null;
+}
+
+/**
+ * The client that sent a message, or null for internal traffic
+ */
+export function messageClientId(message: Message): string | null {
+  const clientId = message.metadata?.[CLIENT_METADATA_KEY];
+  return typeof clientId === 'string' ? clientId : null;
+}
+
+/**
+ * Whether a message came from the backend itself or the agent owner's own key
+ */
+export function isOwnerOrInternal(message: Message): boolean {
+  return messageClientId(message) === null || message.metadata?.[CLIENT_OWNER_METADATA_KEY] === true;
+}
+
+/**
+ * The client that started a task, or null for internal traffic
+ */
+export function taskClientId(task: Task): string | null {
+  const first = task.history?.[0];
+  return first ? messageClientId(first) : null;
+}
+
+/**
+ * Check a client's JSON-RPC request against its scope, tagging any message it sends
+ * Returns the error to answer with, or null if the request may proceed.
+ */
+export async function authorizeClientRequest(
+  body: any,
+  { clientId, isOwner }: A2AClientCaller,
+  taskStore: ScopedTaskStore
+): Promise<ScopeError | null> {
+  const method: unknown = body?.method;
+  const params = body?.params ?? {};
+
+  if (method === 'message/send' || method === 'message/stream') {
+    const message = params.message as Message | undefined;
+    if (!message) {
+      return null; // Left to the handler's own validation
+    }
+
+    // Set by the server, never taken from the client
+    message.metadata = { ...message.metadata, [CLIENT_METADATA_KEY]: clientId, [CLIENT_OWNER_METADATA_KEY]: isOwner };
+
+    if (message.taskId && !(await ownsTask(message.taskId, clientId, taskStore))) {
+      return { code: TASK_NOT_FOUND, message: 'Task not found' };
+    }
+    // Only the client's own contexts can be continued; new ones get a server-generated ID,
+    // so a client cannot claim a context ID (e.g. a public negotiation room ID) before it is used
+    if (message.contextId) {
+      const history = await taskStore.listContextHistory(message.contextId);
+      if (history.length === 0 || history.some(({ task }) => taskClientId(task) !== clientId)) {
+        return { code: INVALID_PARAMS, message: 'Unknown contextId; omit it to start a new conversation' };
+      }
+    }
+    return null;
+  }
+
+  if (typeof method === 'string' && method.startsWith('tasks/')) {
+    const taskId = params.taskId ?? params.id;
+    if (typeof taskId !== 'string' || !(await ownsTask(taskId, clientId, taskStore))) {
+      return { code: TASK_NOT_FOUND, message: 'Task not found' };
+    }
+  }
+
+  return null;
+}
+
+async function ownsTask(taskId: string, clientId: string, taskStore: ScopedTaskStore): Promise<boolean> {
+  const task = await taskStore.load(taskId);
+  return task !== undefined && taskClientId(task) === clientId;
+}
+
+/**
+ * Compare secrets in constant time whatever their lengths (by hashing first)
+ */
+function constantTimeEquals(value: string, expected: string): boolean {
+  const hash = (input: string) => createHash('sha256').update(input).digest();
+  return timingSafeEqual(hash(value), hash(expected));
+}
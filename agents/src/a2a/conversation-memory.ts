@@ -0,0 +1,178 @@
+/**
+ * Conversation memory per A2A contextId
+ * The transcript is rebuilt from the context's stored tasks (request message
+ * and final reply of each), so callers only need to send the new message.
+ * Past MAX_TURNS, the oldest turns are folded into a running summary.
+ */
+
+import type { Part, Task } from '@a2a-js/sdk';
+import type { IAgentRuntime } from '@elizaos/core';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { and, eq } from 'drizzle-orm';
+import { extractOffer } from './offer.js';
+import type { NegotiationOffer } from './offer.js';
+import { contextRoomId } from './runtime-reply.js';
+import { a2aContexts } from './task-schema.js';
+import type { ElizaTaskStore } from './task-store.js';
+
+// Turns replayed verbatim before the oldest are summarized
+const MAX_TURNS = 20;
+// Turns kept verbatim after summarizing
+const KEEP_TURNS = 10;
+
+export interface ConversationTurn {
+  role: 'user' | 'agent';
+  text: string;
+  offer: NegotiationOffer | null;
+}
+
+export interface ConversationRecall {
+  summary: string | null;
+  turns: ConversationTurn[];
+}
+
+/**
+ * Summarize turns into a new summary, given the previous one
+ */
+export type Summarizer = (previousSummary: string | null, turns: ConversationTurn[]) => Promise<string>;
+
+function textOf(parts: Part[]): string {
+  const textPart = parts.find((p) => p.kind === 'text') as { kind: 'text'; text: string } | undefined;
+  return textPart?.text || '';
+}
+
+/**
+ * Request and reply of a finished task, in order
+ * Tasks without a completed reply contribute nothing.
+ */
+export function taskToTurns(task: Task): ConversationTurn[] {
+  const request = task.history?.find((message) => message.role === 'user');
+  const reply = task.status.message;
+
+  if (task.status.state !== 'completed' || !request || !reply) {
+    return [];
+  }
+
+  return [
+    { role: 'user', text: textOf(request.parts), offer: extractOffer(request.parts) },
+    { role: 'agent', text: textOf(reply.parts), offer: extractOffer(reply.parts) },
+  ];
+}
+
+/**
+ * Split a transcript that is over the cap into turns to summarize and turns to keep
+ * Whole tasks (request and reply) always stay together.
+ */
+export function splitForSummary(
+  turns: ConversationTurn[],
+  maxTurns = MAX_TURNS,
+  keepTurns = KEEP_TURNS
+): { summarize: ConversationTurn[]; keep: ConversationTurn[] } {
+  if (turns.length <= maxTurns) {
+    return { summarize: [], keep: turns };
+  }
+
+  // Turns come in request/reply pairs; never cut between the two
+  let cut = turns.length - keepTurns;
+  if (cut % 2 === 1) {
+    cut++;
+  }
+  return { summarize: turns.slice(0, cut), keep: turns.slice(cut) };
+}
+
+/**
+ * Offer annotation appended to a turn's text, e.g. "[counter_offer 12 HBAR]"
+ */
+export function formatOffer(offer: NegotiationOffer | null): string {
+  return offer ? `[${offer.type}${offer.price !== undefined ? ` ${offer.price} ${offer.currency}` : ''}]` : '';
+}
+
+export class ConversationMemory {
+  private runtime: IAgentRuntime;
+  private taskStore: ElizaTaskStore;
+
+  constructor(runtime: IAgentRuntime, taskStore: ElizaTaskStore) {
+    this.runtime = runtime;
+    this.taskStore = taskStore;
+  }
+
+  private get db(): PgDatabase<PgQueryResultHKT> {
+    return this.runtime.db;
+  }
+
+  private async getContext(contextId: string) {
+    const [row] = await this.db
+      .select()
+      .from(a2aContexts)
+      .where(and(eq(a2aContexts.agentId, this.runtime.agentId), eq(a2aContexts.contextId, contextId)))
+      .limit(1);
+    return row;
+  }
+
+  private async saveContext(
+    contextId: string,
+    values: { summary: string | null; summarizedUntil: Date | null; resetAt?: Date }
+  ): Promise<void> {
+    await this.db
+      .insert(a2aContexts)
+      .values({ agentId: this.runtime.agentId, contextId, ...values })
+      .onConflictDoUpdate({
+        target: [a2aContexts.agentId, a2aContexts.contextId],
+        set: { ...values, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Transcript of a context, excluding the task being executed
+   * Summarizes (and records) the oldest turns when the transcript is over the cap;
+   * if summarizing fails they are dropped for this request only.
+   */
+  async recall(contextId: string, currentTaskId: string, summarize: Summarizer): Promise<ConversationRecall> {
+    const context = await this.getContext(contextId);
+    const after = [context?.resetAt, context?.summarizedUntil]
+      .filter((date): date is Date => Boolean(date))
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    const history = (await this.taskStore.listContextHistory(contextId, after)).filter(
+      ({ task }) => task.id !== currentTaskId
+    );
+    const turnsByTask = history.map(({ task, createdAt }) => ({ turns: taskToTurns(task), createdAt }));
+    const turns = turnsByTask.flatMap((entry) => entry.turns);
+    const summary = context?.summary ?? null;
+
+    const { summarize: older, keep } = splitForSummary(turns);
+    if (older.length === 0) {
+      return { summary, turns };
+    }
+
+    // Summarized up to the last task whose turns were folded in
+    let counted = 0;
+    const lastSummarized = turnsByTask.find((entry) => {
+      counted += entry.turns.length;
+      return counted >= older.length;
+    });
+
+    try {
+      const newSummary = await summarize(summary, older);
+      await this.saveContext(contextId, {
+        summary: newSummary,
+        summarizedUntil: lastSummarized?.createdAt ?? new Date(),
+      });
+      console.log(`🧠 Summarized ${older.length} turns of context ${contextId}`);
+      return { summary: newSummary, turns: keep };
+    } catch (error: any) {
+      console.warn(`⚠️ Could not summarize context ${contextId}: ${error.message}`);
+      return { summary, turns: keep };
+    }
+  }
+
+  /**
+   * Forget everything said in a context so far
+   * Also clears the context's ElizaOS room used by general conversation.
+   */
+  async reset(contextId: string): Promise<void> {
+    await this.saveContext(contextId, { summary: null, summarizedUntil: null, resetAt: new Date() });
+    await this.runtime.deleteAllMemories(contextRoomId(this.runtime, contextId), 'messages');
+    console.log(`🧹 Conversation memory reset for context ${contextId}`);
+  }
+}
@@ -1,33 +1,175 @@
 /**
  * ElizaOS Runtime-based AgentExecutor for A2A SDK
- * Uses OpenAI API directly for simplicity
+ * Routes each request to one of the agent's marketplace skills (see skills.ts).
+ * Conversation runs through the ElizaOS message pipeline (providers, actions,
+ * evaluators) like web chat; negotiation calls OpenAI directly for JSON offers
+ * bounded by the seller's policy.
  */
 
 import { AgentExecutor, RequestContext, ExecutionEventBus } from '@a2a-js/sdk/server';
-import { Message } from '@a2a-js/sdk';
-import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { Part, Task, TaskArtifactUpdateEvent, TaskState, TaskStatusUpdateEvent } from '@a2a-js/sdk';
+import { ChannelType, composePromptFromState, createUniqueUuid, messageHandlerTemplate, ModelType } from '@elizaos/core';
+import type { Content, IAgentRuntime, Memory, UUID } from '@elizaos/core';
 import { v4 as uuidv4 } from 'uuid';
 import OpenAI from 'openai';
+import { createOfferPart, extractOffer, parseNegotiationOffer, NegotiationOffer } from './offer.js';
+import {
+  decideByPolicy,
+  describeSellerPolicy,
+  enforceSellerPolicy,
+  fallbackPolicy,
+  negotiationRound,
+  policyMessage,
+} from './seller-policy.js';
+import { partialJsonStringField } from './streaming.js';
+import { isOwnerOrInternal } from './client-scope.js';
+import { formatOffer } from './conversation-memory.js';
+import type { ConversationMemory, ConversationTurn } from './conversation-memory.js';
+import type { ElizaTaskStore } from './task-store.js';
+import {
+  contextRoomId,
+  isIgnored,
+  isSimpleReply,
+  parsePlannedResponse,
+  restrictToA2AActions,
+  toReplyParts,
+} from './runtime-reply.js';
+import { getSkillInput, resolveSkillId, SKILL_RESULT_SCHEMA, validateSkillInput } from './skills.js';
+import type { AgentType, MarketplaceSkillId } from './skills.js';
+import { backendTokens, marketplaceApi, paramExtractor } from '../actions/marketplace/services/index.js';
+import type { BuyRequestParams, NegotiationPolicy } from '../actions/marketplace/shared/types';
+
+// Appended to the system prompt for negotiation messages so the reply carries a typed offer
+const NEGOTIATION_OUTPUT_INSTRUCTIONS = `
+
+When replying in a negotiation, respond ONLY with a JSON object:
+{
+  "message": "your reply to the counterparty (max 80 words)",
+  "offer": { "type": "offer" | "counter_offer" | "accept" | "reject", "price": number in HBAR }
+}
+- "offer"/"counter_offer": the price you are proposing now
+- "accept": the counterparty's price you are accepting
+- "reject": end the negotiation (price may be omitted)
+The offer is binding: never mention a different price in the message.`;
+
+const SUMMARY_INSTRUCTIONS = `Summarize this conversation for your own future reference in under 150 words.
+Keep every price offered or accepted by each side, commitments made, and open questions.`;
 
 export class ElizaAgentExecutor implements AgentExecutor {
   private runtime: IAgentRuntime;
   private roomId: UUID;
+  // give (seller) agents negotiate within their listings' policies
+  private agentType: AgentType;
+  // Skills advertised in this agent's card; requests are routed by skill id
+  private skills: MarketplaceSkillId[];
+  // Per-contextId transcripts replayed into negotiations
+  private memory: ConversationMemory;
+  // Stored tasks, for counting negotiation rounds server-side
+  private taskStore: ElizaTaskStore;
+  // In-flight tasks, so cancelTask can abort their completion request
+  private runningTasks = new Map<string, { contextId: string; abortController: AbortController }>();
 
-  constructor(runtime: IAgentRuntime, roomId: UUID) {
+  constructor(
+    runtime: IAgentRuntime,
+    roomId: UUID,
+    agentType: AgentType,
+    skills: MarketplaceSkillId[],
+    memory: ConversationMemory,
+    taskStore: ElizaTaskStore
+  ) {
     this.runtime = runtime;
     this.roomId = roomId;
+    this.agentType = agentType;
+    this.skills = skills;
+    this.memory = memory;
+    this.taskStore = taskStore;
   }
 
   /**
    * Execute agent logic using ElizaOS runtime
+   * Every request runs as a task: "working" until the reply completes it,
+   * so tasks/cancel can find and stop it.
    */
   async execute(ctx: RequestContext, eventBus: ExecutionEventBus): Promise<void> {
+    const { taskId, contextId } = ctx;
+    const abortController = new AbortController();
+    this.runningTasks.set(taskId, { contextId, abortController });
+
+    if (ctx.task) {
+      this.publishStatus(eventBus, ctx, 'working', null, false);
+    } else {
+      const task: Task = {
+        kind: 'task',
+        id: taskId,
+        contextId,
+        status: { state: 'working', timestamp: new Date().toISOString() },
+        history: [ctx.userMessage],
+      };
+      eventBus.publish(task);
+    }
+
     try {
+      const skillId = resolveSkillId(ctx.userMessage, this.skills);
+      if (!skillId) {
+        const text = `Skill "${ctx.userMessage.metadata?.skillId}" is not offered by this agent. Available skills: ${this.skills.join(', ')}`;
+        this.publishStatus(eventBus, ctx, 'rejected', [{ kind: 'text', text }]);
+        return;
+      }
+
+      const problems = validateSkillInput(skillId, getSkillInput(ctx.userMessage.parts));
+      if (problems.length > 0) {
+        const text = `Invalid input for ${skillId}: ${problems.join('; ')}`;
+        this.publishStatus(eventBus, ctx, 'failed', [{ kind: 'text', text }]);
+        return;
+      }
+
+      console.log(`🧭 Task ${taskId} routed to skill ${skillId}`);
+
+      if (skillId === 'quote-price') {
+        await this.quotePrice(eventBus, ctx);
+        return;
+      }
+      if (skillId === 'submit-buy-request') {
+        await this.submitBuyRequest(eventBus, ctx);
+        return;
+      }
+      if (skillId === 'general-conversation') {
+        await this.replyThroughRuntime(eventBus, ctx, abortController.signal);
+        return;
+      }
+
       const textPart = ctx.userMessage.parts.find((p) => p.kind === 'text') as
         | { kind: 'text'; text: string }
         | undefined;
       const userMessage = textPart?.text || '';
 
+      const incomingOffer = extractOffer(ctx.userMessage.parts);
+
+      // Seller side: the message names the listing, whose policy bounds what we may agree to.
+      // Without a policy (or at least the listing's public floor) the seller does not negotiate.
+      let policy: NegotiationPolicy | null = null;
+      if (this.agentType === 'give') {
+        const listingId = ctx.userMessage.metadata?.listingId;
+        policy = typeof listingId === 'string' ? await this.resolvePolicy(listingId) : null;
+        if (!policy) {
+          const text = typeof listingId === 'string'
+            ? `Listing #${listingId} is not sold by this agent, or its pricing is unavailable right now`
+            : 'Name the listing to negotiate in metadata.listingId';
+          this.publishStatus(eventBus, ctx, 'rejected', [{ kind: 'text', text }]);
+          return;
+        }
+      }
+      const round = policy ? await this.currentRound(contextId, taskId, policy.listingId) : 0;
+
+      if (policy) {
+        const decided = decideByPolicy(policy, incomingOffer, round);
+        if (decided) {
+          console.log(`📏 Listing #${policy.listingId} policy decided: ${decided.type}${decided.price !== undefined ? ` ${decided.price} HBAR` : ''}`);
+          this.publishNegotiationReply(eventBus, ctx, policyMessage(decided), decided);
+          return;
+        }
+      }
+
       const apiKey = this.runtime.getSetting('OPENAI_API_KEY') || process.env.OPENAI_API_KEY;
       if (!apiKey) {
         throw new Error('OPENAI_API_KEY not found in runtime settings or environment');
@@ -40,69 +182,465 @@ export class ElizaAgentExecutor implements AgentExecutor {
       const systemPrompt = this.runtime.character.system || 'You are a helpful AI assistant.';
       const model = this.runtime.character.settings?.model || 'gpt-4o-mini';
 
-      const completion = await openai.chat.completions.create({
+      // Earlier turns of this context, so callers only need to send the new message
+      const { summary, turns } = await this.memory
+        .recall(contextId, taskId, (previous, older) => this.summarizeTurns(openai, String(model), previous, older))
+        .catch((error: any) => {
+          console.warn(`⚠️ Conversation memory unavailable for context ${contextId}: ${error.message}`);
+          return { summary: null, turns: [] as ConversationTurn[] };
+        });
+
+      const stream = await openai.chat.completions.create({
         model,
         messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
+          {
+            role: 'system',
+            content: systemPrompt + (policy ? describeSellerPolicy(policy, round) : '') + NEGOTIATION_OUTPUT_INSTRUCTIONS,
+          },
+          ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }] : []),
+          ...turns.map((turn) => this.toChatMessage(turn)),
+          this.toChatMessage({ role: 'user', text: userMessage, offer: incomingOffer }),
         ],
         max_tokens: 1000,
-      });
+        stream: true,
+        response_format: { type: 'json_object' as const },
+      }, { signal: abortController.signal });
 
-      const responseContent = completion.choices[0]?.message?.content || 'I apologize, but I was unable to generate a response.';
+      // Stream the reply text as artifact chunks; replies are JSON, so only
+      // their "message" field is streamed
+      const artifactId = `${taskId}-reply`;
+      let streamedContent = '';
+      let streamedText = '';
 
-      const responseMessage: Message = {
-        kind: 'message',
-        messageId: uuidv4(),
-        role: 'agent',
-        parts: [
-          {
-            kind: 'text',
-            text: responseContent || 'Message processed',
-          },
-        ],
-      };
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (!delta) {
+          continue;
+        }
 
-      eventBus.publish(responseMessage);
-      eventBus.finished();
+        streamedContent += delta;
+        const text = partialJsonStringField(streamedContent, 'message');
+        if (text.length > streamedText.length) {
+          this.publishArtifactChunk(eventBus, ctx, artifactId, text.slice(streamedText.length), streamedText.length > 0, false);
+          streamedText = text;
+        }
+      }
+      this.publishArtifactChunk(eventBus, ctx, artifactId, '', true, true);
+
+      const responseContent = streamedContent || 'I apologize, but I was unable to generate a response.';
+      let { text, offer } = this.parseNegotiationReply(responseContent);
+
+      if (policy && offer) {
+        const enforced = enforceSellerPolicy(offer, policy, incomingOffer);
+        if (enforced.vetoed) {
+          console.warn(`🛑 Vetoed ${offer.type} below floor for listing #${policy.listingId}`);
+          offer = enforced.offer;
+          text = policyMessage(offer);
+        }
+      }
+
+      this.publishNegotiationReply(eventBus, ctx, text, offer);
     } catch (error: any) {
+      // cancelTask has already published the final "canceled" status
+      if (abortController.signal.aborted) {
+        console.log(`🚫 Task ${taskId} stopped after cancellation`);
+        return;
+      }
+
       console.error('❌ Execution error:', error);
+      this.publishStatus(eventBus, ctx, 'failed', [{ kind: 'text', text: `Error: ${error.message}` }]);
+    } finally {
+      this.runningTasks.delete(taskId);
+    }
+  }
 
-      // Publish error message
-      const errorMessage: Message = {
-        kind: 'message',
-        messageId: uuidv4(),
-        role: 'agent',
-        parts: [
-          {
-            kind: 'text',
-            text: `Error: ${error.message}`,
-          },
-        ],
-      };
-      eventBus.publish(errorMessage);
+  /**
+   * Publish a chunk of the streamed reply
+   * The final status message still carries the full reply, which may differ
+   * from the streamed text (e.g. after a seller policy veto).
+   */
+  private publishArtifactChunk(
+    eventBus: ExecutionEventBus,
+    ctx: RequestContext,
+    artifactId: string,
+    text: string,
+    append: boolean,
+    lastChunk: boolean
+  ) {
+    const update: TaskArtifactUpdateEvent = {
+      kind: 'artifact-update',
+      taskId: ctx.taskId,
+      contextId: ctx.contextId,
+      artifact: {
+        artifactId,
+        name: 'reply',
+        parts: [{ kind: 'text', text }],
+      },
+      append,
+      lastChunk,
+    };
+
+    eventBus.publish(update);
+  }
+
+  /**
+   * Publish a task status update, ending the task unless it is still working
+   */
+  private publishStatus(
+    eventBus: ExecutionEventBus,
+    ctx: RequestContext,
+    state: TaskState,
+    parts: Part[] | null,
+    final = true
+  ) {
+    const update: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId: ctx.taskId,
+      contextId: ctx.contextId,
+      status: {
+        state,
+        timestamp: new Date().toISOString(),
+        ...(parts
+          ? {
+              message: {
+                kind: 'message',
+                messageId: uuidv4(),
+                role: 'agent',
+                parts,
+                taskId: ctx.taskId,
+                contextId: ctx.contextId,
+              },
+            }
+          : {}),
+      },
+      final,
+    };
+
+    eventBus.publish(update);
+    if (final) {
       eventBus.finished();
     }
   }
 
   /**
-   * Cancel a running task
+   * Replay a transcript turn as a chat message
+   * Our replies are replayed in the JSON format the model must answer in.
    */
-  async cancelTask(taskId: string, eventBus: ExecutionEventBus): Promise<void> {
-    console.log(`🚫 Cancelling task: ${taskId}`);
+  private toChatMessage(turn: ConversationTurn): { role: 'user' | 'assistant'; content: string } {
+    if (turn.role === 'agent') {
+      return { role: 'assistant', content: JSON.stringify({ message: turn.text, offer: turn.offer }) };
+    }
+
+    const offer = turn.offer
+      ? `\n\n[Counterparty offer: ${turn.offer.type}${turn.offer.price !== undefined ? ` at ${turn.offer.price} ${turn.offer.currency}` : ''}]`
+      : '';
+    return { role: 'user', content: turn.text + offer };
+  }
 
-    const response: Message = {
-      kind: 'message',
-      messageId: uuidv4(),
-      role: 'agent',
-      parts: [
+  /**
+   * Fold turns that no longer fit the transcript into the context's summary
+   */
+  private async summarizeTurns(
+    openai: OpenAI,
+    model: string,
+    previousSummary: string | null,
+    turns: ConversationTurn[]
+  ): Promise<string> {
+    const transcript = turns
+      .map((turn) => `${turn.role === 'agent' ? 'YOU' : 'COUNTERPARTY'}: ${turn.text} ${formatOffer(turn.offer)}`.trim())
+      .join('\n');
+
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
         {
-          kind: 'text',
-          text: `Task ${taskId} has been cancelled.`,
+          role: 'user',
+          content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}Conversation:\n${transcript}`,
         },
       ],
+      max_tokens: 300,
+    });
+
+    const summary = completion.choices[0]?.message?.content?.trim();
+    if (!summary) {
+      throw new Error('Empty summary');
+    }
+    return summary;
+  }
+
+  /**
+   * general-conversation: answer through the ElizaOS message pipeline
+   * Each A2A context gets its own API room, so providers see its earlier
+   * messages. Only the actions in A2A_ALLOWED_ACTIONS run. The model's reply
+   * and the output of every action it runs are streamed as they arrive and
+   * returned as the task's parts.
+   */
+  private async replyThroughRuntime(eventBus: ExecutionEventBus, ctx: RequestContext, signal: AbortSignal) {
+    const textPart = ctx.userMessage.parts.find((p) => p.kind === 'text') as { kind: 'text'; text: string } | undefined;
+    const roomId = contextRoomId(this.runtime, ctx.contextId);
+    const entityId = createUniqueUuid(this.runtime, `a2a-client-${ctx.contextId}`);
+
+    await this.runtime.ensureConnection({
+      entityId,
+      roomId,
+      worldId: createUniqueUuid(this.runtime, 'a2a'),
+      worldName: 'A2A',
+      userName: 'a2a-client',
+      name: 'A2A client',
+      source: 'a2a',
+      channelId: ctx.contextId,
+      type: ChannelType.API,
+    });
+
+    const message: Memory = {
+      id: uuidv4() as UUID,
+      entityId,
+      agentId: this.runtime.agentId,
+      roomId,
+      content: { text: textPart?.text || '', source: 'a2a', channelType: ChannelType.API },
+      createdAt: Date.now(),
     };
-    eventBus.publish(response);
+    await this.runtime.createMemory(message, 'messages');
+
+    const state = await this.runtime.composeState(message);
+    const prompt = composePromptFromState({
+      state,
+      template: this.runtime.character.templates?.messageHandlerTemplate || messageHandlerTemplate,
+    });
+    const plan = parsePlannedResponse(await this.runtime.useModel(ModelType.TEXT_LARGE, { prompt }));
+    signal.throwIfAborted();
+
+    if (!plan || isIgnored(plan)) {
+      this.publishStatus(eventBus, ctx, 'completed', [{ kind: 'text', text: 'Message processed' }]);
+      return;
+    }
+
+    // Remote callers must not reach the owner's actions (listing writes, buy requests)
+    const { response: planned, blocked } = restrictToA2AActions(plan);
+    if (blocked.length > 0) {
+      console.warn(`🚫 Task ${ctx.taskId}: not running owner-only actions for an A2A caller: ${blocked.join(', ')}`);
+    }
+
+    const responseMemory: Memory = {
+      id: uuidv4() as UUID,
+      entityId: this.runtime.agentId,
+      agentId: this.runtime.agentId,
+      roomId,
+      content: { ...planned, source: 'a2a', inReplyTo: message.id },
+      createdAt: Date.now(),
+    };
+    await this.runtime.createMemory(responseMemory, 'messages');
+
+    const artifactId = `${ctx.taskId}-reply`;
+    const sent: Content[] = [];
+    let streamed = false;
+    const send = async (content: Content): Promise<Memory[]> => {
+      if (content.text) {
+        this.publishArtifactChunk(eventBus, ctx, artifactId, streamed ? `\n\n${content.text}` : content.text, streamed, false);
+        streamed = true;
+      }
+      sent.push(content);
+      return [];
+    };
+
+    if (isSimpleReply(planned)) {
+      await send(responseMemory.content);
+    } else {
+      console.log(`⚙️ Task ${ctx.taskId} running actions: ${planned.actions.join(', ')}`);
+      await this.runtime.processActions(message, [responseMemory], state, async (content) => {
+        // Action output becomes part of the room's history, as in web chat
+        await this.runtime.createMemory(
+          { entityId: this.runtime.agentId, agentId: this.runtime.agentId, roomId, content: { ...content, source: 'a2a' } },
+          'messages'
+        );
+        return send(content);
+      });
+    }
+    signal.throwIfAborted();
+    this.publishArtifactChunk(eventBus, ctx, artifactId, '', true, true);
+
+    const parts = toReplyParts(sent, this.runtime.getActionResults(message.id!));
+    this.publishStatus(eventBus, ctx, 'completed', parts.length > 0 ? parts : [{ kind: 'text', text: 'Message processed' }]);
+
+    // Evaluators (facts, reflection) only update memory; the caller doesn't wait for them
+    this.runtime
+      .evaluate(message, state, true, undefined, [responseMemory])
+      .catch((error: any) => console.warn(`⚠️ Evaluators failed for task ${ctx.taskId}: ${error.message}`));
+  }
+
+  /**
+   * quote-price: the asking price of one of this seller's listings
+   * The floor stays confidential; only the target price is quoted.
+   */
+  private async quotePrice(eventBus: ExecutionEventBus, ctx: RequestContext) {
+    const listingId = String(getSkillInput(ctx.userMessage.parts)?.listingId);
+    const policy = await this.resolvePolicy(listingId);
+
+    if (!policy) {
+      this.publishStatus(eventBus, ctx, 'rejected', [{ kind: 'text', text: `Listing #${listingId} is not sold by this agent` }]);
+      return;
+    }
+
+    const quote = {
+      listingId,
+      askingPrice: policy.targetPrice,
+      currency: 'HBAR',
+      maxRounds: policy.maxRounds,
+    };
+
+    this.publishStatus(eventBus, ctx, 'completed', [
+      { kind: 'text', text: `Listing #${listingId} is offered at ${quote.askingPrice} HBAR.` },
+      this.createResultPart('quote-price', quote),
+    ]);
+  }
+
+  /**
+   * submit-buy-request: post a buy request on behalf of this buyer
+   * Owner only: matching listings are negotiated and paid for from the owner's account.
+   */
+  private async submitBuyRequest(eventBus: ExecutionEventBus, ctx: RequestContext) {
+    if (!isOwnerOrInternal(ctx.userMessage)) {
+      this.publishStatus(eventBus, ctx, 'rejected', [
+        { kind: 'text', text: "submit-buy-request is only available with the buyer agent owner's API key" },
+      ]);
+      return;
+    }
+
+    const input = getSkillInput(ctx.userMessage.parts)!;
+    const buyerAgentId = await paramExtractor.getAgentId(this.runtime, 'buyer');
+    const negotiationStrategy = this.runtime.getSetting('NEGOTIATION_STRATEGY') as
+      | BuyRequestParams['negotiationStrategy']
+      | undefined;
+    // A per-request minimum takes precedence over the agent's setting
+    const minReputation = input.minReputation ?? this.runtime.getSetting('MIN_SELLER_REPUTATION');
+
+    const result = await marketplaceApi.createBuyRequest({
+      buyerAgentId,
+      title: String(input.title),
+      description: String(input.description),
+      minPrice: Number(input.minPrice),
+      maxPrice: Number(input.maxPrice),
+      ...(typeof input.category === 'string' ? { category: input.category } : {}),
+      ...(negotiationStrategy ? { negotiationStrategy } : {}),
+      ...(minReputation ? { minReputation: Number(minReputation) } : {}),
+    }, await backendTokens.get(this.runtime));
+
+    this.publishStatus(eventBus, ctx, 'completed', [
+      { kind: 'text', text: `Buy request ${result.buyRequestId} posted: ${result.title} (${result.minPrice}-${result.maxPrice} HBAR)` },
+      this.createResultPart('submit-buy-request', { ...result }),
+    ]);
+  }
+
+  /**
+   * DataPart carrying a skill's structured result
+   */
+  private createResultPart(skillId: MarketplaceSkillId, data: Record<string, unknown>): Part {
+    return {
+      kind: 'data',
+      data,
+      metadata: { schema: SKILL_RESULT_SCHEMA, skillId },
+    };
+  }
+
+  /**
+   * Server-side round number for a negotiation message (see negotiationRound)
+   */
+  private async currentRound(contextId: string, taskId: string, listingId: string): Promise<number> {
+    const history = await this.taskStore.listContextHistory(contextId);
+    return negotiationRound(history.map(({ task }) => task), listingId, taskId);
+  }
+
+  /**
+   * The seller's negotiation policy for a listing
+   * If the stored policy can't be loaded (backend error, expired token), the
+   * listing's public basePrice is used as the floor instead (see fallbackPolicy).
+   * Returns null if this agent doesn't sell the listing or neither can be loaded.
+   */
+  private async resolvePolicy(listingId: string): Promise<NegotiationPolicy | null> {
+    try {
+      const authToken = await backendTokens.get(this.runtime);
+      return await marketplaceApi.getNegotiationPolicy(listingId, authToken);
+    } catch (error: any) {
+      console.warn(`⚠️ No negotiation policy for listing #${listingId}: ${error.message}`);
+    }
+
+    try {
+      const [listing, sellerAgentId] = await Promise.all([
+        marketplaceApi.getListing(listingId),
+        paramExtractor.getAgentId(this.runtime, 'seller'),
+      ]);
+      if (listing.sellerAgentId !== sellerAgentId) {
+        return null;
+      }
+      console.warn(`⚠️ Negotiating listing #${listingId} with its basePrice ${listing.basePrice} HBAR as the floor`);
+      return fallbackPolicy(listing);
+    } catch (error: any) {
+      console.error(`❌ Listing #${listingId} pricing unavailable: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Complete the task with a negotiation reply and its offer DataPart
+   */
+  private publishNegotiationReply(
+    eventBus: ExecutionEventBus,
+    ctx: RequestContext,
+    text: string,
+    offer: NegotiationOffer | null
+  ) {
+    const parts: Part[] = [{ kind: 'text', text }];
+    if (offer) {
+      parts.push(createOfferPart(offer));
+    }
+
+    this.publishStatus(eventBus, ctx, 'completed', parts);
+  }
+
+  /**
+   * Split a JSON negotiation reply into text and offer
+   * Falls back to the raw content (without an offer) if the model didn't return valid JSON.
+   */
+  private parseNegotiationReply(content: string): { text: string; offer: NegotiationOffer | null } {
+    try {
+      const parsed = JSON.parse(content);
+      const offer = parseNegotiationOffer(parsed.offer);
+      const text = typeof parsed.message === 'string' && parsed.message.trim() ? parsed.message.trim() : content;
+
+      if (!offer) {
+        console.warn('⚠️ Negotiation reply had no valid offer payload');
+      }
+      return { text, offer };
+    } catch {
+      console.warn('⚠️ Negotiation reply was not valid JSON, sending text only');
+      return { text: content, offer: null };
+    }
+  }
+
+  /**
+   * Cancel a running task
+   * Aborts its completion request and ends the task in the "canceled" state.
+   */
+  async cancelTask(taskId: string, eventBus: ExecutionEventBus): Promise<void> {
+    console.log(`🚫 Cancelling task: ${taskId}`);
+
+    const running = this.runningTasks.get(taskId);
+    running?.abortController.abort();
+    this.runningTasks.delete(taskId);
+
+    const update: TaskStatusUpdateEvent = {
+      kind: 'status-update',
+      taskId,
+      contextId: running?.contextId ?? '',
+      status: {
+        state: 'canceled',
+        timestamp: new Date().toISOString(),
+      },
+      final: true,
+    };
+
+    eventBus.publish(update);
     eventBus.finished();
   }
 }
@@ -4,5 +4,27 @@
  */
 
 export { ElizaTaskStore } from './task-store.js';
+export type { Page, PageOptions, TaskStateTransition } from './task-store.js';
+export { a2aPlugin } from './task-schema.js';
+export {
+  ElizaPushNotificationStore,
+  JwtPushNotificationSender,
+  signPushNotificationToken,
+} from './push-notifications.js';
+export type { PushNotificationClaims } from './push-notifications.js';
 export { ElizaAgentExecutor } from './executor.js';
+export {
+  SKILL_RESULT_SCHEMA,
+  SKILL_SCHEMAS_EXTENSION_URI,
+  describeSkills,
+  resolveSkillId,
+  skillsForAgent,
+  validateSkillInput,
+} from './skills.js';
+export type { AgentType, MarketplaceSkillId } from './skills.js';
+export { A2A_ALLOWED_ACTIONS, ACTION_RESULT_SCHEMA } from './runtime-reply.js';
+export { createOfferPart, extractOffer, parseNegotiationOffer } from './offer.js';
+export type { NegotiationOffer, NegotiationOfferType } from './offer.js';
+export { authenticateCaller, isOwnerOrInternal, signClientId } from './client-scope.js';
+export type { A2ACaller } from './client-scope.js';
 export { initializeA2AMiddleware, addAgentToA2A, removeAgentFromA2A } from './server.js';
@@ -0,0 +1,76 @@
+/**
+ * Structured negotiation offers for A2A
+ * Offers travel as a DataPart next to the text part, so the counterparty
+ * never has to guess prices or outcomes from prose.
+ */
+
+import type { DataPart, Part } from '@a2a-js/sdk';
+
+export const NEGOTIATION_OFFER_TYPES = ['offer', 'counter_offer', 'accept', 'reject'] as const;
+
+export type NegotiationOfferType = (typeof NEGOTIATION_OFFER_TYPES)[number];
+
+export interface NegotiationOffer {
+  type: NegotiationOfferType;
+  /** Proposed (or accepted) price; omitted for reject */
+  price?: number;
+  currency: 'HBAR';
+}
+
+// DataPart metadata marker identifying an offer payload
+export const NEGOTIATION_OFFER_SCHEMA = 'hedera-marketplace/negotiation-offer/v1';
+
+/**
+ * Validate an untrusted value as a NegotiationOffer
+ */
+export function parseNegotiationOffer(value: unknown): NegotiationOffer | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { type, price, currency } = value as Record<string, unknown>;
+
+  if (!NEGOTIATION_OFFER_TYPES.includes(type as NegotiationOfferType)) {
+    return null;
+  }
+  if (currency !== undefined && currency !== 'HBAR') {
+    return null;
+  }
+
+  const numericPrice = typeof price === 'string' ? Number(price) : price;
+  const hasPrice = typeof numericPrice === 'number' && Number.isFinite(numericPrice) && numericPrice > 0;
+
+  // Everything except a reject must name a price
+  if (type !== 'reject' && !hasPrice) {
+    return null;
+  }
+
+  return {
+    type: type as NegotiationOfferType,
+    ...(hasPrice ? { price: numericPrice as number } : {}),
+    currency: 'HBAR',
+  };
+}
+
+/**
+ * Wrap an offer in an A2A DataPart
+ */
+export function createOfferPart(offer: NegotiationOffer): DataPart {
+  return {
+    kind: 'data',
+    data: { ...offer },
+    metadata: { schema: NEGOTIATION_OFFER_SCHEMA },
+  };
+}
+
+/**
+ * Find the offer DataPart in a message's parts
+ */
+export function extractOffer(parts: Part[]): NegotiationOffer | null {
+  for (const part of parts) {
+    if (part.kind === 'data' && part.metadata?.schema === NEGOTIATION_OFFER_SCHEMA) {
+      return parseNegotiationOffer(part.data);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,181 @@
+/**
+ * A2A push notifications
+ * Webhook configs are stored in a2a.push_notification_configs; every task
+ * status change is POSTed to them with a signed JWT so the receiver can
+ * verify that the update came from this agent and was not altered.
+ */
+
+import { createHash, createHmac, randomUUID } from 'crypto';
+import type { PushNotificationConfig, Task } from '@a2a-js/sdk';
+import type { PushNotificationSender, PushNotificationStore } from '@a2a-js/sdk/server';
+import type { IAgentRuntime } from '@elizaos/core';
+import { and, eq } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { a2aPushNotificationConfigs } from './task-schema.js';
+
+const NOTIFICATION_TIMEOUT_MS = 5000;
+const TOKEN_TTL_SECONDS = 300;
+
+export interface PushNotificationClaims {
+  /** Agent Card URL of the sending agent */
+  iss: string;
+  /** Webhook URL the notification is sent to */
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  taskId: string;
+  /** Hex SHA-256 of the request body */
+  bodySha256: string;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Sign claims as an HS256 JWT
+ */
+export function signPushNotificationToken(claims: PushNotificationClaims, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+export class ElizaPushNotificationStore implements PushNotificationStore {
+  private runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  private get db(): PgDatabase<PgQueryResultHKT> {
+    return this.runtime.db;
+  }
+
+  async save(taskId: string, pushNotificationConfig: PushNotificationConfig): Promise<void> {
+    const configId = pushNotificationConfig.id || taskId;
+    const config = { ...pushNotificationConfig, id: configId };
+
+    await this.db
+      .insert(a2aPushNotificationConfigs)
+      .values({ taskId, configId, config })
+      .onConflictDoUpdate({
+        target: [a2aPushNotificationConfigs.taskId, a2aPushNotificationConfigs.configId],
+        set: { config },
+      });
+
+    console.log(`🔔 Push notification config ${configId} registered for task ${taskId}: ${config.url}`);
+  }
+
+  async load(taskId: string): Promise<PushNotificationConfig[]> {
+    const rows = await this.db
+      .select({ config: a2aPushNotificationConfigs.config })
+      .from(a2aPushNotificationConfigs)
+      .where(eq(a2aPushNotificationConfigs.taskId, taskId))
+      .orderBy(a2aPushNotificationConfigs.createdAt);
+
+    return rows.map((row) => row.config);
+  }
+
+  async delete(taskId: string, configId: string = taskId): Promise<void> {
+    await this.db
+      .delete(a2aPushNotificationConfigs)
+      .where(
+        and(eq(a2aPushNotificationConfigs.taskId, taskId), eq(a2aPushNotificationConfigs.configId, configId))
+      );
+  }
+}
+
+/**
+ * Delivers task updates to registered webhooks
+ * The SDK calls send() after every event, including each streamed artifact
+ * chunk, so a notification only goes out when the task status changed.
+ * Deliveries for the same task are chained to keep them in order.
+ */
+export class JwtPushNotificationSender implements PushNotificationSender {
+  private store: PushNotificationStore;
+  private issuer: string;
+  private secret: string;
+  private lastStatus = new Map<string, string>();
+  private chains = new Map<string, Promise<void>>();
+
+  constructor(store: PushNotificationStore, issuer: string, secret: string) {
+    this.store = store;
+    this.issuer = issuer;
+    this.secret = secret;
+  }
+
+  async send(task: Task): Promise<void> {
+    const statusKey = `${task.status.state}@${task.status.timestamp ?? ''}`;
+    if (this.lastStatus.get(task.id) === statusKey) {
+      return;
+    }
+
+    const configs = await this.store.load(task.id);
+    if (configs.length === 0) {
+      return;
+    }
+    this.lastStatus.set(task.id, statusKey);
+
+    const previous = this.chains.get(task.id) ?? Promise.resolve();
+    const current = previous.then(async () => {
+      await Promise.all(configs.map((config) => this.dispatch(task, config)));
+    });
+    this.chains.set(task.id, current);
+
+    try {
+      await current;
+    } finally {
+      if (this.chains.get(task.id) === current) {
+        this.chains.delete(task.id);
+        if (['completed', 'canceled', 'failed', 'rejected'].includes(task.status.state)) {
+          this.lastStatus.delete(task.id);
+        }
+      }
+    }
+  }
+
+  private async dispatch(task: Task, config: PushNotificationConfig): Promise<void> {
+    const body = JSON.stringify(task);
+    const now = Math.floor(Date.now() / 1000);
+    const jwt = signPushNotificationToken(
+      {
+        iss: this.issuer,
+        aud: config.url,
+        iat: now,
+        exp: now + TOKEN_TTL_SECONDS,
+        jti: randomUUID(),
+        taskId: task.id,
+        bodySha256: createHash('sha256').update(body).digest('hex'),
+      },
+      this.secret
+    );
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${jwt}`,
+    };
+    if (config.token) {
+      headers['X-A2A-Notification-Token'] = config.token;
+    }
+
+    try {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      console.log(`🔔 Push notification sent for task ${task.id} (${task.status.state}) to ${config.url}`);
+    } catch (error) {
+      console.error(`❌ Failed to send push notification for task ${task.id} to ${config.url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Runtime replies as A2A parts
+ * general-conversation requests run through the ElizaOS message pipeline like
+ * web chat messages do; the response it plans and the outputs of the actions
+ * it runs are converted to parts here.
+ */
+
+import type { Part } from '@a2a-js/sdk';
+import { createUniqueUuid, parseKeyValueXml } from '@elizaos/core';
+import type { ActionResult, Content, IAgentRuntime, UUID } from '@elizaos/core';
+
+// DataPart metadata marker identifying an action result payload
+export const ACTION_RESULT_SCHEMA = 'hedera-marketplace/action-result/v1';
+
+// Actions that only answer with the planned text
+const SIMPLE_ACTIONS = ['REPLY', 'NONE'];
+
+// Actions remote A2A callers may trigger: replies and read-only views of public marketplace data.
+// Everything else (listing writes, buy requests, settings) runs from the owner's own chat only.
+export const A2A_ALLOWED_ACTIONS = [...SIMPLE_ACTIONS, 'IGNORE', 'REVIEW_INQUIRIES'];
+
+/**
+ * ElizaOS room holding an A2A context's messages
+ */
+export function contextRoomId(runtime: IAgentRuntime, contextId: string): UUID {
+  return createUniqueUuid(runtime, `a2a-${contextId}`);
+}
+
+export interface PlannedResponse {
+  thought: string;
+  actions: string[];
+  providers: string[];
+  text: string;
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Parse the <response> block produced with messageHandlerTemplate
+ * Returns null when the model did not answer in that format.
+ */
+export function parsePlannedResponse(raw: string): PlannedResponse | null {
+  const parsed = parseKeyValueXml(raw);
+  if (!parsed) {
+    return null;
+  }
+
+  return {
+    thought: typeof parsed.thought === 'string' ? parsed.thought : '',
+    actions: toList(parsed.actions).map((action) => action.toUpperCase()),
+    providers: toList(parsed.providers),
+    text: typeof parsed.text === 'string' ? parsed.text.trim() : '',
+  };
+}
+
+/**
+ * Whether the planned text is the whole reply (no action has to run)
+ */
+export function isSimpleReply(response: PlannedResponse): boolean {
+  return response.actions.length === 0 || (response.actions.length === 1 && SIMPLE_ACTIONS.includes(response.actions[0]));
+}
+
+/**
+ * Drop the planned actions A2A callers may not trigger (see A2A_ALLOWED_ACTIONS)
+ * The reply then tells the caller those are left to the agent's owner.
+ */
+export function restrictToA2AActions(response: PlannedResponse): { response: PlannedResponse; blocked: string[] } {
+  const allowed = response.actions.filter((action) => A2A_ALLOWED_ACTIONS.includes(action));
+  const blocked = response.actions.filter((action) => !A2A_ALLOWED_ACTIONS.includes(action));
+  if (blocked.length === 0) {
+    return { response, blocked };
+  }
+
+  const notice = "That can only be done by this agent's owner from their own chat.";
+  return {
+    response: {
+      ...response,
+      actions: allowed.length > 0 ? allowed : ['REPLY'],
+      text: response.text ? `${response.text}\n\n${notice}` : notice,
+    },
+    blocked,
+  };
+}
+
+/**
+ * Whether the agent chose not to answer
+ */
+export function isIgnored(response: PlannedResponse): boolean {
+  return response.actions.includes('IGNORE');
+}
+
+/**
+ * Reply parts: one TextPart per message the agent sent, then one DataPart per action result
+ * Result data is cut down to what survives JSON serialization.
+ */
+export function toReplyParts(contents: Content[], results: ActionResult[]): Part[] {
+  const textParts: Part[] = contents
+    .filter((content) => typeof content.text === 'string' && content.text.trim())
+    .map((content) => ({
+      kind: 'text',
+      text: content.text!.trim(),
+      ...(content.actions?.length ? { metadata: { actions: content.actions } } : {}),
+    }));
+
+  const resultParts: Part[] = results.map((result) => ({
+    kind: 'data',
+    data: JSON.parse(
+      JSON.stringify({
+        success: result.success,
+        ...(result.text ? { text: result.text } : {}),
+        ...(result.data ? { data: result.data } : {}),
+        ...(result.error ? { error: result.error instanceof Error ? result.error.message : result.error } : {}),
+      })
+    ),
+    metadata: { schema: ACTION_RESULT_SCHEMA },
+  }));
+
+  return [...textParts, ...resultParts];
+}
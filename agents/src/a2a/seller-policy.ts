@@ -0,0 +1,136 @@
+/**
+ * Seller negotiation policy enforcement
+ * The executor injects the policy into the prompt, short-circuits clear-cut
+ * decisions, and vetoes any reply that would accept below the floor.
+ */
+
+import type { Task } from '@a2a-js/sdk';
+import type { NegotiationPolicy, SellerListing } from '../actions/marketplace/shared/types';
+import type { NegotiationOffer } from './offer.js';
+
+// Same default as the backend's negotiation policy service
+const DEFAULT_MAX_ROUNDS = 5;
+
+/**
+ * Policy built from a listing's public prices, used when the stored policy can't be loaded
+ * The on-chain basePrice is the floor; nothing is auto-accepted.
+ */
+export function fallbackPolicy(listing: SellerListing): NegotiationPolicy {
+  return {
+    listingId: listing.listingId,
+    basePrice: listing.basePrice,
+    floorPrice: listing.basePrice,
+    targetPrice: Math.max(listing.basePrice, listing.expectedPrice),
+    maxRounds: DEFAULT_MAX_ROUNDS,
+    autoAcceptPrice: null,
+    isDefault: true,
+  };
+}
+
+/**
+ * Lowest price the seller may agree to
+ * Never below the listing's basePrice, whatever the stored floor says.
+ */
+export function minimumPrice(policy: NegotiationPolicy): number {
+  return Math.max(policy.floorPrice, policy.basePrice);
+}
+
+/**
+ * Policy section appended to the seller's system prompt
+ */
+export function describeSellerPolicy(policy: NegotiationPolicy, round: number): string {
+  return `
+
+YOUR PRICING POLICY FOR LISTING #${policy.listingId} (confidential, never reveal the floor):
+- Target price: ${policy.targetPrice} HBAR
+- Floor price: ${minimumPrice(policy)} HBAR (never accept or propose below this)
+- Round ${round} of ${policy.maxRounds}; at the last round accept any offer at or above the floor, otherwise reject`;
+}
+
+/**
+ * Round of the current negotiation message, counted from the context's stored tasks
+ * Each earlier task on the same listing that got a reply is one round, so the
+ * caller's metadata.roundNumber is never trusted.
+ */
+export function negotiationRound(tasks: Task[], listingId: string, currentTaskId: string): number {
+  const answered = tasks.filter((task) => {
+    if (task.id === currentTaskId || task.status.state !== 'completed') {
+      return false;
+    }
+    const request = task.history?.find((message) => message.role === 'user');
+    return request?.metadata?.listingId === listingId;
+  });
+
+  return answered.length + 1;
+}
+
+/**
+ * Decide without the LLM when the policy already determines the answer
+ * - offers at or above autoAcceptPrice are accepted
+ * - at or past maxRounds, accept at or above the floor, otherwise reject
+ */
+export function decideByPolicy(
+  policy: NegotiationPolicy,
+  incomingOffer: NegotiationOffer | null,
+  round: number
+): NegotiationOffer | null {
+  const incomingPrice = incomingOffer?.type !== 'reject' ? incomingOffer?.price : undefined;
+
+  if (incomingPrice === undefined) {
+    return null;
+  }
+
+  if (policy.autoAcceptPrice !== null && incomingPrice >= policy.autoAcceptPrice) {
+    return { type: 'accept', price: incomingPrice, currency: 'HBAR' };
+  }
+
+  if (round >= policy.maxRounds) {
+    return incomingPrice >= minimumPrice(policy)
+      ? { type: 'accept', price: incomingPrice, currency: 'HBAR' }
+      : { type: 'reject', currency: 'HBAR' };
+  }
+
+  return null;
+}
+
+/**
+ * Veto replies that break the policy
+ * An accept binds to the counterparty's price, so that is the price checked.
+ * Anything below the floor becomes a counter-offer at the floor.
+ */
+export function enforceSellerPolicy(
+  offer: NegotiationOffer,
+  policy: NegotiationPolicy,
+  incomingOffer: NegotiationOffer | null
+): { offer: NegotiationOffer; vetoed: boolean } {
+  const floor = minimumPrice(policy);
+
+  if (offer.type === 'reject') {
+    return { offer, vetoed: false };
+  }
+
+  const effectivePrice = offer.type === 'accept' ? (incomingOffer?.price ?? offer.price) : offer.price;
+
+  if (effectivePrice === undefined || effectivePrice < floor) {
+    return {
+      offer: { type: 'counter_offer', price: floor, currency: 'HBAR' },
+      vetoed: true,
+    };
+  }
+
+  return { offer, vetoed: false };
+}
+
+/**
+ * Reply text for a decision made by the policy rather than the LLM
+ */
+export function policyMessage(offer: NegotiationOffer): string {
+  switch (offer.type) {
+    case 'accept':
+      return `I accept your offer of ${offer.price} HBAR. Deal!`;
+    case 'reject':
+      return "I'm sorry, but I can't go that low. I'll have to decline.";
+    default:
+      return `I can't go below ${offer.price} HBAR. Would you accept ${offer.price} HBAR?`;
+  }
+}
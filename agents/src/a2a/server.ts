@@ -3,18 +3,43 @@
  * Creates A2A endpoints for each agent
  */
 
-import { AgentCard } from '@a2a-js/sdk';
-import { DefaultRequestHandler, JsonRpcTransportHandler } from '@a2a-js/sdk/server';
+import { AgentCard, Task } from '@a2a-js/sdk';
+import { DefaultExecutionEventBusManager, DefaultRequestHandler, JsonRpcTransportHandler } from '@a2a-js/sdk/server';
 import { ElizaTaskStore } from './task-store.js';
+import { ElizaPushNotificationStore, JwtPushNotificationSender } from './push-notifications.js';
+import { ConversationMemory } from './conversation-memory.js';
+import type { Page, TaskStateTransition } from './task-store.js';
 import { ElizaAgentExecutor } from './executor.js';
+import { describeSkills, skillsForAgent } from './skills.js';
+import type { AgentType, MarketplaceSkillId } from './skills.js';
 import type { IAgentRuntime, UUID } from '@elizaos/core';
 import type { Express } from 'express';
+import {
+  authenticateCaller,
+  authorizeClientRequest,
+  CLIENT_ID_HEADER,
+  CLIENT_OWNER_HEADER,
+  CLIENT_SIGNATURE_HEADER,
+} from './client-scope.js';
+import type { ScopeError } from './client-scope.js';
 
 /**
  * Create Agent Card for an ElizaOS agent
  */
-function createAgentCard(runtime: IAgentRuntime, baseUrl: string, agentPath: string): AgentCard {
+function createAgentCard(
+  runtime: IAgentRuntime,
+  baseUrl: string,
+  agentPath: string,
+  skillIds: MarketplaceSkillId[]
+): AgentCard {
   const character = runtime.character;
+  const conversationExamples = character.messageExamples
+    ?.map((ex) => {
+      const userMsg = ex.find((msg) => msg.name === 'user');
+      return userMsg?.content?.text || '';
+    })
+    .filter(Boolean) || [];
+  const { skills, extension } = describeSkills(skillIds, conversationExamples);
 
   return {
     protocolVersion: '0.3.0',
@@ -26,55 +51,32 @@ function createAgentCard(runtime: IAgentRuntime, baseUrl: string, agentPath: str
     // Capabilities
     capabilities: {
       streaming: true,
-      pushNotifications: false,
-      // TODO: Implement state transition history tracking to enable this capability.
-      // Currently only stores the latest task state, not the full history of transitions.
-      // When implementing:
-      // 1. Store each state change with timestamp in task history array
-      // 2. Modify ElizaTaskStore to append state changes instead of overwriting
-      // 3. Add TaskStatus with sequence numbers as per A2A v0.3.0 spec
-      // 4. Consider implementing pagination/indexing for efficient history retrieval
-      stateTransitionHistory: false,
+      // Task updates are POSTed to registered webhooks with a JWT signed by A2A_PUSH_NOTIFICATION_SECRET
+      pushNotifications: Boolean(process.env.A2A_PUSH_NOTIFICATION_SECRET),
+      // Every status change is recorded by ElizaTaskStore, see GET .../tasks/:taskId/transitions
+      stateTransitionHistory: true,
+      // JSON input/output schemas of the skills below
+      extensions: [extension],
     },
 
     // Input/Output modes
     defaultInputModes: ['text/plain', 'application/json'],
     defaultOutputModes: ['text/plain', 'application/json'],
 
-    // Skills based on character capabilities
-    skills: [
-      {
-        id: 'general-conversation',
-        name: 'General Conversation',
-        description: 'Engage in natural conversation and provide assistance',
-        tags: ['chat', 'conversation', 'assistance'],
-        examples: character.messageExamples?.map((ex) => {
-          const userMsg = ex.find((msg) => msg.name === 'user');
-          return userMsg?.content?.text || '';
-        }).filter(Boolean) || [
-          'Hello, how can you help me?',
-          'Tell me about yourself',
-        ],
-        inputModes: ['text/plain'],
-        outputModes: ['text/plain'],
+    // Marketplace skills for this agent type; pick one with message metadata.skillId
+    skills,
+
+    // Enforced by the backend's A2A proxy, which issues per-client keys and rate limits each key
+    // (the agents themselves only accept the client ID the proxy signs, see client-scope)
+    securitySchemes: {
+      apiKey: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Per-client API key issued by Jimo Market (POST /api/user/a2a-keys)',
       },
-    ],
-
-    // TODO: Implement API key authentication when exposing A2A endpoints externally.
-    // For internal agent-to-agent communication, authentication is not required.
-    // When implementing for external access:
-    // 1. Add securitySchemes to Agent Card:
-    //    securitySchemes: {
-    //      apiKey: {
-    //        type: 'apiKey',
-    //        in: 'header',
-    //        name: 'X-API-Key',
-    //      },
-    //    },
-    // 2. Implement authentication middleware in A2AExpressApp or custom Express middleware
-    // 3. Generate and manage API keys per agent or per client organization
-    // 4. Add key validation and rate limiting per A2A Protocol v0.3.0 §4.4
-    // Note: Declaring securitySchemes without implementation violates A2A spec.
+    },
+    security: [{ apiKey: [] }],
 
     // Provider information
     provider: {
@@ -84,18 +86,29 @@ function createAgentCard(runtime: IAgentRuntime, baseUrl: string, agentPath: str
   };
 }
 
+
 // Global agent map for dynamic agent management
 const globalAgentMap = new Map<string, { runtime: IAgentRuntime; roomId: UUID; handlers: any }>();
 
 /**
  * Initialize A2A middleware (call once at server startup)
- * This registers the route handler but doesn't require any agents yet
+ * This registers the route handler but doesn't require any agents yet.
+ * Clients reach the agents through the backend proxy, which checks their own
+ * keys and forwards their signed key ID; requests with neither that nor
+ * A2A_INTERNAL_API_KEY are rejected here, so the ElizaOS port does not bypass
+ * the proxy's auth and rate limits. Clients only reach their own tasks and
+ * contexts (see client-scope); the task history and reset routes are internal.
  */
 export function initializeA2AMiddleware(app: Express): void {
   if (!process.env.A2A_PUBLIC_URL) {
     throw new Error('A2A_PUBLIC_URL environment variable is required');
   }
 
+  const internalApiKey = process.env.A2A_INTERNAL_API_KEY;
+  if (!internalApiKey) {
+    throw new Error('A2A_INTERNAL_API_KEY environment variable is required');
+  }
+
   app.use((req, res, next) => {
     const path = req.path;
     const a2aMatch = path.match(/^\/agents\/([^\/]+)\/a2a(\/.*)?$/);
@@ -116,20 +129,103 @@ export function initializeA2AMiddleware(app: Express): void {
       return res.json(agent.handlers.agentCard);
     }
 
+    const caller = authenticateCaller(
+      {
+        apiKey: req.get('X-API-Key'),
+        clientId: req.get(CLIENT_ID_HEADER),
+        owner: req.get(CLIENT_OWNER_HEADER),
+        signature: req.get(CLIENT_SIGNATURE_HEADER),
+      },
+      internalApiKey
+    );
+    if (!caller) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    if (caller.kind === 'client' && subpath !== '/') {
+      return res.status(403).json({ error: 'Only the JSON-RPC endpoint is available to A2A clients' });
+    }
+
+    const transitionsMatch = subpath.match(/^\/tasks\/([^\/]+)\/transitions$/);
+    if (req.method === 'GET' && transitionsMatch) {
+      agent.handlers.taskStore
+        .getTransitions(decodeURIComponent(transitionsMatch[1]), {
+          offset: Number(req.query.offset),
+          limit: Number(req.query.limit),
+        })
+        .then((page: Page<TaskStateTransition> | undefined) => {
+          if (!page) {
+            return res.status(404).json({ error: 'Task not found' });
+          }
+          res.json(page);
+        })
+        .catch((error: any) => res.status(500).json({ error: error.message }));
+      return;
+    }
+
+    const contextMatch = subpath.match(/^\/contexts\/([^\/]+)\/tasks$/);
+    if (req.method === 'GET' && contextMatch) {
+      agent.handlers.taskStore
+        .listByContext(decodeURIComponent(contextMatch[1]), {
+          offset: Number(req.query.offset),
+          limit: Number(req.query.limit),
+        })
+        .then((page: Page<Task>) => res.json(page))
+        .catch((error: any) => res.status(500).json({ error: error.message }));
+      return;
+    }
+
+    const resetMatch = subpath.match(/^\/contexts\/([^\/]+)\/reset$/);
+    if (req.method === 'POST' && resetMatch) {
+      const contextId = decodeURIComponent(resetMatch[1]);
+      agent.handlers.memory
+        .reset(contextId)
+        .then(() => res.json({ contextId, reset: true }))
+        .catch((error: any) => res.status(500).json({ error: error.message }));
+      return;
+    }
+
     if (req.method === 'POST' && subpath === '/') {
-      agent.handlers.jsonRpcHandler
-        .handle(req.body)
+      const authorized: Promise<ScopeError | null> =
+        caller.kind === 'client'
+          ? authorizeClientRequest(req.body, caller, agent.handlers.taskStore)
+          : Promise.resolve(null);
+
+      authorized
+        .then((scopeError) => {
+          if (scopeError) {
+            res.json({ jsonrpc: '2.0', error: scopeError, id: req.body?.id ?? null });
+            return;
+          }
+          return agent.handlers.jsonRpcHandler.handle(req.body);
+        })
         .then((result: any) => {
+          if (result === undefined) {
+            return; // Already answered with a scope error
+          }
 
           if (Symbol.asyncIterator in Object(result)) {
-            res.setHeader('Content-Type', 'application/json');
-            res.setHeader('Transfer-Encoding', 'chunked');
+            // message/stream and tasks/resubscribe: one SSE event per JSON-RPC response
+            res.setHeader('Content-Type', 'text/event-stream');
+            res.setHeader('Cache-Control', 'no-cache');
+            res.setHeader('Connection', 'keep-alive');
+            res.setHeader('X-Accel-Buffering', 'no');
+            res.flushHeaders();
 
             (async () => {
-              for await (const chunk of result as AsyncGenerator) {
-                res.write(JSON.stringify(chunk) + '\n');
+              try {
+                for await (const chunk of result as AsyncGenerator) {
+                  res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+                }
+              } catch (error: any) {
+                res.write(`event: error\ndata: ${JSON.stringify({
+                  jsonrpc: '2.0',
+                  error: { code: -32603, message: 'Internal error', data: error.message },
+                  id: req.body.id || null,
+                })}\n\n`);
+              } finally {
+                res.end();
               }
-              res.end();
             })();
           } else {
             res.json(result);
@@ -157,21 +253,34 @@ export function initializeA2AMiddleware(app: Express): void {
 /**
  * Add an agent to A2A dynamically (called when agent is created)
  */
-export function addAgentToA2A(runtime: IAgentRuntime): void {
+export function addAgentToA2A(runtime: IAgentRuntime, type: AgentType): void {
   const roomId = runtime.agentId;
   const agentPath = `/agents/${runtime.agentId}/a2a`;
   const baseUrl = process.env.A2A_PUBLIC_URL!;
 
-  const agentCard = createAgentCard(runtime, baseUrl, agentPath);
-  const taskStore = new ElizaTaskStore(runtime, roomId);
-  const agentExecutor = new ElizaAgentExecutor(runtime, roomId);
-  const requestHandler = new DefaultRequestHandler(agentCard, taskStore, agentExecutor);
+  const skillIds = skillsForAgent(type);
+  const agentCard = createAgentCard(runtime, baseUrl, agentPath, skillIds);
+  const taskStore = new ElizaTaskStore(runtime);
+  const memory = new ConversationMemory(runtime, taskStore);
+  const agentExecutor = new ElizaAgentExecutor(runtime, roomId, type, skillIds, memory, taskStore);
+  const pushNotificationStore = new ElizaPushNotificationStore(runtime);
+  const pushNotificationSender = process.env.A2A_PUSH_NOTIFICATION_SECRET
+    ? new JwtPushNotificationSender(pushNotificationStore, agentCard.url, process.env.A2A_PUSH_NOTIFICATION_SECRET)
+    : undefined;
+  const requestHandler = new DefaultRequestHandler(
+    agentCard,
+    taskStore,
+    agentExecutor,
+    new DefaultExecutionEventBusManager(),
+    pushNotificationStore,
+    pushNotificationSender
+  );
   const jsonRpcHandler = new JsonRpcTransportHandler(requestHandler);
 
   globalAgentMap.set(runtime.agentId, {
     runtime,
     roomId,
-    handlers: { agentCard, jsonRpcHandler },
+    handlers: { agentCard, jsonRpcHandler, taskStore, memory },
   });
 }
 
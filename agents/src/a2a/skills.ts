@@ -0,0 +1,270 @@
+/**
+ * Marketplace skills advertised in the Agent Card
+ * Seller and buyer agents publish different skills. Each skill's JSON input
+ * and output schemas are published through the SKILL_SCHEMAS_EXTENSION_URI
+ * card extension, since AgentSkill has no schema field. Clients pick a skill
+ * with `metadata.skillId` on the message; the input is its first DataPart.
+ */
+
+import type { AgentExtension, AgentSkill, Message, Part } from '@a2a-js/sdk';
+import { NEGOTIATION_OFFER_SCHEMA, NEGOTIATION_OFFER_TYPES, extractOffer } from './offer.js';
+
+export const SKILL_SCHEMAS_EXTENSION_URI = 'urn:jimo-market:a2a:skill-schemas:v1';
+
+// DataPart metadata marker identifying a skill result payload
+export const SKILL_RESULT_SCHEMA = 'hedera-marketplace/skill-result/v1';
+
+export type MarketplaceSkillId = 'negotiate-listing' | 'quote-price' | 'submit-buy-request' | 'general-conversation';
+
+export type AgentType = 'give' | 'want';
+
+/**
+ * Subset of JSON Schema used for skill inputs and outputs (and checked by validateSkillInput)
+ */
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: readonly string[];
+  minimum?: number;
+  exclusiveMinimum?: number;
+  additionalProperties?: boolean;
+}
+
+interface MarketplaceSkill {
+  skill: AgentSkill;
+  /** Schema of the skill's input DataPart; null for free text */
+  inputSchema: JsonSchema | null;
+  /** Schema of the result DataPart; null for free text */
+  outputSchema: JsonSchema | null;
+}
+
+const offerSchema: JsonSchema = {
+  type: 'object',
+  description: `Negotiation offer (DataPart with metadata.schema "${NEGOTIATION_OFFER_SCHEMA}")`,
+  properties: {
+    type: { type: 'string', enum: NEGOTIATION_OFFER_TYPES },
+    price: { type: 'number', exclusiveMinimum: 0, description: 'HBAR; omitted for reject' },
+    currency: { type: 'string', enum: ['HBAR'] },
+  },
+  required: ['type'],
+};
+
+const MARKETPLACE_SKILLS: Record<MarketplaceSkillId, MarketplaceSkill> = {
+  'negotiate-listing': {
+    skill: {
+      id: 'negotiate-listing',
+      name: 'Negotiate Listing',
+      description:
+        'Negotiate the price of a marketplace listing. Send the message text with an optional offer DataPart; ' +
+        'name the listing in metadata.listingId. Rounds are counted by the agent. The reply carries the counter-offer.',
+      tags: ['marketplace', 'negotiation', 'hbar'],
+      examples: ['I can offer 12 HBAR for listing #7.'],
+      inputModes: ['text/plain', 'application/json'],
+      outputModes: ['text/plain', 'application/json'],
+    },
+    inputSchema: offerSchema,
+    outputSchema: offerSchema,
+  },
+  'quote-price': {
+    skill: {
+      id: 'quote-price',
+      name: 'Quote Price',
+      description: "Get the seller's current asking price for one of its listings.",
+      tags: ['marketplace', 'pricing', 'hbar'],
+      examples: ['{"listingId": "7"}'],
+      inputModes: ['application/json'],
+      outputModes: ['application/json'],
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        listingId: { type: 'string', description: 'On-chain listing ID' },
+      },
+      required: ['listingId'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        listingId: { type: 'string' },
+        askingPrice: { type: 'number', description: 'HBAR' },
+        currency: { type: 'string', enum: ['HBAR'] },
+        maxRounds: { type: 'integer', description: 'Rounds the seller negotiates before deciding' },
+      },
+      required: ['listingId', 'askingPrice', 'currency'],
+    },
+  },
+  'submit-buy-request': {
+    skill: {
+      id: 'submit-buy-request',
+      name: 'Submit Buy Request',
+      description:
+        "Post a buy request for this buyer; matching listings are searched and negotiated automatically. Only accepted with the agent owner's API key.",
+      tags: ['marketplace', 'buy-request'],
+      examples: ['{"title": "Blue chair", "description": "Wooden, for a desk", "minPrice": 5, "maxPrice": 20}'],
+      inputModes: ['application/json'],
+      outputModes: ['application/json'],
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        minPrice: { type: 'number', minimum: 0, description: 'HBAR' },
+        maxPrice: { type: 'number', exclusiveMinimum: 0, description: 'HBAR' },
+        category: { type: 'string' },
+        minReputation: { type: 'integer', minimum: 0, description: 'Minimum seller reputationScore (0-1000)' },
+      },
+      required: ['title', 'description', 'minPrice', 'maxPrice'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        buyRequestId: { type: 'string' },
+        title: { type: 'string' },
+        minPrice: { type: 'number' },
+        maxPrice: { type: 'number' },
+      },
+      required: ['buyRequestId', 'title', 'minPrice', 'maxPrice'],
+    },
+  },
+  'general-conversation': {
+    skill: {
+      id: 'general-conversation',
+      name: 'General Conversation',
+      description: 'Engage in natural conversation and provide assistance',
+      tags: ['chat', 'conversation', 'assistance'],
+      examples: ['Hello, how can you help me?', 'Tell me about yourself'],
+      inputModes: ['text/plain'],
+      outputModes: ['text/plain'],
+    },
+    inputSchema: null,
+    outputSchema: null,
+  },
+};
+
+const AGENT_SKILLS: Record<AgentType, MarketplaceSkillId[]> = {
+  give: ['negotiate-listing', 'quote-price', 'general-conversation'],
+  want: ['submit-buy-request', 'negotiate-listing', 'general-conversation'],
+};
+
+/**
+ * Skills offered by an agent type
+ */
+export function skillsForAgent(type: AgentType): MarketplaceSkillId[] {
+  return AGENT_SKILLS[type];
+}
+
+/**
+ * Agent Card skills, and the extension publishing their schemas
+ * @param conversationExamples - Examples for general-conversation (from the character)
+ */
+export function describeSkills(
+  skillIds: MarketplaceSkillId[],
+  conversationExamples: string[]
+): { skills: AgentSkill[]; extension: AgentExtension } {
+  const skills = skillIds.map((id) =>
+    id === 'general-conversation' && conversationExamples.length > 0
+      ? { ...MARKETPLACE_SKILLS[id].skill, examples: conversationExamples }
+      : MARKETPLACE_SKILLS[id].skill
+  );
+
+  const schemas = Object.fromEntries(
+    skillIds.map((id) => [
+      id,
+      { inputSchema: MARKETPLACE_SKILLS[id].inputSchema, outputSchema: MARKETPLACE_SKILLS[id].outputSchema },
+    ])
+  );
+
+  return {
+    skills,
+    extension: {
+      uri: SKILL_SCHEMAS_EXTENSION_URI,
+      description: 'JSON schemas of each skill input and result DataPart',
+      required: false,
+      params: { skills: schemas },
+    },
+  };
+}
+
+/**
+ * Skill a message is addressed to
+ * An explicit metadata.skillId wins; otherwise messages with an offer or a
+ * negotiation room are negotiations and everything else is conversation.
+ * Returns null when the named skill is not one this agent offers.
+ */
+export function resolveSkillId(message: Message, offered: MarketplaceSkillId[]): MarketplaceSkillId | null {
+  const requested = message.metadata?.skillId;
+
+  if (typeof requested === 'string') {
+    return offered.includes(requested as MarketplaceSkillId) ? (requested as MarketplaceSkillId) : null;
+  }
+
+  const isNegotiation = extractOffer(message.parts) !== null || Boolean(message.metadata?.negotiationRoomId);
+  const inferred: MarketplaceSkillId = isNegotiation ? 'negotiate-listing' : 'general-conversation';
+  return offered.includes(inferred) ? inferred : null;
+}
+
+/**
+ * Input DataPart of a skill request (the first one that is not an offer)
+ */
+export function getSkillInput(parts: Part[]): Record<string, unknown> | null {
+  for (const part of parts) {
+    if (part.kind === 'data' && part.metadata?.schema !== NEGOTIATION_OFFER_SCHEMA) {
+      return part.data;
+    }
+  }
+  return null;
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? [])
+        .filter((key) => record[key] === undefined || record[key] === null || record[key] === '')
+        .map((key) => `${path}.${key} is required`);
+      const invalid = Object.entries(schema.properties ?? {})
+        .filter(([key]) => record[key] !== undefined && record[key] !== null)
+        .flatMap(([key, property]) => validateValue(property, record[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}`] : [];
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path} must be at least ${schema.minimum}`];
+      }
+      if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        return [`${path} must be greater than ${schema.exclusiveMinimum}`];
+      }
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+  }
+}
+
+/**
+ * Check a skill's input DataPart against its input schema
+ * Returns the list of problems (empty when valid). Free-text skills always pass.
+ */
+export function validateSkillInput(skillId: MarketplaceSkillId, input: Record<string, unknown> | null): string[] {
+  const schema = MARKETPLACE_SKILLS[skillId].inputSchema;
+  if (!schema || skillId === 'negotiate-listing') {
+    // Negotiation input is the message text; its offer is validated by parseNegotiationOffer
+    return [];
+  }
+  return validateValue(schema, input, 'input');
+}
@@ -0,0 +1,49 @@
+/**
+ * Helpers for streaming completion text as A2A artifact chunks
+ */
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Value so far of a JSON string field in a possibly incomplete JSON document
+ * Negotiation replies are JSON ({"message": ..., "offer": ...}); this lets the
+ * executor stream the message text while the rest is still being generated.
+ */
+export function partialJsonStringField(json: string, field: string): string {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!start) {
+    return '';
+  }
+
+  let text = '';
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+
+    // Escape sequence; stop if it is cut off mid-way
+    const next = json[i + 1];
+    if (next === undefined) {
+      break;
+    }
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    text += JSON_ESCAPES[next] ?? next;
+    i++;
+  }
+
+  return text;
+}
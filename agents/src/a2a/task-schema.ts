@@ -0,0 +1,98 @@
+/**
+ * Database schema for the A2A TaskStore
+ * Registered through a2aPlugin so the ElizaOS SQL plugin migrates it
+ * alongside its own tables (in the `a2a` Postgres schema).
+ */
+
+import type { Plugin } from '@elizaos/core';
+import type { PushNotificationConfig, Task, TaskStatus } from '@a2a-js/sdk';
+import {
+  index,
+  integer,
+  jsonb,
+  pgSchema,
+  primaryKey,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+const a2aSchema = pgSchema('a2a');
+
+/**
+ * Latest snapshot of each task, keyed by taskId and indexed by contextId
+ */
+export const a2aTasks = a2aSchema.table(
+  'tasks',
+  {
+    id: text('id').primaryKey(),
+    agentId: uuid('agent_id').notNull(),
+    contextId: text('context_id').notNull(),
+    state: text('state').notNull(),
+    task: jsonb('task').$type<Task>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('a2a_tasks_agent_context_idx').on(table.agentId, table.contextId)]
+);
+
+/**
+ * Append-only log of task status transitions
+ * `sequence` starts at 1 for each task and increases by one per transition.
+ */
+export const a2aTaskTransitions = a2aSchema.table(
+  'task_transitions',
+  {
+    taskId: text('task_id')
+      .notNull()
+      .references(() => a2aTasks.id, { onDelete: 'cascade' }),
+    sequence: integer('sequence').notNull(),
+    state: text('state').notNull(),
+    status: jsonb('status').$type<TaskStatus>().notNull(),
+    timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.sequence] })]
+);
+
+/**
+ * Webhooks registered with tasks/pushNotificationConfig/set (or message/send)
+ * `config_id` defaults to the taskId, as in the SDK's in-memory store. There is
+ * no foreign key: message/send stores the config before the task's first save.
+ */
+export const a2aPushNotificationConfigs = a2aSchema.table(
+  'push_notification_configs',
+  {
+    taskId: text('task_id').notNull(),
+    configId: text('config_id').notNull(),
+    config: jsonb('config').$type<PushNotificationConfig>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.configId] })]
+);
+
+/**
+ * Conversation memory state per agent and context
+ * Tasks created up to `summarized_until` are replaced by `summary` when the
+ * transcript is replayed; tasks created before `reset_at` are forgotten.
+ */
+export const a2aContexts = a2aSchema.table(
+  'contexts',
+  {
+    agentId: uuid('agent_id').notNull(),
+    contextId: text('context_id').notNull(),
+    summary: text('summary'),
+    summarizedUntil: timestamp('summarized_until', { withTimezone: true }),
+    resetAt: timestamp('reset_at', { withTimezone: true }),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.agentId, table.contextId] })]
+);
+
+/**
+ * Plugin carrying the A2A tables; add it to every agent that serves A2A
+ */
+export const a2aPlugin: Plugin = {
+  name: 'a2a',
+  description: 'A2A Protocol task and push notification persistence',
+  schema: { a2aTasks, a2aTaskTransitions, a2aPushNotificationConfigs, a2aContexts },
+};
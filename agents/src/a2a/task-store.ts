@@ -1,83 +1,238 @@
 /**
- * ElizaOS Memory-based TaskStore implementation for A2A SDK
- * Stores tasks in agent memory instead of external database
+ * Database-backed TaskStore implementation for A2A SDK
+ * Stores the latest task snapshot in a2a.tasks and appends every status
+ * transition to a2a.task_transitions, using the agent's ElizaOS database.
  */
 
 import { TaskStore } from '@a2a-js/sdk/server';
-import { Task } from '@a2a-js/sdk';
-import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { Task, TaskStatus } from '@a2a-js/sdk';
+import type { IAgentRuntime } from '@elizaos/core';
+import { and, count, desc, eq, gt } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { a2aTasks, a2aTaskTransitions } from './task-schema.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+// Most tasks of one context replayed into conversation memory
+const MAX_HISTORY_TASKS = 200;
+// Attempts to append a transition when a concurrent save took the same sequence
+const MAX_SAVE_ATTEMPTS = 3;
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface TaskStateTransition {
+  sequence: number;
+  state: TaskStatus['state'];
+  status: TaskStatus;
+  timestamp: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Clamp user-supplied paging parameters
+ */
+export function normalizePage(options: PageOptions = {}): { offset: number; limit: number } {
+  const offset = Math.max(0, Math.floor(Number(options.offset) || 0));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(options.limit) || DEFAULT_PAGE_SIZE)));
+  return { offset, limit };
+}
+
+/**
+ * Whether a database error (possibly wrapped by drizzle) is a unique constraint violation
+ */
+function isUniqueViolation(error: unknown): boolean {
+  if (!(error instanceof Object)) {
+    return false;
+  }
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  return code === UNIQUE_VIOLATION || isUniqueViolation(cause);
+}
 
 export class ElizaTaskStore implements TaskStore {
   private runtime: IAgentRuntime;
-  private roomId: UUID;
 
-  constructor(runtime: IAgentRuntime, roomId: UUID) {
+  constructor(runtime: IAgentRuntime) {
     this.runtime = runtime;
-    this.roomId = roomId;
+  }
+
+  private get db(): PgDatabase<PgQueryResultHKT> {
+    return this.runtime.db;
   }
 
   /**
-   * Save a task to ElizaOS memory
+   * Save the task snapshot and record its status if it changed
+   * The SDK saves on every event, so a transition is only appended when the
+   * state or status timestamp differs from the last recorded one.
+   * Concurrent saves of one task can read the same last sequence; the loser
+   * hits the (task_id, sequence) primary key and is retried against the new last row.
    */
   async save(task: Task): Promise<void> {
-    try {
-      // Store task in agent memory
-      await this.runtime.addMemory({
-        content: {
-          text: `A2A Task: ${task.id}`,
-          taskData: JSON.stringify(task),
-          taskId: task.id,
-          // Store status as JSON string to preserve structure
-          taskStatus: typeof task.status === 'string'
-            ? task.status
-            : JSON.stringify(task.status),
-        },
-        type: 'a2a_task',
-        roomId: this.roomId,
-        unique: true,
-      });
-
-      console.log(`✅ Task saved to memory: ${task.id} (status: ${JSON.stringify(task.status)})`);
-    } catch (error) {
-      console.error('❌ Failed to save task:', error);
-      throw error;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.saveOnce(task);
+        console.log(`✅ Task saved: ${task.id} (status: ${task.status.state})`);
+        return;
+      } catch (error) {
+        if (isUniqueViolation(error) && attempt < MAX_SAVE_ATTEMPTS) {
+          console.warn(`⚠️ Transition sequence conflict for task ${task.id}, retrying (${attempt}/${MAX_SAVE_ATTEMPTS})`);
+          continue;
+        }
+        console.error('❌ Failed to save task:', error);
+        throw error;
+      }
     }
   }
 
+  private async saveOnce(task: Task): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .insert(a2aTasks)
+        .values({
+          id: task.id,
+          agentId: this.runtime.agentId,
+          contextId: task.contextId,
+          state: task.status.state,
+          task,
+        })
+        .onConflictDoUpdate({
+          target: a2aTasks.id,
+          set: {
+            contextId: task.contextId,
+            state: task.status.state,
+            task,
+            updatedAt: new Date(),
+          },
+        });
+
+      const [last] = await tx
+        .select()
+        .from(a2aTaskTransitions)
+        .where(eq(a2aTaskTransitions.taskId, task.id))
+        .orderBy(desc(a2aTaskTransitions.sequence))
+        .limit(1);
+
+      if (last && last.state === task.status.state && last.status.timestamp === task.status.timestamp) {
+        return;
+      }
+
+      await tx.insert(a2aTaskTransitions).values({
+        taskId: task.id,
+        sequence: (last?.sequence ?? 0) + 1,
+        state: task.status.state,
+        status: task.status,
+        timestamp: task.status.timestamp ? new Date(task.status.timestamp) : new Date(),
+      });
+    });
+  }
+
   /**
-   * Load a task from ElizaOS memory
+   * Load a task by ID
    */
   async load(taskId: string): Promise<Task | undefined> {
     try {
-      // Search for task in memory with increased limit
-      // Note: For production, consider implementing pagination or indexed search
-      const memories = await this.runtime.getMemories({
-        roomId: this.roomId,
-        count: 1000, // Increased from 100 to support more tasks
-        unique: true,
-      });
+      const [row] = await this.db
+        .select({ task: a2aTasks.task })
+        .from(a2aTasks)
+        .where(and(eq(a2aTasks.id, taskId), eq(a2aTasks.agentId, this.runtime.agentId)))
+        .limit(1);
 
-      // Find task by ID
-      const taskMemory = memories.find((memory) => {
-        const content = memory.content as {
-          taskId?: string;
-          taskData?: string;
-        };
-        return content.taskId === taskId && memory.type === 'a2a_task';
-      });
-
-      if (!taskMemory) {
-        console.log(`⚠️ Task ${taskId} not found in memory`);
+      if (!row) {
+        console.log(`⚠️ Task ${taskId} not found`);
         return undefined;
       }
 
-      // Parse and return task
-      const content = taskMemory.content as { taskData: string };
-      const task = JSON.parse(content.taskData) as Task;
-      return task;
+      return row.task;
     } catch (error) {
       console.error(`❌ Failed to load task ${taskId}:`, error);
       return undefined;
     }
   }
+
+  /**
+   * State transitions of a task, oldest first
+   * Returns undefined if the task does not belong to this agent.
+   */
+  async getTransitions(taskId: string, options?: PageOptions): Promise<Page<TaskStateTransition> | undefined> {
+    const { offset, limit } = normalizePage(options);
+
+    if (!(await this.load(taskId))) {
+      return undefined;
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(a2aTaskTransitions)
+        .where(eq(a2aTaskTransitions.taskId, taskId))
+        .orderBy(a2aTaskTransitions.sequence)
+        .offset(offset)
+        .limit(limit),
+      this.db.select({ total: count() }).from(a2aTaskTransitions).where(eq(a2aTaskTransitions.taskId, taskId)),
+    ]);
+
+    return {
+      items: rows.map((row) => ({
+        sequence: row.sequence,
+        state: row.state as TaskStatus['state'],
+        status: row.status,
+        timestamp: row.timestamp.toISOString(),
+      })),
+      total,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Tasks in a conversation context, most recently updated first
+   */
+  async listByContext(contextId: string, options?: PageOptions): Promise<Page<Task>> {
+    const { offset, limit } = normalizePage(options);
+    const where = and(eq(a2aTasks.agentId, this.runtime.agentId), eq(a2aTasks.contextId, contextId));
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select({ task: a2aTasks.task })
+        .from(a2aTasks)
+        .where(where)
+        .orderBy(desc(a2aTasks.updatedAt))
+        .offset(offset)
+        .limit(limit),
+      this.db.select({ total: count() }).from(a2aTasks).where(where),
+    ]);
+
+    return { items: rows.map((row) => row.task), total, offset, limit };
+  }
+
+  /**
+   * Tasks in a conversation context, oldest first
+   * @param after - Only tasks created after this time
+   */
+  async listContextHistory(contextId: string, after?: Date): Promise<Array<{ task: Task; createdAt: Date }>> {
+    const rows = await this.db
+      .select({ task: a2aTasks.task, createdAt: a2aTasks.createdAt })
+      .from(a2aTasks)
+      .where(
+        and(
+          eq(a2aTasks.agentId, this.runtime.agentId),
+          eq(a2aTasks.contextId, contextId),
+          after ? gt(a2aTasks.createdAt, after) : undefined
+        )
+      )
+      .orderBy(desc(a2aTasks.createdAt))
+      .limit(MAX_HISTORY_TASKS);
+
+    return rows.reverse();
+  }
 }
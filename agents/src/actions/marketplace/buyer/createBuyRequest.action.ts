@@ -10,6 +10,7 @@ import {
   Memory,
   State,
 } from '@elizaos/core';
+import { backendTokens } from '../services/backendToken';
 import { marketplaceApi } from '../services/marketplaceApi';
 import { paramExtractor } from '../services/paramExtractor';
 import { BuyRequestParams } from '../shared/types';
@@ -59,7 +60,16 @@ export const createBuyRequestAction: Action = {
       // All params present - create the buy request
       console.log('✅ All params present. Creating buy request...\n');
 
-      const result = await marketplaceApi.createBuyRequest(extraction.params as BuyRequestParams);
+      const negotiationStrategy = runtime.getSetting('NEGOTIATION_STRATEGY') as
+        | BuyRequestParams['negotiationStrategy']
+        | undefined;
+      const minReputation = runtime.getSetting('MIN_SELLER_REPUTATION');
+
+      const result = await marketplaceApi.createBuyRequest({
+        ...(extraction.params as BuyRequestParams),
+        ...(negotiationStrategy ? { negotiationStrategy } : {}),
+        ...(minReputation ? { minReputation: Number(minReputation) } : {}),
+      }, await backendTokens.get(runtime));
 
       console.log('✅ Buy request created!');
       console.log('   ID:', result.buyRequestId);
@@ -0,0 +1,102 @@
+/**
+ * ACCEPT_INQUIRY Action (Seller)
+ * Reserves a listing for a pending inquiry on-chain (selectReservation) once
+ * the seller confirms. The backend verifies the buyer's intent mandate, if
+ * any, before reserving.
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { marketplaceApi } from '../services/marketplaceApi';
+import { ListingInquiry, SellerListing } from '../shared/types';
+import { isFromOwnerChat, proposeListingWrite, refuseUnlessOwnerChat, resolveSellerListing } from './listingManagement';
+
+export const acceptInquiryAction: Action = {
+  name: 'ACCEPT_INQUIRY',
+  similes: ['ACCEPT_OFFER', 'SELECT_RESERVATION', 'RESERVE_FOR_BUYER'],
+  description: 'Accept a pending inquiry (buyer offer) on one of your open listings, reserving the item for that buyer on-chain. Asks for confirmation first.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    return (message.content.text || '').trim().length > 2 && (await isFromOwnerChat(runtime, message));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    console.log('\n🤝 ACCEPT_INQUIRY:', message.content.text);
+
+    if (await refuseUnlessOwnerChat(runtime, message, callback)) return;
+
+    try {
+      const reference = await resolveSellerListing(runtime, message, state, ['OPEN']);
+      const listings = reference.listing ? [reference.listing] : reference.candidates;
+
+      const pending: { listing: SellerListing; inquiry: ListingInquiry }[] = [];
+      for (const listing of listings) {
+        const inquiries = await marketplaceApi.getListingInquiries(listing.listingId, 'PENDING');
+        pending.push(...inquiries.map((inquiry) => ({ listing, inquiry })));
+      }
+
+      // An explicit inquiry ID wins; otherwise only an unambiguous single offer
+      const choice = reference.inquiryId
+        ? pending.find(({ inquiry }) => inquiry.inquiryId === reference.inquiryId)
+        : pending.length === 1
+        ? pending[0]
+        : undefined;
+
+      if (!choice) {
+        await callback({
+          text: pending.length === 0
+            ? 'There are no pending inquiries to accept.'
+            : `Which inquiry should I accept?\n\n${pending
+                .map(({ listing, inquiry }) => `• Inquiry #${inquiry.inquiryId} on #${listing.listingId} ${listing.title}: ${inquiry.offerPrice} HBAR from Agent #${inquiry.buyerAgentId}`)
+                .join('\n')}`,
+        });
+        return;
+      }
+
+      const { listing, inquiry } = choice;
+      await proposeListingWrite(
+        message,
+        {
+          kind: 'select_reservation',
+          sellerAgentId: reference.sellerAgentId,
+          listingId: listing.listingId,
+          inquiryId: inquiry.inquiryId,
+          summary: `Reserve listing #${listing.listingId} (${listing.title}) for inquiry #${inquiry.inquiryId} from Agent #${inquiry.buyerAgentId} at ${inquiry.offerPrice} HBAR with selectReservation. Their ${inquiry.escrowAmount} HBAR stays in escrow until you mark it sold.`,
+        },
+        callback
+      );
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Accept inquiry 4' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: '⚠️ Please confirm: Reserve listing #1 (Vintage camera) for inquiry #4 from Agent #12 at 45 HBAR with selectReservation.\n\nReply "yes" to send it on-chain or "no" to cancel.',
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,122 @@
+/**
+ * CONFIRM_LISTING_ACTION Action (Seller)
+ * Runs (or drops) the listing write proposed by WITHDRAW_LISTING, ACCEPT_INQUIRY,
+ * MARK_SOLD or UPDATE_LISTING when the seller who asked for it answers yes (or no)
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { confirmations } from '../services/confirmation';
+import { marketplaceApi } from '../services/marketplaceApi';
+import { ListingTxResult, PendingListingWrite } from '../shared/types';
+import { getAuthToken, isFromOwnerChat, refuseUnlessOwnerChat } from './listingManagement';
+
+const DONE_MESSAGES: Record<PendingListingWrite['kind'], string> = {
+  cancel_listing: 'withdrawn',
+  select_reservation: 'reserved',
+  complete_listing: 'marked as sold',
+  update_policy: 'repriced',
+};
+
+function describeTx(write: PendingListingWrite, result: ListingTxResult): string {
+  console.log('✅ Done! TX:', result.transactionId);
+  return `✅ Listing #${write.listingId} ${DONE_MESSAGES[write.kind]}.\nTX: ${result.transactionId}`;
+}
+
+/**
+ * Run a confirmed write and describe the outcome
+ */
+async function executeWrite(write: PendingListingWrite, authToken?: string): Promise<string> {
+  switch (write.kind) {
+    case 'cancel_listing':
+      return describeTx(write, await marketplaceApi.cancelListing(write.sellerAgentId, write.listingId, authToken));
+    case 'select_reservation':
+      return describeTx(
+        write,
+        await marketplaceApi.selectReservation(write.sellerAgentId, write.listingId, write.inquiryId!, authToken)
+      );
+    case 'complete_listing':
+      return describeTx(write, await marketplaceApi.completeListing(write.sellerAgentId, write.listingId, authToken));
+    case 'update_policy': {
+      const policy = await marketplaceApi.updateNegotiationPolicy(write.listingId, write.policyUpdate!, authToken);
+      console.log(`✅ Listing #${write.listingId} target price: ${policy.targetPrice} HBAR`);
+      return `✅ Listing #${write.listingId} ${DONE_MESSAGES[write.kind]}: it now asks ${policy.targetPrice} HBAR.\nI won't accept less than ${policy.floorPrice} HBAR.`;
+    }
+  }
+}
+
+export const confirmListingAction: Action = {
+  name: 'CONFIRM_LISTING_ACTION',
+  similes: ['CONFIRM', 'APPROVE_ACTION', 'REJECT_ACTION'],
+  description: 'Answer a pending confirmation for a listing change: yes sends it on-chain, no cancels it.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    return (
+      confirmations.pendingFor(message.roomId, message.entityId) !== null &&
+      confirmations.classifyReply(message.content.text || '') !== null &&
+      (await isFromOwnerChat(runtime, message))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    if (await refuseUnlessOwnerChat(runtime, message, callback)) return;
+
+    const reply = confirmations.classifyReply(message.content.text || '');
+    const write = confirmations.take(message.roomId, message.entityId);
+
+    if (!write) {
+      await callback({ text: 'There is nothing waiting for confirmation (it may have expired).' });
+      return;
+    }
+
+    if (reply !== 'confirm') {
+      console.log(`🚫 ${write.kind} on listing #${write.listingId} rejected by seller`);
+      await callback({ text: `OK, I won't change listing #${write.listingId}.` });
+      return;
+    }
+
+    console.log(`\n⛓️  ${write.kind} on listing #${write.listingId} confirmed by seller`);
+
+    try {
+      const text = await executeWrite(write, await getAuthToken(runtime));
+
+      await callback({
+        text,
+        action: 'CONFIRM_LISTING_ACTION',
+      });
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'yes' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: '✅ Listing #3 withdrawn.\nTX: 0.0.1234@1700000000.000000000',
+          action: 'CONFIRM_LISTING_ACTION',
+        },
+      },
+    ],
+  ],
+};
@@ -10,6 +10,7 @@ import {
   Memory,
   State,
 } from '@elizaos/core';
+import { backendTokens } from '../services/backendToken';
 import { marketplaceApi } from '../services/marketplaceApi';
 import { paramExtractor } from '../services/paramExtractor';
 import { ListingParams } from '../shared/types';
@@ -59,7 +60,8 @@ export const createListingAction: Action = {
       // All params present - create the listing
       console.log('✅ All params present. Creating listing...\n');
 
-      const result = await marketplaceApi.createListing(extraction.params as ListingParams);
+      const authToken = await backendTokens.get(runtime);
+      const result = await marketplaceApi.createListing(extraction.params as ListingParams, authToken);
 
       console.log('✅ Listing created!');
       console.log('   ID:', result.listingId);
@@ -4,3 +4,9 @@
  */
 
 export { createListingAction } from './createListing.action';
+export { updateListingAction } from './updateListing.action';
+export { withdrawListingAction } from './withdrawListing.action';
+export { reviewInquiriesAction } from './reviewInquiries.action';
+export { acceptInquiryAction } from './acceptInquiry.action';
+export { markSoldAction } from './markSold.action';
+export { confirmListingAction } from './confirmListingAction.action';
@@ -0,0 +1,141 @@
+/**
+ * Listing management helpers shared by the seller actions that act on an
+ * existing listing (UPDATE_LISTING, WITHDRAW_LISTING, REVIEW_INQUIRIES,
+ * ACCEPT_INQUIRY, MARK_SOLD)
+ */
+
+import { HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { backendTokens } from '../services/backendToken';
+import { confirmations } from '../services/confirmation';
+import { marketplaceApi } from '../services/marketplaceApi';
+import { paramExtractor } from '../services/paramExtractor';
+import { translator } from '../services/translator';
+import { PendingListingWrite, SellerListing } from '../shared/types';
+
+// Source, room source and entity metadata key of A2A conversations (see A2AExecutor)
+const A2A_SOURCE = 'a2a';
+const A2A_CLIENT_NAME = 'a2a-client';
+
+export interface ListingReference {
+  sellerAgentId: number;
+  /** The listing the message refers to, if it could be pinned down */
+  listing: SellerListing | null;
+  /** The seller's listings in the requested statuses */
+  candidates: SellerListing[];
+  inquiryId?: string;
+  price?: number;
+}
+
+/**
+ * Work out which of the seller agent's listings a message is about
+ * An explicit ID wins, then a title match, then the only candidate.
+ * @param statuses Listing statuses the action can act on
+ */
+export async function resolveSellerListing(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined,
+  statuses: string[]
+): Promise<ListingReference> {
+  const sellerAgentId = await paramExtractor.getAgentId(runtime, 'seller');
+  const listings = await marketplaceApi.getSellerListings(sellerAgentId);
+  const candidates = listings.filter((listing) => statuses.includes(listing.status));
+
+  const reference = await translator.extractListingReference(message.content.text || '', state?.text);
+
+  let listing: SellerListing | null = null;
+  if (reference.listingId) {
+    listing = candidates.find((candidate) => candidate.listingId === reference.listingId) ?? null;
+  } else if (reference.listingTitle) {
+    const title = reference.listingTitle.toLowerCase();
+    const matches = candidates.filter(
+      (candidate) => candidate.title.toLowerCase().includes(title) || title.includes(candidate.title.toLowerCase())
+    );
+    listing = matches.length === 1 ? matches[0] : null;
+  } else if (candidates.length === 1) {
+    listing = candidates[0];
+  }
+
+  return { sellerAgentId, listing, candidates, inquiryId: reference.inquiryId, price: reference.price };
+}
+
+/**
+ * One line per listing, for asking the seller which one they mean
+ */
+export function describeListings(listings: SellerListing[]): string {
+  return listings
+    .map((listing) => `• #${listing.listingId} ${listing.title} (${listing.basePrice}-${listing.expectedPrice} HBAR, ${listing.status})`)
+    .join('\n');
+}
+
+/**
+ * Reply when the listing could not be pinned down
+ */
+export async function askWhichListing(
+  reference: ListingReference,
+  purpose: string,
+  callback: HandlerCallback
+): Promise<void> {
+  const text = reference.candidates.length === 0
+    ? `You have no listings I can ${purpose}.`
+    : `Which listing should I ${purpose}?\n\n${describeListings(reference.candidates)}`;
+
+  await callback({ text });
+}
+
+/**
+ * Whether a message comes from the seller's own chat rather than an A2A client
+ * A2A conversations run in rooms of their own (source 'a2a') as an a2a-client entity.
+ */
+export async function isFromOwnerChat(runtime: IAgentRuntime, message: Memory): Promise<boolean> {
+  if (message.content.source === A2A_SOURCE) return false;
+
+  const [room, entity] = await Promise.all([runtime.getRoom(message.roomId), runtime.getEntityById(message.entityId)]);
+  return (
+    room?.source !== A2A_SOURCE &&
+    entity?.metadata?.[A2A_SOURCE] === undefined &&
+    !entity?.names.includes(A2A_CLIENT_NAME)
+  );
+}
+
+/**
+ * Refuse a listing change that doesn't come from the seller's own chat
+ * Checked in the handlers too, as the runtime runs planned actions without validating them.
+ * @returns whether the message was refused
+ */
+export async function refuseUnlessOwnerChat(
+  runtime: IAgentRuntime,
+  message: Memory,
+  callback: HandlerCallback
+): Promise<boolean> {
+  if (await isFromOwnerChat(runtime, message)) return false;
+
+  console.warn(`🚫 Listing change refused outside the owner's chat (room ${message.roomId})`);
+  await callback({ text: "Listing changes can only be made by this agent's owner from their own chat." });
+  return true;
+}
+
+/**
+ * Hold a listing write until the seller confirms it (see CONFIRM_LISTING_ACTION)
+ * Only the entity that asked for it can confirm it.
+ */
+export async function proposeListingWrite(
+  message: Memory,
+  write: Omit<PendingListingWrite, 'expiresAt' | 'proposedBy'>,
+  callback: HandlerCallback
+): Promise<void> {
+  confirmations.request(message.roomId, { ...write, proposedBy: message.entityId });
+
+  await callback({
+    text: `⚠️ Please confirm: ${write.summary}\n\nReply "yes" to ${
+      write.kind === 'update_policy' ? 'apply it' : 'send it on-chain'
+    } or "no" to cancel.`,
+  });
+}
+
+/**
+ * The agent's backend token, refreshed if it is about to expire
+ */
+export function getAuthToken(runtime: IAgentRuntime): Promise<string | undefined> {
+  return backendTokens.get(runtime);
+}
@@ -0,0 +1,77 @@
+/**
+ * MARK_SOLD Action (Seller)
+ * Completes a reserved listing on-chain (completeListing) once the seller
+ * confirms, releasing the buyer's escrow to the seller.
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { askWhichListing, isFromOwnerChat, proposeListingWrite, refuseUnlessOwnerChat, resolveSellerListing } from './listingManagement';
+
+export const markSoldAction: Action = {
+  name: 'MARK_SOLD',
+  similes: ['COMPLETE_LISTING', 'ITEM_SOLD', 'COMPLETE_SALE', 'HANDED_OVER'],
+  description: 'Mark a reserved listing as sold once the item has been handed over, releasing the buyer\'s escrow to you on-chain. Asks for confirmation first.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    return (message.content.text || '').trim().length > 2 && (await isFromOwnerChat(runtime, message));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    console.log('\n🏁 MARK_SOLD:', message.content.text);
+
+    if (await refuseUnlessOwnerChat(runtime, message, callback)) return;
+
+    try {
+      const reference = await resolveSellerListing(runtime, message, state, ['RESERVED']);
+      if (!reference.listing) {
+        await askWhichListing(reference, 'mark as sold', callback);
+        return;
+      }
+      const listing = reference.listing;
+
+      await proposeListingWrite(
+        message,
+        {
+          kind: 'complete_listing',
+          sellerAgentId: reference.sellerAgentId,
+          listingId: listing.listingId,
+          summary: `Mark listing #${listing.listingId} (${listing.title}) as sold with completeListing. The buyer's escrow is released to you; only do this after the hand-over.`,
+        },
+        callback
+      );
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'The buyer picked up the camera' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: '⚠️ Please confirm: Mark listing #1 (Vintage camera) as sold with completeListing.\n\nReply "yes" to send it on-chain or "no" to cancel.',
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,88 @@
+/**
+ * REVIEW_INQUIRIES Action (Seller)
+ * Lists the pending inquiries (offers with escrow) on the seller's open listings
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { marketplaceApi } from '../services/marketplaceApi';
+import { ListingInquiry } from '../shared/types';
+import { resolveSellerListing } from './listingManagement';
+
+function describeInquiry(inquiry: ListingInquiry): string {
+  return `  • Inquiry #${inquiry.inquiryId} from Agent #${inquiry.buyerAgentId}: ${inquiry.offerPrice} HBAR (${inquiry.escrowAmount} HBAR in escrow)${
+    inquiry.mandateVcHash ? ', with intent mandate' : ''
+  }${inquiry.message ? `\n    "${inquiry.message}"` : ''}`;
+}
+
+export const reviewInquiriesAction: Action = {
+  name: 'REVIEW_INQUIRIES',
+  similes: ['RESPOND_INQUIRY', 'LIST_INQUIRIES', 'SHOW_OFFERS', 'CHECK_OFFERS'],
+  description: 'Show the pending inquiries (buyer offers) on your open listings, best offer first.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    return (message.content.text || '').trim().length > 2;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    console.log('\n📬 REVIEW_INQUIRIES:', message.content.text);
+
+    try {
+      const reference = await resolveSellerListing(runtime, message, state, ['OPEN']);
+      const listings = reference.listing ? [reference.listing] : reference.candidates;
+
+      if (listings.length === 0) {
+        await callback({ text: 'You have no open listings.' });
+        return;
+      }
+
+      const sections: string[] = [];
+      for (const listing of listings) {
+        const inquiries = await marketplaceApi.getListingInquiries(listing.listingId, 'PENDING');
+        if (inquiries.length > 0) {
+          sections.push(`📦 #${listing.listingId} ${listing.title}\n${inquiries.map(describeInquiry).join('\n')}`);
+        }
+      }
+
+      await callback({
+        text: sections.length > 0
+          ? `Pending inquiries:\n\n${sections.join('\n\n')}\n\nTell me which inquiry to accept.`
+          : 'No pending inquiries on your open listings yet.',
+        action: 'REVIEW_INQUIRIES',
+      });
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Any offers on my listings?' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: 'Pending inquiries:\n\n📦 #1 Vintage camera\n  • Inquiry #4 from Agent #12: 45 HBAR (45 HBAR in escrow)',
+          action: 'REVIEW_INQUIRIES',
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,122 @@
+/**
+ * UPDATE_LISTING Action (Seller)
+ * Changes the price the seller agent negotiates a listing towards.
+ * A listing's on-chain price range can't be changed, so this updates its
+ * negotiation policy (off-chain); the on-chain basePrice stays the floor.
+ * The change is applied once the seller confirms it (see CONFIRM_LISTING_ACTION).
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { confirmations } from '../services/confirmation';
+import { marketplaceApi } from '../services/marketplaceApi';
+import {
+  askWhichListing,
+  getAuthToken,
+  isFromOwnerChat,
+  proposeListingWrite,
+  refuseUnlessOwnerChat,
+  resolveSellerListing,
+} from './listingManagement';
+
+export const updateListingAction: Action = {
+  name: 'UPDATE_LISTING',
+  similes: ['CHANGE_PRICE', 'UPDATE_PRICE', 'SET_PRICE', 'LOWER_PRICE', 'RAISE_PRICE'],
+  description: 'Change the asking price of one of your open listings. The agent negotiates towards the new price; the on-chain minimum (base price) cannot go lower.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text || '';
+    // Language-independent: a new price is a number. Not while a new listing is being
+    // described (its prices are numbers too) or when answering a pending confirmation.
+    const answersConfirmation =
+      confirmations.pendingFor(message.roomId, message.entityId) !== null &&
+      confirmations.classifyReply(text) !== null;
+
+    return (
+      text.trim().length > 2 &&
+      /\d+/.test(text) &&
+      state?.listingInProgress !== true &&
+      !answersConfirmation &&
+      (await isFromOwnerChat(runtime, message))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    console.log('\n✏️  UPDATE_LISTING:', message.content.text);
+
+    if (await refuseUnlessOwnerChat(runtime, message, callback)) return;
+
+    try {
+      const reference = await resolveSellerListing(runtime, message, state, ['OPEN']);
+      if (!reference.listing) {
+        await askWhichListing(reference, 'change the price of', callback);
+        return;
+      }
+      const listing = reference.listing;
+
+      if (reference.price === undefined || reference.price < 0) {
+        await callback({ text: `What price should listing #${listing.listingId} (${listing.title}) ask for?` });
+        return;
+      }
+      const price = reference.price;
+
+      if (price < listing.basePrice) {
+        await callback({
+          text: `Listing #${listing.listingId} can't go below its on-chain base price of ${listing.basePrice} HBAR. To sell for less, withdraw it and list it again.`,
+        });
+        return;
+      }
+
+      const current = await marketplaceApi.getNegotiationPolicy(listing.listingId, await getAuthToken(runtime));
+
+      // Keep the floor at or below the new target so the policy stays valid
+      const lowersFloor = price < current.floorPrice;
+
+      await proposeListingWrite(
+        message,
+        {
+          kind: 'update_policy',
+          sellerAgentId: reference.sellerAgentId,
+          listingId: listing.listingId,
+          policyUpdate: { targetPrice: price, ...(lowersFloor && { floorPrice: price }) },
+          summary: `Ask ${price} HBAR for listing #${listing.listingId} (${listing.title}) instead of ${current.targetPrice} HBAR.${
+            lowersFloor ? ` The lowest price I accept drops from ${current.floorPrice} to ${price} HBAR.` : ''
+          } The on-chain price range stays ${listing.basePrice}-${listing.expectedPrice} HBAR.`,
+        },
+        callback
+      );
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Change the price of my camera to 40 HBAR' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: '⚠️ Please confirm: Ask 40 HBAR for listing #1 (Vintage camera) instead of 45 HBAR. The on-chain price range stays 30-50 HBAR.\n\nReply "yes" to apply it or "no" to cancel.',
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,79 @@
+/**
+ * WITHDRAW_LISTING Action (Seller)
+ * Cancels a listing on-chain (cancelListing) once the seller confirms.
+ * A reserved buyer's escrow is refunded by the contract.
+ */
+
+import {
+  Action,
+  HandlerCallback,
+  IAgentRuntime,
+  Memory,
+  State,
+} from '@elizaos/core';
+import { askWhichListing, isFromOwnerChat, proposeListingWrite, refuseUnlessOwnerChat, resolveSellerListing } from './listingManagement';
+
+export const withdrawListingAction: Action = {
+  name: 'WITHDRAW_LISTING',
+  similes: ['CANCEL_LISTING', 'REMOVE_LISTING', 'DELIST_ITEM', 'TAKE_DOWN_LISTING'],
+  description: 'Withdraw (cancel) one of your open or reserved listings on-chain. Asks for confirmation first; a reserved buyer is refunded.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    return (message.content.text || '').trim().length > 2 && (await isFromOwnerChat(runtime, message));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    console.log('\n🗑️  WITHDRAW_LISTING:', message.content.text);
+
+    if (await refuseUnlessOwnerChat(runtime, message, callback)) return;
+
+    try {
+      const reference = await resolveSellerListing(runtime, message, state, ['OPEN', 'RESERVED']);
+      if (!reference.listing) {
+        await askWhichListing(reference, 'withdraw', callback);
+        return;
+      }
+      const listing = reference.listing;
+
+      await proposeListingWrite(
+        message,
+        {
+          kind: 'cancel_listing',
+          sellerAgentId: reference.sellerAgentId,
+          listingId: listing.listingId,
+          summary: `Withdraw listing #${listing.listingId} (${listing.title}) with cancelListing.${
+            listing.status === 'RESERVED' ? ' It is reserved, so the buyer\'s escrow will be refunded.' : ''
+          }`,
+        },
+        callback
+      );
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      await callback({
+        text: `❌ Failed: ${error.message}`,
+        error: true,
+      });
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Take down listing 3, I sold it elsewhere' },
+      },
+      {
+        name: '{{agentName}}',
+        content: {
+          text: '⚠️ Please confirm: Withdraw listing #3 (Desk lamp) with cancelListing.\n\nReply "yes" to send it on-chain or "no" to cancel.',
+        },
+      },
+    ],
+  ],
+};
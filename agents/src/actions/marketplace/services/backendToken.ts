@@ -0,0 +1,91 @@
+/**
+ * Backend Token Service
+ * Keeps each agent's backend token (BACKEND_AUTH_TOKEN) fresh. The backend
+ * issues short-lived agent tokens on create/restore; they are exchanged for a
+ * new one before they expire, both on use and on a timer for idle agents.
+ */
+
+import type { IAgentRuntime } from '@elizaos/core';
+import { marketplaceApi } from './marketplaceApi';
+
+const TOKEN_SETTING = 'BACKEND_AUTH_TOKEN';
+
+// Refresh once the token has less than this left
+const REFRESH_MARGIN_MS = 15 * 60 * 1000;
+
+// How often idle agents check their token (well inside the margin)
+const REFRESH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+export class BackendTokenService {
+  private refreshing = new Map<string, Promise<string | undefined>>();
+  private timers = new Map<string, ReturnType<typeof setInterval>>();
+
+  /**
+   * The agent's backend token, refreshed first if it is about to expire
+   * Falls back to the current token if the refresh fails.
+   */
+  async get(runtime: IAgentRuntime, now: number = Date.now()): Promise<string | undefined> {
+    const token = runtime.getSetting(TOKEN_SETTING) as string | undefined;
+    if (!token) return undefined;
+
+    const expiresAt = tokenExpiry(token);
+    if (expiresAt === null || expiresAt - now > REFRESH_MARGIN_MS) {
+      return token;
+    }
+
+    // Share one refresh between concurrent callers
+    let refresh = this.refreshing.get(runtime.agentId);
+    if (!refresh) {
+      refresh = this.refresh(runtime, token).finally(() => this.refreshing.delete(runtime.agentId));
+      this.refreshing.set(runtime.agentId, refresh);
+    }
+    return refresh;
+  }
+
+  /**
+   * Keep refreshing the agent's token while it is running
+   */
+  start(runtime: IAgentRuntime): void {
+    this.stop(runtime.agentId);
+
+    const timer = setInterval(() => void this.get(runtime), REFRESH_CHECK_INTERVAL_MS);
+    timer.unref?.();
+    this.timers.set(runtime.agentId, timer);
+  }
+
+  /**
+   * Stop refreshing a removed agent's token
+   */
+  stop(agentId: string): void {
+    clearInterval(this.timers.get(agentId));
+    this.timers.delete(agentId);
+  }
+
+  private async refresh(runtime: IAgentRuntime, token: string): Promise<string | undefined> {
+    try {
+      const refreshed = await marketplaceApi.refreshAgentToken(token);
+      runtime.setSetting(TOKEN_SETTING, refreshed, true);
+      console.log(`🔑 Refreshed backend token for agent ${runtime.agentId}`);
+      return refreshed;
+    } catch (error: any) {
+      console.warn(`⚠️ Failed to refresh backend token for agent ${runtime.agentId}: ${error.message}`);
+      return token;
+    }
+  }
+}
+
+/**
+ * A JWT's expiry (ms), or null if it has none or can't be read
+ * The signature is the backend's to check; this only schedules the refresh.
+ */
+export function tokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Singleton instance
+export const backendTokens = new BackendTokenService();
@@ -0,0 +1,83 @@
+/**
+ * Confirmation Service
+ * Holds the listing write (on-chain call or policy change) each seller
+ * conversation is waiting to have confirmed. Seller actions propose a write; CONFIRM_LISTING_ACTION runs it
+ * once the seller who proposed it replies yes (or drops it on no).
+ */
+
+import { PendingListingWrite } from '../shared/types';
+
+// Proposals the seller hasn't answered within this window are dropped
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+// Whole-message replies only, so "cancel listing 3" is a new request rather than a "no"
+const AFFIRMATIVE_REPLIES = new Set([
+  'yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'okay', 'confirm', 'confirmed', 'go ahead', 'do it', 'proceed', 'yes please',
+  'はい', 'うん', 'お願いします', 'はい、お願いします', '実行して', 'ok、お願いします',
+]);
+const NEGATIVE_REPLIES = new Set([
+  'no', 'n', 'nope', 'cancel', 'stop', 'abort', 'never mind', 'nevermind', 'no thanks', "don't",
+  'いいえ', 'いや', 'やめて', 'やめる', 'キャンセル', '中止',
+]);
+
+export class ConfirmationService {
+  private pending = new Map<string, PendingListingWrite>();
+
+  /**
+   * Propose a write for a conversation, replacing any earlier proposal
+   */
+  request(
+    roomId: string,
+    write: Omit<PendingListingWrite, 'expiresAt'>,
+    now: number = Date.now()
+  ): PendingListingWrite {
+    const pending = { ...write, expiresAt: now + CONFIRMATION_TTL_MS };
+    this.pending.set(roomId, pending);
+    return pending;
+  }
+
+  /**
+   * The conversation's unexpired proposal, if any
+   */
+  peek(roomId: string, now: number = Date.now()): PendingListingWrite | null {
+    const pending = this.pending.get(roomId);
+    if (!pending) return null;
+
+    if (pending.expiresAt <= now) {
+      this.pending.delete(roomId);
+      return null;
+    }
+    return pending;
+  }
+
+  /**
+   * The conversation's unexpired proposal, if the entity is the one that proposed it
+   */
+  pendingFor(roomId: string, entityId: string, now: number = Date.now()): PendingListingWrite | null {
+    const pending = this.peek(roomId, now);
+    return pending?.proposedBy === entityId ? pending : null;
+  }
+
+  /**
+   * Remove and return the conversation's unexpired proposal
+   * Left in place if the entity isn't the one that proposed it.
+   */
+  take(roomId: string, entityId: string, now: number = Date.now()): PendingListingWrite | null {
+    const pending = this.pendingFor(roomId, entityId, now);
+    if (pending) this.pending.delete(roomId);
+    return pending;
+  }
+
+  /**
+   * Whether a reply confirms or rejects the proposal (null if it is neither)
+   */
+  classifyReply(text: string): 'confirm' | 'reject' | null {
+    const reply = text.trim().toLowerCase().replace(/[.!。！\s]+$/u, '');
+    if (AFFIRMATIVE_REPLIES.has(reply)) return 'confirm';
+    if (NEGATIVE_REPLIES.has(reply)) return 'reject';
+    return null;
+  }
+}
+
+// Singleton instance
+export const confirmations = new ConfirmationService();
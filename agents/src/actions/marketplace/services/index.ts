@@ -5,3 +5,5 @@
 
 export { marketplaceApi, MarketplaceApiService } from './marketplaceApi';
 export { paramExtractor, ParamExtractorService } from './paramExtractor';
+export { confirmations, ConfirmationService } from './confirmation';
+export { backendTokens, BackendTokenService } from './backendToken';
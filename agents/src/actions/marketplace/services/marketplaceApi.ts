@@ -10,6 +10,11 @@ import {
   InquiryResult,
   BuyRequestParams,
   BuyRequestResult,
+  NegotiationPolicy,
+  NegotiationPolicyUpdate,
+  SellerListing,
+  ListingInquiry,
+  ListingTxResult,
   MarketplaceError,
 } from '../shared/types';
 
@@ -20,22 +25,33 @@ if (!BACKEND_URL) {
 }
 
 export class MarketplaceApiService {
+  /**
+   * Build request headers, authenticating as the agent's owner when a token is given
+   * The token is issued by the backend when the agent is created/restored (see backendTokens)
+   */
+  private headers(authToken?: string): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(authToken && { Authorization: `Bearer ${authToken}` }),
+    };
+  }
+
   /**
    * Create a new listing on the marketplace
    */
-  async createListing(params: ListingParams): Promise<ListingResult> {
+  async createListing(params: ListingParams, authToken?: string): Promise<ListingResult> {
     console.log('\n╭──────────────────────────────────────────────────────╮');
     console.log('│  🌐 MARKETPLACE API: createListing()                │');
     console.log('╰──────────────────────────────────────────────────────╯');
     console.log('🎯 Target URL:', `${BACKEND_URL}/api/marketplace/listings`);
     console.log('📤 Request method: POST');
-    console.log('📦 Payload:', JSON.stringify({ ...params, privateKey: '***' }, null, 2), '\n');
+    console.log('📦 Payload:', JSON.stringify(params, null, 2), '\n');
 
     try {
       console.log('⏳ Sending HTTP request...');
       const response = await fetch(`${BACKEND_URL}/api/marketplace/listings`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers(authToken),
         body: JSON.stringify(params),
       });
 
@@ -76,11 +92,11 @@ export class MarketplaceApiService {
   /**
    * Create an inquiry/offer on a listing
    */
-  async createInquiry(params: InquiryParams): Promise<InquiryResult> {
+  async createInquiry(params: InquiryParams, authToken?: string): Promise<InquiryResult> {
     try {
       const response = await fetch(`${BACKEND_URL}/api/marketplace/inquiries`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers(authToken),
         body: JSON.stringify(params),
       });
 
@@ -105,9 +121,9 @@ export class MarketplaceApiService {
   }
 
   /**
-   * Create a buy request (what buyer wants to purchase)
+   * Create a buy request (what buyer wants to purchase; requires the owner's token)
    */
-  async createBuyRequest(params: BuyRequestParams): Promise<BuyRequestResult> {
+  async createBuyRequest(params: BuyRequestParams, authToken?: string): Promise<BuyRequestResult> {
     console.log('\n╭──────────────────────────────────────────────────────╮');
     console.log('│  🌐 MARKETPLACE API: createBuyRequest()             │');
     console.log('╰──────────────────────────────────────────────────────╯');
@@ -119,7 +135,7 @@ export class MarketplaceApiService {
       console.log('⏳ Sending HTTP request...');
       const response = await fetch(`${BACKEND_URL}/api/marketplace/buy-requests`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers(authToken),
         body: JSON.stringify(params),
       });
 
@@ -157,6 +173,174 @@ export class MarketplaceApiService {
     }
   }
 
+  /**
+   * Get the seller's negotiation policy for a listing (requires the owner's token)
+   */
+  async getNegotiationPolicy(listingId: string, authToken?: string): Promise<NegotiationPolicy> {
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/marketplace/listings/${listingId}/negotiation-policy`, {
+        headers: this.headers(authToken),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw this.createError(
+          error.error || 'Failed to get negotiation policy',
+          'GET_NEGOTIATION_POLICY_FAILED',
+          error
+        );
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      if (error.code) throw error; // Already a MarketplaceError
+      throw this.createError(
+        `Network error: ${error.message}`,
+        'NETWORK_ERROR',
+        error
+      );
+    }
+  }
+
+  /**
+   * Update the seller's negotiation policy for a listing (requires the owner's token)
+   */
+  async updateNegotiationPolicy(
+    listingId: string,
+    updates: NegotiationPolicyUpdate,
+    authToken?: string
+  ): Promise<NegotiationPolicy> {
+    return this.send(
+      `/api/marketplace/listings/${listingId}/negotiation-policy`,
+      { method: 'PUT', headers: this.headers(authToken), body: JSON.stringify(updates) },
+      'Failed to update negotiation policy',
+      'UPDATE_NEGOTIATION_POLICY_FAILED'
+    );
+  }
+
+  /**
+   * Get one listing's public details
+   */
+  async getListing(listingId: string): Promise<SellerListing> {
+    const listing = await this.send<SellerListing>(
+      `/api/marketplace/listings/${listingId}`,
+      { headers: this.headers() },
+      'Failed to get listing',
+      'GET_LISTING_FAILED'
+    );
+    // The backend returns sellerAgentId as a string here
+    return { ...listing, sellerAgentId: Number(listing.sellerAgentId) };
+  }
+
+  /**
+   * Get a seller agent's listings, newest first
+   */
+  async getSellerListings(sellerAgentId: number): Promise<SellerListing[]> {
+    const result = await this.send<{ listings: SellerListing[] }>(
+      `/api/marketplace/listings?sellerAgentId=${sellerAgentId}`,
+      { headers: this.headers() },
+      'Failed to get listings',
+      'GET_LISTINGS_FAILED'
+    );
+    return result.listings;
+  }
+
+  /**
+   * Get the inquiries on a listing, best offer first
+   */
+  async getListingInquiries(listingId: string, status?: string): Promise<ListingInquiry[]> {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const result = await this.send<{ inquiries: ListingInquiry[] }>(
+      `/api/marketplace/listings/${listingId}/inquiries${query}`,
+      { headers: this.headers() },
+      'Failed to get inquiries',
+      'GET_INQUIRIES_FAILED'
+    );
+    return result.inquiries;
+  }
+
+  /**
+   * Cancel a listing on-chain (OPEN/RESERVED → CANCELLED), refunding a reserved buyer
+   */
+  async cancelListing(sellerAgentId: number, listingId: string, authToken?: string): Promise<ListingTxResult> {
+    return this.send(
+      `/api/marketplace/listings/${listingId}/cancel`,
+      { method: 'POST', headers: this.headers(authToken), body: JSON.stringify({ sellerAgentId }) },
+      'Failed to cancel listing',
+      'CANCEL_LISTING_FAILED'
+    );
+  }
+
+  /**
+   * Reserve a listing for an inquiry on-chain (selectReservation, OPEN → RESERVED)
+   */
+  async selectReservation(
+    sellerAgentId: number,
+    listingId: string,
+    inquiryId: string,
+    authToken?: string
+  ): Promise<ListingTxResult> {
+    return this.send(
+      `/api/marketplace/listings/${listingId}/reserve`,
+      {
+        method: 'POST',
+        headers: this.headers(authToken),
+        body: JSON.stringify({ sellerAgentId, inquiryId, reasonCode: 'seller_choice' }),
+      },
+      'Failed to reserve listing',
+      'SELECT_RESERVATION_FAILED'
+    );
+  }
+
+  /**
+   * Complete a reserved listing on-chain (RESERVED → COMPLETED), releasing escrow to the seller
+   */
+  async completeListing(sellerAgentId: number, listingId: string, authToken?: string): Promise<ListingTxResult> {
+    return this.send(
+      `/api/marketplace/listings/${listingId}/complete`,
+      { method: 'POST', headers: this.headers(authToken), body: JSON.stringify({ sellerAgentId }) },
+      'Failed to complete listing',
+      'COMPLETE_LISTING_FAILED'
+    );
+  }
+
+  /**
+   * Exchange the agent's current backend token for a fresh one
+   */
+  async refreshAgentToken(authToken: string): Promise<string> {
+    const result = await this.send<{ token: string }>(
+      '/agents/token/refresh',
+      { method: 'POST', headers: this.headers(authToken) },
+      'Failed to refresh agent token',
+      'REFRESH_AGENT_TOKEN_FAILED'
+    );
+    return result.token;
+  }
+
+  /**
+   * Send a request to the backend and parse its JSON response
+   * Errors become MarketplaceErrors with the given code (NETWORK_ERROR if unreachable)
+   */
+  private async send<T>(path: string, init: RequestInit, failure: string, code: string): Promise<T> {
+    try {
+      const response = await fetch(`${BACKEND_URL}${path}`, init);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw this.createError(error.error || failure, code, error);
+      }
+
+      return await response.json();
+    } catch (error: any) {
+      if (error.code) throw error; // Already a MarketplaceError
+      throw this.createError(
+        `Network error: ${error.message}`,
+        'NETWORK_ERROR',
+        error
+      );
+    }
+  }
+
   /**
    * Create a typed error
    */
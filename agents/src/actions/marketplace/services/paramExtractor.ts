@@ -40,18 +40,12 @@ export class ParamExtractorService {
 
     const sellerAgentId = await this.getAgentId(runtime, 'seller');
 
-    if (!process.env.HEDERA_MANAGER_ACCOUNT_ID || !process.env.HEDERA_MANAGER_PRIVATE_KEY) {
-      throw new Error('HEDERA_MANAGER_ACCOUNT_ID and HEDERA_MANAGER_PRIVATE_KEY environment variables are required');
-    }
-
     const params: Partial<ListingParams> = {
       sellerAgentId,
       title: aiExtracted.title,
       description: aiExtracted.description || aiExtracted.title,
       basePrice: aiExtracted.basePrice,
       expectedPrice: aiExtracted.expectedPrice,
-      accountId: process.env.HEDERA_MANAGER_ACCOUNT_ID,
-      privateKey: process.env.HEDERA_MANAGER_PRIVATE_KEY,
     };
 
     const missing = this.findMissingParams(params, [
@@ -90,17 +84,11 @@ export class ParamExtractorService {
 
     const buyerAgentId = await this.getAgentId(runtime, 'buyer');
 
-    if (!process.env.HEDERA_RECEIVER_ACCOUNT_ID || !process.env.HEDERA_RECEIVER_PRIVATE_KEY) {
-      throw new Error('HEDERA_RECEIVER_ACCOUNT_ID and HEDERA_RECEIVER_PRIVATE_KEY environment variables are required');
-    }
-
     const params: Partial<InquiryParams> = {
       buyerAgentId,
       listingId,
       offerPrice,
       message: text,
-      accountId: process.env.HEDERA_RECEIVER_ACCOUNT_ID,
-      privateKey: process.env.HEDERA_RECEIVER_PRIVATE_KEY,
     };
 
     const missing = this.findMissingParams(params, ['listingId', 'offerPrice']);
@@ -186,7 +174,7 @@ export class ParamExtractorService {
    * Get agent ID from runtime by resolving elizaAgentId to erc8004AgentId
    * Calls backend API to get the on-chain ID for this agent
    */
-  private async getAgentId(runtime: IAgentRuntime, _type: 'seller' | 'buyer'): Promise<number> {
+  async getAgentId(runtime: IAgentRuntime, _type: 'seller' | 'buyer'): Promise<number> {
     const elizaAgentId = runtime.agentId;
 
     // Check cache first
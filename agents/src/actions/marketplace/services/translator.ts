@@ -137,6 +137,76 @@ Rules:
       return {};
     }
   }
+
+  /**
+   * Extract which listing/inquiry a seller's management request refers to (any language)
+   * Used by the listing management actions (price change, withdraw, accept, mark sold)
+   */
+  async extractListingReference(text: string, conversationHistory?: string): Promise<{
+    listingId?: string;
+    listingTitle?: string;
+    inquiryId?: string;
+    price?: number;
+  }> {
+    if (!this.openai) {
+      return {};
+    }
+
+    try {
+      const messages: any[] = [
+        {
+          role: 'system',
+          content: `A seller is managing their marketplace listings. Extract what their latest message refers to (any language).
+Return ONLY valid JSON:
+{
+  "listingId": "listing number, as a string",
+  "listingTitle": "item name in English",
+  "inquiryId": "inquiry/offer number, as a string",
+  "price": new price number
+}
+
+Rules:
+- Set null for anything not mentioned in the latest message or clearly implied by the conversation
+- Only set listingId/inquiryId for explicit numbers (e.g. "listing #3", "offer 12")
+- price is the NEW price the seller wants, not an existing offer`,
+        },
+      ];
+
+      if (conversationHistory) {
+        messages.push({
+          role: 'user',
+          content: `Previous conversation:\n${conversationHistory}`,
+        });
+      }
+
+      messages.push({
+        role: 'user',
+        content: `Current message: ${text}`,
+      });
+
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages,
+        temperature: 0.1,
+        max_tokens: 100,
+        response_format: { type: 'json_object' },
+      });
+
+      const data = JSON.parse(response.choices[0]?.message?.content || '{}');
+
+      console.log('📊 Extracted listing reference:', data);
+
+      return {
+        listingId: data.listingId != null ? String(data.listingId) : undefined,
+        listingTitle: data.listingTitle || undefined,
+        inquiryId: data.inquiryId != null ? String(data.inquiryId) : undefined,
+        price: typeof data.price === 'number' ? data.price : undefined,
+      };
+    } catch (error) {
+      console.error('❌ Extraction failed:', error);
+      return {};
+    }
+  }
 }
 
 export const translator = new TranslationService();
@@ -8,8 +8,6 @@ export interface ListingParams {
   description: string;
   basePrice: number; // HBAR
   expectedPrice: number; // HBAR
-  accountId?: string;
-  privateKey?: string;
 }
 
 export interface InquiryParams {
@@ -17,8 +15,6 @@ export interface InquiryParams {
   listingId: number;
   offerPrice: number; // HBAR
   message: string;
-  accountId?: string;
-  privateKey?: string;
 }
 
 export interface ListingResult {
@@ -40,6 +36,74 @@ export interface BuyRequestParams {
   minPrice: number; // HBAR
   maxPrice: number; // HBAR
   category?: string;
+  negotiationStrategy?: NegotiationStrategyName;
+  minReputation?: number; // skip sellers whose reputationScore (0-1000) is lower
+}
+
+// Buyer-side concession strategy run by the backend during negotiation
+export type NegotiationStrategyName = 'fixed_step' | 'time_decay' | 'llm_guided';
+
+// Seller agent's limits for negotiating a listing (GET /listings/:id/negotiation-policy)
+export interface NegotiationPolicy {
+  listingId: string;
+  basePrice: number; // HBAR, on-chain floor
+  floorPrice: number; // HBAR, never accept below
+  targetPrice: number; // HBAR
+  maxRounds: number;
+  autoAcceptPrice: number | null; // HBAR
+  isDefault: boolean;
+}
+
+// Policy fields the seller can change (PUT /listings/:listingId/negotiation-policy)
+export type NegotiationPolicyUpdate = Partial<
+  Pick<NegotiationPolicy, 'floorPrice' | 'targetPrice' | 'maxRounds' | 'autoAcceptPrice'>
+>;
+
+// A listing as returned by GET /listings
+export interface SellerListing {
+  listingId: string;
+  sellerAgentId: number;
+  title: string;
+  description: string;
+  basePrice: number; // HBAR
+  expectedPrice: number; // HBAR
+  status: string; // OPEN, RESERVED, COMPLETED, CANCELLED
+}
+
+// An inquiry as returned by GET /listings/:id/inquiries
+export interface ListingInquiry {
+  inquiryId: string;
+  listingId: string;
+  buyerAgentId: number;
+  offerPrice: number; // HBAR
+  message: string;
+  status: string; // PENDING, ACCEPTED, ...
+  createdAt: string;
+  escrowAmount: number; // HBAR
+  mandateVcHash: string | null; // set when the buyer claimed an intent mandate
+}
+
+// On-chain listing management call (cancelListing, selectReservation, completeListing)
+export interface ListingTxResult {
+  listingId: string;
+  inquiryId: string | null;
+  transactionId: string;
+  fee: number;
+}
+
+// Listing write a seller action is waiting to have confirmed in chat:
+// an on-chain call, or update_policy for the off-chain negotiation policy
+export type ListingWriteKind = 'cancel_listing' | 'select_reservation' | 'complete_listing' | 'update_policy';
+
+export interface PendingListingWrite {
+  kind: ListingWriteKind;
+  sellerAgentId: number;
+  listingId: string;
+  inquiryId?: string;
+  policyUpdate?: NegotiationPolicyUpdate; // update_policy only
+  summary: string; // what will happen, as shown to the seller
+  proposedBy: string; // entity that asked for it (the only one that can confirm it)
+  expiresAt: number; // epoch ms
 }
 
 export interface BuyRequestResult {
@@ -6,18 +6,28 @@
  */
 
 import { Plugin } from '@elizaos/core';
-import { createListingAction } from './actions/marketplace/seller';
+import {
+  createListingAction,
+  updateListingAction,
+  withdrawListingAction,
+  reviewInquiriesAction,
+  acceptInquiryAction,
+  markSoldAction,
+  confirmListingAction,
+} from './actions/marketplace/seller';
 
 export const sellerPlugin: Plugin = {
   name: 'seller-marketplace-plugin',
   description: 'Marketplace seller functionality - listing creation and management',
   actions: [
     createListingAction,
-    // Add more seller actions here as they are implemented:
-    // respondInquiryAction,
-    // negotiatePriceAction,
-    // updateListingAction,
-    // markSoldAction,
+    updateListingAction,
+    withdrawListingAction,
+    reviewInquiriesAction,
+    acceptInquiryAction,
+    markSoldAction,
+    // Runs the on-chain writes the three actions above propose
+    confirmListingAction,
   ],
 };
 
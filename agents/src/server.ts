@@ -22,7 +22,8 @@ import type { UUID } from '@elizaos/core';
 import { sellerCharacter, buyerCharacter } from './index.js';
 import { sellerPlugin } from './seller-plugin.js';
 import { buyerPlugin } from './buyer-plugin.js';
-import { initializeA2AMiddleware, addAgentToA2A, removeAgentFromA2A } from './a2a/index.js';
+import { initializeA2AMiddleware, addAgentToA2A, removeAgentFromA2A, a2aPlugin } from './a2a/index.js';
+import { backendTokens } from './actions/marketplace/services/index.js';
 
 async function startServer() {
   const server = new AgentServer();
@@ -39,7 +40,7 @@ async function startServer() {
   // Register custom API routes (using /internal/* to avoid ElizaOS /api/* routing)
   server.app.post('/internal/agents/create', async (req, res) => {
     try {
-      const { type, elizaAgentId } = req.body;
+      const { type, elizaAgentId, backendToken } = req.body;
 
       if (!type || (type !== 'give' && type !== 'want')) {
         return res.status(400).json({ error: 'Invalid type. Must be "give" or "want"' });
@@ -50,9 +51,18 @@ async function startServer() {
 
       // Use provided elizaAgentId (for restoration) or generate new UUID
       const agentId = elizaAgentId || crypto.randomUUID();
+
+      // backendToken authenticates this agent's marketplace calls as its owner (short-lived, see backendTokens)
       const character = {
         ...baseCharacter,
         id: agentId,
+        settings: {
+          ...baseCharacter.settings,
+          secrets: {
+            ...(baseCharacter.settings?.secrets as Record<string, any> | undefined),
+            ...(backendToken && { BACKEND_AUTH_TOKEN: backendToken }),
+          },
+        },
       };
 
       console.log(`🔨 Creating ${character.name} agent (ID: ${agentId}, restore: ${!!elizaAgentId})...`);
@@ -64,11 +74,15 @@ async function startServer() {
         plugins: [
           ...(character.plugins || []),  // String plugin names from character
           ...(type === 'give' ? [sellerPlugin] : [buyerPlugin]),  // Custom plugin based on type
+          a2aPlugin,  // A2A task tables
         ],
       }]);
 
       // Add to A2A
-      addAgentToA2A(runtime);
+      addAgentToA2A(runtime, type);
+
+      // Refresh the backend token before it expires, even while the agent is idle
+      backendTokens.start(runtime);
 
       console.log(`✅ Created agent: ${runtime.character.name} (ID: ${runtime.agentId})`);
 
@@ -93,6 +107,7 @@ async function startServer() {
 
       await server.stopAgents([agentId as UUID]);
       removeAgentFromA2A(agentId as UUID);
+      backendTokens.stop(agentId);
 
       console.log(`✅ Deleted agent ${agentId}`);
 
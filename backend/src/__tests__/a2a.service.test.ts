@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { checkMutualSatisfaction } from '../services/a2a.service';
+
+function check(proposedPrice: number) {
+  return checkMutualSatisfaction({
+    proposedPrice,
+    buyerBudget: { min: 50, max: 100 },
+    sellerPrice: { base: 60, expected: 80 },
+  });
+}
+
+describe('checkMutualSatisfaction', () => {
+  it('should accept a price within the budget and at or above the base price', () => {
+    expect(check(60).isSatisfied).toBe(true);
+    expect(check(100).isSatisfied).toBe(true);
+  });
+
+  it('should name the constraint the price breaks', () => {
+    expect(check(120)).toEqual({
+      isSatisfied: false,
+      reason: "Price 120 HBAR exceeds buyer's maximum budget of 100 HBAR",
+    });
+    expect(check(40)).toEqual({
+      isSatisfied: false,
+      reason: "Price 40 HBAR is below buyer's minimum budget of 50 HBAR",
+    });
+    expect(check(55)).toEqual({
+      isSatisfied: false,
+      reason: "Price 55 HBAR is below seller's base price of 60 HBAR",
+    });
+  });
+});
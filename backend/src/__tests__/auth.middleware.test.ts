@@ -0,0 +1,52 @@
+import type { NextFunction, Request, Response } from 'express';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+// jwt.service reads its configuration at import time
+process.env.JWT_SECRET = 'test-secret-that-is-at-least-32-characters';
+process.env.JWT_EXPIRES_IN = '1h';
+process.env.FRONTEND_URL = 'http://localhost:5173';
+
+type Middleware = (req: Request, res: Response, next: NextFunction) => void;
+
+let auth: typeof import('../middleware/auth.middleware');
+let userToken: string;
+let agentToken: string;
+
+beforeAll(async () => {
+  auth = await import('../middleware/auth.middleware');
+  const { generateAgentToken, generateToken } = await import('../services/jwt.service');
+
+  userToken = generateToken({ userId: 'user-1', hederaAccountId: '0.0.1001' });
+  agentToken = generateAgentToken({ userId: 'user-1', hederaAccountId: '0.0.1001', agentId: 'agent-1' });
+});
+
+function run(middleware: Middleware, token: string) {
+  const req = { headers: { authorization: `Bearer ${token}` } } as unknown as Request;
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+  const next = vi.fn();
+
+  middleware(req, res as unknown as Response, next);
+
+  return { user: req.user, status: res.status.mock.calls[0]?.[0], next };
+}
+
+describe('auth middleware', () => {
+  it('should only accept user tokens on authenticateToken routes', () => {
+    expect(run(auth.authenticateToken, userToken).next).toHaveBeenCalled();
+    expect(run(auth.authenticateToken, agentToken)).toMatchObject({ status: 403, user: undefined });
+  });
+
+  it('should accept both tokens on authenticateUserOrAgent routes', () => {
+    expect(run(auth.authenticateUserOrAgent, userToken).next).toHaveBeenCalled();
+    expect(run(auth.authenticateUserOrAgent, agentToken).user).toMatchObject({
+      userId: 'user-1',
+      scope: 'agent',
+      agentId: 'agent-1',
+    });
+  });
+
+  it('should only accept agent tokens on authenticateAgentToken routes', () => {
+    expect(run(auth.authenticateAgentToken, agentToken).next).toHaveBeenCalled();
+    expect(run(auth.authenticateAgentToken, userToken).status).toBe(403);
+  });
+});
@@ -0,0 +1,322 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Interface } from '@ethersproject/abi';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory stand-in for the Prisma tables the sync writes
+const db = vi.hoisted(() => {
+  function table(key: string) {
+    const rows = new Map<string, any>();
+    return {
+      rows,
+      findUnique: async ({ where }: any) => rows.get(where[key]) ?? null,
+      create: async ({ data }: any) => {
+        rows.set(data[key], { ...data });
+        return rows.get(data[key]);
+      },
+      update: async ({ where, data }: any) => {
+        const row = rows.get(where[key]);
+        if (!row) {
+          throw new Error('Record to update not found');
+        }
+        return Object.assign(row, data);
+      },
+      updateMany: async ({ where, data }: any) => {
+        const row = rows.get(where[key]);
+        if (row) {
+          Object.assign(row, data);
+        }
+        return { count: row ? 1 : 0 };
+      },
+      upsert: async ({ where, create, update }: any) => {
+        const row = rows.get(where[key]);
+        return row ? Object.assign(row, update) : rows.set(where[key], { ...create }).get(where[key]);
+      },
+    };
+  }
+
+  const divergences: any[] = [];
+  return {
+    listing: table('listingId'),
+    inquiry: table('inquiryId'),
+    negotiationRoom: table('listingId'),
+    syncCursor: table('id'),
+    syncDivergence: {
+      rows: divergences,
+      create: async ({ data }: any) => divergences.push(data),
+    },
+  };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    constructor() {
+      return db;
+    }
+  },
+}));
+vi.mock('../services/marketplace.service', () => ({
+  emitListingStatusChanged: async () => {},
+  getAgentA2AEndpoint: async () => ({ a2aEndpoint: 'http://seller.test/a2a' }),
+}));
+vi.mock('../services/embedding.service', () => ({
+  embedListing: async () => {},
+}));
+
+import {
+  JsonRpcEventSource,
+  MarketplaceEventSource,
+  MarketplaceLog,
+  MarketplaceLogBatch,
+  MarketplaceSyncService,
+  MirrorNodeEventSource,
+} from '../services/marketplaceSync.service';
+
+const events = new Interface([
+  'event ListingCreated(uint256 indexed listingId, uint256 indexed sellerAgentId, string title, uint256 basePrice, uint256 expectedPrice, uint256 timestamp)',
+  'event InquirySubmitted(uint256 indexed inquiryId, uint256 indexed listingId, uint256 indexed buyerAgentId, uint256 offerPrice, string message, bytes32 mandateVcHash, bytes32 claimedAttributesHash, bytes32 claimedCapabilitiesHash, uint256 timestamp)',
+  'event ReservationGranted(uint256 indexed listingId, uint256 indexed inquiryId, uint256 buyerAgentId, uint256 sellerAgentId, string reasonCode, bytes32 reviewHash, uint256 timestamp)',
+  'event ListingCompleted(uint256 indexed listingId, uint256 indexed inquiryId, uint256 timestamp)',
+  'event InquiryWithdrawn(uint256 indexed inquiryId, uint256 indexed listingId, uint256 indexed buyerAgentId, uint256 timestamp)',
+  'event EscrowReleased(uint256 indexed listingId, uint256 indexed inquiryId, uint256 indexed sellerAgentId, address recipient, uint256 amount, uint256 timestamp)',
+  'event EscrowRefunded(uint256 indexed listingId, uint256 indexed inquiryId, uint256 indexed buyerAgentId, address recipient, uint256 amount, uint256 timestamp)',
+]);
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const RECIPIENT = `0x${'1'.repeat(40)}`;
+const TINYBAR = 100_000_000;
+
+/**
+ * Event source over logs held in memory; the cursor is the next log's position
+ */
+class MemoryEventSource implements MarketplaceEventSource {
+  readonly name = 'memory';
+  logs: MarketplaceLog[] = [];
+
+  emit(eventName: string, values: unknown[], transactionHash = `0xtx${this.logs.length}`) {
+    const { data, topics } = events.encodeEventLog(events.getEvent(eventName), values);
+    this.logs.push({ data, topics, transactionHash, logIndex: this.logs.length });
+  }
+
+  async fetchLogs(cursor: string | null, limit: number): Promise<MarketplaceLogBatch> {
+    const start = cursor ? Number(cursor) : 0;
+    const logs = this.logs.slice(start, start + limit);
+    return { logs, nextCursor: logs.length > 0 ? String(start + logs.length) : null };
+  }
+}
+
+function resetDb() {
+  db.listing.rows.clear();
+  db.inquiry.rows.clear();
+  db.negotiationRoom.rows.clear();
+  db.syncCursor.rows.clear();
+  db.syncDivergence.rows.length = 0;
+}
+
+function listingCreated(source: MemoryEventSource) {
+  source.emit('ListingCreated', [1, 10, 'Desk', 5 * TINYBAR, 8 * TINYBAR, 1]);
+}
+
+function inquirySubmitted(source: MemoryEventSource) {
+  source.emit('InquirySubmitted', [1, 1, 20, 6 * TINYBAR, 'Offer', ZERO_HASH, ZERO_HASH, ZERO_HASH, 2]);
+}
+
+describe('MarketplaceSyncService', () => {
+  let source: MemoryEventSource;
+  let sync: MarketplaceSyncService;
+
+  beforeEach(() => {
+    resetDb();
+    source = new MemoryEventSource();
+    sync = new MarketplaceSyncService(source);
+  });
+
+  it('should index listings and inquiries and persist the cursor', async () => {
+    listingCreated(source);
+    inquirySubmitted(source);
+
+    const result = await sync.syncOnce();
+
+    expect(result).toMatchObject({ processed: 2, skipped: 0, divergences: 0, cursor: '2' });
+    expect(db.listing.rows.get('1')).toMatchObject({ sellerAgentId: 10, basePrice: 5, expectedPrice: 8, status: 'OPEN' });
+    expect(db.inquiry.rows.get('1')).toMatchObject({ offerPrice: 6, status: 'PENDING', escrowStatus: 'HELD' });
+    expect(db.syncCursor.rows.get('memory')).toMatchObject({ cursor: '2' });
+  });
+
+  it('should mark withdrawn inquiries WITHDRAWN with their escrow REFUNDED', async () => {
+    listingCreated(source);
+    inquirySubmitted(source);
+    source.emit('EscrowRefunded', [1, 1, 20, RECIPIENT, 6 * TINYBAR, 3], '0xwithdraw');
+    source.emit('InquiryWithdrawn', [1, 1, 20, 3], '0xwithdraw');
+
+    await sync.syncOnce();
+
+    expect(db.inquiry.rows.get('1')).toMatchObject({
+      status: 'WITHDRAWN',
+      escrowStatus: 'REFUNDED',
+      escrowTxId: '0xwithdraw',
+    });
+  });
+
+  it('should release the reserved inquiry escrow on completion', async () => {
+    listingCreated(source);
+    inquirySubmitted(source);
+    source.emit('ReservationGranted', [1, 1, 20, 10, 'highest_offer', ZERO_HASH, 3]);
+    source.emit('EscrowReleased', [1, 1, 10, RECIPIENT, 6 * TINYBAR, 4], '0xcomplete');
+    source.emit('ListingCompleted', [1, 1, 4], '0xcomplete');
+
+    const result = await sync.syncOnce();
+
+    expect(result.divergences).toBe(0);
+    expect(db.listing.rows.get('1')).toMatchObject({ status: 'COMPLETED', escrowStatus: 'RELEASED' });
+    expect(db.inquiry.rows.get('1')).toMatchObject({ status: 'ACCEPTED', escrowStatus: 'RELEASED' });
+  });
+
+  it('should be idempotent when events are replayed', async () => {
+    listingCreated(source);
+    inquirySubmitted(source);
+    source.emit('EscrowRefunded', [1, 1, 20, RECIPIENT, 6 * TINYBAR, 3]);
+    source.emit('InquiryWithdrawn', [1, 1, 20, 3]);
+    await sync.syncOnce();
+    const inquiry = { ...db.inquiry.rows.get('1') };
+
+    db.syncCursor.rows.clear();
+    const replay = await sync.syncOnce();
+
+    expect(replay.divergences).toBe(0);
+    expect(db.inquiry.rows.get('1')).toEqual(inquiry);
+  });
+
+  it('should report escrow events for unknown inquiries as divergences', async () => {
+    source.emit('EscrowRefunded', [1, 9, 20, RECIPIENT, TINYBAR, 3]);
+
+    const result = await sync.syncOnce();
+
+    expect(result.divergences).toBe(1);
+    expect(db.syncDivergence.rows[0]).toMatchObject({ eventName: 'EscrowRefunded', entityType: 'inquiry', entityId: '9' });
+  });
+});
+
+describe('MirrorNodeEventSource', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function mirrorLog(timestamp: string, index: number) {
+    return { data: '0x', topics: [], timestamp, index, transaction_hash: `0x${timestamp}-${index}` };
+  }
+
+  function page(logs: unknown[], next: string | null) {
+    return { ok: true, json: async () => ({ logs, links: { next } }) };
+  }
+
+  it('should follow links.next and resume from the last log once there is none', async () => {
+    const source = new MirrorNodeEventSource('https://mirror.test', '0.0.5');
+    const next = '/api/v1/contracts/0.0.5/results/logs?order=asc&limit=2&timestamp=gte:100.1&index=gt:1';
+    fetchMock
+      .mockResolvedValueOnce(page([mirrorLog('100.1', 0), mirrorLog('100.1', 1)], next))
+      .mockResolvedValueOnce(page([mirrorLog('100.1', 2)], null));
+
+    const first = await source.fetchLogs(null, 2);
+    const second = await source.fetchLogs(first.nextCursor, 2);
+
+    expect(first.nextCursor).toBe(next);
+    expect(fetchMock.mock.calls[1][0]).toBe(`https://mirror.test${next}`);
+    expect(second.logs.map((log) => log.logIndex)).toEqual([2]);
+    expect(second.nextCursor).toBe('100.1:2');
+  });
+
+  it('should not stall when a full page shares the cursor timestamp', async () => {
+    const source = new MirrorNodeEventSource('https://mirror.test', '0.0.5');
+    const next = '/api/v1/contracts/0.0.5/results/logs?order=asc&limit=2&timestamp=gte:100.1&index=gt:1';
+    fetchMock.mockResolvedValueOnce(page([mirrorLog('100.1', 0), mirrorLog('100.1', 1)], next));
+
+    const batch = await source.fetchLogs('100.1:1', 2);
+
+    expect(batch.logs).toEqual([]);
+    expect(batch.nextCursor).toBe(next);
+  });
+
+  it('should report no new logs at the end of the data', async () => {
+    const source = new MirrorNodeEventSource('https://mirror.test', '0.0.5');
+    fetchMock.mockResolvedValueOnce(page([], null));
+
+    expect(await source.fetchLogs('100.1:2', 2)).toEqual({ logs: [], nextCursor: null });
+  });
+});
+
+/**
+ * Against a local hardhat node (`npx hardhat node`, contracts compiled with `npx hardhat compile`):
+ * HARDHAT_RPC_URL=http://127.0.0.1:8545 npx vitest run marketplaceSync
+ */
+describe.skipIf(!process.env.HARDHAT_RPC_URL)('JsonRpcEventSource on a hardhat node', () => {
+  const rpcUrl = process.env.HARDHAT_RPC_URL!;
+  const artifactsDir = path.resolve(__dirname, '../../../artifacts/contracts');
+
+  function artifact(file: string, name: string): { abi: any[]; bytecode: string } {
+    return JSON.parse(readFileSync(path.join(artifactsDir, file, `${name}.json`), 'utf8'));
+  }
+
+  async function rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    const body = (await response.json()) as { result?: T; error?: { message: string } };
+    if (body.error) {
+      throw new Error(`${method}: ${body.error.message}`);
+    }
+    return body.result as T;
+  }
+
+  // Hardhat node accounts are unlocked, so eth_sendTransaction needs no signing
+  async function send(from: string, tx: { to?: string; data: string; value?: bigint }) {
+    const hash = await rpc<string>('eth_sendTransaction', [
+      { from, ...tx, gas: '0x7a1200', value: tx.value ? `0x${tx.value.toString(16)}` : undefined },
+    ]);
+    const receipt = await rpc<{ status: string; contractAddress: string | null }>('eth_getTransactionReceipt', [hash]);
+    expect(receipt.status).toBe('0x1');
+    return receipt;
+  }
+
+  it('should index a withdrawn inquiry from the node', async () => {
+    resetDb();
+    const [seller, buyer] = await rpc<string[]>('eth_accounts', []);
+    const registryArtifact = artifact('test/MockIdentityRegistry.sol', 'MockIdentityRegistry');
+    const marketplaceArtifact = artifact('Marketplace.sol', 'Marketplace');
+    const registryAbi = new Interface(registryArtifact.abi);
+    const marketplaceAbi = new Interface(marketplaceArtifact.abi);
+
+    const { contractAddress: registry } = await send(seller, { data: registryArtifact.bytecode });
+    const { contractAddress: marketplace } = await send(seller, {
+      data: marketplaceArtifact.bytecode + marketplaceAbi.encodeDeploy([registry]).slice(2),
+    });
+
+    await send(seller, { to: registry!, data: registryAbi.encodeFunctionData('register') });
+    await send(buyer, { to: registry!, data: registryAbi.encodeFunctionData('register') });
+    await send(seller, {
+      to: marketplace!,
+      data: marketplaceAbi.encodeFunctionData('createListing', [1, 'Desk', 'Oak desk', 5 * TINYBAR, 8 * TINYBAR]),
+    });
+    await send(buyer, {
+      to: marketplace!,
+      data: marketplaceAbi.encodeFunctionData('createInquiry', [2, 1, 6 * TINYBAR, 'Offer', ZERO_HASH, ZERO_HASH, ZERO_HASH]),
+      value: BigInt(6 * TINYBAR),
+    });
+    await send(buyer, { to: marketplace!, data: marketplaceAbi.encodeFunctionData('withdrawInquiry', [2, 1]) });
+
+    const result = await new MarketplaceSyncService(new JsonRpcEventSource(rpcUrl, marketplace!)).syncOnce();
+
+    expect(result.divergences).toBe(0);
+    expect(db.listing.rows.get('1')).toMatchObject({ sellerAgentId: 1, basePrice: 5, expectedPrice: 8 });
+    expect(db.inquiry.rows.get('1')).toMatchObject({ buyerAgentId: 2, status: 'WITHDRAWN', escrowStatus: 'REFUNDED' });
+  });
+});
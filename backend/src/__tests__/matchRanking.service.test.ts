@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  parseRankingWeights,
+  rankCandidates,
+  RankingCandidate,
+  resolveRankingWeights,
+  SellerReputation,
+} from '../services/matchRanking.service';
+
+const BUDGET = { minPrice: 50, maxPrice: 100 };
+
+function candidate(listingId: string, overrides: Partial<RankingCandidate> = {}): RankingCandidate {
+  return {
+    listingId,
+    sellerAgentId: Number(listingId),
+    basePrice: 60,
+    expectedPrice: 80,
+    semanticScore: 80,
+    reason: `match ${listingId}`,
+    ...overrides,
+  };
+}
+
+describe('resolveRankingWeights', () => {
+  it('should fill missing weights from the base', () => {
+    expect(resolveRankingWeights()).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(resolveRankingWeights({ reputation: 0.6 })).toEqual({ ...DEFAULT_RANKING_WEIGHTS, reputation: 0.6 });
+    expect(resolveRankingWeights({ semantic: 1 }, { semantic: 0, priceFit: 1, reputation: 0, experience: 0 })).toEqual({
+      semantic: 1,
+      priceFit: 1,
+      reputation: 0,
+      experience: 0,
+    });
+  });
+
+  it('should reject unknown, negative and non-numeric weights', () => {
+    expect(() => resolveRankingWeights({ price: 1 } as never)).toThrow('Unknown ranking weight "price"');
+    expect(() => resolveRankingWeights({ semantic: -1 })).toThrow('non-negative');
+    expect(() => resolveRankingWeights({ semantic: NaN })).toThrow('non-negative');
+    expect(() => resolveRankingWeights({ semantic: '1' } as never)).toThrow('non-negative');
+  });
+
+  it('should reject weights that are all 0', () => {
+    expect(() => resolveRankingWeights({ semantic: 0, priceFit: 0, reputation: 0, experience: 0 })).toThrow(
+      'At least one ranking weight must be positive'
+    );
+  });
+});
+
+describe('parseRankingWeights', () => {
+  it('should apply MATCH_RANKING_WEIGHTS over the defaults', () => {
+    expect(parseRankingWeights(undefined)).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(parseRankingWeights('{"experience":0.4}')).toEqual({ ...DEFAULT_RANKING_WEIGHTS, experience: 0.4 });
+  });
+
+  it('should fall back to the defaults with a warning when the value is invalid', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseRankingWeights('not json')).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(parseRankingWeights('[1, 2]')).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(parseRankingWeights('{"semantic":-1}')).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(warn).toHaveBeenCalledTimes(3);
+
+    warn.mockRestore();
+  });
+});
+
+describe('rankCandidates', () => {
+  it('should score each component and take their weighted average', () => {
+    const reputations = new Map<number, SellerReputation>([[1, { reputationScore: 900, totalTransactions: 5 }]]);
+
+    expect(rankCandidates(BUDGET, [candidate('1')], reputations, DEFAULT_RANKING_WEIGHTS)).toEqual([
+      {
+        listingId: '1',
+        sellerAgentId: 1,
+        reason: 'match 1',
+        semantic: 80,
+        priceFit: 60,
+        reputation: 90,
+        experience: 50,
+        reputationScore: 900,
+        totalTransactions: 5,
+        total: 75,
+      },
+    ]);
+  });
+
+  it('should give unrated sellers a neutral reputation and no experience', () => {
+    const reputations = new Map<number, SellerReputation>([[2, { reputationScore: 500, totalTransactions: 0 }]]);
+
+    const [unknown, unrated] = rankCandidates(
+      BUDGET,
+      [candidate('1'), candidate('2')],
+      reputations,
+      DEFAULT_RANKING_WEIGHTS
+    );
+    for (const breakdown of [unknown, unrated]) {
+      expect(breakdown).toMatchObject({ reputation: 50, experience: 0, reputationScore: null, totalTransactions: 0 });
+    }
+  });
+
+  it('should clamp the price fit to the buyer budget', () => {
+    const [cheap, pricey] = rankCandidates(
+      BUDGET,
+      [candidate('1', { basePrice: 30, expectedPrice: 40 }), candidate('2', { basePrice: 110, expectedPrice: 130 })],
+      new Map(),
+      DEFAULT_RANKING_WEIGHTS
+    );
+
+    expect(cheap.priceFit).toBe(100);
+    expect(pricey.priceFit).toBe(0);
+  });
+
+  it('should score a fixed budget by whether the seller fits in it', () => {
+    const [fits, over] = rankCandidates(
+      { minPrice: 70, maxPrice: 70 },
+      [candidate('1', { basePrice: 60, expectedPrice: 70 }), candidate('2', { basePrice: 70, expectedPrice: 80 })],
+      new Map(),
+      DEFAULT_RANKING_WEIGHTS
+    );
+
+    expect(fits.priceFit).toBe(100);
+    expect(over.priceFit).toBe(0);
+  });
+
+  it('should order best first and keep the semantic order on ties', () => {
+    const reputations = new Map<number, SellerReputation>([[3, { reputationScore: 1000, totalTransactions: 20 }]]);
+    const weights = { semantic: 1, priceFit: 0, reputation: 1, experience: 0 };
+
+    const ranked = rankCandidates(
+      BUDGET,
+      [candidate('1', { semanticScore: 90 }), candidate('2', { semanticScore: 90 }), candidate('3', { semanticScore: 70 })],
+      reputations,
+      weights
+    );
+
+    expect(ranked.map((breakdown) => breakdown.listingId)).toEqual(['3', '1', '2']);
+    expect(ranked.map((breakdown) => breakdown.total)).toEqual([85, 70, 70]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createNegotiationStrategy,
+  decide,
+  FixedStepStrategy,
+  NegotiationState,
+  TimeDecayStrategy,
+} from '../services/negotiationStrategy.service';
+
+const PARAMS = { openingRatio: 0.7, stepFraction: 0.25, beta: 0.5, deadlineRounds: 5 };
+
+function state(overrides: Partial<NegotiationState> = {}): NegotiationState {
+  return {
+    round: 1,
+    budget: { min: 50, max: 100 },
+    listing: { basePrice: 100, expectedPrice: 120 },
+    ...overrides,
+  };
+}
+
+describe('decide', () => {
+  it('should open with an offer and counter afterwards', () => {
+    expect(decide(state(), 70, PARAMS)).toEqual({ type: 'offer', price: 70, currency: 'HBAR' });
+    expect(decide(state({ round: 2, lastBuyerPrice: 70, sellerPrice: 95 }), 80, PARAMS)).toEqual({
+      type: 'counter_offer',
+      price: 80,
+      currency: 'HBAR',
+    });
+  });
+
+  it('should accept a seller price at or below the target', () => {
+    expect(decide(state({ round: 2, sellerPrice: 78 }), 80, PARAMS)).toEqual({
+      type: 'accept',
+      price: 78,
+      currency: 'HBAR',
+    });
+  });
+
+  it('should never go back on an earlier offer or bid above the budget', () => {
+    expect(decide(state({ round: 3, lastBuyerPrice: 85, sellerPrice: 95 }), 80, PARAMS).price).toBe(85);
+    expect(decide(state({ round: 3, sellerPrice: 150 }), 130, PARAMS).price).toBe(100);
+  });
+
+  it('should round offers to 0.1 HBAR', () => {
+    expect(decide(state(), 72.345, PARAMS).price).toBe(72.3);
+  });
+
+  it('should accept within budget or reject at the deadline', () => {
+    expect(decide(state({ round: 5, sellerPrice: 99 }), 80, PARAMS)).toEqual({
+      type: 'accept',
+      price: 99,
+      currency: 'HBAR',
+    });
+    expect(decide(state({ round: 5, sellerPrice: 101 }), 80, PARAMS)).toEqual({ type: 'reject', currency: 'HBAR' });
+  });
+});
+
+describe('FixedStepStrategy', () => {
+  const strategy = new FixedStepStrategy(PARAMS);
+
+  it('should open at openingRatio of the asking price, within budget', async () => {
+    expect(await strategy.nextOffer(state())).toEqual({ type: 'offer', price: 70, currency: 'HBAR' });
+    expect((await strategy.nextOffer(state({ listing: { basePrice: 40, expectedPrice: 50 } }))).price).toBe(50);
+  });
+
+  it('should concede stepFraction of the range each round', async () => {
+    expect((await strategy.nextOffer(state({ round: 2, lastBuyerPrice: 70 }))).price).toBe(77.5);
+    expect((await strategy.nextOffer(state({ round: 3, lastBuyerPrice: 77.5 }))).price).toBe(85);
+  });
+});
+
+describe('TimeDecayStrategy', () => {
+  it('should move from the opening price to the budget by the deadline', async () => {
+    const strategy = new TimeDecayStrategy(PARAMS);
+
+    expect((await strategy.nextOffer(state())).price).toBe(70);
+    expect((await strategy.nextOffer(state({ round: 3, lastBuyerPrice: 70 }))).price).toBe(77.5);
+    expect((await strategy.nextOffer(state({ round: 5, lastBuyerPrice: 90 }))).price).toBe(100);
+  });
+
+  it('should concede later with a Boulware beta than with a conceder beta', async () => {
+    const boulware = await new TimeDecayStrategy({ ...PARAMS, beta: 0.5 }).nextOffer(state({ round: 3, lastBuyerPrice: 70 }));
+    const conceder = await new TimeDecayStrategy({ ...PARAMS, beta: 2 }).nextOffer(state({ round: 3, lastBuyerPrice: 70 }));
+
+    expect(boulware.price!).toBeLessThan(conceder.price!);
+  });
+});
+
+describe('createNegotiationStrategy', () => {
+  it('should default to time_decay and reject unknown names', () => {
+    expect(createNegotiationStrategy(null).name).toBe('time_decay');
+    expect(createNegotiationStrategy('fixed_step').name).toBe('fixed_step');
+    expect(() => createNegotiationStrategy('haggle')).toThrow('Unknown negotiation strategy');
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  delete process.env.OPENAI_API_KEY;
+});
+
+// Listing vectors are never stored, so every search embeds from scratch
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    listingEmbedding = {
+      findMany: async () => [],
+      upsert: async () => ({}),
+    };
+  },
+}));
+
+import { cosineSimilarity, EmbeddingProvider, LocalHashEmbeddingProvider } from '../services/embedding.service';
+import { MIN_SIMILARITY, SemanticSearchService, SHORTLIST_SIZE } from '../services/semanticSearch.service';
+
+/**
+ * Embeds "sim:<x>" as a unit vector with cosine x to the query vector [1, 0]
+ */
+class FixedSimilarityProvider implements EmbeddingProvider {
+  readonly name = 'fixed-similarity';
+  readonly dimensions = 2;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const match = text.match(/sim:([\d.]+)/);
+      if (!match) {
+        return [1, 0];
+      }
+      const similarity = Number(match[1]);
+      return [similarity, Math.sqrt(1 - similarity * similarity)];
+    });
+  }
+}
+
+const buyRequest = { title: 'query', description: '', minPrice: 0, maxPrice: 100 };
+
+function listing(listingId: string, title: string, description = '') {
+  return { listingId, sellerAgentId: 1, title, description, basePrice: 10, expectedPrice: 20, status: 'OPEN' };
+}
+
+describe('LocalHashEmbeddingProvider', () => {
+  const provider = new LocalHashEmbeddingProvider();
+
+  it('should embed the same text to the same unit vector', async () => {
+    const [first, second] = await provider.embed(['Black office chair', 'Black office chair']);
+    const [fromOther] = await new LocalHashEmbeddingProvider().embed(['Black office chair']);
+
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(first).toEqual(fromOther);
+    expect(cosineSimilarity(first, first)).toBeCloseTo(1);
+  });
+
+  it('should ignore case and punctuation', async () => {
+    const [plain, noisy] = await provider.embed(['black office chair', 'Black, OFFICE chair!']);
+
+    expect(plain).toEqual(noisy);
+  });
+
+  it('should rank texts sharing vocabulary above unrelated ones', async () => {
+    const [query, desk, bike] = await provider.embed([
+      'white wooden desk',
+      'White desk with drawers',
+      'Mountain bike with gears',
+    ]);
+
+    expect(cosineSimilarity(query, desk)).toBeGreaterThan(cosineSimilarity(query, bike));
+  });
+});
+
+describe('SemanticSearchService', () => {
+  let search: SemanticSearchService;
+
+  beforeEach(() => {
+    search = new SemanticSearchService(new FixedSimilarityProvider());
+  });
+
+  it('should return listings in cosine order', async () => {
+    const matches = await search.findMatchingListings(buyRequest, [
+      listing('1', 'sim:0.5'),
+      listing('2', 'sim:0.9'),
+      listing('3', 'sim:0.7'),
+    ]);
+
+    expect(matches.map((m) => m.listingId)).toEqual(['2', '3', '1']);
+    expect(matches.map((m) => m.score)).toEqual([90, 70, 50]);
+  });
+
+  it('should drop listings below MIN_SIMILARITY', async () => {
+    const below = (MIN_SIMILARITY / 2).toFixed(3);
+    const matches = await search.findMatchingListings(buyRequest, [
+      listing('1', 'sim:0.8'),
+      listing('2', `sim:${below}`),
+    ]);
+
+    expect(matches.map((m) => m.listingId)).toEqual(['1']);
+    expect(await search.findMatchingListings(buyRequest, [listing('2', `sim:${below}`)])).toEqual([]);
+  });
+
+  it('should keep only the SHORTLIST_SIZE nearest listings', async () => {
+    const listings = Array.from({ length: SHORTLIST_SIZE + 5 }, (_, i) =>
+      listing(String(i + 1), `sim:${(0.95 - i * 0.05).toFixed(2)}`)
+    );
+
+    const matches = await search.findMatchingListings(buyRequest, listings);
+
+    expect(matches).toHaveLength(SHORTLIST_SIZE);
+    expect(matches.map((m) => m.listingId)).toEqual(listings.slice(0, SHORTLIST_SIZE).map((l) => l.listingId));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * A2A Auth Middleware
+ * Enforces the apiKey security scheme declared in the Agent Cards on the
+ * public A2A proxy, plus the per-key rate limit
+ */
+import { Request, Response, NextFunction } from 'express';
+import { authenticateA2AKey, consumeA2ARateLimit } from '../services/a2aApiKey.service.js';
+
+const API_KEY_HEADER = 'X-API-Key';
+
+// Discovery stays public: clients read the security scheme from the card
+const PUBLIC_PATHS = ['/.well-known/agent-card.json'];
+
+/**
+ * Middleware to require a valid A2A API key (mounted under /agents/:agentId/a2a)
+ */
+export async function authenticateA2AClient(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (req.method === 'GET' && PUBLIC_PATHS.includes(req.path)) {
+    next();
+    return;
+  }
+
+  const key = req.get(API_KEY_HEADER);
+  if (!key) {
+    res.status(401).json({ error: `${API_KEY_HEADER} header required` });
+    return;
+  }
+
+  try {
+    const client = await authenticateA2AKey(key);
+    if (!client) {
+      res.status(401).json({ error: 'Invalid or revoked API key' });
+      return;
+    }
+
+    const limit = consumeA2ARateLimit(client);
+    if (client.rateLimitPerMinute !== null) {
+      res.setHeader('X-RateLimit-Limit', client.rateLimitPerMinute);
+      res.setHeader('X-RateLimit-Remaining', limit.remaining);
+    }
+    if (!limit.allowed) {
+      console.warn(`⚠️ A2A rate limit exceeded for "${client.name}"`);
+      res.setHeader('Retry-After', limit.retryAfterSeconds);
+      res.status(429).json({ error: 'Rate limit exceeded' });
+      return;
+    }
+
+    // Read by the proxy to forward the client's identity
+    (req as any).a2aClient = client;
+    next();
+  } catch (error) {
+    console.error('❌ A2A auth error:', error);
+    res.status(500).json({ error: 'Failed to authenticate A2A client' });
+  }
+}
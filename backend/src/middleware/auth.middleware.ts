@@ -3,7 +3,7 @@
  * Protects routes by verifying JWT tokens
  */
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../services/jwt.service.js';
+import { JWTPayload, verifyToken } from '../services/jwt.service.js';
 
 /**
  * Type for authenticated requests (after authenticateToken middleware)
@@ -16,16 +16,49 @@ export interface AuthRequest extends Request {
     hederaAccountId: string;
     did?: string;
     didRegistered?: boolean;
+    agentId?: string;
   };
 }
 
 /**
  * Middleware to verify JWT token and attach user to request
+ * Agent tokens are rejected; use authenticateUserOrAgent for routes agents call
  */
 export function authenticateToken(
   req: Request,
   res: Response,
   next: NextFunction
+): void {
+  authenticate(req, res, next, (payload) => payload.scope === undefined);
+}
+
+/**
+ * Like authenticateToken, but also accepts an agent's token (acting as its owner)
+ */
+export function authenticateUserOrAgent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  authenticate(req, res, next, () => true);
+}
+
+/**
+ * Accept only an agent's token
+ */
+export function authenticateAgentToken(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  authenticate(req, res, next, (payload) => payload.scope === 'agent' && !!payload.agentId);
+}
+
+function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  isAccepted: (payload: JWTPayload) => boolean
 ): void {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -35,12 +68,19 @@ export function authenticateToken(
     return;
   }
 
+  let payload: JWTPayload;
   try {
-    const payload = verifyToken(token);
-    req.user = payload;
-    next();
+    payload = verifyToken(token);
   } catch (error) {
     res.status(403).json({ error: 'Invalid or expired token' });
     return;
   }
+
+  if (!isAccepted(payload)) {
+    res.status(403).json({ error: 'Token not accepted for this route' });
+    return;
+  }
+
+  req.user = payload;
+  next();
 }
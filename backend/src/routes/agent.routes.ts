@@ -1,7 +1,9 @@
 import express from 'express';
 import { agentService } from '../services/agent.service.js';
-import { authenticateToken } from '../middleware/auth.middleware.js';
+import { authenticateAgentToken, authenticateToken } from '../middleware/auth.middleware.js';
 import { getAgentA2AEndpoint } from '../services/marketplace.service.js';
+import { getAgentSignerInfo } from '../services/signing.service.js';
+import { getAgentReputation } from '../services/reputation.service.js';
 
 const router = express.Router();
 
@@ -63,6 +65,83 @@ router.get('/erc8004/:agentId/a2a', async (req, res) => {
   }
 });
 
+/**
+ * Get the custodial account that signs Marketplace transactions for an agent
+ * GET /agents/erc8004/:agentId/signer
+ * Public API (no authentication required)
+ *
+ * Buyers fund this account to cover escrow deposits
+ */
+router.get('/erc8004/:agentId/signer', async (req, res) => {
+  try {
+    const agentId = parseInt(req.params.agentId);
+
+    if (isNaN(agentId)) {
+      return res.status(400).json({ error: "Invalid agent ID" });
+    }
+
+    const signer = await getAgentSignerInfo(agentId);
+    if (!signer) {
+      return res.status(404).json({ error: `Agent ${agentId} has no signer yet (created on first transaction)` });
+    }
+
+    res.json(signer);
+  } catch (error: any) {
+    console.error(`Error in GET /agents/erc8004/${req.params.agentId}/signer:`, error);
+    if (error.message?.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to get agent signer" });
+  }
+});
+
+/**
+ * Get an agent's reputation from the ERC-8004 ReputationRegistry
+ * GET /agents/erc8004/:agentId/reputation
+ * Public API (no authentication required)
+ *
+ * Refreshes the cached Agent.reputationScore/totalTransactions; serves the
+ * cached values if the registry can't be read
+ */
+router.get('/erc8004/:agentId/reputation', async (req, res) => {
+  try {
+    const agentId = parseInt(req.params.agentId);
+
+    if (isNaN(agentId)) {
+      return res.status(400).json({ error: "Invalid agent ID" });
+    }
+
+    const reputation = await getAgentReputation(agentId);
+    res.json(reputation);
+  } catch (error: any) {
+    console.error(`Error in GET /agents/erc8004/${req.params.agentId}/reputation:`, error);
+    if (error.message?.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to get agent reputation" });
+  }
+});
+
+/**
+ * Refresh an agent's backend token
+ * POST /agents/token/refresh
+ * Requires the agent's current (unexpired) token
+ *
+ * Used by ElizaOS agents to renew their token before it expires
+ */
+router.post('/token/refresh', authenticateAgentToken, async (req, res) => {
+  try {
+    const token = await agentService.refreshAgentToken(req.user!.agentId!, req.user!.userId);
+    res.json({ token });
+  } catch (error) {
+    console.error('Error refreshing agent token:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to refresh agent token' });
+  }
+});
+
 /**
  * Create a new agent
  * POST /agents
@@ -5,6 +5,23 @@
 import express from "express";
 import * as marketplaceService from "../services/marketplace.service";
 import * as buyRequestService from "../services/buyRequest.service";
+import { isNegotiationStrategyName, NEGOTIATION_STRATEGIES } from "../services/negotiationStrategy.service";
+import { MAX_REPUTATION_SCORE, resolveRankingWeights } from "../services/matchRanking.service";
+import { getNegotiationPolicy, updateNegotiationPolicy } from "../services/negotiationPolicy.service";
+import { getOwnedAgentSigner } from "../services/signing.service";
+import {
+  getListingValidations,
+  isValidationClaim,
+  requestListingValidation,
+  VALIDATION_CLAIMS,
+} from "../services/validation.service";
+import {
+  draftIntentMandate,
+  getIntentMandate,
+  issueIntentMandate,
+  verifyOwnedInquiryMandate,
+} from "../services/mandate.service";
+import { authenticateToken, authenticateUserOrAgent } from "../middleware/auth.middleware";
 
 const router = express.Router();
 
@@ -39,9 +56,9 @@ router.get("/listings", async (req, res) => {
  * POST /api/marketplace/listings
  * Create a new listing
  */
-router.post("/listings", async (req, res) => {
+router.post("/listings", authenticateUserOrAgent, async (req, res) => {
   try {
-    const { sellerAgentId, title, description, basePrice, expectedPrice, accountId, privateKey } = req.body;
+    const { sellerAgentId, title, description, basePrice, expectedPrice } = req.body;
 
     // Validation - use explicit undefined/null checks for numeric fields that can be 0
     if (
@@ -49,28 +66,34 @@ router.post("/listings", async (req, res) => {
       !title ||
       !description ||
       basePrice === undefined || basePrice === null ||
-      expectedPrice === undefined || expectedPrice === null ||
-      !accountId ||
-      !privateKey
+      expectedPrice === undefined || expectedPrice === null
     ) {
       return res.status(400).json({
-        error: "Missing required fields: sellerAgentId, title, description, basePrice, expectedPrice, accountId, privateKey",
+        error: "Missing required fields: sellerAgentId, title, description, basePrice, expectedPrice",
       });
     }
 
+    // Sign with the agent's own account (caller must own the agent)
+    const signer = await getOwnedAgentSigner(Number(sellerAgentId), req.user!.userId);
+
     const result = await marketplaceService.createListing({
       sellerAgentId,
       title,
       description,
       basePrice: parseFloat(basePrice),
       expectedPrice: parseFloat(expectedPrice),
-      accountId,
-      privateKey,
+      ...signer,
     });
 
     res.json(result);
   } catch (error: any) {
     console.error("Error in POST /api/marketplace/listings:", error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message || "Failed to create listing" });
   }
 });
@@ -103,25 +126,345 @@ router.get("/listings/:id", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/marketplace/listings/:id/inquiries
+ * Get the inquiries on a listing, best offer first (optional ?status=PENDING)
+ */
+router.get("/listings/:id/inquiries", async (req, res) => {
+  try {
+    const listingId = parseInt(req.params.id);
+
+    if (isNaN(listingId)) {
+      return res.status(400).json({ error: "Invalid listing ID" });
+    }
+
+    const inquiries = await marketplaceService.getListingInquiries(listingId, req.query.status as string | undefined);
+
+    res.json({
+      success: true,
+      count: inquiries.length,
+      inquiries,
+    });
+  } catch (error: any) {
+    console.error(`Error in GET /api/marketplace/listings/${req.params.id}/inquiries:`, error);
+    res.status(500).json({ error: error.message || "Failed to get inquiries" });
+  }
+});
+
+/**
+ * POST /api/marketplace/listings/:id/reserve
+ * Seller selects an inquiry for the listing (OPEN → RESERVED)
+ */
+router.post("/listings/:id/reserve", authenticateUserOrAgent, async (req, res) => {
+  try {
+    const listingId = parseInt(req.params.id);
+    const { sellerAgentId, inquiryId, reasonCode, reviewHash } = req.body;
+
+    if (isNaN(listingId)) {
+      return res.status(400).json({ error: "Invalid listing ID" });
+    }
+
+    if (
+      sellerAgentId === undefined || sellerAgentId === null ||
+      inquiryId === undefined || inquiryId === null
+    ) {
+      return res.status(400).json({
+        error: "Missing required fields: sellerAgentId, inquiryId",
+      });
+    }
+
+    const signer = await getOwnedAgentSigner(Number(sellerAgentId), req.user!.userId);
+
+    const result = await marketplaceService.selectReservation({
+      sellerAgentId,
+      listingId,
+      inquiryId,
+      reasonCode: reasonCode || "seller_choice",
+      reviewHash,
+      ...signer,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/listings/${req.params.id}/reserve:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.includes("verification failed")) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to reserve listing" });
+  }
+});
+
+/**
+ * POST /api/marketplace/listings/:id/complete
+ * Seller completes a reserved listing (RESERVED → COMPLETED), releasing escrow
+ */
+router.post("/listings/:id/complete", authenticateUserOrAgent, async (req, res) => {
+  try {
+    const listingId = parseInt(req.params.id);
+    const { sellerAgentId } = req.body;
+
+    if (isNaN(listingId)) {
+      return res.status(400).json({ error: "Invalid listing ID" });
+    }
+
+    if (sellerAgentId === undefined || sellerAgentId === null) {
+      return res.status(400).json({
+        error: "Missing required fields: sellerAgentId",
+      });
+    }
+
+    const signer = await getOwnedAgentSigner(Number(sellerAgentId), req.user!.userId);
+
+    const result = await marketplaceService.completeListing({
+      sellerAgentId,
+      listingId,
+      ...signer,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/listings/${req.params.id}/complete:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to complete listing" });
+  }
+});
+
+/**
+ * POST /api/marketplace/listings/:id/cancel
+ * Seller cancels a listing (OPEN/RESERVED → CANCELLED), refunding a reserved buyer
+ */
+router.post("/listings/:id/cancel", authenticateUserOrAgent, async (req, res) => {
+  try {
+    const listingId = parseInt(req.params.id);
+    const { sellerAgentId } = req.body;
+
+    if (isNaN(listingId)) {
+      return res.status(400).json({ error: "Invalid listing ID" });
+    }
+
+    if (sellerAgentId === undefined || sellerAgentId === null) {
+      return res.status(400).json({
+        error: "Missing required fields: sellerAgentId",
+      });
+    }
+
+    const signer = await getOwnedAgentSigner(Number(sellerAgentId), req.user!.userId);
+
+    const result = await marketplaceService.cancelListing({
+      sellerAgentId,
+      listingId,
+      ...signer,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/listings/${req.params.id}/cancel:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to cancel listing" });
+  }
+});
+
+/**
+ * POST /api/marketplace/listings/:id/revoke
+ * Seller revokes a reservation (RESERVED → OPEN), refunding the buyer
+ */
+router.post("/listings/:id/revoke", authenticateToken, async (req, res) => {
+  try {
+    const listingId = parseInt(req.params.id);
+    const { sellerAgentId, reasonCode } = req.body;
+
+    if (isNaN(listingId)) {
+      return res.status(400).json({ error: "Invalid listing ID" });
+    }
+
+    if (sellerAgentId === undefined || sellerAgentId === null) {
+      return res.status(400).json({
+        error: "Missing required fields: sellerAgentId",
+      });
+    }
+
+    const signer = await getOwnedAgentSigner(Number(sellerAgentId), req.user!.userId);
+
+    const result = await marketplaceService.revokeReservation({
+      sellerAgentId,
+      listingId,
+      reasonCode: reasonCode || "seller_choice",
+      ...signer,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/listings/${req.params.id}/revoke:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to revoke reservation" });
+  }
+});
+
+/**
+ * GET /api/marketplace/listings/:id/negotiation-policy
+ * Get the seller agent's negotiation policy for a listing (seller only)
+ */
+router.get("/listings/:id/negotiation-policy", authenticateUserOrAgent, async (req, res) => {
+  try {
+    const policy = await getNegotiationPolicy(req.params.id, req.user!.userId);
+    res.json(policy);
+  } catch (error: any) {
+    console.error(`Error in GET /api/marketplace/listings/${req.params.id}/negotiation-policy:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to get negotiation policy" });
+  }
+});
+
+/**
+ * PUT /api/marketplace/listings/:id/negotiation-policy
+ * Update the seller agent's negotiation policy for a listing (seller only)
+ */
+router.put("/listings/:id/negotiation-policy", authenticateUserOrAgent, async (req, res) => {
+  try {
+    const { floorPrice, targetPrice, maxRounds, autoAcceptPrice } = req.body;
+
+    const isNumberOrUndefined = (value: unknown) =>
+      value === undefined || (typeof value === "number" && isFinite(value) && value >= 0);
+
+    if (
+      !isNumberOrUndefined(floorPrice) ||
+      !isNumberOrUndefined(targetPrice) ||
+      !isNumberOrUndefined(maxRounds) ||
+      (autoAcceptPrice !== null && !isNumberOrUndefined(autoAcceptPrice))
+    ) {
+      return res.status(400).json({
+        error: "floorPrice, targetPrice, maxRounds and autoAcceptPrice must be non-negative numbers",
+      });
+    }
+
+    const policy = await updateNegotiationPolicy(req.params.id, req.user!.userId, {
+      floorPrice,
+      targetPrice,
+      maxRounds,
+      autoAcceptPrice,
+    });
+
+    res.json(policy);
+  } catch (error: any) {
+    console.error(`Error in PUT /api/marketplace/listings/${req.params.id}/negotiation-policy:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.includes("Invalid policy")) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to update negotiation policy" });
+  }
+});
+
+/**
+ * GET /api/marketplace/listings/:id/validations
+ * ValidationRegistry requests for the listing's claims and its "validated" badge
+ */
+router.get("/listings/:id/validations", async (req, res) => {
+  try {
+    const validations = await getListingValidations(req.params.id);
+    res.json(validations);
+  } catch (error: any) {
+    console.error(`Error in GET /api/marketplace/listings/${req.params.id}/validations:`, error);
+    res.status(500).json({ error: error.message || "Failed to get validations" });
+  }
+});
+
+/**
+ * POST /api/marketplace/listings/:id/validations
+ * Ask the validator agent to check claims about the listing (seller only)
+ * Body: { claims: { condition?: string, authenticity?: string } }
+ */
+router.post("/listings/:id/validations", authenticateToken, async (req, res) => {
+  try {
+    const { claims } = req.body;
+
+    if (!claims || typeof claims !== "object" || Array.isArray(claims)) {
+      return res.status(400).json({ error: "claims must be an object" });
+    }
+    const entries = Object.entries(claims);
+    if (entries.some(([claim, statement]) => !isValidationClaim(claim) || typeof statement !== "string")) {
+      return res.status(400).json({
+        error: `claims must map ${VALIDATION_CLAIMS.join(", ")} to the seller's statement`,
+      });
+    }
+    if (!entries.some(([, statement]) => (statement as string).trim())) {
+      return res.status(400).json({ error: "At least one claim statement is required" });
+    }
+
+    const validations = await requestListingValidation({
+      listingId: req.params.id,
+      userId: req.user!.userId,
+      claims,
+    });
+
+    res.json({ validations });
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/listings/${req.params.id}/validations:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.includes("already pending")) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message?.includes("at most") || error.message?.includes("cannot validate")) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to request validation" });
+  }
+});
+
 /**
  * POST /api/marketplace/inquiries
  * Create a new inquiry on a listing
+ * Optional mandateId claims the buyer's intent mandate in the inquiry
  */
-router.post("/inquiries", async (req, res) => {
+router.post("/inquiries", authenticateToken, async (req, res) => {
   try {
-    const { buyerAgentId, listingId, offerPrice, message, accountId, privateKey } = req.body;
+    const { buyerAgentId, listingId, offerPrice, message, mandateId } = req.body;
 
     // Validation
     if (
       buyerAgentId === undefined || buyerAgentId === null ||
       listingId === undefined || listingId === null ||
       offerPrice === undefined || offerPrice === null ||
-      !message ||
-      !accountId ||
-      !privateKey
+      !message
     ) {
       return res.status(400).json({
-        error: "Missing required fields: buyerAgentId, listingId, offerPrice, message, accountId, privateKey",
+        error: "Missing required fields: buyerAgentId, listingId, offerPrice, message",
       });
     }
 
@@ -131,18 +474,33 @@ router.post("/inquiries", async (req, res) => {
       return res.status(400).json({ error: "offerPrice must be a valid positive number" });
     }
 
+    const signer = await getOwnedAgentSigner(Number(buyerAgentId), req.user!.userId);
+
     const result = await marketplaceService.createInquiry({
       buyerAgentId,
       listingId,
       offerPrice: offerPriceNum,
       message,
-      accountId,
-      privateKey,
+      mandateId,
+      ...signer,
     });
 
     res.json(result);
   } catch (error: any) {
     console.error("Error in POST /api/marketplace/inquiries:", error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (
+      error.message?.includes("expired") ||
+      error.message?.includes("exceeds") ||
+      error.message?.includes("does not authorize")
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message || "Failed to create inquiry" });
   }
 });
@@ -170,13 +528,88 @@ router.get("/inquiries/:id", async (req, res) => {
   }
 });
 
+/**
+ * POST /api/marketplace/inquiries/:id/verify-mandate
+ * Verify the buyer's intent mandate behind an inquiry (seller only, off-chain)
+ * Returns the verification report and its hash (the reviewHash for /reserve)
+ */
+router.post("/inquiries/:id/verify-mandate", authenticateToken, async (req, res) => {
+  try {
+    const review = await verifyOwnedInquiryMandate(req.params.id, req.user!.userId);
+    if (!review) {
+      return res.status(404).json({ error: `Inquiry ${req.params.id} has no intent mandate` });
+    }
+    res.json(review);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/inquiries/${req.params.id}/verify-mandate:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to verify intent mandate" });
+  }
+});
+
+/**
+ * POST /api/marketplace/inquiries/:id/withdraw
+ * Withdraw a pending inquiry and refund its escrow to the buyer
+ */
+router.post("/inquiries/:id/withdraw", authenticateToken, async (req, res) => {
+  try {
+    const inquiryId = parseInt(req.params.id);
+    const { buyerAgentId } = req.body;
+
+    if (isNaN(inquiryId)) {
+      return res.status(400).json({ error: "Invalid inquiry ID" });
+    }
+
+    if (buyerAgentId === undefined || buyerAgentId === null) {
+      return res.status(400).json({
+        error: "Missing required fields: buyerAgentId",
+      });
+    }
+
+    const signer = await getOwnedAgentSigner(Number(buyerAgentId), req.user!.userId);
+
+    const result = await marketplaceService.withdrawInquiry({
+      buyerAgentId,
+      inquiryId,
+      ...signer,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/inquiries/${req.params.id}/withdraw:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to withdraw inquiry" });
+  }
+});
+
 /**
  * POST /api/marketplace/buy-requests
- * Create a new buy request (what buyer wants to purchase)
+ * Create a new buy request (what buyer wants to purchase; buyer agent's owner only)
  */
-router.post("/buy-requests", async (req, res) => {
+router.post("/buy-requests", authenticateUserOrAgent, async (req, res) => {
   try {
-    const { buyerAgentId, title, description, minPrice, maxPrice, category } = req.body;
+    const {
+      buyerAgentId,
+      title,
+      description,
+      minPrice,
+      maxPrice,
+      category,
+      negotiationStrategy,
+      strategyParams,
+      minReputation,
+      rankingWeights,
+    } = req.body;
 
     // Validation
     if (
@@ -200,6 +633,31 @@ router.post("/buy-requests", async (req, res) => {
     if (maxPriceNum < minPriceNum) {
       return res.status(400).json({ error: "maxPrice must be greater than or equal to minPrice" });
     }
+    if (negotiationStrategy !== undefined && !isNegotiationStrategyName(negotiationStrategy)) {
+      return res.status(400).json({ error: `negotiationStrategy must be one of: ${NEGOTIATION_STRATEGIES.join(", ")}` });
+    }
+    if (strategyParams !== undefined && (typeof strategyParams !== "object" || strategyParams === null)) {
+      return res.status(400).json({ error: "strategyParams must be an object" });
+    }
+    if (
+      minReputation !== undefined && minReputation !== null &&
+      (!Number.isInteger(minReputation) || minReputation < 0 || minReputation > MAX_REPUTATION_SCORE)
+    ) {
+      return res.status(400).json({ error: `minReputation must be an integer between 0 and ${MAX_REPUTATION_SCORE}` });
+    }
+    if (rankingWeights !== undefined) {
+      if (typeof rankingWeights !== "object" || rankingWeights === null || Array.isArray(rankingWeights)) {
+        return res.status(400).json({ error: "rankingWeights must be an object" });
+      }
+      try {
+        resolveRankingWeights(rankingWeights);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    // Matching listings are negotiated and paid for from the buyer agent's account (caller must own it)
+    await getOwnedAgentSigner(Number(buyerAgentId), req.user!.userId);
 
     const result = await buyRequestService.createBuyRequest({
       buyerAgentId,
@@ -208,11 +666,21 @@ router.post("/buy-requests", async (req, res) => {
       minPrice: minPriceNum,
       maxPrice: maxPriceNum,
       category,
+      negotiationStrategy,
+      strategyParams,
+      minReputation: minReputation ?? undefined,
+      rankingWeights,
     });
 
     res.json(result);
   } catch (error: any) {
     console.error("Error in POST /api/marketplace/buy-requests:", error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message || "Failed to create buy request" });
   }
 });
@@ -236,4 +704,89 @@ router.get("/buy-requests/:id", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/marketplace/buy-requests/:id/mandate
+ * Get the latest intent mandate issued for a buy request
+ */
+router.get("/buy-requests/:id/mandate", async (req, res) => {
+  try {
+    const mandate = await getIntentMandate(req.params.id);
+    if (!mandate) {
+      return res.status(404).json({ error: `Buy request ${req.params.id} has no intent mandate` });
+    }
+    res.json(mandate);
+  } catch (error: any) {
+    console.error(`Error in GET /api/marketplace/buy-requests/${req.params.id}/mandate:`, error);
+    res.status(500).json({ error: error.message || "Failed to get intent mandate" });
+  }
+});
+
+/**
+ * POST /api/marketplace/buy-requests/:id/mandate/draft
+ * Draft the unsigned intent mandate VC for the buyer to sign with their DID key
+ * Body: { maxSpend?: number, ttlDays?: number }
+ */
+router.post("/buy-requests/:id/mandate/draft", authenticateToken, async (req, res) => {
+  try {
+    const { maxSpend, ttlDays } = req.body;
+
+    const draft = await draftIntentMandate({
+      buyRequestId: req.params.id,
+      userId: req.user!.userId,
+      maxSpend: maxSpend === undefined || maxSpend === null ? undefined : Number(maxSpend),
+      ttlDays: ttlDays === undefined || ttlDays === null ? undefined : Number(ttlDays),
+    });
+
+    res.json(draft);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/buy-requests/${req.params.id}/mandate/draft:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.includes("must be") || error.message?.includes("DID is required")) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to draft intent mandate" });
+  }
+});
+
+/**
+ * POST /api/marketplace/buy-requests/:id/mandate
+ * Issue a signed intent mandate and publish it to the VC topic
+ * Body: { payload: string (from /mandate/draft), signature: hex }
+ */
+router.post("/buy-requests/:id/mandate", authenticateToken, async (req, res) => {
+  try {
+    const { payload, signature } = req.body;
+
+    if (typeof payload !== "string" || typeof signature !== "string" || !payload || !signature) {
+      return res.status(400).json({ error: "Missing required fields: payload, signature" });
+    }
+
+    const mandate = await issueIntentMandate({
+      buyRequestId: req.params.id,
+      userId: req.user!.userId,
+      payload,
+      signature,
+    });
+
+    res.json(mandate);
+  } catch (error: any) {
+    console.error(`Error in POST /api/marketplace/buy-requests/${req.params.id}/mandate:`, error);
+    if (error.message?.includes("not owned")) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message?.startsWith("Invalid mandate") || error.message?.includes("DID is required")) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || "Failed to issue intent mandate" });
+  }
+});
+
 export default router;
@@ -1,10 +1,16 @@
 import { Router } from 'express';
 import {
   getNegotiationRoom,
+  getOwnedNegotiationRoom,
   getRoomsForAgent,
   getMessages,
   sendMessage,
+  updateRoomStatus,
 } from '../services/negotiation.service';
+import { getSettlement, settleNegotiation } from '../services/settlement.service';
+import { receivePushNotification } from '../services/a2aPush.service';
+import { getRoomFeedback, submitDealFeedback } from '../services/reputation.service';
+import { authenticateToken } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -87,4 +93,160 @@ router.post('/rooms/:roomId/messages', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/negotiation/rooms/:roomId/cancel
+ * Stop a running negotiation; the agents' in-flight A2A tasks are canceled
+ * Only the owner of the buyer or seller agent may cancel.
+ */
+router.post('/rooms/:roomId/cancel', authenticateToken, async (req, res) => {
+  try {
+    const room = await getOwnedNegotiationRoom(req.params.roomId, req.user!.userId);
+
+    if (room.status !== 'WAITING' && room.status !== 'ACTIVE') {
+      res.status(400).json({ error: `Room is already ${room.status}` });
+      return;
+    }
+
+    const updated = await updateRoomStatus(room.id, 'CANCELLED');
+    res.json(updated);
+  } catch (error: any) {
+    console.error('Error cancelling negotiation:', error);
+    if (error.message?.includes('not owned')) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/negotiation/rooms/:roomId/push?senderAgentId=N
+ * A2A push notification webhook: agents POST task updates for their replies here
+ */
+router.post('/rooms/:roomId/push', async (req, res) => {
+  try {
+    const senderAgentId = parseInt(req.query.senderAgentId as string);
+    if (isNaN(senderAgentId)) {
+      res.status(400).json({ error: 'Invalid sender agent ID' });
+      return;
+    }
+
+    await receivePushNotification({
+      roomId: req.params.roomId,
+      senderAgentId,
+      authorization: req.headers.authorization,
+      token: req.get('X-A2A-Notification-Token'),
+      task: req.body,
+    });
+    res.json({ received: true });
+  } catch (error: any) {
+    console.error('Error receiving A2A push notification:', error);
+    if (error.message?.startsWith('Invalid push notification')) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    if (error.message?.includes('not enabled') || error.message?.includes('not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/negotiation/rooms/:roomId/settlement
+ * Get on-chain settlement progress for a room
+ */
+router.get('/rooms/:roomId/settlement', async (req, res) => {
+  try {
+    const settlement = await getSettlement(req.params.roomId);
+    res.json(settlement);
+  } catch (error: any) {
+    console.error('Error getting settlement:', error);
+    res.status(404).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/negotiation/rooms/:roomId/settlement
+ * Start or retry on-chain settlement (resumes from the failed step)
+ * Only the owner of the buyer or seller agent may trigger it.
+ */
+router.post('/rooms/:roomId/settlement', authenticateToken, async (req, res) => {
+  try {
+    await getOwnedNegotiationRoom(req.params.roomId, req.user!.userId);
+    const settlement = await settleNegotiation(req.params.roomId);
+    res.json(settlement);
+  } catch (error: any) {
+    console.error('Error settling negotiation:', error);
+    if (error.message?.includes('not owned')) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/negotiation/rooms/:roomId/feedback
+ * Feedback each side left after the negotiation completed
+ */
+router.get('/rooms/:roomId/feedback', async (req, res) => {
+  try {
+    const feedback = await getRoomFeedback(req.params.roomId);
+    res.json({ feedback });
+  } catch (error: any) {
+    console.error('Error getting feedback:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/negotiation/rooms/:roomId/feedback
+ * Rate the other side of a completed negotiation on the ERC-8004 ReputationRegistry
+ * Body: { reviewerAgentId: number, score: 0-100, comment?: string }
+ */
+router.post('/rooms/:roomId/feedback', authenticateToken, async (req, res) => {
+  try {
+    const reviewerAgentId = parseInt(req.body.reviewerAgentId);
+    const score = Number(req.body.score);
+    if (isNaN(reviewerAgentId) || isNaN(score)) {
+      res.status(400).json({ error: 'reviewerAgentId and score are required' });
+      return;
+    }
+
+    const feedback = await submitDealFeedback({
+      roomId: req.params.roomId,
+      userId: req.user!.userId,
+      reviewerAgentId,
+      score,
+      comment: typeof req.body.comment === 'string' ? req.body.comment : undefined,
+    });
+    res.json(feedback);
+  } catch (error: any) {
+    console.error('Error submitting feedback:', error);
+    if (error.message?.includes('not owned')) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error.message?.includes('already submitted')) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    res.status(400).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth.middleware';
 import { getUserActivity } from '../services/user.service';
+import { createA2AApiKey, listA2AApiKeys, revokeA2AApiKey } from '../services/a2aApiKey.service';
 
 const router = Router();
 
@@ -23,4 +24,54 @@ router.get('/activity', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/user/a2a-keys
+ * List the user's A2A API keys
+ */
+router.get('/a2a-keys', authenticateToken, async (req, res) => {
+  try {
+    const keys = await listA2AApiKeys(req.user!.userId);
+    res.json({ keys });
+  } catch (error: any) {
+    console.error('Error listing A2A API keys:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/user/a2a-keys
+ * Create an A2A API key for a client; the key is only returned in this response
+ * Body: { name, rateLimitPerMinute? }
+ */
+router.post('/a2a-keys', authenticateToken, async (req, res) => {
+  try {
+    const key = await createA2AApiKey(req.user!.userId, {
+      name: req.body.name,
+      rateLimitPerMinute: req.body.rateLimitPerMinute,
+    });
+    res.status(201).json(key);
+  } catch (error: any) {
+    console.error('Error creating A2A API key:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/user/a2a-keys/:keyId
+ * Revoke an A2A API key
+ */
+router.delete('/a2a-keys/:keyId', authenticateToken, async (req, res) => {
+  try {
+    const key = await revokeA2AApiKey(req.user!.userId, req.params.keyId);
+    res.json(key);
+  } catch (error: any) {
+    console.error('Error revoking A2A API key:', error);
+    if (error.message?.includes('not found')) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -14,7 +14,13 @@ import marketplaceRoutes from './routes/marketplace.routes.js';
 import negotiationRoutes from './routes/negotiation.routes.js';
 import userRoutes from './routes/user.routes.js';
 import { verifyToken } from './services/jwt.service.js';
+import { authenticateA2AClient } from './middleware/a2aAuth.middleware.js';
+import { signA2AClientId } from './services/a2aApiKey.service.js';
+import type { A2AClient } from './services/a2aApiKey.service.js';
 import { agentService } from './services/agent.service.js';
+import { elizaMessages } from './services/elizaMessages.service.js';
+import { createMarketplaceSync } from './services/marketplaceSync.service.js';
+import { resumeValidations } from './services/validation.service.js';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -22,6 +28,7 @@ const prisma = new PrismaClient();
 const PORT = process.env.PORT;
 const FRONTEND_URL = process.env.FRONTEND_URL;
 const ELIZAOS_URL = process.env.ELIZAOS_URL;
+const A2A_INTERNAL_API_KEY = process.env.A2A_INTERNAL_API_KEY;
 
 // Middleware
 // CORS: Allow frontend only
@@ -43,7 +50,8 @@ app.use('/api/user', userRoutes);
 // A2A Protocol Proxy - Forward /agents/*/a2a/** requests to ElizaOS server
 // Maps erc8004AgentId (on-chain) to elizaAgentId (ElizaOS runtime)
 // IMPORTANT: Must be registered AFTER /agents routes to avoid conflicts
-app.use('/agents/:agentId/a2a', async (req, res, next) => {
+// Requires an X-API-Key (see a2aAuth.middleware); the Agent Card stays public
+app.use('/agents/:agentId/a2a', authenticateA2AClient, async (req, res, next) => {
   const erc8004AgentId = parseInt(req.params.agentId, 10);
 
   if (isNaN(erc8004AgentId)) {
@@ -55,7 +63,7 @@ app.use('/agents/:agentId/a2a', async (req, res, next) => {
     // Look up elizaAgentId from database using erc8004AgentId
     const agent = await prisma.agent.findFirst({
       where: { erc8004AgentId: erc8004AgentId },
-      select: { elizaAgentId: true }
+      select: { elizaAgentId: true, userId: true }
     });
 
     if (!agent || !agent.elizaAgentId) {
@@ -63,8 +71,9 @@ app.use('/agents/:agentId/a2a', async (req, res, next) => {
       return;
     }
 
-    // Store elizaAgentId for proxy to use
+    // Store elizaAgentId and the agent's owner for proxy to use
     (req as any).elizaAgentId = agent.elizaAgentId;
+    (req as any).agentOwnerId = agent.userId;
     next();
   } catch (error) {
     console.error('❌ A2A Proxy DB Error:', error);
@@ -88,7 +97,23 @@ app.use('/agents/:agentId/a2a', async (req, res, next) => {
     proxyReq: (proxyReq: ClientRequest, req: IncomingMessage): void => {
       const targetUrl = new URL(ELIZAOS_URL!);
       proxyReq.setHeader('Host', targetUrl.host);
+      // The client's key was checked above. Only internal traffic gets the internal key;
+      // clients are identified by their signed key ID (scoping them to their own tasks)
+      // and whether they own the agent (for owner-only skills)
       const expressReq = req as Request;
+      const client: A2AClient | undefined = (expressReq as any).a2aClient; // unset for the public Agent Card
+      proxyReq.removeHeader('X-API-Key');
+      proxyReq.removeHeader('X-A2A-Client-Id');
+      proxyReq.removeHeader('X-A2A-Client-Owner');
+      proxyReq.removeHeader('X-A2A-Client-Signature');
+      if (A2A_INTERNAL_API_KEY && client?.keyId === 'internal') {
+        proxyReq.setHeader('X-API-Key', A2A_INTERNAL_API_KEY);
+      } else if (A2A_INTERNAL_API_KEY && client) {
+        const isOwner = client.userId === (expressReq as any).agentOwnerId;
+        proxyReq.setHeader('X-A2A-Client-Id', client.keyId);
+        proxyReq.setHeader('X-A2A-Client-Owner', String(isOwner));
+        proxyReq.setHeader('X-A2A-Client-Signature', signA2AClientId(client.keyId, isOwner, A2A_INTERNAL_API_KEY));
+      }
       const elizaAgentId = (expressReq as any).elizaAgentId;
       const erc8004AgentId = expressReq.params.agentId;
       console.log(`🔄 Proxying A2A: erc8004#${erc8004AgentId} -> eliza#${elizaAgentId}`);
@@ -136,6 +161,9 @@ io.use(async (socket, next) => {
 
     console.log('🔑 Token received, verifying...');
     const decoded = verifyToken(token);
+    if (decoded.scope === 'agent') {
+      throw new Error('Agent tokens cannot open a socket');
+    }
     console.log('✅ Token verified:', decoded);
 
     socket.data.userId = decoded.userId;
@@ -170,7 +198,9 @@ io.on('connection', (socket) => {
 
       // Join Socket.IO room for this channel
       socket.join(`channel:${agent.channelId}`);
-      
+      // Relay agent messages pushed by ElizaOS to this room
+      elizaMessages.watchChannel(agent.channelId);
+
       socket.emit('agent:joined', { agentId, channelId: agent.channelId });
 
       console.log(`📢 User ${socket.data.userId} joined channel ${agent.channelId} for agent ${agentId}`);
@@ -199,24 +229,16 @@ io.on('connection', (socket) => {
       });
 
       // Send message to ElizaOS via HTTP API (using agentService)
+      // Reply parts reach the frontend as 'agent:message' events on the channel
+      // room, followed by 'agent:replyComplete'
       console.log(`📤 Sending message to ElizaOS via HTTP API for agent ${agentId}:`, message);
-      
+
       const response = await agentService.sendMessage({
         agentId,
         message,
         userId: socket.data.userId,
       });
 
-      // Send agent response back to frontend
-      console.log(`📤 Emitting 'agent:message' event to socket ${socket.id}`);
-      console.log(`📦 Payload:`, { content: response.message.substring(0, 100), timestamp: response.timestamp, agentId });
-      
-      socket.emit('agent:message', {
-        content: response.message,
-        timestamp: response.timestamp,
-        agentId,
-      });
-
       console.log(`✅ Agent ${agentId} responded:`, response.message.substring(0, 50) + '...');
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -245,6 +267,18 @@ io.on('connection', (socket) => {
     console.log(`👋 User ${socket.data.userId} left buyRequest ${buyRequestId}`);
   });
 
+  // Join listing room to receive status changes (reserve/complete/cancel/revoke)
+  socket.on('listing:join', ({ listingId }) => {
+    socket.join(`listing:${listingId}`);
+    console.log(`🏷️ User ${socket.data.userId} joined listing ${listingId}`);
+  });
+
+  // Leave listing room
+  socket.on('listing:leave', ({ listingId }) => {
+    socket.leave(`listing:${listingId}`);
+    console.log(`👋 User ${socket.data.userId} left listing ${listingId}`);
+  });
+
   // Join negotiation room to receive messages
   socket.on('negotiation:join', ({ roomId }) => {
     socket.join(`negotiation:${roomId}`);
@@ -269,6 +303,9 @@ httpServer.listen(PORT, async () => {
   console.log(`🔌 Socket.IO server ready`);
   console.log(`🤖 ElizaOS HTTP API: ${ELIZAOS_URL}`);
 
+  // Receive agent replies pushed over the ElizaOS message bus
+  elizaMessages.start();
+
   // Wait for ElizaOS to be ready, then restore agents
   setTimeout(async () => {
     try {
@@ -277,4 +314,19 @@ httpServer.listen(PORT, async () => {
       console.error('❌ Failed to restore agents:', error);
     }
   }, 5000); // Wait 5 seconds for ElizaOS to initialize
+
+  // Index Marketplace contract events (on-chain changes made outside this backend)
+  if (process.env.MARKETPLACE_SYNC_ENABLED !== 'false') {
+    try {
+      const marketplaceSync = await createMarketplaceSync();
+      marketplaceSync.start(Number(process.env.MARKETPLACE_SYNC_INTERVAL_MS) || undefined);
+    } catch (error) {
+      console.error('❌ Failed to start marketplace sync:', error);
+    }
+  }
+
+  // Answer listing validations the validator agent hadn't finished
+  resumeValidations().catch((error) => {
+    console.error('❌ Failed to resume validations:', error);
+  });
 });
\ No newline at end of file
@@ -3,30 +3,195 @@
  * Handles A2A JSON-RPC 2.0 communication between agents
  */
 
+/**
+ * Typed negotiation offer carried in an A2A DataPart
+ * Mirrors agents/src/a2a/offer.ts
+ */
+export interface NegotiationOffer {
+  type: 'offer' | 'counter_offer' | 'accept' | 'reject';
+  price?: number;
+  currency: 'HBAR';
+}
+
+const NEGOTIATION_OFFER_TYPES: NegotiationOffer['type'][] = ['offer', 'counter_offer', 'accept', 'reject'];
+const NEGOTIATION_OFFER_SCHEMA = 'hedera-marketplace/negotiation-offer/v1';
+
+type A2APart =
+  | { kind: 'text'; text: string }
+  | { kind: 'data'; data: Record<string, unknown>; metadata?: Record<string, unknown> };
+
 interface A2AMessage {
   jsonrpc: '2.0';
-  method: 'message/send';
+  method: 'message/send' | 'message/stream';
   params: {
     message: {
       messageId: string;
       role: 'user' | 'agent';
-      parts: Array<{ kind: 'text'; text: string }>;
+      parts: A2APart[];
+      contextId?: string;
+      metadata?: Record<string, unknown>;
+    };
+    configuration?: {
+      blocking: boolean;
+      pushNotificationConfig?: { url: string; token?: string };
     };
   };
   id: number;
 }
 
+export type A2ATaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'rejected'
+  | 'auth-required'
+  | 'unknown';
+
+export const TERMINAL_TASK_STATES: A2ATaskState[] = ['completed', 'canceled', 'failed', 'rejected'];
+
+interface A2AReplyMessage {
+  kind: 'message';
+  messageId: string;
+  role: 'agent';
+  parts: A2APart[];
+}
+
+export interface A2ATask {
+  kind: 'task';
+  id: string;
+  contextId: string;
+  status: {
+    state: A2ATaskState;
+    message?: A2AReplyMessage;
+    timestamp?: string;
+  };
+  history?: Array<{ messageId: string; role: 'user' | 'agent'; metadata?: Record<string, unknown> }>;
+}
+
 interface A2AResponse {
   jsonrpc: '2.0';
   id: number;
-  result: {
-    kind: 'message';
-    messageId: string;
-    role: 'agent';
-    parts: Array<{ kind: 'text'; text: string }>;
+  result?: A2AReplyMessage | A2ATask;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+type A2AStreamEvent =
+  | A2AReplyMessage
+  | A2ATask
+  | {
+      kind: 'status-update';
+      taskId: string;
+      contextId: string;
+      status: A2ATask['status'];
+      final: boolean;
+    }
+  | {
+      kind: 'artifact-update';
+      taskId: string;
+      contextId: string;
+      artifact: { artifactId: string; parts: A2APart[] };
+      append?: boolean;
+      lastChunk?: boolean;
+    };
+
+interface A2AStreamResponse {
+  jsonrpc: '2.0';
+  id: number;
+  result?: A2AStreamEvent;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Headers for requests to A2A endpoints behind the backend proxy
+ */
+function a2aHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const apiKey = process.env.A2A_INTERNAL_API_KEY;
+  return {
+    ...headers,
+    ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+  };
+}
+
+// Idle time after which an A2A request is abandoned
+const A2A_TIMEOUT_MS = 30000;
+
+// How long a non-blocking request waits for its reply to be pushed
+const A2A_PUSH_REPLY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Reply to an A2A message
+ * Agents answer with a task whose final status carries the reply message;
+ * a bare message (no task) is also accepted.
+ */
+export interface A2AReply {
+  message: { messageId: string; parts: A2APart[] };
+  task?: { id: string; contextId: string; state: A2ATaskState };
+  /** Delivered by push notification; the receiver has already logged it to the room */
+  pushed?: boolean;
+}
+
+// Agent endpoints with a request in flight, per A2A context (negotiation room)
+const inFlightAgents = new Map<string, Set<string>>();
+
+// Requests waiting for their task to finish, and finished tasks pushed before anyone waited
+const pushWaiters = new Map<string, (task: A2ATask) => void>();
+const unclaimedPushes = new Map<string, A2ATask>();
+
+/**
+ * Validate an untrusted value as a NegotiationOffer
+ */
+export function parseNegotiationOffer(value: unknown): NegotiationOffer | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { type, price, currency } = value as Record<string, unknown>;
+
+  if (!NEGOTIATION_OFFER_TYPES.includes(type as NegotiationOffer['type'])) {
+    return null;
+  }
+  if (currency !== undefined && currency !== 'HBAR') {
+    return null;
+  }
+
+  const numericPrice = typeof price === 'string' ? Number(price) : price;
+  const hasPrice = typeof numericPrice === 'number' && Number.isFinite(numericPrice) && numericPrice > 0;
+
+  // Everything except a reject must name a price
+  if (type !== 'reject' && !hasPrice) {
+    return null;
+  }
+
+  return {
+    type: type as NegotiationOffer['type'],
+    ...(hasPrice ? { price: numericPrice as number } : {}),
+    currency: 'HBAR',
   };
 }
 
+/**
+ * Get the text of an A2A message
+ */
+export function getMessageText(parts: A2APart[]): string | undefined {
+  const textPart = parts.find((p): p is Extract<A2APart, { kind: 'text' }> => p.kind === 'text');
+  return textPart?.text;
+}
+
+/**
+ * Get the offer DataPart of an A2A message, if any
+ */
+export function getMessageOffer(parts: A2APart[]): NegotiationOffer | null {
+  for (const part of parts) {
+    if (part.kind === 'data' && part.metadata?.schema === NEGOTIATION_OFFER_SCHEMA) {
+      return parseNegotiationOffer(part.data);
+    }
+  }
+  return null;
+}
+
 /**
  * Send A2A message to another agent
  */
@@ -35,19 +200,37 @@ export async function sendA2AMessage(params: {
   messageText: string;
   messageId?: string;
   requestId?: number;
-}): Promise<A2AResponse> {
+  offer?: NegotiationOffer | null;
+  /** A2A contextId grouping related tasks; negotiations use the room ID */
+  contextId?: string;
+  metadata?: Record<string, unknown>;
+  /** Stream the reply (message/stream); called with the reply text so far as it is typed */
+  onText?: (text: string) => void;
+  /** Don't hold the request open; the reply is awaited from this webhook instead */
+  pushNotification?: { url: string; token: string };
+}): Promise<A2AReply> {
   const messageId = params.messageId || `msg-${Date.now()}-${Math.random().toString(36).substring(7)}`;
   const requestId = params.requestId || Date.now();
 
   const message: A2AMessage = {
     jsonrpc: '2.0',
-    method: 'message/send',
+    method: params.onText && !params.pushNotification ? 'message/stream' : 'message/send',
     params: {
       message: {
         messageId,
         role: 'user',
-        parts: [{ kind: 'text', text: params.messageText }],
+        parts: [
+          { kind: 'text', text: params.messageText },
+          ...(params.offer
+            ? [{ kind: 'data' as const, data: { ...params.offer }, metadata: { schema: NEGOTIATION_OFFER_SCHEMA } }]
+            : []),
+        ],
+        ...(params.contextId ? { contextId: params.contextId } : {}),
+        ...(params.metadata ? { metadata: params.metadata } : {}),
       },
+      ...(params.pushNotification
+        ? { configuration: { blocking: false, pushNotificationConfig: params.pushNotification } }
+        : {}),
     },
     id: requestId,
   };
@@ -55,33 +238,62 @@ export async function sendA2AMessage(params: {
   console.log(`📤 Sending A2A message to ${params.toAgentUrl}`);
   console.log(`   Message ID: ${messageId}`);
   console.log(`   Text: ${params.messageText.substring(0, 100)}${params.messageText.length > 100 ? '...' : ''}`);
+  if (params.offer) {
+    console.log(`   Offer: ${params.offer.type}${params.offer.price !== undefined ? ` ${params.offer.price} HBAR` : ''}`);
+  }
 
-  try {
-    // Add 30 second timeout for A2A requests
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
+  if (params.contextId) {
+    const agents = inFlightAgents.get(params.contextId) || new Set<string>();
+    agents.add(params.toAgentUrl);
+    inFlightAgents.set(params.contextId, agents);
+  }
+
+  // Abort after 30 seconds without a response (or, when streaming, without a new chunk)
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), A2A_TIMEOUT_MS);
+  const extendTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), A2A_TIMEOUT_MS);
+  };
 
+  try {
     const response = await fetch(params.toAgentUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: a2aHeaders({
+        'Content-Type': 'application/json',
+        ...(message.method === 'message/stream' ? { 'Accept': 'text/event-stream' } : {}),
+      }),
       body: JSON.stringify(message),
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
-
     if (!response.ok) {
       throw new Error(`A2A request failed: ${response.status} ${response.statusText}`);
     }
 
-    const result = await response.json() as A2AResponse;
+    let reply = message.method === 'message/stream'
+      ? await readA2AStream(response, params.onText!, extendTimeout)
+      : toA2AReply(await response.json() as A2AResponse);
+
+    if (params.pushNotification && reply.task && !TERMINAL_TASK_STATES.includes(reply.task.state)) {
+      clearTimeout(timeoutId);
+      console.log(`🔔 A2A task ${reply.task.id} accepted, waiting for its reply by push notification`);
+      reply = { ...toA2AReply({ jsonrpc: '2.0', id: requestId, result: await waitForPushedTask(reply.task.id) }), pushed: true };
+    }
 
-    const responseText = result.result.parts[0]?.text || 'No response';
+    const responseText = getMessageText(reply.message.parts) || 'No response';
+    const responseOffer = getMessageOffer(reply.message.parts);
     console.log(`✅ Received A2A response:`);
-    console.log(`   Message ID: ${result.result.messageId}`);
+    console.log(`   Message ID: ${reply.message.messageId}`);
+    if (reply.task) {
+      console.log(`   Task: ${reply.task.id} (${reply.task.state})`);
+    }
     console.log(`   Text: ${responseText.substring(0, 100)}${responseText.length > 100 ? '...' : ''}`);
+    if (responseOffer) {
+      console.log(`   Offer: ${responseOffer.type}${responseOffer.price !== undefined ? ` ${responseOffer.price} HBAR` : ''}`);
+    }
 
-    return result;
+    return reply;
   } catch (error: any) {
     if (error.name === 'AbortError') {
       console.error(`❌ A2A message timed out after 30 seconds to ${params.toAgentUrl}`);
@@ -94,56 +306,240 @@ export async function sendA2AMessage(params: {
       stack: error.stack?.split('\n')[0]
     });
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    if (params.contextId) {
+      inFlightAgents.get(params.contextId)?.delete(params.toAgentUrl);
+      if (inFlightAgents.get(params.contextId)?.size === 0) {
+        inFlightAgents.delete(params.contextId);
+      }
+    }
   }
 }
 
 /**
- * Decision criteria detection for negotiation
- * Analyzes message content to detect if a decision has been reached
+ * Hand a task received by push notification to the request waiting for it
+ * Only finished tasks are delivered; earlier status changes are ignored.
  */
-export function detectDecisionCriteria(message: string): {
-  hasDecision: boolean;
-  decisionType: 'accepted' | 'rejected' | 'price_agreed' | 'counter_offer' | 'none';
-  agreedPrice?: number;
-} {
-  const lowerMsg = message.toLowerCase();
+export function deliverPushedTask(task: A2ATask): void {
+  if (!TERMINAL_TASK_STATES.includes(task.status.state)) {
+    return;
+  }
 
-  // Check for explicit acceptance
-  const acceptanceKeywords = ['deal!', 'deal.', 'i accept', 'accept this price', 'accept your offer', 'agreed', 'sold', 'purchase', "let's proceed", "i'll buy", "i'll take it", 'finalize', 'confirm the'];
-  const hasAcceptance = acceptanceKeywords.some(keyword => lowerMsg.includes(keyword));
+  const waiter = pushWaiters.get(task.id);
+  if (waiter) {
+    waiter(task);
+    return;
+  }
+
+  // The push can beat the message/send response that tells us the taskId
+  unclaimedPushes.set(task.id, task);
+  setTimeout(() => unclaimedPushes.delete(task.id), A2A_PUSH_REPLY_TIMEOUT_MS);
+}
 
-  // Check for explicit rejection
-  const rejectionKeywords = ['reject', 'decline', 'not interested', 'too expensive', 'cannot accept', "can't accept", 'no deal', 'sorry'];
-  const hasRejection = rejectionKeywords.some(keyword => lowerMsg.includes(keyword));
+/**
+ * Wait for a task's final status to be pushed
+ */
+function waitForPushedTask(taskId: string): Promise<A2ATask> {
+  const pushed = unclaimedPushes.get(taskId);
+  if (pushed) {
+    unclaimedPushes.delete(taskId);
+    return Promise.resolve(pushed);
+  }
 
-  // Check for price agreement pattern (e.g., "2 HBAR", "2.5 HBAR", "2 hbar")
-  const priceMatch = message.match(/(\d+(?:\.\d+)?)\s*(?:HBAR|hbar)/i);
-  const agreedPrice = priceMatch ? parseFloat(priceMatch[1]) : undefined;
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      pushWaiters.delete(taskId);
+      reject(new Error(`No push notification for A2A task ${taskId} after ${A2A_PUSH_REPLY_TIMEOUT_MS / 1000} seconds`));
+    }, A2A_PUSH_REPLY_TIMEOUT_MS);
 
-  // Check for counter offer
-  const counterOfferKeywords = ['counter', 'how about', 'what about', 'could you do', 'would you accept', 'can you do'];
-  const hasCounterOffer = counterOfferKeywords.some(keyword => lowerMsg.includes(keyword));
+    pushWaiters.set(taskId, (task) => {
+      clearTimeout(timeoutId);
+      pushWaiters.delete(taskId);
+      resolve(task);
+    });
+  });
+}
 
-  if (hasAcceptance && agreedPrice) {
-    return { hasDecision: true, decisionType: 'price_agreed', agreedPrice };
+/**
+ * Normalize a message/send response into the reply message and its task
+ */
+function toA2AReply(response: A2AResponse): A2AReply {
+  if (response.error || !response.result) {
+    throw new Error(`A2A error: ${response.error?.message || 'empty response'}`);
   }
-  if (hasAcceptance) {
-    return { hasDecision: true, decisionType: 'accepted' };
+
+  if (response.result.kind === 'message') {
+    return { message: response.result };
   }
-  if (hasRejection) {
-    return { hasDecision: true, decisionType: 'rejected' };
+
+  const task = response.result;
+  return {
+    message: task.status.message ?? { messageId: `${task.id}-${task.status.state}`, parts: [] },
+    task: { id: task.id, contextId: task.contextId, state: task.status.state },
+  };
+}
+
+/**
+ * Read a message/stream SSE response
+ * Artifact chunks are reported through onText as accumulated reply text; the
+ * final status update (or a bare message) is the reply.
+ */
+async function readA2AStream(
+  response: Response,
+  onText: (text: string) => void,
+  onActivity: () => void
+): Promise<A2AReply> {
+  if (!response.body) {
+    throw new Error('A2A stream has no body');
   }
-  if (hasCounterOffer) {
-    return { hasDecision: false, decisionType: 'counter_offer' };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    onActivity();
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) {
+        continue;
+      }
+
+      const event = JSON.parse(data) as A2AStreamResponse;
+      if (event.error || !event.result) {
+        throw new Error(`A2A error: ${event.error?.message || 'empty stream event'}`);
+      }
+
+      const result = event.result;
+      switch (result.kind) {
+        case 'message':
+          reader.cancel().catch(() => {});
+          return { message: result };
+        case 'artifact-update': {
+          const chunk = getMessageText(result.artifact.parts) ?? '';
+          text = result.append ? text + chunk : chunk;
+          if (chunk) {
+            onText(text);
+          }
+          break;
+        }
+        case 'status-update':
+          if (result.final) {
+            reader.cancel().catch(() => {});
+            return toA2AReply({
+              jsonrpc: '2.0',
+              id: event.id,
+              result: { kind: 'task', id: result.taskId, contextId: result.contextId, status: result.status },
+            });
+          }
+          break;
+      }
+    }
+  }
+
+  throw new Error('A2A stream ended without a final status');
+}
+
+/**
+ * Cancel the unfinished tasks of a context on every agent with a request in flight
+ * Agents abort the running work and end the task as "canceled", which also
+ * resolves the pending message/send. Returns the number of tasks canceled.
+ */
+export async function cancelContextTasks(contextId: string): Promise<number> {
+  const agentUrls = [...(inFlightAgents.get(contextId) ?? [])];
+  let canceled = 0;
+
+  for (const agentUrl of agentUrls) {
+    try {
+      const baseUrl = agentUrl.replace(/\/$/, '');
+      const listResponse = await fetch(`${baseUrl}/contexts/${encodeURIComponent(contextId)}/tasks?limit=200`, {
+        headers: a2aHeaders(),
+      });
+      if (!listResponse.ok) {
+        throw new Error(`Listing tasks failed: ${listResponse.status} ${listResponse.statusText}`);
+      }
+
+      const page = await listResponse.json() as { items: Array<{ id: string; status: { state: A2ATaskState } }> };
+      const unfinished = page.items.filter(task => !TERMINAL_TASK_STATES.includes(task.status.state));
+
+      for (const task of unfinished) {
+        const cancelResponse = await fetch(agentUrl, {
+          method: 'POST',
+          headers: a2aHeaders({ 'Content-Type': 'application/json' }),
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'tasks/cancel',
+            params: { id: task.id },
+            id: Date.now(),
+          }),
+        });
+        const result = await cancelResponse.json() as A2AResponse;
+
+        if (result.error) {
+          console.warn(`⚠️ Could not cancel A2A task ${task.id}: ${result.error.message}`);
+          continue;
+        }
+
+        console.log(`🚫 Canceled A2A task ${task.id} (context ${contextId})`);
+        canceled++;
+      }
+    } catch (error: any) {
+      console.error(`❌ Failed to cancel A2A tasks at ${agentUrl}:`, error?.message || error);
+    }
   }
 
-  return { hasDecision: false, decisionType: 'none' };
+  return canceled;
+}
+
+/**
+ * Decision criteria for negotiation
+ * Derived from the structured offer payload; a message without one is not a decision.
+ * @param counterpartyPrice - Last price offered by the other side; an accept is bound to it
+ */
+export function detectDecisionCriteria(offer: NegotiationOffer | null, counterpartyPrice?: number): {
+  hasDecision: boolean;
+  decisionType: 'accepted' | 'rejected' | 'price_agreed' | 'counter_offer' | 'none';
+  agreedPrice?: number;
+  proposedPrice?: number;
+} {
+  if (!offer) {
+    return { hasDecision: false, decisionType: 'none' };
+  }
+
+  switch (offer.type) {
+    case 'accept': {
+      const agreedPrice = counterpartyPrice ?? offer.price;
+      return agreedPrice !== undefined
+        ? { hasDecision: true, decisionType: 'price_agreed', agreedPrice }
+        : { hasDecision: true, decisionType: 'accepted' };
+    }
+    case 'reject':
+      return { hasDecision: true, decisionType: 'rejected' };
+    default:
+      return { hasDecision: false, decisionType: 'counter_offer', proposedPrice: offer.price };
+  }
 }
 
 /**
  * Check if both agents' requirements are satisfied
- * Buyer: proposed price <= maxPrice
- * Seller: proposed price >= expectedPrice (or at minimum acceptable level)
+ * Buyer: proposed price within [minPrice, maxPrice]
+ * Seller: proposed price >= basePrice (the listing's floor)
  */
 export function checkMutualSatisfaction(params: {
   proposedPrice: number;
@@ -155,36 +551,35 @@ export function checkMutualSatisfaction(params: {
 } {
   const { proposedPrice, buyerBudget, sellerPrice } = params;
 
-  // Buyer's requirement: price must be within budget
-  const buyerSatisfied = proposedPrice >= buyerBudget.min && proposedPrice <= buyerBudget.max;
-
-  // Seller's requirement: price should be at or above expected price
-  // Or at least within reasonable range (90% of expected price)
-  const minAcceptablePrice = sellerPrice.expected * 0.9;
-  const sellerSatisfied = proposedPrice >= minAcceptablePrice;
+  // Seller's requirement: price must not go below the listing's base price
+  const minAcceptablePrice = sellerPrice.base;
 
-  if (buyerSatisfied && sellerSatisfied) {
+  // Buyer's requirement: price must be within budget
+  if (proposedPrice > buyerBudget.max) {
     return {
-      isSatisfied: true,
-      reason: `Price ${proposedPrice} HBAR satisfies both parties: within buyer's budget (${buyerBudget.min}-${buyerBudget.max} HBAR) and meets seller's expectation (expected: ${sellerPrice.expected} HBAR)`
+      isSatisfied: false,
+      reason: `Price ${proposedPrice} HBAR exceeds buyer's maximum budget of ${buyerBudget.max} HBAR`
     };
   }
 
-  if (!buyerSatisfied) {
+  if (proposedPrice < buyerBudget.min) {
     return {
       isSatisfied: false,
-      reason: `Price ${proposedPrice} HBAR exceeds buyer's maximum budget of ${buyerBudget.max} HBAR`
+      reason: `Price ${proposedPrice} HBAR is below buyer's minimum budget of ${buyerBudget.min} HBAR`
     };
   }
 
-  if (!sellerSatisfied) {
+  if (proposedPrice < minAcceptablePrice) {
     return {
       isSatisfied: false,
-      reason: `Price ${proposedPrice} HBAR is below seller's minimum acceptable price of ${minAcceptablePrice.toFixed(2)} HBAR`
+      reason: `Price ${proposedPrice} HBAR is below seller's base price of ${minAcceptablePrice} HBAR`
     };
   }
 
-  return { isSatisfied: false, reason: 'Unknown constraint violation' };
+  return {
+    isSatisfied: true,
+    reason: `Price ${proposedPrice} HBAR satisfies both parties: within buyer's budget (${buyerBudget.min}-${buyerBudget.max} HBAR) and at or above seller's base price (${sellerPrice.base} HBAR)`
+  };
 }
 
 /**
@@ -207,7 +602,11 @@ export async function sendNegotiationGreeting(params: {
     expectedPrice: number;
   };
   negotiationRoomId: string;
-}): Promise<A2AResponse> {
+  /** Called with the seller's reply text so far while it is streamed */
+  onText?: (text: string) => void;
+  /** Receive the seller's reply at this webhook instead of streaming it */
+  pushNotification?: { url: string; token: string };
+}): Promise<A2AReply> {
   const greetingText = `NEGOTIATION CONTEXT:
 You are negotiating about Listing #${params.listing.listingId}:
 - Title: ${params.listing.title}
@@ -224,14 +623,13 @@ STRATEGIC PRICING GUIDANCE:
 - Buyer's maximum budget is ${params.buyRequest.maxPrice} HBAR
 - Your expected price is ${params.listing.expectedPrice} HBAR
 - Recommended opening price: ${Math.min(params.buyRequest.maxPrice * 0.85, params.listing.expectedPrice * 1.3).toFixed(1)} HBAR (aim for their upper budget range)
-- Minimum acceptable: ${(params.listing.expectedPrice * 0.8).toFixed(1)} HBAR (80% of expected)
-- Any offer within 10% of your expected price (${(params.listing.expectedPrice * 0.9).toFixed(1)}-${(params.listing.expectedPrice * 1.1).toFixed(1)} HBAR) should be ACCEPTED
+- Minimum acceptable: your base price of ${params.listing.basePrice} HBAR (your negotiation policy may set a higher floor)
 
 IMPORTANT RULES:
 1. Make ONE clear counter-offer with specific price
-2. If buyer accepts your price, respond with "I accept this price. Deal!" and STOP
+2. If buyer accepts your price, accept it and STOP
 3. Make maximum 2 counter-offers, then accept or reject
-4. Once you say "Deal" or "I accept", you CANNOT change the price
+4. Once you accept, you CANNOT change the price
 5. Keep responses concise (max 80 words)
 
 ---
@@ -250,6 +648,15 @@ Negotiation Room: ${params.negotiationRoomId}`;
     toAgentUrl: params.sellerA2AEndpoint,
     messageText: greetingText,
     messageId: `greeting-${params.buyRequest.id}`,
+    contextId: params.negotiationRoomId,
+    metadata: {
+      skillId: 'negotiate-listing',
+      negotiationRoomId: params.negotiationRoomId,
+      listingId: String(params.listing.listingId),
+      roundNumber: 0,
+    },
+    onText: params.onText,
+    pushNotification: params.pushNotification,
   });
 }
 
@@ -267,8 +674,14 @@ export async function sendNegotiationResponse(params: {
     expectedPrice?: number;
     roundNumber?: number;
   };
+  offer: NegotiationOffer | null;
+  negotiationRoomId: string;
   messageId: string;
-}): Promise<A2AResponse> {
+  /** Called with the counterparty's reply text so far while it is streamed */
+  onText?: (text: string) => void;
+  /** Receive the counterparty's reply at this webhook instead of streaming it */
+  pushNotification?: { url: string; token: string };
+}): Promise<A2AReply> {
   const contextualMessage = `NEGOTIATION CONTEXT:
 Listing #${params.negotiationContext.listingId}: ${params.negotiationContext.listingTitle}
 Current offer: ${params.negotiationContext.currentPrice} HBAR
@@ -278,7 +691,7 @@ ${params.negotiationContext.roundNumber ? `Round: ${params.negotiationContext.ro
 
 CRITICAL RULES:
 1. Make a concrete decision (accept, reject, or ONE counter-offer with specific price)
-2. If you say "Deal" or "I accept", you CANNOT change the price afterward
+2. If you accept, you CANNOT change the price afterward
 3. Be strategic: Consider if this price is fair for both parties
 4. Negotiation will continue until agreement or rejection (max 25 rounds)
 5. Keep response under 80 words
@@ -291,5 +704,15 @@ ${params.messageText}`;
     toAgentUrl: params.targetAgentEndpoint,
     messageText: contextualMessage,
     messageId: params.messageId,
+    offer: params.offer,
+    contextId: params.negotiationRoomId,
+    metadata: {
+      skillId: 'negotiate-listing',
+      negotiationRoomId: params.negotiationRoomId,
+      listingId: String(params.negotiationContext.listingId),
+      roundNumber: params.negotiationContext.roundNumber,
+    },
+    onText: params.onText,
+    pushNotification: params.pushNotification,
   });
 }
@@ -0,0 +1,206 @@
+/**
+ * A2A API Key Service
+ * Per-client keys for the public A2A proxy (/agents/:agentId/a2a), with a
+ * per-key request rate limit. The backend's own negotiation traffic uses
+ * A2A_INTERNAL_API_KEY, which is not rate limited.
+ */
+
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const KEY_PREFIX = "a2a_";
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface A2AApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  rateLimitPerMinute: number;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface A2AClient {
+  keyId: string;
+  name: string;
+  userId: string | null; // Key owner; null for internal traffic
+  rateLimitPerMinute: number | null; // null = unlimited (internal traffic)
+}
+
+// Requests counted in the current window, per key
+const rateLimitWindows = new Map<string, { windowStart: number; count: number }>();
+let lastEviction = Date.now();
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function toSummary(key: A2AApiKeySummary): A2AApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    rateLimitPerMinute: key.rateLimitPerMinute,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt,
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * Create an API key for a client
+ * The key is only returned here; just its hash is stored.
+ */
+export async function createA2AApiKey(
+  userId: string,
+  params: { name: string; rateLimitPerMinute?: number }
+): Promise<A2AApiKeySummary & { key: string }> {
+  if (!params.name?.trim()) {
+    throw new Error("name is required");
+  }
+
+  const rateLimitPerMinute = params.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+  if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE) {
+    throw new Error(`rateLimitPerMinute must be an integer between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}`);
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const created = await prisma.a2AApiKey.create({
+    data: {
+      userId,
+      name: params.name.trim(),
+      keyPrefix: key.substring(0, KEY_PREFIX.length + 6),
+      keyHash: hashKey(key),
+      rateLimitPerMinute,
+    },
+  });
+
+  console.log(`🔑 A2A API key ${created.keyPrefix}… created for "${created.name}"`);
+
+  return { ...toSummary(created), key };
+}
+
+/**
+ * List a user's API keys (without the keys themselves)
+ */
+export async function listA2AApiKeys(userId: string): Promise<A2AApiKeySummary[]> {
+  const keys: A2AApiKeySummary[] = await prisma.a2AApiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return keys.map(toSummary);
+}
+
+/**
+ * Revoke one of the user's API keys
+ * @throws Error containing "not found"
+ */
+export async function revokeA2AApiKey(userId: string, keyId: string): Promise<A2AApiKeySummary> {
+  const key = await prisma.a2AApiKey.findUnique({ where: { id: keyId } });
+
+  if (!key || key.userId !== userId) {
+    throw new Error(`A2A API key ${keyId} not found`);
+  }
+
+  const revoked = await prisma.a2AApiKey.update({
+    where: { id: keyId },
+    data: { revokedAt: key.revokedAt ?? new Date() },
+  });
+  rateLimitWindows.delete(keyId);
+
+  console.log(`🚫 A2A API key ${revoked.keyPrefix}… revoked`);
+
+  return toSummary(revoked);
+}
+
+/**
+ * Resolve the client presenting an API key
+ * Returns null for unknown or revoked keys.
+ */
+export async function authenticateA2AKey(key: string): Promise<A2AClient | null> {
+  const internalKey = process.env.A2A_INTERNAL_API_KEY;
+  if (internalKey) {
+    const expected = Buffer.from(hashKey(internalKey));
+    if (crypto.timingSafeEqual(Buffer.from(hashKey(key)), expected)) {
+      return { keyId: "internal", name: "internal", userId: null, rateLimitPerMinute: null };
+    }
+  }
+
+  const record = await prisma.a2AApiKey.findUnique({ where: { keyHash: hashKey(key) } });
+  if (!record || record.revokedAt) {
+    return null;
+  }
+
+  // Not awaited: usage tracking must not slow down the request
+  prisma.a2AApiKey
+    .update({ where: { id: record.id }, data: { lastUsedAt: new Date() } })
+    .catch((error: unknown) => console.error("Error updating A2A API key usage:", error));
+
+  return { keyId: record.id, name: record.name, userId: record.userId, rateLimitPerMinute: record.rateLimitPerMinute };
+}
+
+/**
+ * Sign a client's key ID, and whether it owns the called agent, for the agent server
+ * The proxy forwards this instead of the internal key, so the agents can tell
+ * clients apart, keep each one to its own tasks and contexts, and reserve
+ * owner-only skills for the agent's owner.
+ */
+export function signA2AClientId(keyId: string, isOwner: boolean, internalKey: string): string {
+  return crypto
+    .createHmac("sha256", internalKey)
+    .update(`${keyId}:${isOwner ? "owner" : "client"}`)
+    .digest("hex");
+}
+
+/**
+ * Drop windows that have ended, so keys that stopped calling do not stay in memory
+ * Runs at most once per window length.
+ */
+function evictExpiredWindows(now: number): void {
+  if (now - lastEviction < RATE_LIMIT_WINDOW_MS) {
+    return;
+  }
+
+  for (const [keyId, window] of rateLimitWindows) {
+    if (now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      rateLimitWindows.delete(keyId);
+    }
+  }
+  lastEviction = now;
+}
+
+/**
+ * Count a request against the client's per-minute limit (fixed window)
+ */
+export function consumeA2ARateLimit(client: A2AClient): {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+} {
+  if (client.rateLimitPerMinute === null) {
+    return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+  }
+
+  const now = Date.now();
+  evictExpiredWindows(now);
+
+  let window = rateLimitWindows.get(client.keyId);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateLimitWindows.set(client.keyId, window);
+  }
+
+  const retryAfterSeconds = Math.ceil((window.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+  if (window.count >= client.rateLimitPerMinute) {
+    return { allowed: false, remaining: 0, retryAfterSeconds };
+  }
+
+  window.count++;
+  return { allowed: true, remaining: client.rateLimitPerMinute - window.count, retryAfterSeconds };
+}
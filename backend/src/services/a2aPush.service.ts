@@ -0,0 +1,151 @@
+/**
+ * A2A Push Notification Service
+ * Negotiation requests register a webhook per room and sender instead of
+ * holding the HTTP request open. Agents POST every task status change to it
+ * with a JWT signed by A2A_PUSH_NOTIFICATION_SECRET; finished replies are
+ * logged to the room and handed to the negotiation waiting for them.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  A2ATask,
+  TERMINAL_TASK_STATES,
+  deliverPushedTask,
+  getMessageOffer,
+  getMessageText,
+} from './a2a.service';
+import { sendMessage } from './negotiation.service';
+
+const PUSH_SECRET = process.env.A2A_PUSH_NOTIFICATION_SECRET;
+// Backend URL as reached from ElizaOS
+const PUSH_BASE_URL = process.env.A2A_PUSH_NOTIFICATION_URL;
+
+// Remember logged tasks this long so redelivered notifications are not logged twice
+const LOGGED_TASK_TTL_MS = 10 * 60 * 1000;
+const loggedTasks = new Set<string>();
+
+interface PushNotificationClaims {
+  iss: string;
+  aud: string;
+  taskId: string;
+  bodySha256: string;
+}
+
+/**
+ * Token identifying the room and sender a webhook was registered for
+ * Derived from the secret, so the receiver needs no stored state to check it.
+ */
+function createPushToken(roomId: string, senderAgentId: number): string {
+  return crypto.createHmac('sha256', PUSH_SECRET!).update(`${roomId}:${senderAgentId}`).digest('hex');
+}
+
+/**
+ * Webhook for an agent's replies in a negotiation room
+ * Returns undefined when push notifications are not configured.
+ */
+export function getPushNotificationConfig(
+  roomId: string,
+  senderAgentId: number
+): { url: string; token: string } | undefined {
+  if (!PUSH_SECRET || !PUSH_BASE_URL) {
+    return undefined;
+  }
+
+  return {
+    url: `${PUSH_BASE_URL.replace(/\/$/, '')}/api/negotiation/rooms/${encodeURIComponent(roomId)}/push?senderAgentId=${senderAgentId}`,
+    token: createPushToken(roomId, senderAgentId),
+  };
+}
+
+/**
+ * Check the notification's JWT and token
+ * The JWT must be addressed to this webhook and carry the SHA-256 of the task
+ * as the agent serialized it (JSON.parse/JSON.stringify round-trips it).
+ */
+function verifyPushNotification(params: {
+  roomId: string;
+  senderAgentId: number;
+  authorization?: string;
+  token?: string;
+  task: A2ATask;
+}): void {
+  const config = getPushNotificationConfig(params.roomId, params.senderAgentId);
+  if (!config) {
+    throw new Error('Push notifications are not enabled');
+  }
+
+  const expectedToken = Buffer.from(config.token);
+  const receivedToken = Buffer.from(params.token || '');
+  if (receivedToken.length !== expectedToken.length || !crypto.timingSafeEqual(receivedToken, expectedToken)) {
+    throw new Error('Invalid push notification: token mismatch');
+  }
+
+  const bearer = params.authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!bearer) {
+    throw new Error('Invalid push notification: missing bearer token');
+  }
+
+  let claims: PushNotificationClaims;
+  try {
+    claims = jwt.verify(bearer, PUSH_SECRET!, {
+      algorithms: ['HS256'],
+      audience: config.url,
+    }) as PushNotificationClaims;
+  } catch (error: any) {
+    throw new Error(`Invalid push notification: ${error.message}`);
+  }
+
+  const bodySha256 = crypto.createHash('sha256').update(JSON.stringify(params.task)).digest('hex');
+  if (claims.taskId !== params.task.id || claims.bodySha256 !== bodySha256) {
+    throw new Error('Invalid push notification: body does not match signature');
+  }
+}
+
+/**
+ * Receive a task update pushed by an agent
+ * A finished task's reply becomes a NegotiationMessage (and a
+ * negotiation:message event) before the waiting negotiation is resumed.
+ */
+export async function receivePushNotification(params: {
+  roomId: string;
+  senderAgentId: number;
+  authorization?: string;
+  token?: string;
+  task: A2ATask;
+}): Promise<void> {
+  verifyPushNotification(params);
+
+  const { task } = params;
+  console.log(`🔔 Push notification for A2A task ${task.id}: ${task.status.state}`);
+
+  if (!TERMINAL_TASK_STATES.includes(task.status.state) || loggedTasks.has(task.id)) {
+    return;
+  }
+
+  const parts = task.status.message?.parts ?? [];
+  const text = getMessageText(parts);
+  const offer = getMessageOffer(parts);
+  const roundNumber = task.history?.find(message => message.role === 'user')?.metadata?.roundNumber;
+
+  if (task.status.state === 'completed' && text) {
+    await sendMessage({
+      roomId: params.roomId,
+      senderAgentId: params.senderAgentId,
+      content: text,
+      messageType: offer?.type ?? 'negotiation',
+      metadata: {
+        a2aTaskId: task.id,
+        a2aMessageId: task.status.message?.messageId,
+        ...(roundNumber !== undefined ? { roundNumber } : {}),
+        source: 'a2a-push',
+        ...(offer ? { offer } : {}),
+      },
+    });
+  }
+
+  loggedTasks.add(task.id);
+  setTimeout(() => loggedTasks.delete(task.id), LOGGED_TASK_TTL_MS);
+
+  deliverPushedTask(task);
+}
@@ -1,5 +1,9 @@
 import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
 import { erc8004Service } from './erc8004.service';
+import { generateAgentToken } from './jwt.service.js';
+import { elizaMessages } from './elizaMessages.service.js';
+import type { ExpectedReply } from './elizaMessages.service.js';
 
 const prisma = new PrismaClient();
 
@@ -20,15 +24,47 @@ interface SendMessageParams {
 const CONFIG = {
   CONTEXT_MESSAGE_LIMIT: 10,       // Number of messages to include in context summary
   CONTEXT_CHAR_LIMIT: 200,         // Max characters per message in summary
-  POLL_MAX_ATTEMPTS: 25,           // Max polling attempts for agent response (25 seconds total)
-  POLL_INTERVAL_MS: 1000,          // Polling interval in milliseconds
-  RECENT_MESSAGE_THRESHOLD_MS: 5000, // Threshold for "recent" messages
 } as const;
 
 class AgentService {
   private elizaOsUrl = process.env.ELIZAOS_URL;
   private elizaOsServerId = process.env.ELIZAOS_SERVER_ID;
 
+  /**
+   * Issue a backend token for an agent, scoped to the agent and its owner
+   * Agents use it to call the marketplace routes that accept agent tokens on the
+   * owner's behalf, and refresh it before it expires (see refreshAgentToken)
+   */
+  private createBackendToken(
+    elizaAgentId: string,
+    user: { id: string; hederaAccountId: string; did: string | null; didRegistered: boolean }
+  ) {
+    return generateAgentToken({
+      agentId: elizaAgentId,
+      userId: user.id,
+      hederaAccountId: user.hederaAccountId,
+      did: user.did || undefined,
+      didRegistered: user.didRegistered,
+    });
+  }
+
+  /**
+   * Reissue an agent's backend token
+   * Only active agents still owned by the token's user get a new one.
+   */
+  async refreshAgentToken(elizaAgentId: string, userId: string) {
+    const agent = await prisma.agent.findFirst({
+      where: { elizaAgentId, userId, status: 'active' },
+      include: { user: true },
+    });
+
+    if (!agent) {
+      throw new Error('Agent not found');
+    }
+
+    return this.createBackendToken(elizaAgentId, agent.user);
+  }
+
   /**
    * Create a new agent for a user
    * Note: ElizaOS runs as a separate service on port 3333
@@ -54,12 +90,18 @@ class AgentService {
       throw new Error('User does not have a DID. Please create a DID first.');
     }
 
-    // Step 1: Create agent instance in ElizaOS (this generates the agentId)
+    // Step 1: Create agent instance in ElizaOS
+    // The agentId is chosen here so its backend token can be scoped to it
     console.log(`🔨 Creating ${type === 'give' ? 'Seller' : 'Buyer'} agent in ElizaOS...`);
+    const newElizaAgentId = crypto.randomUUID();
     const elizaResponse = await fetch(`${this.elizaOsUrl}/internal/agents/create`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ type }),
+      body: JSON.stringify({
+        type,
+        elizaAgentId: newElizaAgentId,
+        backendToken: this.createBackendToken(newElizaAgentId, user),
+      }),
     });
 
     if (!elizaResponse.ok) {
@@ -157,6 +199,8 @@ class AgentService {
 
   /**
    * Send message to ElizaOS agent via HTTP
+   * Reply parts are pushed to the agent's `channel:` room as they arrive (see
+   * elizaMessages); the concatenated reply is also returned for HTTP callers.
    */
   async sendMessage(params: SendMessageParams) {
     const { agentId, message, userId } = params;
@@ -180,6 +224,7 @@ class AgentService {
     }
 
     // Send message to ElizaOS via messaging API
+    let expectedReply: ExpectedReply | undefined;
     try {
       // Save user message to database
       await prisma.message.create({
@@ -202,12 +247,16 @@ class AgentService {
         }
       }
 
+      // Listen for the reply before submitting so no part is missed
+      expectedReply = elizaMessages.expectReply(agent.channelId, agentId);
+
       const messagePayload = {
         channel_id: agent.channelId,
         server_id: this.elizaOsServerId,
         author_id: userId,
         content: messageWithContext,
-        source_type: 'api',
+        // ElizaOS only broadcasts action progress (used to detect reply completion) for client_chat
+        source_type: 'client_chat',
         raw_message: {
           text: message, // Original message for display
           agentId: agentId,
@@ -235,203 +284,29 @@ class AgentService {
       // ElizaOS returns id directly in data, not nested in message
       const userMessageId = submitResult.data?.id || submitResult.data?.message?.id;
       console.log(`🔑 Extracted userMessageId: ${userMessageId}`);
-
-      // Wait for agent response (poll for new messages)
-      const agentResponse = await this.waitForAgentResponse(agent.channelId, userMessageId);
-
-      // Save agent response to database
-      if (agentResponse) {
-        await prisma.message.create({
-          data: {
-            agentId,
-            role: 'agent',
-            content: agentResponse,
-          },
-        });
+      if (userMessageId) {
+        expectedReply.replyTo(userMessageId);
       }
 
+      // Reply parts are relayed and saved by elizaMessages as they arrive
+      const parts = await expectedReply.parts;
+      const agentResponse = parts
+        .filter(part => !part.partial)
+        .map(part => part.content)
+        .join('\n\n');
+
       return {
         message: agentResponse || 'Agent is processing your message...',
         agentId,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
+      expectedReply?.cancel();
       console.error(`Failed to communicate with ElizaOS at ${this.elizaOsUrl}:`, error);
       throw new Error('Failed to send message to ElizaOS');
     }
   }
 
-  /**
-   * Wait for agent response by polling channel messages
-   * TODO: Replace HTTP polling with WebSocket/Socket.IO for real-time agent responses
-   */
-  private async waitForAgentResponse(channelId: string, afterMessageId?: string): Promise<string | null> {
-    const collectedResponses: Array<{ id: string; content: string; createdAt: string }> = [];
-    const seenMessageIds = new Set<string>();
-    let firstResponseTime = 0;
-    const ADDITIONAL_WAIT_MS = 3000; // Wait 3 seconds after first response for additional messages
-    const URL_PATTERNS = ['/listing/', '/buy-request/', '/negotiation/']; // Completion indicators
-
-    console.log(`⏳ Waiting for agent response in channel ${channelId}, after message ${afterMessageId}`);
-
-    for (let attempt = 0; attempt < CONFIG.POLL_MAX_ATTEMPTS; attempt++) {
-      try {
-        // Get recent messages from channel
-        const messagesResponse = await fetch(
-          `${this.elizaOsUrl}/api/messaging/central-channels/${channelId}/messages?limit=10`,
-          {
-            method: 'GET',
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
-
-        if (messagesResponse.ok) {
-          const messagesData = await messagesResponse.json() as {
-            data?: {
-              messages?: Array<{
-                id: string;
-                sourceType: string;
-                content?: string;
-                rawMessage?: { text: string };
-                createdAt: string;
-              }>
-            }
-          };
-          const messages = messagesData.data?.messages || [];
-
-          console.log(`📋 Polling attempt ${attempt + 1}/${CONFIG.POLL_MAX_ATTEMPTS}, found ${messages.length} messages`);
-
-          // Find user message timestamp
-          const userMessage = messages.find(msg => msg.id === afterMessageId);
-          const userMessageTime = userMessage ? new Date(userMessage.createdAt).getTime() : 0;
-
-          if (userMessage) {
-            console.log(`✅ Found user message: ${afterMessageId}`);
-          }
-
-          // Find agent responses that came after our user message (by timestamp)
-          for (const msg of messages) {
-            if (msg.sourceType === 'agent_response' && !seenMessageIds.has(msg.id)) {
-              const msgTime = new Date(msg.createdAt).getTime();
-
-              // Only include responses newer than user message
-              if (afterMessageId && userMessageTime > 0 && msgTime <= userMessageTime) {
-                continue;
-              }
-
-              const content = msg.content || msg.rawMessage?.text;
-              if (content) {
-                console.log(`✅ Found agent response: ${msg.id}, content: ${content.substring(0, 50)}...`);
-                collectedResponses.push({
-                  id: msg.id,
-                  content,
-                  createdAt: msg.createdAt
-                });
-                seenMessageIds.add(msg.id);
-                if (firstResponseTime === 0) {
-                  firstResponseTime = Date.now();
-                }
-              }
-            }
-          }
-
-          // If we didn't find afterMessageId, look for any recent agent_response
-          if (!afterMessageId) {
-            for (const msg of messages) {
-              if (msg.sourceType === 'agent_response' && !seenMessageIds.has(msg.id)) {
-                const messageAge = Date.now() - new Date(msg.createdAt).getTime();
-                if (messageAge < CONFIG.RECENT_MESSAGE_THRESHOLD_MS) {
-                  const content = msg.content || msg.rawMessage?.text;
-                  if (content) {
-                    console.log(`✅ Found recent agent response: ${msg.id}`);
-                    collectedResponses.push({
-                      id: msg.id,
-                      content,
-                      createdAt: msg.createdAt
-                    });
-                    seenMessageIds.add(msg.id);
-                    if (firstResponseTime === 0) {
-                      firstResponseTime = Date.now();
-                    }
-                  }
-                }
-              }
-            }
-          }
-
-          // If we have responses, check for completion or wait for additional messages
-          if (collectedResponses.length > 0 && firstResponseTime > 0) {
-            // Check if any response contains a completion indicator (URL)
-            const hasCompletionUrl = collectedResponses.some(r =>
-              URL_PATTERNS.some(pattern => r.content.includes(pattern))
-            );
-
-            // Check if responses indicate an action is being processed (need to wait for URL)
-            // Only match specific action phrases, not general words
-            const ACTION_PHRASES = [
-              '作成しました',
-              '出品しました',
-              'posted!',
-              'created!',
-              'Buy request posted',
-              'Listing posted'
-            ];
-            const isWaitingForAction = !hasCompletionUrl && collectedResponses.some(r =>
-              ACTION_PHRASES.some(phrase => r.content.includes(phrase))
-            );
-
-            const timeSinceFirstResponse = Date.now() - firstResponseTime;
-
-            // Return conditions:
-            // 1. Found a completion URL - return immediately
-            // 2. Not waiting for action and ADDITIONAL_WAIT_MS passed - return (simple conversation)
-            // 3. Waiting for action - keep polling (don't return early)
-            if (hasCompletionUrl) {
-              collectedResponses.sort((a, b) =>
-                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-              );
-              const concatenated = collectedResponses.map(r => r.content).join('\n\n');
-              console.log(`✅ Returning ${collectedResponses.length} concatenated response(s) (found completion URL)`);
-              return concatenated;
-            }
-
-            if (!isWaitingForAction && timeSinceFirstResponse >= ADDITIONAL_WAIT_MS) {
-              collectedResponses.sort((a, b) =>
-                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-              );
-              const concatenated = collectedResponses.map(r => r.content).join('\n\n');
-              console.log(`✅ Returning ${collectedResponses.length} concatenated response(s) (simple conversation)`);
-              return concatenated;
-            }
-
-            // If waiting for action but no URL yet, continue polling
-            if (isWaitingForAction) {
-              console.log(`⏳ Waiting for action completion URL...`);
-            }
-          }
-        }
-
-        // Wait before next attempt
-        await new Promise(resolve => setTimeout(resolve, CONFIG.POLL_INTERVAL_MS));
-      } catch (error) {
-        console.error('Error polling for agent response:', error);
-      }
-    }
-
-    // Return whatever we collected if we hit timeout
-    if (collectedResponses.length > 0) {
-      collectedResponses.sort((a, b) =>
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      );
-      const concatenated = collectedResponses.map(r => r.content).join('\n\n');
-      console.log(`⏰ Timeout reached, returning ${collectedResponses.length} collected response(s)`);
-      return concatenated;
-    }
-
-    console.log(`❌ Timeout waiting for agent response in channel ${channelId}`);
-    return null; // Timeout
-  }
-
   /**
    * Get all agents for a user
    */
@@ -545,6 +420,7 @@ class AgentService {
     // Get all active agents from database
     const agents = await prisma.agent.findMany({
       where: { status: 'active' },
+      include: { user: true },
     });
 
     if (agents.length === 0) {
@@ -558,12 +434,14 @@ class AgentService {
       try {
         // Create agent in ElizaOS with existing elizaAgentId if available
         // This allows ElizaOS to restore the agent's memory and conversation history
+        const requestedAgentId = agent.elizaAgentId ?? crypto.randomUUID();
         const elizaResponse = await fetch(`${this.elizaOsUrl}/internal/agents/create`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             type: agent.type,
-            elizaAgentId: agent.elizaAgentId,  // Pass existing ID for restoration
+            elizaAgentId: requestedAgentId,  // Existing ID for restoration
+            backendToken: this.createBackendToken(requestedAgentId, agent.user),
           }),
         });
 
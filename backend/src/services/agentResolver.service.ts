@@ -0,0 +1,235 @@
+/**
+ * Agent Resolver Service
+ * Resolves an ERC-8004 tokenURI to the agent's registration file, Agent Card
+ * and A2A messaging endpoint.
+ * - ipfs:// content is fetched as a raw block from IPFS_GATEWAYS in order and
+ *   checked against its CID, so any gateway can serve it
+ * - Registration files and Agent Cards are kept in a local content-addressed
+ *   cache for AGENT_RESOLVER_CACHE_TTL_MS (stale copies are used if a refresh fails)
+ * - A2A_INTERNAL_ROUTES maps public endpoint prefixes to the URLs the backend
+ *   reaches them on (e.g. ElizaOS directly instead of through our own proxy)
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { verifyCidBlock } from "../utils/cid";
+
+const DEFAULT_IPFS_GATEWAYS = ["https://ipfs.io/ipfs/", "https://dweb.link/ipfs/", "https://gateway.pinata.cloud/ipfs/"];
+const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+const IPFS_GATEWAYS = (process.env.IPFS_GATEWAYS?.split(",") ?? DEFAULT_IPFS_GATEWAYS)
+  .map((gateway) => gateway.trim())
+  .filter(Boolean)
+  .map((gateway) => (gateway.endsWith("/") ? gateway : `${gateway}/`));
+const CACHE_DIR = process.env.AGENT_RESOLVER_CACHE_DIR || path.join(process.cwd(), ".cache", "agent-resolver");
+const CACHE_TTL_MS = Number(process.env.AGENT_RESOLVER_CACHE_TTL_MS) || DEFAULT_CACHE_TTL_MS;
+const INTERNAL_ROUTES = parseInternalRoutes(process.env.A2A_INTERNAL_ROUTES);
+
+export interface ResolvedAgent {
+  registration: any;
+  agentCard: any;
+  agentCardUrl: string;
+  a2aEndpoint: string;
+  a2aVersion: string;
+}
+
+interface CacheEntry {
+  sha256: string;
+  fetchedAt: number;
+}
+
+// Cache key (ipfs:<cid> or URL) -> content hash; contents live in CACHE_DIR/objects/<sha256>
+let cacheIndex: Record<string, CacheEntry> | null = null;
+let indexWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Parse A2A_INTERNAL_ROUTES: a JSON object of public URL prefix -> internal URL prefix
+ * Longest prefixes are tried first.
+ */
+function parseInternalRoutes(raw: string | undefined): Array<[string, string]> {
+  if (!raw) {
+    return [];
+  }
+
+  let routes: unknown;
+  try {
+    routes = JSON.parse(raw);
+  } catch {
+    throw new Error("A2A_INTERNAL_ROUTES must be a JSON object of URL prefixes");
+  }
+  if (!routes || typeof routes !== "object" || Array.isArray(routes)) {
+    throw new Error("A2A_INTERNAL_ROUTES must be a JSON object of URL prefixes");
+  }
+
+  const entries = Object.entries(routes as Record<string, unknown>);
+  if (entries.some(([, to]) => typeof to !== "string")) {
+    throw new Error("A2A_INTERNAL_ROUTES values must be URL prefixes");
+  }
+
+  return (entries as Array<[string, string]>).sort(([a], [b]) => b.length - a.length);
+}
+
+/**
+ * URL the backend should use for an agent's public endpoint
+ */
+function routeInternally(url: string): string {
+  const route = INTERNAL_ROUTES.find(([from]) => url.startsWith(from));
+  return route ? route[1] + url.slice(route[0].length) : url;
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+async function loadIndex(): Promise<Record<string, CacheEntry>> {
+  if (!cacheIndex) {
+    try {
+      cacheIndex = JSON.parse(await fs.readFile(path.join(CACHE_DIR, "index.json"), "utf-8"));
+    } catch {
+      cacheIndex = {};
+    }
+  }
+  return cacheIndex!;
+}
+
+/**
+ * Cached content for a key, if its object is still intact
+ */
+async function readCache(key: string): Promise<{ content: Buffer; fresh: boolean } | null> {
+  const entry = (await loadIndex())[key];
+  if (!entry) {
+    return null;
+  }
+
+  try {
+    const content = await fs.readFile(path.join(CACHE_DIR, "objects", entry.sha256));
+    if (sha256(content) !== entry.sha256) {
+      console.warn(`⚠️ Discarding corrupt cache entry for ${key}`);
+      return null;
+    }
+    return { content, fresh: Date.now() - entry.fetchedAt < CACHE_TTL_MS };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(key: string, content: Buffer): Promise<void> {
+  const hash = sha256(content);
+  const index = await loadIndex();
+
+  await fs.mkdir(path.join(CACHE_DIR, "objects"), { recursive: true });
+  await fs.writeFile(path.join(CACHE_DIR, "objects", hash), content);
+  index[key] = { sha256: hash, fetchedAt: Date.now() };
+
+  // Serialize index writes so concurrent resolutions don't interleave
+  indexWrite = indexWrite
+    .then(() => fs.writeFile(path.join(CACHE_DIR, "index.json"), JSON.stringify(index)))
+    .catch((error) => console.error("Error writing agent resolver cache index:", error));
+  await indexWrite;
+}
+
+/**
+ * Content for a key from the cache, refreshed through fetchContent once it expires
+ * A stale copy is returned (with a warning) if the refresh fails.
+ */
+async function fetchCached(key: string, fetchContent: () => Promise<Buffer>): Promise<Buffer> {
+  const cached = await readCache(key);
+  if (cached?.fresh) {
+    return cached.content;
+  }
+
+  try {
+    const content = await fetchContent();
+    await writeCache(key, content);
+    return content;
+  } catch (error: any) {
+    if (!cached) {
+      throw error;
+    }
+    console.warn(`⚠️ Using stale cached copy of ${key}: ${error.message}`);
+    return cached.content;
+  }
+}
+
+async function fetchBuffer(url: string, headers?: Record<string, string>): Promise<Buffer> {
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Fetch IPFS content from the first gateway that serves a block matching the CID
+ */
+async function fetchFromIpfs(cid: string): Promise<Buffer> {
+  const failures: string[] = [];
+
+  for (const gateway of IPFS_GATEWAYS) {
+    try {
+      const block = await fetchBuffer(`${gateway}${cid}?format=raw`, { Accept: "application/vnd.ipld.raw" });
+      return verifyCidBlock(cid, block);
+    } catch (error: any) {
+      console.warn(`⚠️ IPFS gateway ${gateway} failed for ${cid}: ${error.message}`);
+      failures.push(`${gateway}: ${error.message}`);
+    }
+  }
+
+  throw new Error(`No IPFS gateway served ${cid} (${failures.join("; ")})`);
+}
+
+/**
+ * Fetch the registration file a tokenURI points to
+ */
+async function fetchRegistration(tokenURI: string): Promise<any> {
+  let content: Buffer;
+
+  if (tokenURI.startsWith("ipfs://")) {
+    const cid = tokenURI.slice("ipfs://".length).replace(/^ipfs\//, "");
+    if (cid.includes("/")) {
+      throw new Error(`IPFS paths are not supported in tokenURI: ${tokenURI}`);
+    }
+    content = await fetchCached(`ipfs:${cid}`, () => fetchFromIpfs(cid));
+  } else if (/^https?:\/\//.test(tokenURI)) {
+    content = await fetchCached(tokenURI, () => fetchBuffer(tokenURI));
+  } else {
+    throw new Error(`Unsupported tokenURI scheme: ${tokenURI.substring(0, 40)}`);
+  }
+
+  return JSON.parse(content.toString("utf-8"));
+}
+
+/**
+ * Resolve an agent's registration file, Agent Card and A2A messaging endpoint
+ */
+export async function resolveAgent(agentId: number, tokenURI: string): Promise<ResolvedAgent> {
+  const registration = await fetchRegistration(tokenURI);
+
+  // Find A2A endpoint in endpoints array (this is the Agent Card URL)
+  const agentCardEntry = registration.endpoints?.find(
+    (ep: { name: string; endpoint: string }) => ep.name === "a2a"
+  );
+  if (!agentCardEntry) {
+    throw new Error(`No A2A agent card URL found for agent ${agentId}`);
+  }
+
+  const agentCardUrl: string = agentCardEntry.endpoint;
+  const agentCard = JSON.parse(
+    (await fetchCached(agentCardUrl, () => fetchBuffer(agentCardUrl))).toString("utf-8")
+  );
+
+  // In A2A v0.3.0, the messaging endpoint is in the "url" field
+  if (!agentCard.url) {
+    throw new Error(`No url (messaging endpoint) found in agent card for agent ${agentId}`);
+  }
+
+  return {
+    registration,
+    agentCard,
+    agentCardUrl,
+    a2aEndpoint: routeInternally(agentCard.url),
+    a2aVersion: agentCardEntry.version || "unknown",
+  };
+}
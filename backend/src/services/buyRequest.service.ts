@@ -6,8 +6,32 @@
 import { PrismaClient } from "@prisma/client";
 import { getListings, getAgentA2AEndpoint } from "./marketplace.service";
 import { semanticSearch } from "./semanticSearch.service";
-import { sendNegotiationGreeting, sendNegotiationResponse, detectDecisionCriteria, checkMutualSatisfaction } from "./a2a.service";
+import {
+  sendNegotiationGreeting,
+  sendNegotiationResponse,
+  detectDecisionCriteria,
+  checkMutualSatisfaction,
+  getMessageText,
+  getMessageOffer,
+  NegotiationOffer,
+} from "./a2a.service";
 import { sendMessage } from "./negotiation.service";
+import { getPushNotificationConfig } from "./a2aPush.service";
+import { settleNegotiation } from "./settlement.service";
+import {
+  createNegotiationStrategy,
+  phraseOffer,
+  NegotiationStrategy,
+  NegotiationStrategyParams,
+} from "./negotiationStrategy.service";
+import {
+  getRankingWeights,
+  isRated,
+  rankCandidates,
+  MatchRanking,
+  MatchRankingWeights,
+  SellerReputation,
+} from "./matchRanking.service";
 import { io } from "../socket";
 
 const prisma = new PrismaClient();
@@ -48,12 +72,144 @@ async function updateSearchProgress(
     a2aEndpoint: extra?.a2aEndpoint ?? updated.a2aEndpoint,
     searchError: extra?.searchError ?? updated.searchError,
     negotiationRoomId: extra?.negotiationRoomId ?? updated.negotiationRoomId,
+    matchScores: updated.matchScores ? (JSON.parse(updated.matchScores) as MatchRanking) : null,
   });
 }
 
+type CandidateListing = {
+  listingId: string;
+  sellerAgentId: number;
+  title: string;
+  description: string;
+  basePrice: number;
+  expectedPrice: number;
+  status: string;
+};
+
+type RejectedCandidate = {
+  listingId: string;
+  reasons: string[];
+};
+
+type NegotiationTurn = {
+  role: 'buyer' | 'seller';
+  content: string;
+  offer?: NegotiationOffer | null;
+};
+
+/**
+ * Show an agent's reply in the negotiation room while it is being streamed
+ * The full message follows as negotiation:message once the reply completes.
+ */
+function emitTyping(roomId: string, senderAgentId: number, text: string) {
+  io.to(`negotiation:${roomId}`).emit('negotiation:typing', {
+    roomId,
+    senderAgentId,
+    text,
+  });
+}
+
+/**
+ * Latest price offered by one side of the negotiation
+ */
+function lastOfferedPrice(history: NegotiationTurn[], role: NegotiationTurn['role']): number | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    if (turn.role === role && turn.offer?.price !== undefined) {
+      return turn.offer.price;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Deterministic pre-filter applied before semantic matching
+ * Keeps OPEN listings whose [basePrice, expectedPrice] overlaps the buyer's
+ * [minPrice, maxPrice] (an expectedPrice of 0 means no upper end, as on-chain),
+ * that aren't the buyer's own, whose NegotiationRoom (if any)
+ * is still WAITING and, if the BuyRequest sets minReputation, whose seller
+ * has a reputationScore of at least that.
+ */
+async function filterCandidateListings(
+  buyRequest: { minPrice: number; maxPrice: number; minReputation?: number | null },
+  buyerAgentId: number,
+  listings: CandidateListing[],
+  reputations: Map<number, SellerReputation>
+): Promise<{ candidates: CandidateListing[]; rejected: RejectedCandidate[] }> {
+  const rooms = await prisma.negotiationRoom.findMany({
+    where: { listingId: { in: listings.map((l) => l.listingId) } },
+    select: { listingId: true, status: true },
+  });
+  const roomStatusByListing = new Map<string, string>(
+    rooms.map((room) => [room.listingId, room.status])
+  );
+
+  const candidates: CandidateListing[] = [];
+  const rejected: RejectedCandidate[] = [];
+
+  for (const listing of listings) {
+    const reasons: string[] = [];
+
+    if (listing.status !== 'OPEN') {
+      reasons.push(`listing status is ${listing.status}`);
+    }
+    if (listing.basePrice > buyRequest.maxPrice) {
+      reasons.push(`basePrice ${listing.basePrice} HBAR exceeds maxPrice ${buyRequest.maxPrice} HBAR`);
+    }
+    if (listing.expectedPrice > 0 && listing.expectedPrice < buyRequest.minPrice) {
+      reasons.push(`expectedPrice ${listing.expectedPrice} HBAR is below minPrice ${buyRequest.minPrice} HBAR`);
+    }
+    if (listing.sellerAgentId === buyerAgentId) {
+      reasons.push('listing belongs to the buyer agent');
+    }
+
+    // Listings without a room yet get one when the buyer joins
+    const roomStatus = roomStatusByListing.get(listing.listingId);
+    if (roomStatus && roomStatus !== 'WAITING') {
+      reasons.push(`negotiation room is ${roomStatus}`);
+    }
+
+    if (buyRequest.minReputation !== undefined && buyRequest.minReputation !== null) {
+      const seller = reputations.get(listing.sellerAgentId);
+      if (!isRated(seller)) {
+        reasons.push(`seller agent has no reputation yet (minReputation ${buyRequest.minReputation})`);
+      } else if (seller.reputationScore < buyRequest.minReputation) {
+        reasons.push(`seller reputation ${seller.reputationScore} is below minReputation ${buyRequest.minReputation}`);
+      }
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({ listingId: listing.listingId, reasons });
+    } else {
+      candidates.push(listing);
+    }
+  }
+
+  return { candidates, rejected };
+}
+
+/**
+ * Cached reputation of the agents selling the given listings
+ */
+async function getSellerReputations(listings: CandidateListing[]): Promise<Map<number, SellerReputation>> {
+  const agents = await prisma.agent.findMany({
+    where: { erc8004AgentId: { in: [...new Set(listings.map((l) => l.sellerAgentId))] } },
+    select: { erc8004AgentId: true, reputationScore: true, totalTransactions: true },
+  });
+
+  return new Map(
+    agents
+      .filter((agent) => agent.erc8004AgentId !== null)
+      .map((agent) => [
+        agent.erc8004AgentId as number,
+        { reputationScore: agent.reputationScore, totalTransactions: agent.totalTransactions },
+      ])
+  );
+}
+
 /**
  * Continue multi-round negotiation between buyer and seller agents
- * Uses OpenAI to generate intelligent buyer responses based on context
+ * Buyer moves come from the BuyRequest's negotiation strategy
  */
 async function continueNegotiation(params: {
   roomId: string;
@@ -75,19 +231,31 @@ async function continueNegotiation(params: {
     basePrice: number;
     expectedPrice: number;
   };
-  conversationHistory: Array<{ role: 'buyer' | 'seller'; content: string }>;
+  conversationHistory: NegotiationTurn[];
+  strategy: NegotiationStrategy;
   maxRounds?: number;
 }) {
   const MAX_ROUNDS = params.maxRounds || 25;
+  const strategy = params.strategy;
   let roundCount = 0;
   let currentHistory = [...params.conversationHistory];
 
-  console.log(`🔄 Starting multi-round negotiation (max ${MAX_ROUNDS} rounds)`);
+  console.log(`🔄 Starting multi-round negotiation (max ${MAX_ROUNDS} rounds, strategy: ${strategy.name})`);
 
   while (roundCount < MAX_ROUNDS) {
     roundCount++;
     console.log(`\n🔄 Round ${roundCount}/${MAX_ROUNDS}`);
 
+    // The room may have been cancelled while the previous round was in flight
+    const room = await prisma.negotiationRoom.findUnique({
+      where: { id: params.roomId },
+      select: { status: true },
+    });
+    if (room?.status !== 'ACTIVE') {
+      console.log(`⚠️  Room is ${room?.status}, ending negotiation`);
+      break;
+    }
+
     // Get the last message from seller
     const lastSellerMessage = currentHistory[currentHistory.length - 1];
     if (lastSellerMessage.role !== 'seller') {
@@ -96,7 +264,10 @@ async function continueNegotiation(params: {
     }
 
     // Check if seller made a decision
-    const sellerDecision = detectDecisionCriteria(lastSellerMessage.content);
+    const sellerDecision = detectDecisionCriteria(
+      lastSellerMessage.offer ?? null,
+      lastOfferedPrice(currentHistory, 'buyer')
+    );
     console.log(`   Seller decision: ${sellerDecision.decisionType}`);
 
     // If seller proposed a price, check if it satisfies both parties
@@ -149,74 +320,30 @@ async function continueNegotiation(params: {
       break;
     }
 
-    // Generate buyer response using OpenAI
+    // Buyer's next move comes from the strategy; the LLM only phrases it
     try {
+      const sellerPrice = lastOfferedPrice(currentHistory, 'seller');
+      const buyerOffer = await strategy.nextOffer({
+        round: roundCount,
+        budget: { min: params.buyRequest.minPrice, max: params.buyRequest.maxPrice },
+        listing: { basePrice: params.listing.basePrice, expectedPrice: params.listing.expectedPrice },
+        sellerPrice,
+        lastBuyerPrice: lastOfferedPrice(currentHistory, 'buyer'),
+      });
+
       const conversationContext = currentHistory
-        .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
+        .map(msg => {
+          const offer = msg.offer ? ` [${msg.offer.type}${msg.offer.price !== undefined ? ` ${msg.offer.price} HBAR` : ''}]` : '';
+          return `${msg.role.toUpperCase()}: ${msg.content}${offer}`;
+        })
         .join('\n\n');
 
-      const prompt = `You are a buyer agent negotiating to purchase an item. Here's the context:
-
-LISTING:
-- ID: ${params.listing.listingId}
-- Title: ${params.listing.title}
-- Description: ${params.listing.description}
-- Seller's asking price: ${params.listing.basePrice} HBAR
-- Seller's expected price: ${params.listing.expectedPrice} HBAR
-
-YOUR BUYER REQUEST:
-- Looking for: ${params.buyRequest.title}
-- Details: ${params.buyRequest.description}
-- Budget: ${params.buyRequest.minPrice}-${params.buyRequest.maxPrice} HBAR
-
-CONVERSATION SO FAR:
-${conversationContext}
-
-CRITICAL NEGOTIATION RULES:
-1. If the seller accepts your offer, respond with "I accept this price. Deal!" and DO NOT try to lower the price further
-2. Each price change must be at least 0.1 HBAR (no micro-adjustments like 0.01-0.02 HBAR)
-3. Make at most 2-3 counter-offers before accepting or rejecting
-4. If the seller's price is within your budget (${params.buyRequest.minPrice}-${params.buyRequest.maxPrice} HBAR), ACCEPT IT
-5. Be fair and realistic - do not keep asking for lower prices indefinitely
-
-Generate a response that:
-- Responds directly to the seller's last message
-- Makes ONE concrete price proposal or accepts the seller's offer
-- Is concise (max 80 words) and professional
-- Leads to a FINAL decision within 2-3 more exchanges
-
-Your response:`;
-
-      const openaiApiKey = process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        throw new Error('OPENAI_API_KEY not configured');
-      }
-
-      const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: process.env.OPENAI_LARGE_MODEL || 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: 'You are a professional buyer agent negotiating purchases.' },
-            { role: 'user', content: prompt },
-          ],
-          max_tokens: 300,
-          temperature: 0.7,
-        }),
+      const buyerResponse = await phraseOffer(buyerOffer, {
+        listingTitle: params.listing.title,
+        conversation: conversationContext,
       });
 
-      if (!openaiResponse.ok) {
-        const errorText = await openaiResponse.text();
-        throw new Error(`OpenAI API error: ${openaiResponse.status} ${errorText}`);
-      }
-
-      const openaiData = await openaiResponse.json() as any;
-      const buyerResponse = openaiData.choices[0].message.content.trim();
-
+      console.log(`   Buyer offer (${strategy.name}): ${buyerOffer.type}${buyerOffer.price !== undefined ? ` ${buyerOffer.price} HBAR` : ''}`);
       console.log(`   Buyer generated response: ${buyerResponse.substring(0, 100)}...`);
 
       // Log buyer message to negotiation room FIRST
@@ -224,15 +351,17 @@ Your response:`;
         roomId: params.roomId,
         senderAgentId: params.buyerAgentId,
         content: buyerResponse,
-        messageType: 'negotiation',
+        messageType: buyerOffer.type,
         metadata: {
           roundNumber: roundCount,
-          source: 'ai-generated',
+          source: 'strategy',
+          strategy: strategy.name,
+          offer: buyerOffer,
         },
       });
 
       // Check if buyer's response indicates acceptance/decision BEFORE sending to seller
-      const buyerDecision = detectDecisionCriteria(buyerResponse);
+      const buyerDecision = detectDecisionCriteria(buyerOffer, sellerPrice);
 
       // If buyer said "Deal!" or accepted the price, end negotiation immediately
       if (buyerDecision.hasDecision && (buyerDecision.decisionType === 'accepted' || buyerDecision.decisionType === 'price_agreed')) {
@@ -285,33 +414,47 @@ Your response:`;
         negotiationContext: {
           listingId: params.listing.listingId,
           listingTitle: params.listing.title,
-          currentPrice: params.listing.basePrice,
+          currentPrice: sellerPrice ?? params.listing.basePrice,
           budget: { min: params.buyRequest.minPrice, max: params.buyRequest.maxPrice },
+          roundNumber: roundCount,
         },
+        offer: buyerOffer,
+        negotiationRoomId: params.roomId,
         messageId: `round-${roundCount}-buyer-${params.buyRequest.id}`,
+        onText: (text) => emitTyping(params.roomId, params.sellerAgentId, text),
+        pushNotification: getPushNotificationConfig(params.roomId, params.sellerAgentId),
       });
 
-      // Log seller response to negotiation room
-      const sellerResponseText = a2aResponse.result.parts[0]?.text;
+      if (a2aResponse.task?.state === 'canceled') {
+        console.log(`🚫 Seller task ${a2aResponse.task.id} was canceled, ending negotiation`);
+        break;
+      }
+
+      // Log seller response to negotiation room (a pushed reply is already logged)
+      const sellerResponseText = getMessageText(a2aResponse.message.parts);
+      const sellerOffer = getMessageOffer(a2aResponse.message.parts);
       if (sellerResponseText) {
-        await sendMessage({
-          roomId: params.roomId,
-          senderAgentId: params.sellerAgentId,
-          content: sellerResponseText,
-          messageType: 'negotiation',
-          metadata: {
-            a2aMessageId: a2aResponse.result.messageId,
-            roundNumber: roundCount,
-            source: 'a2a-response',
-          },
-        });
+        if (!a2aResponse.pushed) {
+          await sendMessage({
+            roomId: params.roomId,
+            senderAgentId: params.sellerAgentId,
+            content: sellerResponseText,
+            messageType: sellerOffer?.type ?? 'negotiation',
+            metadata: {
+              a2aMessageId: a2aResponse.message.messageId,
+              roundNumber: roundCount,
+              source: 'a2a-response',
+              ...(sellerOffer ? { offer: sellerOffer } : {}),
+            },
+          });
+        }
 
         // Add to conversation history
-        currentHistory.push({ role: 'buyer', content: buyerResponse });
-        currentHistory.push({ role: 'seller', content: sellerResponseText });
+        currentHistory.push({ role: 'buyer', content: buyerResponse, offer: buyerOffer });
+        currentHistory.push({ role: 'seller', content: sellerResponseText, offer: sellerOffer });
 
         // Check if seller's response indicates acceptance/decision
-        const sellerDecision = detectDecisionCriteria(sellerResponseText);
+        const sellerDecision = detectDecisionCriteria(sellerOffer, buyerOffer.price);
 
         // If seller accepted the price, end negotiation immediately
         if (sellerDecision.hasDecision && (sellerDecision.decisionType === 'accepted' || sellerDecision.decisionType === 'price_agreed')) {
@@ -388,6 +531,14 @@ Your response:`;
   }
 
   console.log(`✅ Negotiation completed after ${roundCount} rounds`);
+
+  // Put the agreed deal on-chain (inquiry at agreedPrice + seller reservation)
+  const concludedRoom = await prisma.negotiationRoom.findUnique({ where: { id: params.roomId } });
+  if (concludedRoom?.status === 'COMPLETED' && concludedRoom.agreedPrice !== null) {
+    settleNegotiation(params.roomId).catch((error) => {
+      console.error(`❌ Failed to settle negotiation ${params.roomId}:`, error);
+    });
+  }
 }
 
 /**
@@ -396,8 +547,16 @@ Your response:`;
  */
 async function processAutoSearch(
   buyRequestId: string,
-  buyRequest: { title: string; description: string; minPrice: number; maxPrice: number },
-  buyerAgentId: number
+  buyRequest: {
+    title: string;
+    description: string;
+    minPrice: number;
+    maxPrice: number;
+    minReputation?: number | null;
+  },
+  buyerAgentId: number,
+  strategy: NegotiationStrategy,
+  rankingWeights: MatchRankingWeights
 ) {
   try {
     // Step 1: Get all open listings
@@ -412,33 +571,77 @@ async function processAutoSearch(
       return;
     }
 
-    // Step 2: Use AI to find semantically matching listings
-    const matches = await semanticSearch.findMatchingListings(buyRequest, allListings);
+    // Step 2: Drop listings that can't be negotiated before any semantic matching
+    const reputations = await getSellerReputations(allListings);
+    const { candidates, rejected } = await filterCandidateListings(buyRequest, buyerAgentId, allListings, reputations);
+
+    await prisma.buyRequest.update({
+      where: { id: buyRequestId },
+      data: { rejectedCandidates: JSON.stringify(rejected) },
+    });
+    console.log(`🧹 Pre-filter kept ${candidates.length}/${allListings.length} listings for BuyRequest ${buyRequestId}`);
+
+    if (candidates.length === 0) {
+      await updateSearchProgress(buyRequestId, 'no_results', 'No listings within budget found');
+      return;
+    }
+
+    // Step 3: Use AI to find semantically matching listings
+    const matches = await semanticSearch.findMatchingListings(buyRequest, candidates);
 
     if (matches.length === 0) {
       await updateSearchProgress(buyRequestId, 'no_results', 'No matching listings found');
       return;
     }
 
-    // Get the best match (highest score)
-    const bestMatchResult = matches.sort((a, b) => b.score - a.score)[0];
-    const affordableListings = allListings.filter(
-      (l: any) => l.listingId === bestMatchResult.listingId
+    // Step 4: Rank matches by semantic score, price fit and seller reputation
+    const candidatesById = new Map(candidates.map((l) => [l.listingId, l]));
+    const ranked = rankCandidates(
+      buyRequest,
+      matches
+        .sort((a, b) => b.score - a.score)
+        .filter((match) => candidatesById.has(match.listingId))
+        .map((match) => {
+          const listing = candidatesById.get(match.listingId)!;
+          return {
+            listingId: listing.listingId,
+            sellerAgentId: listing.sellerAgentId,
+            basePrice: listing.basePrice,
+            expectedPrice: listing.expectedPrice,
+            semanticScore: match.score,
+            reason: match.reason,
+          };
+        }),
+      reputations,
+      rankingWeights
     );
 
-    if (affordableListings.length === 0) {
+    if (ranked.length === 0) {
       await updateSearchProgress(buyRequestId, 'no_results', 'No listings within budget found');
       return;
     }
 
+    const ranking: MatchRanking = { weights: rankingWeights, candidates: ranked };
+    await prisma.buyRequest.update({
+      where: { id: buyRequestId },
+      data: { matchScores: JSON.stringify(ranking) },
+    });
+
+    const bestRanked = ranked[0];
+    console.log(
+      `🏆 Listing #${bestRanked.listingId} ranked first for BuyRequest ${buyRequestId} ` +
+      `(total ${bestRanked.total}: semantic ${bestRanked.semantic}, price ${bestRanked.priceFit}, ` +
+      `reputation ${bestRanked.reputation}, experience ${bestRanked.experience})`
+    );
+
     await updateSearchProgress(
       buyRequestId,
       'found',
-      `Found ${matches.length} matching listing(s) - Best: ${bestMatchResult.reason}`
+      `Found ${matches.length} matching listing(s) - Best: ${bestRanked.reason}`
     );
 
     // Step 2: Select best match and verify on-chain
-    const bestMatch = affordableListings[0];
+    const bestMatch = candidatesById.get(bestRanked.listingId)!;
     await updateSearchProgress(
       buyRequestId,
       'verifying',
@@ -490,15 +693,18 @@ async function processAutoSearch(
     );
 
     // Step 4: Join negotiation room
-    // Find the NegotiationRoom for this listing
-    const room = await prisma.negotiationRoom.findUnique({
+    // Find the NegotiationRoom for this listing, creating it if the listing never got one
+    const room = await prisma.negotiationRoom.upsert({
       where: { listingId: bestMatch.listingId },
+      create: {
+        listingId: bestMatch.listingId,
+        sellerAgentId: bestMatch.sellerAgentId,
+        sellerA2AEndpoint: a2aInfo.a2aEndpoint,
+        status: 'WAITING',
+      },
+      update: {},
     });
 
-    if (!room) {
-      throw new Error(`NegotiationRoom not found for listing ${bestMatch.listingId}`);
-    }
-
     // Get buyer's A2A endpoint
     const buyerA2AInfo = await getAgentA2AEndpoint(buyerAgentId);
 
@@ -538,20 +744,7 @@ async function processAutoSearch(
         expectedPrice: bestMatch.expectedPrice,
       };
 
-      const a2aResponse = await sendNegotiationGreeting({
-        sellerA2AEndpoint: a2aInfo.a2aEndpoint,
-        buyRequest: {
-          id: buyRequestId,
-          title: buyRequest.title,
-          description: buyRequest.description,
-          minPrice: buyRequest.minPrice,
-          maxPrice: buyRequest.maxPrice,
-        },
-        listing: listingContext,
-        negotiationRoomId: room.id,
-      });
-
-      // Log buyer's greeting message to negotiation room
+      // Log buyer's greeting message to negotiation room (before the seller's reply, which may be pushed)
       const greetingText = `Hello! I'm interested in your listing #${bestMatch.listingId} (${bestMatch.title}).
 
 I'm looking for "${buyRequest.title}" and your listing seems like a good match. My budget is ${buyRequest.minPrice}-${buyRequest.maxPrice} HBAR.
@@ -569,19 +762,43 @@ Your asking price is ${bestMatch.basePrice} HBAR. Can we negotiate a price that
         },
       });
 
-      // Log seller's response to negotiation room
-      const sellerResponseText = a2aResponse.result.parts[0]?.text;
+      const a2aResponse = await sendNegotiationGreeting({
+        sellerA2AEndpoint: a2aInfo.a2aEndpoint,
+        buyRequest: {
+          id: buyRequestId,
+          title: buyRequest.title,
+          description: buyRequest.description,
+          minPrice: buyRequest.minPrice,
+          maxPrice: buyRequest.maxPrice,
+        },
+        listing: listingContext,
+        negotiationRoomId: room.id,
+        onText: (text) => emitTyping(room.id, bestMatch.sellerAgentId, text),
+        pushNotification: getPushNotificationConfig(room.id, bestMatch.sellerAgentId),
+      });
+
+      if (a2aResponse.task?.state === 'canceled') {
+        console.log(`🚫 Greeting task ${a2aResponse.task.id} was canceled, not starting negotiation`);
+        return;
+      }
+
+      // Log seller's response to negotiation room (a pushed reply is already logged)
+      const sellerResponseText = getMessageText(a2aResponse.message.parts);
+      const sellerOffer = getMessageOffer(a2aResponse.message.parts);
       if (sellerResponseText) {
-        await sendMessage({
-          roomId: room.id,
-          senderAgentId: bestMatch.sellerAgentId,
-          content: sellerResponseText,
-          messageType: 'response',
-          metadata: {
-            a2aMessageId: a2aResponse.result.messageId,
-            source: 'a2a-response',
-          },
-        });
+        if (!a2aResponse.pushed) {
+          await sendMessage({
+            roomId: room.id,
+            senderAgentId: bestMatch.sellerAgentId,
+            content: sellerResponseText,
+            messageType: sellerOffer?.type ?? 'response',
+            metadata: {
+              a2aMessageId: a2aResponse.message.messageId,
+              source: 'a2a-response',
+              ...(sellerOffer ? { offer: sellerOffer } : {}),
+            },
+          });
+        }
 
         console.log(`✅ Initial greeting exchanged, starting multi-round negotiation`);
 
@@ -602,8 +819,9 @@ Your asking price is ${bestMatch.basePrice} HBAR. Can we negotiate a price that
           listing: listingContext,
           conversationHistory: [
             { role: 'buyer', content: greetingText },
-            { role: 'seller', content: sellerResponseText },
+            { role: 'seller', content: sellerResponseText, offer: sellerOffer },
           ],
+          strategy,
           maxRounds: 25,
         });
 
@@ -666,8 +884,16 @@ export async function createBuyRequest(params: {
   minPrice: number; // in HBAR
   maxPrice: number; // in HBAR
   category?: string;
+  negotiationStrategy?: string;
+  strategyParams?: NegotiationStrategyParams;
+  minReputation?: number;
+  rankingWeights?: Partial<MatchRankingWeights>;
 }) {
   try {
+    // Fail fast on an unknown strategy name or invalid ranking weights
+    const strategy = createNegotiationStrategy(params.negotiationStrategy, params.strategyParams);
+    const rankingWeights = getRankingWeights(params.rankingWeights);
+
     const buyRequest = await prisma.buyRequest.create({
       data: {
         buyerAgentId: Number(params.buyerAgentId),
@@ -676,6 +902,10 @@ export async function createBuyRequest(params: {
         minPrice: params.minPrice,
         maxPrice: params.maxPrice,
         category: params.category || null,
+        negotiationStrategy: strategy.name,
+        strategyParams: params.strategyParams ? JSON.stringify(params.strategyParams) : null,
+        minReputation: params.minReputation ?? null,
+        rankingWeights: params.rankingWeights ? JSON.stringify(params.rankingWeights) : null,
         status: "OPEN",
         searchStep: "idle",
         searchMessage: "Waiting to start...",
@@ -691,8 +921,11 @@ export async function createBuyRequest(params: {
         description: params.description,
         minPrice: params.minPrice,
         maxPrice: params.maxPrice,
+        minReputation: params.minReputation,
       },
-      Number(params.buyerAgentId)
+      Number(params.buyerAgentId),
+      strategy,
+      rankingWeights
     ).catch(err => {
       console.error('Auto search process error:', err);
     });
@@ -703,6 +936,8 @@ export async function createBuyRequest(params: {
       title: buyRequest.title,
       minPrice: buyRequest.minPrice,
       maxPrice: buyRequest.maxPrice,
+      negotiationStrategy: buyRequest.negotiationStrategy,
+      minReputation: buyRequest.minReputation,
     };
   } catch (error) {
     console.error("Error creating buy request:", error);
@@ -734,6 +969,8 @@ export async function getBuyRequest(buyRequestId: string) {
       maxPrice: buyRequest.maxPrice,
       category: buyRequest.category,
       status: buyRequest.status,
+      negotiationStrategy: buyRequest.negotiationStrategy,
+      minReputation: buyRequest.minReputation,
       createdAt: buyRequest.createdAt.toISOString(),
       // Search progress fields
       searchStep: buyRequest.searchStep,
@@ -743,6 +980,12 @@ export async function getBuyRequest(buyRequestId: string) {
       a2aEndpoint: buyRequest.a2aEndpoint,
       searchError: buyRequest.searchError,
       negotiationRoomId: buyRequest.negotiationRoomId,
+      rejectedCandidates: buyRequest.rejectedCandidates
+        ? (JSON.parse(buyRequest.rejectedCandidates) as RejectedCandidate[])
+        : [],
+      matchScores: buyRequest.matchScores
+        ? (JSON.parse(buyRequest.matchScores) as MatchRanking)
+        : null,
     };
   } catch (error) {
     console.error("Error getting buy request:", error);
@@ -6,6 +6,9 @@ import {
   Client,
   Hbar,
   PrivateKey,
+  PublicKey,
+  TopicId,
+  TopicMessageSubmitTransaction,
 } from '@hashgraph/sdk';
 
 function getConfig() {
@@ -30,13 +33,7 @@ function getConfig() {
 
 let networkCache: any = null;
 
-export async function generateDID(): Promise<{
-  did: string;
-  privateKey: string;
-  publicKey: string;
-  network: string;
-  didTopicId: string;
-}> {
+function createOperatorClient() {
   const { HEDERA_NETWORK, OPERATOR_ID, OPERATOR_KEY } = getConfig();
 
   const client = HEDERA_NETWORK === 'mainnet'
@@ -44,34 +41,50 @@ export async function generateDID(): Promise<{
     : Client.forTestnet();
 
   const keyHex = OPERATOR_KEY.startsWith('0x') ? OPERATOR_KEY.slice(2) : OPERATOR_KEY;
+  const operatorKey = PrivateKey.fromStringECDSA(keyHex);
 
-  client.setOperator(
-    OPERATOR_ID,
-    PrivateKey.fromStringECDSA(keyHex)
-  );
+  client.setOperator(OPERATOR_ID, operatorKey);
 
-  const operatorKey = PrivateKey.fromStringECDSA(keyHex);
-  const operatorPublicKey = operatorKey.publicKey;
+  return { client, network: HEDERA_NETWORK, operatorPublicKey: operatorKey.publicKey };
+}
+
+/**
+ * Identity network (DID and VC topics), created on first use
+ */
+async function getIdentityNetwork(client: Client, network: string, operatorPublicKey: PublicKey) {
+  // Use cached network or create new one (about 0.01 HBAR per creation)
+  if (!networkCache) {
+    networkCache = await new HcsIdentityNetworkBuilder()
+      .setNetwork(network as 'mainnet' | 'testnet')
+      .setAppnetName('JimoMarket')
+      .setMaxTransactionFee(new Hbar(2))
+      .setDidTopicMemo('Jimo Market DID Topic')
+      .setVCTopicMemo('Jimo Market VC Topic')
+      .setPublicKey(operatorPublicKey)
+      .execute(client);
+
+    console.log('📡 Created new Identity Network');
+    console.log('   DID Topic:', networkCache.getDidTopicId().toString());
+    console.log('   VC Topic:', networkCache.getVcTopicId().toString());
+    console.log('   Address Book:', networkCache.getAddressBook().getFileId().toString());
+  }
+
+  return networkCache;
+}
+
+export async function generateDID(): Promise<{
+  did: string;
+  privateKey: string;
+  publicKey: string;
+  network: string;
+  didTopicId: string;
+}> {
+  const { client, network, operatorPublicKey } = createOperatorClient();
 
   try {
-    // Use cached network or create new one (about 0.01 HBAR per creation)
-    if (!networkCache) {
-      networkCache = await new HcsIdentityNetworkBuilder()
-        .setNetwork(HEDERA_NETWORK as 'mainnet' | 'testnet')
-        .setAppnetName('JimoMarket')
-        .setMaxTransactionFee(new Hbar(2))
-        .setDidTopicMemo('Jimo Market DID Topic')
-        .setVCTopicMemo('Jimo Market VC Topic')
-        .setPublicKey(operatorPublicKey)
-        .execute(client);
-
-      console.log('📡 Created new Identity Network');
-      console.log('   DID Topic:', networkCache.getDidTopicId().toString());
-      console.log('   VC Topic:', networkCache.getVcTopicId().toString());
-      console.log('   Address Book:', networkCache.getAddressBook().getFileId().toString());
-    }
+    const identityNetwork = await getIdentityNetwork(client, network, operatorPublicKey);
 
-    const hcsDid = networkCache.generateDid(true);
+    const hcsDid = identityNetwork.generateDid(true);
     const didRootKey = hcsDid.getPrivateDidRootKey();
 
     if (!didRootKey) {
@@ -80,7 +93,7 @@ export async function generateDID(): Promise<{
 
     const didDocument = hcsDid.generateDidDocument();
 
-    await networkCache.createDidTransaction(DidMethodOperation.CREATE)
+    await identityNetwork.createDidTransaction(DidMethodOperation.CREATE)
       .setDidDocument(didDocument.toJSON())
       .signMessage((doc: Uint8Array) => didRootKey.sign(doc))
       .buildAndSignTransaction((tx: any) => tx.setMaxTransactionFee(new Hbar(2)))
@@ -90,8 +103,42 @@ export async function generateDID(): Promise<{
       did: hcsDid.toString(),
       privateKey: didRootKey.toString(),
       publicKey: didRootKey.publicKey.toString(),
-      network: HEDERA_NETWORK,
-      didTopicId: networkCache.getDidTopicId().toString(),
+      network,
+      didTopicId: identityNetwork.getDidTopicId().toString(),
+    };
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Publish a signed verifiable credential to the VC topic
+ * VC_TOPIC_ID overrides the identity network's VC topic (which only
+ * lives as long as the process).
+ */
+export async function publishVerifiableCredential(credential: string): Promise<{
+  topicId: string;
+  sequenceNumber: number;
+  transactionId: string;
+}> {
+  const { client, network, operatorPublicKey } = createOperatorClient();
+
+  try {
+    const topicId = process.env.VC_TOPIC_ID
+      ? TopicId.fromString(process.env.VC_TOPIC_ID)
+      : (await getIdentityNetwork(client, network, operatorPublicKey)).getVcTopicId();
+
+    const txResponse = await new TopicMessageSubmitTransaction()
+      .setTopicId(topicId)
+      .setMessage(credential)
+      .setMaxTransactionFee(new Hbar(2))
+      .execute(client);
+    const receipt = await txResponse.getReceipt(client);
+
+    return {
+      topicId: topicId.toString(),
+      sequenceNumber: Number(receipt.topicSequenceNumber),
+      transactionId: txResponse.transactionId.toString(),
     };
   } finally {
     client.close();
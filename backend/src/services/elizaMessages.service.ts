@@ -0,0 +1,320 @@
+/**
+ * ElizaOS Message Subscriber
+ * Receives agent replies pushed over the ElizaOS Socket.IO message bus and
+ * relays each part to the frontend (`channel:<channelId>` room) as it arrives.
+ *
+ * ElizaOS broadcasts every message posted to a channel (`messageBroadcast`)
+ * but does not say which user message a reply answers, so replies are
+ * correlated to the oldest user message in that channel still awaiting one.
+ *
+ * Completion is decided from the action metadata ElizaOS broadcasts: replies
+ * name the actions they trigger (`actions`), and each action reports its
+ * progress as an `agent_action` message whose `actionStatus` goes from
+ * "executing" to "completed"/"failed". The action's callback replies follow
+ * its completion update, hence the quiet period before a reply is complete.
+ */
+
+import { io as connectToElizaOS, Socket } from 'socket.io-client';
+import { PrismaClient } from '@prisma/client';
+import { io } from '../socket';
+
+const prisma = new PrismaClient();
+
+// Configuration constants
+const CONFIG = {
+  REPLY_TIMEOUT_MS: 25000,  // Give up waiting for a reply after this long
+  QUIET_PERIOD_MS: 3000,    // A reply is complete after this long without further parts
+} as const;
+
+// ElizaOS SOCKET_MESSAGE_TYPE.ROOM_JOINING
+const ROOM_JOINING = 1;
+
+// Sources used by the ElizaOS message bus for agent output
+const AGENT_SOURCES = ['agent_response', 'agent_action'];
+
+// Actions that only produce the reply itself, so there is nothing to wait for
+const REPLY_ACTIONS = ['REPLY', 'NONE', 'IGNORE'];
+
+type ActionStatus = 'announced' | 'executing' | 'completed' | 'failed';
+
+interface ElizaMessageBroadcast {
+  id: string;
+  senderId: string;
+  senderName?: string;
+  text: string;
+  roomId: string;
+  serverId?: string;
+  createdAt: number;
+  source: string;
+  /** Actions named by the agent's response (raw_message.actions) */
+  actions?: string[];
+  /** Set on `agent_action` messages */
+  rawMessage?: {
+    actionId?: string;
+    actionStatus?: string;
+    actions?: string[];
+  };
+}
+
+export interface AgentReplyPart {
+  id: string;
+  content: string;
+  timestamp: string;
+  /** Action progress notification rather than a reply message */
+  partial: boolean;
+}
+
+export interface ExpectedReply {
+  parts: Promise<AgentReplyPart[]>;
+  replyTo(userMessageId: string): void;
+  cancel(): void;
+}
+
+interface PendingReply {
+  userMessageId: string | null;
+  agentId: string;
+  parts: AgentReplyPart[];
+  /** Actions the reply triggered, by name */
+  actions: Map<string, ActionStatus>;
+  quietTimer?: NodeJS.Timeout;
+  timeoutTimer: NodeJS.Timeout;
+  resolve: (parts: AgentReplyPart[]) => void;
+}
+
+class ElizaMessageSubscriber {
+  private elizaOsUrl = process.env.ELIZAOS_URL;
+  private socket: Socket | null = null;
+  private channels = new Set<string>();
+  private pending = new Map<string, PendingReply[]>();
+
+  /**
+   * Connect to the ElizaOS Socket.IO server
+   * Watched channels are re-joined on every (re)connect.
+   */
+  start() {
+    if (this.socket || !this.elizaOsUrl) {
+      return;
+    }
+
+    this.socket = connectToElizaOS(this.elizaOsUrl, {
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+    });
+
+    this.socket.on('connect', () => {
+      console.log(`🔌 Subscribed to ElizaOS message events at ${this.elizaOsUrl}`);
+      for (const channelId of this.channels) {
+        this.joinChannel(channelId);
+      }
+    });
+
+    this.socket.on('disconnect', (reason) => {
+      console.warn(`⚠️ ElizaOS message subscription disconnected: ${reason}`);
+    });
+
+    this.socket.on('messageBroadcast', (message: ElizaMessageBroadcast) => {
+      this.handleBroadcast(message).catch(error => {
+        console.error('Error handling ElizaOS message broadcast:', error);
+      });
+    });
+  }
+
+  /**
+   * Receive messages for a channel
+   */
+  watchChannel(channelId: string) {
+    if (this.channels.has(channelId)) {
+      return;
+    }
+
+    this.channels.add(channelId);
+    this.start();
+    if (this.socket?.connected) {
+      this.joinChannel(channelId);
+    }
+  }
+
+  /**
+   * Start waiting for the agent's reply in a channel
+   * Register before submitting the user message so that no part can be missed,
+   * then attach the submitted message's id with `replyTo`.
+   * `parts` resolves with every part received once the reply is complete, or
+   * with whatever arrived (possibly nothing) after CONFIG.REPLY_TIMEOUT_MS.
+   */
+  expectReply(channelId: string, agentId: string): ExpectedReply {
+    this.watchChannel(channelId);
+
+    let pending!: PendingReply;
+    const parts = new Promise<AgentReplyPart[]>(resolve => {
+      pending = {
+        userMessageId: null,
+        agentId,
+        parts: [],
+        actions: new Map(),
+        resolve,
+        timeoutTimer: setTimeout(() => {
+          console.log(`⏰ Timeout waiting for agent reply to ${pending.userMessageId}, ${pending.parts.length} part(s) received`);
+          this.complete(channelId, pending, true);
+        }, CONFIG.REPLY_TIMEOUT_MS),
+      };
+    });
+
+    const queue = this.pending.get(channelId) || [];
+    queue.push(pending);
+    this.pending.set(channelId, queue);
+
+    return {
+      parts,
+      replyTo: (userMessageId: string) => {
+        pending.userMessageId = userMessageId;
+      },
+      cancel: () => this.remove(channelId, pending),
+    };
+  }
+
+  private joinChannel(channelId: string) {
+    this.socket?.emit('message', {
+      type: ROOM_JOINING,
+      payload: { channelId },
+    });
+  }
+
+  /**
+   * Relay an agent message to the frontend, store it, and attribute it to the
+   * oldest pending user message in the channel
+   * Action status updates are only relayed when the action starts.
+   */
+  private async handleBroadcast(message: ElizaMessageBroadcast) {
+    if (!AGENT_SOURCES.includes(message.source) || !message.text) {
+      return;
+    }
+
+    const channelId = message.roomId;
+    const pending = this.pending.get(channelId)?.[0];
+    const actionStatus = message.rawMessage?.actionStatus;
+
+    if (pending) {
+      this.trackActions(pending, message);
+    }
+
+    if (actionStatus && actionStatus !== 'executing') {
+      if (pending) {
+        this.scheduleCompletion(channelId, pending);
+      }
+      return;
+    }
+
+    const part: AgentReplyPart = {
+      id: message.id,
+      content: message.text,
+      timestamp: new Date(message.createdAt || Date.now()).toISOString(),
+      partial: message.source === 'agent_action',
+    };
+
+    const agentId = pending?.agentId ?? (await prisma.agent.findFirst({
+      where: { channelId },
+      select: { id: true },
+    }))?.id;
+
+    if (!agentId) {
+      return;
+    }
+
+    console.log(`📨 Agent ${agentId} ${part.partial ? 'action' : 'reply'} in channel ${channelId}: ${part.content.substring(0, 50)}...`);
+
+    io.to(`channel:${channelId}`).emit('agent:message', {
+      content: part.content,
+      timestamp: part.timestamp,
+      agentId,
+      messageId: part.id,
+      replyTo: pending?.userMessageId ?? null,
+      partial: part.partial,
+    });
+
+    if (!part.partial) {
+      await prisma.message.create({
+        data: {
+          agentId,
+          role: 'agent',
+          content: part.content,
+        },
+      });
+    }
+
+    if (pending) {
+      pending.parts.push(part);
+      this.scheduleCompletion(channelId, pending);
+    }
+  }
+
+  /**
+   * Record the actions a reply announced and the progress they reported
+   */
+  private trackActions(pending: PendingReply, message: ElizaMessageBroadcast) {
+    const status = message.rawMessage?.actionStatus;
+
+    if (message.source === 'agent_action' && status) {
+      for (const action of message.rawMessage?.actions ?? message.actions ?? []) {
+        pending.actions.set(action, status === 'executing' ? 'executing' : status === 'failed' ? 'failed' : 'completed');
+      }
+      return;
+    }
+
+    for (const action of message.actions ?? []) {
+      if (!REPLY_ACTIONS.includes(action) && !pending.actions.has(action)) {
+        pending.actions.set(action, 'announced');
+      }
+    }
+  }
+
+  /**
+   * Decide whether a reply is finished
+   * - while an announced action has not reported completion, keep waiting (or time out)
+   * - otherwise it ends after CONFIG.QUIET_PERIOD_MS without further parts,
+   *   which leaves room for the callback replies sent after an action completes
+   */
+  private scheduleCompletion(channelId: string, pending: PendingReply) {
+    clearTimeout(pending.quietTimer);
+
+    const running = [...pending.actions]
+      .filter(([, status]) => status === 'announced' || status === 'executing')
+      .map(([action]) => action);
+    if (running.length > 0) {
+      console.log(`⏳ Waiting for action ${running.join(', ')} to complete...`);
+      return;
+    }
+
+    if (!pending.parts.some(part => !part.partial)) {
+      return;
+    }
+
+    pending.quietTimer = setTimeout(() => this.complete(channelId, pending, false), CONFIG.QUIET_PERIOD_MS);
+  }
+
+  private remove(channelId: string, pending: PendingReply) {
+    clearTimeout(pending.quietTimer);
+    clearTimeout(pending.timeoutTimer);
+
+    const queue = (this.pending.get(channelId) || []).filter(p => p !== pending);
+    if (queue.length > 0) {
+      this.pending.set(channelId, queue);
+    } else {
+      this.pending.delete(channelId);
+    }
+  }
+
+  private complete(channelId: string, pending: PendingReply, timedOut: boolean) {
+    this.remove(channelId, pending);
+
+    io.to(`channel:${channelId}`).emit('agent:replyComplete', {
+      agentId: pending.agentId,
+      replyTo: pending.userMessageId,
+      parts: pending.parts.length,
+      timedOut,
+    });
+
+    pending.resolve(pending.parts);
+  }
+}
+
+export const elizaMessages = new ElizaMessageSubscriber();
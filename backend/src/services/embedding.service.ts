@@ -0,0 +1,234 @@
+/**
+ * Embedding Service
+ * Turns listing and buy request text into vectors for semantic retrieval.
+ * Providers are pluggable; LocalHashEmbeddingProvider is deterministic and
+ * needs no network, so matching can run (and be tested) offline.
+ */
+
+import * as crypto from 'crypto';
+import OpenAI from 'openai';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Source of text embeddings
+ * Vectors must be L2-normalized so cosine similarity is a dot product.
+ */
+export interface EmbeddingProvider {
+  /** Stored with each vector; vectors from different providers are never compared */
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * L2-normalize a vector in place (zero vectors are left as-is)
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    return vector;
+  }
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic local embeddings via feature hashing
+ * Words and character trigrams are hashed into a fixed number of signed buckets,
+ * so texts sharing vocabulary (or word fragments) end up close together.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local-hash';
+
+  constructor(readonly dimensions: number = 256) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * OpenAI embeddings API provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(
+    private openai: OpenAI,
+    private model: string = 'text-embedding-3-small',
+    dimensions: number = 512
+  ) {
+    this.name = `openai:${model}:${dimensions}`;
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalize([...item.embedding]));
+  }
+}
+
+/**
+ * Create the embedding provider from environment configuration
+ * EMBEDDING_PROVIDER=local forces the offline provider; otherwise OpenAI is used
+ * when OPENAI_API_KEY is set.
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+
+  if (process.env.EMBEDDING_PROVIDER === 'local' || !apiKey) {
+    return new LocalHashEmbeddingProvider();
+  }
+
+  return new OpenAIEmbeddingProvider(
+    new OpenAI({ apiKey }),
+    process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+  );
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+/**
+ * Text embedded for a listing
+ */
+export function listingEmbeddingText(listing: { title: string; description: string }): string {
+  return `${listing.title}\n${listing.description}`;
+}
+
+function contentHash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Get stored vectors for listings, (re)embedding any that are missing,
+ * stale, or were produced by a different provider
+ */
+export async function getListingEmbeddings(
+  provider: EmbeddingProvider,
+  listings: Array<{ listingId: string; title: string; description: string }>
+): Promise<Map<string, number[]>> {
+  const stored = await prisma.listingEmbedding.findMany({
+    where: { listingId: { in: listings.map((l) => l.listingId) } },
+  });
+  const storedById = new Map<string, { provider: string; contentHash: string; vector: string }>(
+    stored.map((e) => [e.listingId, e])
+  );
+
+  const result = new Map<string, number[]>();
+  const pending: Array<{ listingId: string; text: string; hash: string }> = [];
+
+  for (const listing of listings) {
+    const text = listingEmbeddingText(listing);
+    const hash = contentHash(text);
+    const existing = storedById.get(listing.listingId);
+
+    if (existing && existing.provider === provider.name && existing.contentHash === hash) {
+      result.set(listing.listingId, JSON.parse(existing.vector));
+    } else {
+      pending.push({ listingId: listing.listingId, text, hash });
+    }
+  }
+
+  if (pending.length > 0) {
+    const vectors = await provider.embed(pending.map((p) => p.text));
+
+    for (let i = 0; i < pending.length; i++) {
+      const { listingId, hash } = pending[i];
+      const data = {
+        provider: provider.name,
+        dimensions: provider.dimensions,
+        vector: JSON.stringify(vectors[i]),
+        contentHash: hash,
+      };
+
+      await prisma.listingEmbedding.upsert({
+        where: { listingId },
+        create: { listingId, ...data },
+        update: data,
+      });
+      result.set(listingId, vectors[i]);
+    }
+
+    console.log(`🧮 Embedded ${pending.length} listing(s) with ${provider.name}`);
+  }
+
+  return result;
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the process-wide embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    defaultProvider = createEmbeddingProvider();
+    console.log(`🧮 Embedding provider: ${defaultProvider.name}`);
+  }
+  return defaultProvider;
+}
+
+/**
+ * Embed a listing at creation time so matching doesn't have to
+ */
+export async function embedListing(listing: { listingId: string; title: string; description: string }) {
+  await getListingEmbeddings(getEmbeddingProvider(), [listing]);
+}
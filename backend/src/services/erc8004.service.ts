@@ -15,6 +15,8 @@ import {
   ContractId,
 } from '@hashgraph/sdk';
 import { PrismaClient } from '@prisma/client';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { keccak256 } from '@ethersproject/keccak256';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ipfsService } from './ipfs.service.js';
@@ -23,6 +25,11 @@ import type {
   AgentData,
   AgentRegistration,
   AgentInfo,
+  AgentFeedback,
+  ReputationSummary,
+  ValidationRequest,
+  ValidationResponse,
+  ValidationStatus,
 } from '../types/erc8004.types.js';
 
 const prisma = new PrismaClient();
@@ -40,9 +47,14 @@ const HEDERA_TESTNET_CHAIN_ID = '296'; // HIP-30
  */
 const ERC8004_REGISTRATION_TYPE = 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
 
+// EIP-191 prefix for signing a 32-byte hash (feedbackAuth)
+const ETH_SIGNED_MESSAGE_PREFIX = '\x19Ethereum Signed Message:\n32';
+
 class ERC8004Service {
   private client: Client | null = null;
   private identityRegistryId: string;
+  private reputationRegistryId: string | null;
+  private validationRegistryId: string | null;
 
   constructor() {
     // Load deployment info
@@ -57,9 +69,51 @@ class ERC8004Service {
 
     const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf-8'));
     this.identityRegistryId = deployment.contracts.identityRegistry.contractId;
+    this.reputationRegistryId = deployment.contracts.reputationRegistry?.contractId ?? null;
+    this.validationRegistryId = deployment.contracts.validationRegistry?.contractId ?? null;
 
     console.log(`✅ ERC8004Service initialized`);
     console.log(`   Identity Registry: ${this.identityRegistryId}`);
+    console.log(`   Reputation Registry: ${this.reputationRegistryId ?? '(not deployed)'}`);
+    console.log(`   Validation Registry: ${this.validationRegistryId ?? '(not deployed)'}`);
+  }
+
+  /**
+   * EVM chain ID of the Hedera network (HIP-30)
+   */
+  private getChainId(): string {
+    const network = process.env.HEDERA_NETWORK;
+    if (!network) {
+      throw new Error('HEDERA_NETWORK must be set in .env');
+    }
+    return network === 'testnet' ? HEDERA_TESTNET_CHAIN_ID : HEDERA_MAINNET_CHAIN_ID;
+  }
+
+  private getReputationRegistryId(): string {
+    if (!this.reputationRegistryId) {
+      throw new Error('ReputationRegistry is not deployed (missing from erc8004-deployment-testnet.json)');
+    }
+    return this.reputationRegistryId;
+  }
+
+  private getValidationRegistryId(): string {
+    if (!this.validationRegistryId) {
+      throw new Error('ValidationRegistry is not deployed (missing from erc8004-deployment-testnet.json)');
+    }
+    return this.validationRegistryId;
+  }
+
+  /**
+   * Client operated by an agent's own account (for calls the registries check msg.sender of)
+   */
+  private createAccountClient(account: { accountId: string; privateKey: string }): Client {
+    const network = process.env.HEDERA_NETWORK;
+    const client = network === 'testnet' ? Client.forTestnet() : Client.forMainnet();
+    client.setOperator(
+      AccountId.fromString(account.accountId),
+      PrivateKey.fromStringECDSA(account.privateKey)
+    );
+    return client;
   }
 
   /**
@@ -102,12 +156,7 @@ class ERC8004Service {
     agentData: AgentData,
     agentId: number
   ): Promise<string> {
-    // Determine chain ID based on network (HIP-30)
-    const network = process.env.HEDERA_NETWORK;
-    if (!network) {
-      throw new Error('HEDERA_NETWORK must be set in .env');
-    }
-    const chainId = network === 'testnet' ? HEDERA_TESTNET_CHAIN_ID : HEDERA_MAINNET_CHAIN_ID;
+    const chainId = this.getChainId();
 
     // Convert Hedera ContractId to EVM address (0x...) for CAIP-10 compliance
     const registryEvmAddress = ContractId.fromString(this.identityRegistryId).toSolidityAddress();
@@ -344,6 +393,270 @@ class ERC8004Service {
     };
   }
 
+  /**
+   * Transfer an agent NFT to another EVM address
+   * Agents are minted by the manager account; this hands ownership (and with it
+   * the right to act for the agent on the Marketplace) to the agent's own signer.
+   */
+  async transferAgent(agentId: number, toEvmAddress: string): Promise<string> {
+    const client = this.getClient();
+    const { ownerAddress } = await this.getAgentInfo(agentId);
+
+    console.log(`🔁 Transferring agent ${agentId}: ${ownerAddress} -> ${toEvmAddress}`);
+
+    const transferParams = new ContractFunctionParameters()
+      .addAddress(ownerAddress)
+      .addAddress(toEvmAddress)
+      .addUint256(agentId);
+
+    const transferTx = new ContractExecuteTransaction()
+      .setContractId(ContractId.fromString(this.identityRegistryId))
+      .setGas(200000)
+      .setFunction('transferFrom', transferParams);
+
+    const transferSubmit = await transferTx.execute(client);
+    await transferSubmit.getReceipt(client);
+    const txId = transferSubmit.transactionId.toString();
+
+    console.log(`✅ Agent ${agentId} transferred (tx: ${txId})`);
+
+    return txId;
+  }
+
+  /**
+   * Sign a feedbackAuth allowing clientAddress to rate an agent
+   * ERC-8004 only accepts feedback authorized by the agent's owner: the tuple
+   * (agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry,
+   * signerAddress) is ABI-encoded, signed as an EIP-191 message and followed by
+   * the 65-byte signature.
+   * @param ownerPrivateKey - ECDSA key of the account owning the agent NFT
+   * @param indexLimit - Highest feedback index the client may reach with this auth
+   */
+  createFeedbackAuth(params: {
+    agentId: number;
+    clientAddress: string;
+    indexLimit: number;
+    expiresAt: Date;
+    ownerPrivateKey: string;
+  }): Buffer {
+    const ownerKey = PrivateKey.fromStringECDSA(params.ownerPrivateKey);
+    const signerAddress = `0x${ownerKey.publicKey.toEvmAddress()}`;
+    const identityRegistry = `0x${ContractId.fromString(this.identityRegistryId).toSolidityAddress()}`;
+
+    const encoded = defaultAbiCoder.encode(
+      ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'],
+      [
+        params.agentId,
+        params.clientAddress,
+        params.indexLimit,
+        Math.floor(params.expiresAt.getTime() / 1000),
+        this.getChainId(),
+        identityRegistry,
+        signerAddress,
+      ]
+    );
+    const messageHash = Buffer.from(keccak256(encoded).slice(2), 'hex');
+
+    // Hedera ECDSA keys sign keccak256(message), i.e. the EIP-191 digest here
+    const message = Buffer.concat([Buffer.from(ETH_SIGNED_MESSAGE_PREFIX), messageHash]);
+    const signature = ownerKey.sign(message);
+    const r = signature.subarray(0, 32);
+    const s = signature.subarray(32, 64);
+    const recoveryId = ownerKey.getRecoveryId(r, s, message);
+    if (recoveryId < 0) {
+      throw new Error('Could not compute feedbackAuth signature recovery ID');
+    }
+
+    return Buffer.concat([
+      Buffer.from(encoded.slice(2), 'hex'),
+      Buffer.from(r),
+      Buffer.from(s),
+      Buffer.from([27 + recoveryId]),
+    ]);
+  }
+
+  /**
+   * Number of feedback entries a client has given an agent (its last index)
+   */
+  async getFeedbackLastIndex(agentId: number, clientAddress: string): Promise<number> {
+    const client = this.getClient();
+
+    const params = new ContractFunctionParameters()
+      .addUint256(agentId)
+      .addAddress(clientAddress);
+
+    const result = await new ContractCallQuery()
+      .setContractId(ContractId.fromString(this.getReputationRegistryId()))
+      .setGas(100000)
+      .setFunction('getLastIndex', params)
+      .execute(client);
+
+    return result.getUint64(0).toNumber();
+  }
+
+  /**
+   * Post feedback to the ReputationRegistry from the reviewing client's account
+   * @param reviewer - Account giving the feedback (must be the feedbackAuth's clientAddress)
+   */
+  async giveFeedback(
+    feedback: AgentFeedback,
+    feedbackAuth: Buffer,
+    reviewer: { accountId: string; privateKey: string }
+  ): Promise<string> {
+    const client = this.createAccountClient(reviewer);
+
+    try {
+      console.log(`⭐ Giving agent ${feedback.agentId} feedback score ${feedback.score}`);
+
+      const params = new ContractFunctionParameters()
+        .addUint256(feedback.agentId)
+        .addUint8(feedback.score)
+        .addBytes32(toBytes32Tag(feedback.tag1))
+        .addBytes32(toBytes32Tag(feedback.tag2))
+        .addString('') // fileuri: comments stay off-chain
+        .addBytes32(Buffer.alloc(32)) // filehash
+        .addBytes(feedbackAuth);
+
+      const tx = new ContractExecuteTransaction()
+        .setContractId(ContractId.fromString(this.getReputationRegistryId()))
+        .setGas(400000)
+        .setFunction('giveFeedback', params);
+
+      const txResponse = await tx.execute(client);
+      await txResponse.getReceipt(client);
+      const txId = txResponse.transactionId.toString();
+
+      console.log(`✅ Feedback recorded for agent ${feedback.agentId} (tx: ${txId})`);
+
+      return txId;
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * Feedback count and average score of an agent across all clients
+   */
+  async getReputationSummary(agentId: number): Promise<ReputationSummary> {
+    const client = this.getClient();
+
+    const params = new ContractFunctionParameters()
+      .addUint256(agentId)
+      .addAddressArray([]) // all clients
+      .addBytes32(Buffer.alloc(32)) // any tag1
+      .addBytes32(Buffer.alloc(32)); // any tag2
+
+    const result = await new ContractCallQuery()
+      .setContractId(ContractId.fromString(this.getReputationRegistryId()))
+      .setGas(300000)
+      .setFunction('getSummary', params)
+      .execute(client);
+
+    return {
+      agentId,
+      feedbackCount: result.getUint64(0).toNumber(),
+      averageScore: result.getUint8(1),
+    };
+  }
+
+  /**
+   * Ask a validator to validate an agent's work
+   * @param owner - Account owning the agent (the registry only accepts requests from the owner)
+   */
+  async requestValidation(
+    request: ValidationRequest,
+    owner: { accountId: string; privateKey: string }
+  ): Promise<string> {
+    const client = this.createAccountClient(owner);
+
+    try {
+      console.log(`🔎 Requesting validation of agent ${request.agentId} from ${request.validatorAddress}`);
+
+      const params = new ContractFunctionParameters()
+        .addAddress(request.validatorAddress)
+        .addUint256(request.agentId)
+        .addString(request.requestUri)
+        .addBytes32(toBytes32(request.requestHash));
+
+      const tx = new ContractExecuteTransaction()
+        .setContractId(ContractId.fromString(this.getValidationRegistryId()))
+        .setGas(400000)
+        .setFunction('validationRequest', params);
+
+      const txResponse = await tx.execute(client);
+      await txResponse.getReceipt(client);
+      const txId = txResponse.transactionId.toString();
+
+      console.log(`✅ Validation requested: ${request.requestHash} (tx: ${txId})`);
+
+      return txId;
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * Record a validator's response to a validation request
+   * @param validator - The validator account named in the request
+   */
+  async respondToValidation(
+    response: ValidationResponse,
+    validator: { accountId: string; privateKey: string }
+  ): Promise<string> {
+    const client = this.createAccountClient(validator);
+
+    try {
+      console.log(`🔎 Responding ${response.response} to validation ${response.requestHash}`);
+
+      const params = new ContractFunctionParameters()
+        .addBytes32(toBytes32(response.requestHash))
+        .addUint8(response.response)
+        .addString(response.responseUri)
+        .addBytes32(toBytes32(response.responseHash))
+        .addBytes32(toBytes32Tag(response.tag));
+
+      const tx = new ContractExecuteTransaction()
+        .setContractId(ContractId.fromString(this.getValidationRegistryId()))
+        .setGas(400000)
+        .setFunction('validationResponse', params);
+
+      const txResponse = await tx.execute(client);
+      await txResponse.getReceipt(client);
+      const txId = txResponse.transactionId.toString();
+
+      console.log(`✅ Validation response recorded for ${response.requestHash} (tx: ${txId})`);
+
+      return txId;
+    } finally {
+      client.close();
+    }
+  }
+
+  /**
+   * On-chain state of a validation request
+   */
+  async getValidationStatus(requestHash: string): Promise<ValidationStatus> {
+    const client = this.getClient();
+
+    const params = new ContractFunctionParameters().addBytes32(toBytes32(requestHash));
+
+    const result = await new ContractCallQuery()
+      .setContractId(ContractId.fromString(this.getValidationRegistryId()))
+      .setGas(100000)
+      .setFunction('getValidationStatus', params)
+      .execute(client);
+
+    const lastUpdate = result.getUint256(4).toNumber();
+
+    return {
+      validatorAddress: `0x${result.getAddress(0)}`,
+      agentId: result.getUint256(1).toNumber(),
+      response: result.getUint8(2),
+      tag: Buffer.from(result.getBytes32(3)).toString('utf-8').replace(/\0/g, ''),
+      lastUpdate: lastUpdate > 0 ? new Date(lastUpdate * 1000) : null,
+    };
+  }
+
   /**
    * Close Hedera client connection
    */
@@ -355,5 +668,40 @@ class ERC8004Service {
   }
 }
 
+/**
+ * Decode a 0x-prefixed 32-byte hex hash
+ */
+function toBytes32(hash: string): Buffer {
+  const bytes = Buffer.from(hash.replace(/^0x/, ''), 'hex');
+  if (bytes.length !== 32) {
+    throw new Error(`Expected a 32-byte hash, got "${hash}"`);
+  }
+  return bytes;
+}
+
+/**
+ * Encode a registry tag as bytes32 (UTF-8, zero padded); missing tags match anything
+ */
+function toBytes32Tag(tag?: string): Buffer {
+  const bytes = Buffer.alloc(32);
+  if (tag) {
+    const encoded = Buffer.from(tag, 'utf-8');
+    if (encoded.length > 32) {
+      throw new Error(`Tag "${tag}" is longer than 32 bytes`);
+    }
+    encoded.copy(bytes);
+  }
+  return bytes;
+}
+
 export const erc8004Service = new ERC8004Service();
-export type { AgentData, AgentRegistration, AgentInfo } from '../types/erc8004.types.js';
+export type {
+  AgentData,
+  AgentRegistration,
+  AgentInfo,
+  AgentFeedback,
+  ReputationSummary,
+  ValidationRequest,
+  ValidationResponse,
+  ValidationStatus,
+} from '../types/erc8004.types.js';
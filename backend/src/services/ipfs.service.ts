@@ -1,6 +1,6 @@
 /**
  * IPFS Service using Pinata
- * Uploads agent metadata for ERC-8004 Token URI
+ * Uploads agent metadata for ERC-8004 Token URI and validation documents
  */
 
 import { PinataSDK } from 'pinata';
@@ -18,12 +18,16 @@ class IPFSService {
   }
 
   async uploadMetadata(metadata: ERC8004RegistrationFile): Promise<string> {
+    return this.uploadJson(JSON.stringify(metadata, null, 2), 'metadata.json');
+  }
+
+  /**
+   * Upload an already serialized JSON document
+   * Callers that hash the document (e.g. ValidationRegistry requestHash) pass the exact bytes to pin.
+   */
+  async uploadJson(json: string, fileName: string): Promise<string> {
     try {
-      const file = new File(
-        [JSON.stringify(metadata, null, 2)],
-        'metadata.json',
-        { type: 'application/json' }
-      );
+      const file = new File([json], fileName, { type: 'application/json' });
 
       console.log('📤 Uploading to IPFS via Pinata...');
       const result = await this.pinata.upload.public.file(file);
@@ -33,7 +37,7 @@ class IPFSService {
       return ipfsUri;
     } catch (error) {
       console.error('❌ IPFS upload failed:', error);
-      throw new Error(`Failed to upload metadata to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to upload ${fileName} to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 }
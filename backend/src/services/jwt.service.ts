@@ -9,6 +9,8 @@ const JWT_SECRET = process.env.JWT_SECRET!;
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN!;
 const JWT_ISSUER = process.env.FRONTEND_URL!;
 const JWT_AUDIENCE = 'jimomarket-api';
+// Agent tokens are refreshed by the agent (POST /agents/token/refresh), so they stay short-lived
+const AGENT_TOKEN_EXPIRES_IN = '1h';
 
 if (!JWT_SECRET || JWT_SECRET.length < 32) {
   throw new Error('JWT_SECRET must be at least 32 characters');
@@ -25,6 +27,9 @@ export interface JWTPayload {
   hederaAccountId: string;
   did?: string;
   didRegistered?: boolean;
+  // Set on tokens issued to an agent (see generateAgentToken)
+  scope?: 'agent';
+  agentId?: string;
   // Standard JWT claims
   iss?: string;
   aud?: string;
@@ -37,7 +42,9 @@ export interface JWTPayload {
 /**
  * Generate JWT token for authenticated user
  */
-export function generateToken(payload: Omit<JWTPayload, 'iss' | 'aud' | 'sub' | 'jti' | 'iat' | 'exp'>): string {
+export function generateToken(
+  payload: Omit<JWTPayload, 'scope' | 'agentId' | 'iss' | 'aud' | 'sub' | 'jti' | 'iat' | 'exp'>
+): string {
   const jti = crypto.randomBytes(16).toString('hex');
 
   // @ts-ignore - jwt.sign type inference issue
@@ -57,6 +64,33 @@ export function generateToken(payload: Omit<JWTPayload, 'iss' | 'aud' | 'sub' |
   );
 }
 
+/**
+ * Generate a short-lived token for an agent acting on its owner's behalf
+ * Only routes using authenticateUserOrAgent accept it (see auth.middleware)
+ */
+export function generateAgentToken(
+  payload: Omit<JWTPayload, 'scope' | 'iss' | 'aud' | 'sub' | 'jti' | 'iat' | 'exp'> & { agentId: string }
+): string {
+  const jti = crypto.randomBytes(16).toString('hex');
+
+  // @ts-ignore - jwt.sign type inference issue
+  return jwt.sign(
+    {
+      ...payload,
+      scope: 'agent',
+      sub: payload.userId,
+      jti,
+    },
+    JWT_SECRET,
+    {
+      algorithm: 'HS256',
+      expiresIn: AGENT_TOKEN_EXPIRES_IN,
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+    }
+  );
+}
+
 /**
  * Verify and decode JWT token
  */
@@ -0,0 +1,481 @@
+/**
+ * Intent Mandate Service
+ * AP2-style intent mandates: a buyer authorizes their buyer agent to spend up
+ * to maxSpend HBAR, until an expiry, on items matching their BuyRequest.
+ *
+ * 1. The backend drafts the unsigned VC; the buyer signs the exact payload
+ *    with their DID root key (the key never leaves the client)
+ * 2. The signed VC is published to the VC topic and its hashes go into
+ *    createInquiry (mandateVcHash, claimedAttributesHash, claimedCapabilitiesHash)
+ * 3. Before selectReservation the seller side re-verifies the VC off-chain
+ *    and sends the hash of its verification report as reviewHash
+ *
+ * The proof covers the credential without its proof, serialized with
+ * JSON.stringify(credential, null, 2).
+ */
+
+import crypto from "crypto";
+import { keccak256 } from "@ethersproject/keccak256";
+import { PublicKey } from "@hashgraph/sdk";
+import { PrismaClient } from "@prisma/client";
+import { publishVerifiableCredential } from "./did.service";
+
+const prisma = new PrismaClient();
+
+const MANDATE_CONTEXT = "https://ap2-protocol.org/contexts/intent-mandate/v1";
+const PAYMENT_METHOD = "hedera-hbar-escrow";
+const REPORT_TYPE = "jimo-market/intent-mandate-verification-report/v1";
+
+export const DEFAULT_MANDATE_TTL_DAYS = 7;
+export const MAX_MANDATE_TTL_DAYS = 30;
+
+export interface IntentMandateAttributes {
+  maxSpend: { amount: number; currency: "HBAR" };
+  itemConstraints: {
+    title: string;
+    description: string;
+    category: string | null;
+    maxPrice: number;
+  };
+}
+
+export interface IntentMandateCapabilities {
+  paymentMethods: string[];
+  buyerAgentId: number;
+}
+
+export interface IntentMandateCredential {
+  "@context": string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  expirationDate: string;
+  credentialSubject: {
+    buyRequestId: string;
+    buyerAgentId: number;
+    attributes: IntentMandateAttributes;
+    capabilities: IntentMandateCapabilities;
+  };
+  proof?: {
+    type: "Ed25519Signature2018";
+    created: string;
+    verificationMethod: string;
+    proofPurpose: "assertionMethod";
+    proofValue: string;
+  };
+}
+
+export interface MandateCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface MandateVerificationReport {
+  type: string;
+  inquiryId: string;
+  listingId: string;
+  mandateVcHash: string;
+  checks: MandateCheck[];
+  verified: boolean;
+  verifiedAt: string;
+}
+
+/**
+ * Claims an inquiry carries on-chain
+ */
+export interface MandateClaims {
+  mandateId: string;
+  mandateVcHash: string;
+  claimedAttributesHash: string;
+  claimedCapabilitiesHash: string;
+}
+
+function hashJson(value: unknown): string {
+  return keccak256(Buffer.from(JSON.stringify(value, null, 2), "utf-8"));
+}
+
+/**
+ * The bytes the issuer signs: the credential without its proof
+ */
+function signingPayload(credential: IntentMandateCredential): string {
+  const { proof: _proof, ...unsigned } = credential;
+  return JSON.stringify(unsigned, null, 2);
+}
+
+function verifyProof(credential: IntentMandateCredential, didPublicKey: string): boolean {
+  if (!credential.proof) {
+    return false;
+  }
+  try {
+    return PublicKey.fromString(didPublicKey).verify(
+      Buffer.from(signingPayload(credential), "utf-8"),
+      Buffer.from(credential.proof.proofValue, "hex")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a BuyRequest and its issuer after checking the caller owns its buyer agent
+ */
+async function getOwnedBuyRequest(buyRequestId: string, userId: string) {
+  const buyRequest = await prisma.buyRequest.findUnique({ where: { id: buyRequestId } });
+  if (!buyRequest) {
+    throw new Error(`Buy request ${buyRequestId} not found`);
+  }
+
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId: buyRequest.buyerAgentId },
+    include: { user: true },
+  });
+  if (!agent) {
+    throw new Error(`Agent ${buyRequest.buyerAgentId} not found`);
+  }
+  if (agent.userId !== userId) {
+    throw new Error(`Buy request ${buyRequestId} is not owned by the current user`);
+  }
+  if (!agent.user.did || !agent.user.didPublicKey) {
+    throw new Error("A registered DID is required to issue an intent mandate");
+  }
+
+  return { buyRequest, did: agent.user.did, didPublicKey: agent.user.didPublicKey };
+}
+
+/**
+ * Draft the unsigned intent mandate VC for a BuyRequest
+ * @returns The credential and the exact payload the buyer must sign
+ * @throws Error if the spend or expiry is out of range
+ */
+export async function draftIntentMandate(params: {
+  buyRequestId: string;
+  userId: string;
+  maxSpend?: number;
+  ttlDays?: number;
+}): Promise<{ credential: IntentMandateCredential; payload: string }> {
+  const { buyRequest, did } = await getOwnedBuyRequest(params.buyRequestId, params.userId);
+
+  const maxSpend = params.maxSpend ?? buyRequest.maxPrice;
+  if (typeof maxSpend !== "number" || !isFinite(maxSpend) || maxSpend <= 0) {
+    throw new Error("maxSpend must be a positive number of HBAR");
+  }
+  const ttlDays = params.ttlDays ?? DEFAULT_MANDATE_TTL_DAYS;
+  if (typeof ttlDays !== "number" || !isFinite(ttlDays) || ttlDays <= 0 || ttlDays > MAX_MANDATE_TTL_DAYS) {
+    throw new Error(`ttlDays must be greater than 0 and at most ${MAX_MANDATE_TTL_DAYS}`);
+  }
+
+  const issuedAt = new Date();
+  const credential: IntentMandateCredential = {
+    "@context": ["https://www.w3.org/2018/credentials/v1", MANDATE_CONTEXT],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ["VerifiableCredential", "IntentMandate"],
+    issuer: did,
+    issuanceDate: issuedAt.toISOString(),
+    expirationDate: new Date(issuedAt.getTime() + ttlDays * 24 * 60 * 60 * 1000).toISOString(),
+    credentialSubject: {
+      buyRequestId: buyRequest.id,
+      buyerAgentId: buyRequest.buyerAgentId,
+      attributes: {
+        maxSpend: { amount: maxSpend, currency: "HBAR" },
+        itemConstraints: {
+          title: buyRequest.title,
+          description: buyRequest.description,
+          category: buyRequest.category,
+          maxPrice: buyRequest.maxPrice,
+        },
+      },
+      capabilities: {
+        paymentMethods: [PAYMENT_METHOD],
+        buyerAgentId: buyRequest.buyerAgentId,
+      },
+    },
+  };
+
+  return { credential, payload: signingPayload(credential) };
+}
+
+/**
+ * Accept a signed intent mandate, publish it to the VC topic and store it
+ * @param payload The drafted payload, exactly as signed
+ * @param signature Hex Ed25519 signature by the buyer's DID root key
+ * @throws Error if the signature, issuer or subject do not match the BuyRequest
+ */
+export async function issueIntentMandate(params: {
+  buyRequestId: string;
+  userId: string;
+  payload: string;
+  signature: string;
+}) {
+  const { buyRequest, did, didPublicKey } = await getOwnedBuyRequest(params.buyRequestId, params.userId);
+
+  let draft: IntentMandateCredential;
+  try {
+    draft = JSON.parse(params.payload);
+  } catch {
+    throw new Error("Invalid mandate payload: not JSON");
+  }
+  if (JSON.stringify(draft, null, 2) !== params.payload) {
+    throw new Error("Invalid mandate payload: not a drafted mandate");
+  }
+
+  const subject = draft.credentialSubject;
+  const expiresAt = new Date(draft.expirationDate);
+  if (
+    draft.issuer !== did ||
+    subject?.buyRequestId !== buyRequest.id ||
+    subject?.buyerAgentId !== buyRequest.buyerAgentId ||
+    subject?.capabilities?.buyerAgentId !== buyRequest.buyerAgentId ||
+    !(subject?.attributes?.maxSpend?.amount > 0)
+  ) {
+    throw new Error("Invalid mandate payload: issuer or subject does not match the buy request");
+  }
+  if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+    throw new Error("Invalid mandate payload: already expired");
+  }
+
+  const credential: IntentMandateCredential = {
+    ...draft,
+    proof: {
+      type: "Ed25519Signature2018",
+      created: new Date().toISOString(),
+      verificationMethod: `${did}#did-root-key`,
+      proofPurpose: "assertionMethod",
+      proofValue: params.signature.replace(/^0x/, ""),
+    },
+  };
+  if (!verifyProof(credential, didPublicKey)) {
+    throw new Error("Invalid mandate signature for the buyer's DID");
+  }
+
+  const json = JSON.stringify(credential, null, 2);
+  const published = await publishVerifiableCredential(json);
+  console.log(`📜 Intent mandate for buy request ${buyRequest.id} published to ${published.topicId} #${published.sequenceNumber}`);
+
+  const mandate = await prisma.intentMandate.create({
+    data: {
+      buyRequestId: buyRequest.id,
+      buyerAgentId: buyRequest.buyerAgentId,
+      issuerDid: did,
+      credential: json,
+      mandateVcHash: keccak256(Buffer.from(json, "utf-8")),
+      claimedAttributesHash: hashJson(subject.attributes),
+      claimedCapabilitiesHash: hashJson(subject.capabilities),
+      maxSpend: subject.attributes.maxSpend.amount,
+      expiresAt,
+      vcTopicId: published.topicId,
+      vcSequenceNumber: published.sequenceNumber,
+      publishTxId: published.transactionId,
+    },
+  });
+
+  return formatMandate(mandate);
+}
+
+function formatMandate(mandate: {
+  id: string;
+  buyRequestId: string;
+  buyerAgentId: number;
+  issuerDid: string;
+  credential: string;
+  mandateVcHash: string;
+  maxSpend: number;
+  expiresAt: Date;
+  vcTopicId: string | null;
+  vcSequenceNumber: number | null;
+  publishTxId: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: mandate.id,
+    buyRequestId: mandate.buyRequestId,
+    buyerAgentId: mandate.buyerAgentId,
+    issuerDid: mandate.issuerDid,
+    credential: JSON.parse(mandate.credential) as IntentMandateCredential,
+    mandateVcHash: mandate.mandateVcHash,
+    maxSpend: mandate.maxSpend,
+    expiresAt: mandate.expiresAt.toISOString(),
+    expired: mandate.expiresAt <= new Date(),
+    vcTopicId: mandate.vcTopicId,
+    vcSequenceNumber: mandate.vcSequenceNumber,
+    publishTxId: mandate.publishTxId,
+    createdAt: mandate.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Latest intent mandate issued for a BuyRequest (expired ones included)
+ */
+export async function getIntentMandate(buyRequestId: string) {
+  const mandate = await prisma.intentMandate.findFirst({
+    where: { buyRequestId },
+    orderBy: { createdAt: "desc" },
+  });
+  return mandate ? formatMandate(mandate) : null;
+}
+
+/**
+ * Id of the latest unexpired mandate the buyer agent holds for a BuyRequest
+ */
+export async function findActiveMandateId(buyRequestId: string, buyerAgentId: number): Promise<string | null> {
+  const mandate = await prisma.intentMandate.findFirst({
+    where: { buyRequestId, buyerAgentId, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  return mandate?.id ?? null;
+}
+
+/**
+ * Claims to put into createInquiry, after checking the mandate covers the offer
+ * @throws Error if the mandate is unknown, expired, for another agent or below the offer
+ */
+export async function getMandateClaims(
+  mandateId: string,
+  buyerAgentId: number,
+  offerPrice: number
+): Promise<MandateClaims> {
+  const mandate = await prisma.intentMandate.findUnique({ where: { id: mandateId } });
+  if (!mandate) {
+    throw new Error(`Intent mandate ${mandateId} not found`);
+  }
+  if (mandate.buyerAgentId !== buyerAgentId) {
+    throw new Error(`Intent mandate ${mandateId} does not authorize agent ${buyerAgentId}`);
+  }
+  if (mandate.expiresAt <= new Date()) {
+    throw new Error(`Intent mandate ${mandateId} expired at ${mandate.expiresAt.toISOString()}`);
+  }
+  if (offerPrice > mandate.maxSpend) {
+    throw new Error(`Offer of ${offerPrice} HBAR exceeds the intent mandate's max spend of ${mandate.maxSpend} HBAR`);
+  }
+
+  return {
+    mandateId: mandate.id,
+    mandateVcHash: mandate.mandateVcHash,
+    claimedAttributesHash: mandate.claimedAttributesHash,
+    claimedCapabilitiesHash: mandate.claimedCapabilitiesHash,
+  };
+}
+
+/**
+ * Verify the intent mandate behind an inquiry, as the seller would before reserving
+ * The report is stored on the inquiry; its hash is the reviewHash for selectReservation.
+ * @returns null for inquiries made without a mandate
+ */
+export async function verifyInquiryMandate(inquiryId: string): Promise<{
+  verified: boolean;
+  reviewHash: string;
+  report: MandateVerificationReport;
+} | null> {
+  const inquiry = await prisma.inquiry.findUnique({
+    where: { inquiryId },
+    include: { mandate: true, listing: true },
+  });
+  if (!inquiry) {
+    throw new Error(`Inquiry ${inquiryId} not found`);
+  }
+  if (!inquiry.mandate) {
+    return null;
+  }
+
+  const mandate = inquiry.mandate;
+  const credential: IntentMandateCredential = JSON.parse(mandate.credential);
+  const subject = credential.credentialSubject;
+  const issuer = await prisma.user.findUnique({
+    where: { did: credential.issuer },
+    select: { didPublicKey: true, agents: { select: { erc8004AgentId: true } } },
+  });
+  const maxSpend = subject.attributes.maxSpend.amount;
+  const expiresAt = new Date(credential.expirationDate);
+
+  const checks: MandateCheck[] = [
+    {
+      name: "vc_hash",
+      passed: keccak256(Buffer.from(mandate.credential, "utf-8")) === inquiry.mandateVcHash,
+      detail: `Inquiry mandateVcHash ${inquiry.mandateVcHash}`,
+    },
+    {
+      name: "signature",
+      passed: !!issuer?.didPublicKey && verifyProof(credential, issuer.didPublicKey),
+      detail: `Signed by ${credential.proof?.verificationMethod ?? "nobody"}`,
+    },
+    {
+      name: "claims_hashes",
+      passed:
+        hashJson(subject.attributes) === mandate.claimedAttributesHash &&
+        hashJson(subject.capabilities) === mandate.claimedCapabilitiesHash,
+      detail: "Attributes and capabilities match the claimed hashes",
+    },
+    {
+      name: "buyer_agent",
+      passed:
+        subject.buyerAgentId === inquiry.buyerAgentId &&
+        !!issuer?.agents.some((agent) => agent.erc8004AgentId === inquiry.buyerAgentId),
+      detail: `Issuer ${credential.issuer} owns buyer agent ${inquiry.buyerAgentId}`,
+    },
+    {
+      name: "not_expired",
+      passed: expiresAt > new Date(),
+      detail: `Expires ${credential.expirationDate}`,
+    },
+    {
+      name: "max_spend",
+      passed: inquiry.offerPrice <= maxSpend,
+      detail: `Offer ${inquiry.offerPrice} HBAR, max spend ${maxSpend} HBAR`,
+    },
+    {
+      name: "item_price",
+      passed: inquiry.listing.expectedPrice <= subject.attributes.itemConstraints.maxPrice,
+      detail: `Listing expects ${inquiry.listing.expectedPrice} HBAR, constraint max ${subject.attributes.itemConstraints.maxPrice} HBAR`,
+    },
+  ];
+
+  const report: MandateVerificationReport = {
+    type: REPORT_TYPE,
+    inquiryId,
+    listingId: inquiry.listingId,
+    mandateVcHash: mandate.mandateVcHash,
+    checks,
+    verified: checks.every((check) => check.passed),
+    verifiedAt: new Date().toISOString(),
+  };
+  const json = JSON.stringify(report, null, 2);
+  const reviewHash = keccak256(Buffer.from(json, "utf-8"));
+
+  await prisma.inquiry.update({
+    where: { inquiryId },
+    data: { reviewHash, reviewReport: json },
+  });
+
+  if (!report.verified) {
+    const failed = checks.filter((check) => !check.passed).map((check) => check.name);
+    console.warn(`⚠️ Intent mandate for inquiry ${inquiryId} failed: ${failed.join(", ")}`);
+  }
+
+  return { verified: report.verified, reviewHash, report };
+}
+
+/**
+ * Verify an inquiry's mandate on behalf of the user who owns the listing's seller agent
+ * @throws Error containing "not found" or "not owned"
+ */
+export async function verifyOwnedInquiryMandate(inquiryId: string, userId: string) {
+  const inquiry = await prisma.inquiry.findUnique({
+    where: { inquiryId },
+    select: { listing: { select: { listingId: true, sellerAgentId: true } } },
+  });
+  if (!inquiry) {
+    throw new Error(`Inquiry ${inquiryId} not found`);
+  }
+
+  const seller = await prisma.agent.findUnique({
+    where: { erc8004AgentId: inquiry.listing.sellerAgentId },
+    select: { userId: true },
+  });
+  if (!seller || seller.userId !== userId) {
+    throw new Error(`Listing ${inquiry.listing.listingId} is not owned by the current user`);
+  }
+
+  return verifyInquiryMandate(inquiryId);
+}
@@ -11,14 +11,32 @@ import {
   ContractCallQuery,
   ContractFunctionParameters,
   ContractId,
+  Hbar,
+  TransactionId,
 } from "@hashgraph/sdk";
+import { Interface } from "@ethersproject/abi";
 import { PrismaClient } from "@prisma/client";
+import { io } from "../socket";
+import { embedListing } from "./embedding.service";
+import { resolveAgent } from "./agentResolver.service";
+import { toValidationBadge } from "./validation.service";
+import { getMandateClaims, verifyInquiryMandate } from "./mandate.service";
 
 const prisma = new PrismaClient();
 
 const MARKETPLACE_CONTRACT_ID = process.env.MARKETPLACE_CONTRACT_ID!;
 const ERC8004_IDENTITY_REGISTRY = process.env.ERC8004_IDENTITY_REGISTRY!;
 
+// Longest a transaction stays valid (180s) plus mirror node ingestion lag
+const SUBMISSION_WINDOW_MS = 240_000;
+
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+
+// Must match contracts/Marketplace.sol
+const inquiryEvents = new Interface([
+  "event InquirySubmitted(uint256 indexed inquiryId, uint256 indexed listingId, uint256 indexed buyerAgentId, uint256 offerPrice, string message, bytes32 mandateVcHash, bytes32 claimedAttributesHash, bytes32 claimedCapabilitiesHash, uint256 timestamp)",
+]);
+
 if (!MARKETPLACE_CONTRACT_ID) {
   throw new Error("MARKETPLACE_CONTRACT_ID not set in environment");
 }
@@ -39,6 +57,62 @@ function createClient(accountId: string, privateKey: string): Client {
   return client;
 }
 
+/**
+ * Execute a Marketplace contract function and wait for its record
+ */
+async function executeMarketplaceFunction(
+  client: Client,
+  functionName: string,
+  functionParams: ContractFunctionParameters,
+  gas = 300000
+) {
+  const tx = new ContractExecuteTransaction()
+    .setContractId(ContractId.fromString(MARKETPLACE_CONTRACT_ID))
+    .setGas(gas)
+    .setFunction(functionName, functionParams);
+
+  const txResponse = await tx.execute(client);
+  await txResponse.getReceipt(client);
+  const record = await txResponse.getRecord(client);
+
+  return {
+    transactionId: txResponse.transactionId.toString(),
+    fee: Number(record.transactionFee.toTinybars()) / 100_000_000,
+  };
+}
+
+/**
+ * Convert a 0x-prefixed (or bare) hex string to a bytes32 buffer
+ * Missing values become zero bytes
+ */
+function toBytes32(hex?: string | null): Buffer {
+  if (!hex) {
+    return Buffer.alloc(32, 0);
+  }
+  const bytes = Buffer.from(hex.replace(/^0x/, ""), "hex");
+  if (bytes.length !== 32) {
+    throw new Error(`Expected 32-byte hex value, got ${bytes.length} bytes`);
+  }
+  return bytes;
+}
+
+/**
+ * Notify listing watchers (and its negotiation room) of a status change
+ */
+export async function emitListingStatusChanged(listingId: string, payload: Record<string, unknown>) {
+  const event = { listingId, ...payload, timestamp: new Date().toISOString() };
+
+  io.to(`listing:${listingId}`).emit("listing:statusChanged", event);
+
+  const room = await prisma.negotiationRoom.findUnique({
+    where: { listingId },
+    select: { id: true },
+  });
+  if (room) {
+    io.to(`negotiation:${room.id}`).emit("listing:statusChanged", event);
+  }
+}
+
 /**
  * Create a listing on the Marketplace
  */
@@ -90,6 +164,17 @@ export async function createListing(params: {
       },
     });
 
+    // Embed for buy request matching (backfilled at search time if this fails)
+    try {
+      await embedListing({
+        listingId: listingId.toString(),
+        title: params.title,
+        description: params.description,
+      });
+    } catch (embedError) {
+      console.error("Failed to embed listing:", embedError);
+    }
+
     // Get seller's A2A endpoint and create NegotiationRoom
     let negotiationRoomId: string | undefined;
     try {
@@ -157,6 +242,7 @@ export async function getListings(params?: {
       orderBy: { createdAt: 'desc' },
       take: params?.limit || 100,
       skip: params?.offset || 0,
+      include: { validations: { where: { status: 'RESPONDED' } } },
     });
 
     return listings.map(listing => ({
@@ -169,6 +255,7 @@ export async function getListings(params?: {
       status: listing.status,
       createdAt: listing.createdAt.toISOString(),
       transactionId: listing.transactionId,
+      validation: toValidationBadge(listing.validations),
     }));
   } catch (error) {
     console.error("Error getting listings:", error);
@@ -185,6 +272,7 @@ export async function getListing(listingId: number) {
       where: {
         listingId: listingId.toString(),
       },
+      include: { validations: { where: { status: 'RESPONDED' } } },
     });
 
     if (!listing) {
@@ -212,8 +300,12 @@ export async function getListing(listingId: number) {
       status: listing.status,
       createdAt: listing.createdAt.toISOString(),
       transactionId: listing.transactionId,
+      reservedInquiryId: listing.reservedInquiryId,
+      escrowStatus: listing.escrowStatus,
+      escrowAmount: listing.escrowAmount,
       negotiationRoomId: negotiationRoom?.id || null,
       negotiationRoomStatus: negotiationRoom?.status || null,
+      validation: toValidationBadge(listing.validations),
     };
   } catch (error) {
     console.error("Error getting listing:", error);
@@ -311,37 +403,154 @@ export async function getListingVerified(listingId: number) {
   }
 }
 
+/**
+ * Store an inquiry submitted on-chain as PENDING, with its escrow deposit
+ */
+async function recordInquiry(data: {
+  inquiryId: string;
+  listingId: string;
+  buyerAgentId: number;
+  offerPrice: number;
+  message: string;
+  transactionId: string;
+  escrowAmount: number;
+  mandateId: string | null;
+  mandateVcHash: string | null;
+}) {
+  const { escrowAmount, transactionId, ...fields } = data;
+
+  await prisma.inquiry.create({
+    data: {
+      ...fields,
+      status: "PENDING",
+      transactionId,
+      escrowStatus: escrowAmount > 0 ? "HELD" : "NONE",
+      escrowAmount,
+      escrowTxId: escrowAmount > 0 ? transactionId : null,
+    },
+  });
+}
+
+/**
+ * Find the inquiry created by an earlier createInquiry submission
+ * Looks the transaction up on the mirror node; if it succeeded but the inquiry
+ * was never saved, the row is rebuilt from its InquirySubmitted log.
+ * @returns The inquiry ID, or null if the transaction did not create one
+ *          (reverted, or expired without reaching consensus)
+ * @throws Error if the transaction may still reach consensus
+ */
+export async function findSubmittedInquiry(transactionId: string): Promise<string | null> {
+  const { mirrorNodeUrl } = await import("../utils/hedera.js");
+
+  // Mirror node format: 0.0.123-1700000000-000000123
+  const mirrorTxId = transactionId.replace("@", "-").replace(/\.(\d+)$/, "-$1");
+  const response = await fetch(`${mirrorNodeUrl}/api/v1/contracts/results/${mirrorTxId}`);
+
+  if (response.status === 404) {
+    const validStart = TransactionId.fromString(transactionId).validStart!.toDate().getTime();
+    if (Date.now() < validStart + SUBMISSION_WINDOW_MS) {
+      throw new Error(`Inquiry transaction ${transactionId} may still reach consensus; retry shortly`);
+    }
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Mirror Node request failed: ${response.statusText}`);
+  }
+
+  const result = (await response.json()) as {
+    result: string;
+    logs?: Array<{ data: string; topics: string[] }>;
+  };
+  if (result.result !== "SUCCESS") {
+    return null;
+  }
+
+  const submitted = (result.logs || [])
+    .map((log) => {
+      try {
+        return inquiryEvents.parseLog({ topics: log.topics, data: log.data });
+      } catch {
+        return null;
+      }
+    })
+    .find((event) => event?.name === "InquirySubmitted");
+  if (!submitted) {
+    throw new Error(`Inquiry transaction ${transactionId} succeeded without an InquirySubmitted event`);
+  }
+
+  const inquiryId = submitted.args.inquiryId.toString();
+  const existing = await prisma.inquiry.findUnique({ where: { inquiryId } });
+  if (!existing) {
+    const mandateVcHash = submitted.args.mandateVcHash === ZERO_HASH ? null : submitted.args.mandateVcHash;
+    const mandate = mandateVcHash
+      ? await prisma.intentMandate.findUnique({ where: { mandateVcHash }, select: { id: true } })
+      : null;
+    const offerPrice = Number(submitted.args.offerPrice.toString()) / 100_000_000;
+
+    await recordInquiry({
+      inquiryId,
+      listingId: submitted.args.listingId.toString(),
+      buyerAgentId: Number(submitted.args.buyerAgentId.toString()),
+      offerPrice,
+      message: submitted.args.message,
+      transactionId,
+      escrowAmount: offerPrice,
+      mandateId: mandate?.id ?? null,
+      mandateVcHash,
+    });
+    console.log(`📥 Recovered inquiry ${inquiryId} from transaction ${transactionId}`);
+  }
+
+  return inquiryId;
+}
+
 /**
  * Create an inquiry on a listing
+ * The offerPrice is deposited into contract escrow with the same transaction.
+ * With a mandateId the intent mandate's hashes are claimed on-chain;
+ * without one the claims are zero hashes.
+ * Pass a transactionId generated (and saved) beforehand so that a retry can
+ * check with findSubmittedInquiry whether this submission already landed.
  */
 export async function createInquiry(params: {
   buyerAgentId: string | number;
   listingId: string | number;
   offerPrice: number; // in HBAR
   message: string;
+  mandateId?: string | null;
+  transactionId?: string;
   accountId: string;
   privateKey: string;
 }) {
   const client = createClient(params.accountId, params.privateKey);
 
   try {
-    // Placeholder hashes for VC verification (same pattern as listing)
-    const placeholderHash = Buffer.alloc(32, 0);
+    const claims = params.mandateId
+      ? await getMandateClaims(params.mandateId, Number(params.buyerAgentId), params.offerPrice)
+      : null;
+
+    // Contract requires msg.value == offerPrice, so both must use the same tinybar amount
+    const offerTinybars = Math.floor(params.offerPrice * 100_000_000); // HBAR to tinybar
 
     const functionParams = new ContractFunctionParameters()
       .addUint256(Number(params.buyerAgentId))
       .addUint256(Number(params.listingId))
-      .addUint256(Math.floor(params.offerPrice * 100_000_000)) // HBAR to tinybar
+      .addUint256(offerTinybars)
       .addString(params.message)
-      .addBytes32(placeholderHash) // mandateVcHash
-      .addBytes32(placeholderHash) // claimedAttributesHash
-      .addBytes32(placeholderHash); // claimedCapabilitiesHash
+      .addBytes32(toBytes32(claims?.mandateVcHash))
+      .addBytes32(toBytes32(claims?.claimedAttributesHash))
+      .addBytes32(toBytes32(claims?.claimedCapabilitiesHash));
 
     const tx = new ContractExecuteTransaction()
       .setContractId(ContractId.fromString(MARKETPLACE_CONTRACT_ID))
       .setGas(500000)
+      .setPayableAmount(Hbar.fromTinybars(offerTinybars))
       .setFunction("createInquiry", functionParams);
 
+    if (params.transactionId) {
+      tx.setTransactionId(TransactionId.fromString(params.transactionId));
+    }
+
     const txResponse = await tx.execute(client);
     await txResponse.getReceipt(client);
     const record = await txResponse.getRecord(client);
@@ -353,22 +562,24 @@ export async function createInquiry(params: {
     const transactionId = txResponse.transactionId.toString();
 
     // Save to database
-    await prisma.inquiry.create({
-      data: {
-        inquiryId: inquiryId.toString(),
-        listingId: params.listingId.toString(),
-        buyerAgentId: Number(params.buyerAgentId),
-        offerPrice: params.offerPrice,
-        message: params.message,
-        status: "PENDING",
-        transactionId: transactionId,
-      },
+    await recordInquiry({
+      inquiryId: inquiryId.toString(),
+      listingId: params.listingId.toString(),
+      buyerAgentId: Number(params.buyerAgentId),
+      offerPrice: params.offerPrice,
+      message: params.message,
+      transactionId,
+      escrowAmount: offerTinybars / 100_000_000,
+      mandateId: claims?.mandateId ?? null,
+      mandateVcHash: claims?.mandateVcHash ?? null,
     });
 
     return {
       success: true,
       inquiryId: inquiryId.toString(),
       transactionId: transactionId,
+      mandateVcHash: claims?.mandateVcHash ?? null,
+      escrowAmount: offerTinybars / 100_000_000,
       fee: Number(record.transactionFee.toTinybars()) / 100_000_000,
     };
   } catch (error) {
@@ -379,9 +590,357 @@ export async function createInquiry(params: {
   }
 }
 
+/**
+ * Select an inquiry for a listing (OPEN → RESERVED)
+ * The contract requires the inquiry's escrow to hold the full offerPrice.
+ * Without a reviewHash, an inquiry made under an intent mandate has the
+ * mandate verified here and its report hash is sent instead.
+ * @throws Error if the inquiry's intent mandate fails verification
+ */
+export async function selectReservation(params: {
+  sellerAgentId: string | number;
+  listingId: string | number;
+  inquiryId: string | number;
+  reasonCode: string;
+  reviewHash?: string;
+  accountId: string;
+  privateKey: string;
+}) {
+  const client = createClient(params.accountId, params.privateKey);
+
+  try {
+    let reviewHash = params.reviewHash;
+    if (!reviewHash) {
+      const review = await verifyInquiryMandate(params.inquiryId.toString());
+      if (review && !review.verified) {
+        const failed = review.report.checks.filter((check) => !check.passed).map((check) => check.name);
+        throw new Error(`Intent mandate verification failed for inquiry ${params.inquiryId}: ${failed.join(", ")}`);
+      }
+      reviewHash = review?.reviewHash;
+    }
+
+    const functionParams = new ContractFunctionParameters()
+      .addUint256(Number(params.sellerAgentId))
+      .addUint256(Number(params.listingId))
+      .addUint256(Number(params.inquiryId))
+      .addString(params.reasonCode)
+      .addBytes32(toBytes32(reviewHash));
+
+    const { transactionId, fee } = await executeMarketplaceFunction(client, "selectReservation", functionParams);
+
+    const listingId = params.listingId.toString();
+    const inquiryId = params.inquiryId.toString();
+
+    const inquiry = await prisma.inquiry.update({
+      where: { inquiryId },
+      data: { status: "ACCEPTED" },
+    });
+
+    await prisma.listing.update({
+      where: { listingId },
+      data: {
+        status: "RESERVED",
+        reservedInquiryId: inquiryId,
+        escrowStatus: inquiry.escrowAmount > 0 ? "HELD" : "NONE",
+        escrowAmount: inquiry.escrowAmount,
+        escrowTxId: inquiry.escrowTxId,
+      },
+    });
+
+    await emitListingStatusChanged(listingId, {
+      status: "RESERVED",
+      inquiryId,
+      buyerAgentId: inquiry.buyerAgentId,
+      reasonCode: params.reasonCode,
+      transactionId,
+    });
+
+    return {
+      success: true,
+      listingId,
+      inquiryId,
+      escrowAmount: inquiry.escrowAmount,
+      transactionId,
+      fee,
+    };
+  } catch (error) {
+    console.error("Error selecting reservation:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Complete a reserved listing (RESERVED → COMPLETED)
+ * Escrow is released to the seller agent owner
+ */
+export async function completeListing(params: {
+  sellerAgentId: string | number;
+  listingId: string | number;
+  accountId: string;
+  privateKey: string;
+}) {
+  const client = createClient(params.accountId, params.privateKey);
+
+  try {
+    const functionParams = new ContractFunctionParameters()
+      .addUint256(Number(params.sellerAgentId))
+      .addUint256(Number(params.listingId));
+
+    const { transactionId, fee } = await executeMarketplaceFunction(client, "completeListing", functionParams);
+
+    const listingId = params.listingId.toString();
+    const listing = await prisma.listing.findUnique({ where: { listingId } });
+    const released = !!listing?.escrowAmount;
+
+    await prisma.listing.update({
+      where: { listingId },
+      data: {
+        status: "COMPLETED",
+        ...(released && { escrowStatus: "RELEASED", escrowTxId: transactionId }),
+      },
+    });
+
+    if (listing?.reservedInquiryId && released) {
+      await prisma.inquiry.update({
+        where: { inquiryId: listing.reservedInquiryId },
+        data: { escrowStatus: "RELEASED", escrowTxId: transactionId },
+      });
+    }
+
+    await emitListingStatusChanged(listingId, {
+      status: "COMPLETED",
+      inquiryId: listing?.reservedInquiryId ?? null,
+      escrowReleased: listing?.escrowAmount ?? 0,
+      transactionId,
+    });
+
+    return {
+      success: true,
+      listingId,
+      inquiryId: listing?.reservedInquiryId ?? null,
+      escrowReleased: listing?.escrowAmount ?? 0,
+      transactionId,
+      fee,
+    };
+  } catch (error) {
+    console.error("Error completing listing:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Cancel a listing (OPEN/RESERVED → CANCELLED)
+ * A reserved buyer's escrow is refunded
+ */
+export async function cancelListing(params: {
+  sellerAgentId: string | number;
+  listingId: string | number;
+  accountId: string;
+  privateKey: string;
+}) {
+  const client = createClient(params.accountId, params.privateKey);
+
+  try {
+    const functionParams = new ContractFunctionParameters()
+      .addUint256(Number(params.sellerAgentId))
+      .addUint256(Number(params.listingId));
+
+    const { transactionId, fee } = await executeMarketplaceFunction(client, "cancelListing", functionParams);
+
+    const listingId = params.listingId.toString();
+    const listing = await prisma.listing.findUnique({ where: { listingId } });
+    const reservedInquiryId = listing?.status === "RESERVED" ? listing.reservedInquiryId : null;
+    const refunded = !!reservedInquiryId && !!listing?.escrowAmount;
+
+    await prisma.listing.update({
+      where: { listingId },
+      data: {
+        status: "CANCELLED",
+        ...(refunded && { escrowStatus: "REFUNDED", escrowTxId: transactionId }),
+      },
+    });
+
+    if (reservedInquiryId && refunded) {
+      await prisma.inquiry.update({
+        where: { inquiryId: reservedInquiryId },
+        data: { escrowStatus: "REFUNDED", escrowTxId: transactionId },
+      });
+    }
+
+    await emitListingStatusChanged(listingId, {
+      status: "CANCELLED",
+      inquiryId: reservedInquiryId,
+      escrowRefunded: refunded ? listing?.escrowAmount : 0,
+      transactionId,
+    });
+
+    return {
+      success: true,
+      listingId,
+      inquiryId: reservedInquiryId,
+      escrowRefunded: refunded ? listing?.escrowAmount : 0,
+      transactionId,
+      fee,
+    };
+  } catch (error) {
+    console.error("Error cancelling listing:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Revoke a reservation (RESERVED → OPEN), e.g. buyer no-show
+ * The reserved inquiry stays ACCEPTED as a tombstone; its escrow is refunded
+ */
+export async function revokeReservation(params: {
+  sellerAgentId: string | number;
+  listingId: string | number;
+  reasonCode: string;
+  accountId: string;
+  privateKey: string;
+}) {
+  const client = createClient(params.accountId, params.privateKey);
+
+  try {
+    const functionParams = new ContractFunctionParameters()
+      .addUint256(Number(params.sellerAgentId))
+      .addUint256(Number(params.listingId))
+      .addString(params.reasonCode);
+
+    const { transactionId, fee } = await executeMarketplaceFunction(client, "revokeReservation", functionParams);
+
+    const listingId = params.listingId.toString();
+    const listing = await prisma.listing.findUnique({ where: { listingId } });
+    const revokedInquiryId = listing?.reservedInquiryId ?? null;
+    const refunded = !!listing?.escrowAmount;
+
+    await prisma.listing.update({
+      where: { listingId },
+      data: {
+        status: "OPEN",
+        reservedInquiryId: null,
+        ...(refunded && { escrowStatus: "REFUNDED", escrowTxId: transactionId }),
+      },
+    });
+
+    if (revokedInquiryId && refunded) {
+      await prisma.inquiry.update({
+        where: { inquiryId: revokedInquiryId },
+        data: { escrowStatus: "REFUNDED", escrowTxId: transactionId },
+      });
+    }
+
+    await emitListingStatusChanged(listingId, {
+      status: "OPEN",
+      inquiryId: revokedInquiryId,
+      reasonCode: params.reasonCode,
+      escrowRefunded: refunded ? listing?.escrowAmount : 0,
+      transactionId,
+    });
+
+    return {
+      success: true,
+      listingId,
+      inquiryId: revokedInquiryId,
+      escrowRefunded: refunded ? listing?.escrowAmount : 0,
+      transactionId,
+      fee,
+    };
+  } catch (error) {
+    console.error("Error revoking reservation:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Withdraw a pending inquiry and refund its escrow to the buyer
+ */
+export async function withdrawInquiry(params: {
+  buyerAgentId: string | number;
+  inquiryId: string | number;
+  accountId: string;
+  privateKey: string;
+}) {
+  const client = createClient(params.accountId, params.privateKey);
+
+  try {
+    const functionParams = new ContractFunctionParameters()
+      .addUint256(Number(params.buyerAgentId))
+      .addUint256(Number(params.inquiryId));
+
+    const { transactionId, fee } = await executeMarketplaceFunction(client, "withdrawInquiry", functionParams);
+
+    const inquiry = await prisma.inquiry.update({
+      where: { inquiryId: params.inquiryId.toString() },
+      data: {
+        status: "WITHDRAWN",
+        escrowStatus: "REFUNDED",
+        escrowTxId: transactionId,
+      },
+    });
+
+    return {
+      success: true,
+      inquiryId: inquiry.inquiryId,
+      refundedAmount: inquiry.escrowAmount,
+      transactionId,
+      fee,
+    };
+  } catch (error) {
+    console.error("Error withdrawing inquiry:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Get escrow held by the contract for an inquiry (on-chain read)
+ */
+export async function getInquiryEscrow(inquiryId: number) {
+  const operatorId = process.env.HEDERA_MANAGER_ACCOUNT_ID;
+  const operatorKey = process.env.HEDERA_MANAGER_PRIVATE_KEY;
+
+  if (!operatorId || !operatorKey) {
+    throw new Error("HEDERA_MANAGER_ACCOUNT_ID and HEDERA_MANAGER_PRIVATE_KEY must be set");
+  }
+
+  const client = createClient(operatorId, operatorKey);
+
+  try {
+    const params = new ContractFunctionParameters().addUint256(inquiryId);
+
+    const query = new ContractCallQuery()
+      .setContractId(ContractId.fromString(MARKETPLACE_CONTRACT_ID))
+      .setGas(100000)
+      .setFunction("getEscrow", params);
+
+    const result = await query.execute(client);
+
+    return {
+      inquiryId: inquiryId.toString(),
+      depositor: `0x${result.getAddress(0)}`,
+      amount: Number(result.getUint256(1)) / 100_000_000, // tinybar to HBAR
+    };
+  } catch (error) {
+    console.error("Error getting inquiry escrow:", error);
+    throw error;
+  } finally {
+    client.close();
+  }
+}
+
 /**
  * Get A2A endpoint for an agent from ERC-8004 registry
- * Fetches tokenURI, retrieves IPFS metadata, and extracts A2A endpoint
+ * Fetches tokenURI and resolves it through the agent resolver
  */
 export async function getAgentA2AEndpoint(agentId: number) {
   const operatorId = process.env.HEDERA_MANAGER_ACCOUNT_ID;
@@ -413,61 +972,21 @@ export async function getAgentA2AEndpoint(agentId: number) {
       throw new Error(`No tokenURI found for agent ${agentId}`);
     }
 
-    // Fetch IPFS metadata
-    // Convert ipfs:// to gateway URL
-    const ipfsGateway = "https://gateway.pinata.cloud/ipfs/";
-    const metadataUrl = tokenURI.replace("ipfs://", ipfsGateway);
+    // Registration file and Agent Card (cached, CID-checked, internally routed)
+    const { registration, a2aEndpoint, a2aVersion } = await resolveAgent(agentId, tokenURI);
 
-    const metadataResponse = await fetch(metadataUrl);
-    if (!metadataResponse.ok) {
-      throw new Error(`Failed to fetch agent metadata from ${metadataUrl}`);
-    }
-
-    const metadata = await metadataResponse.json() as any;
-
-    // Find A2A endpoint in endpoints array (this is the Agent Card URL)
-    const agentCardEntry = metadata.endpoints?.find(
-      (ep: { name: string; endpoint: string }) => ep.name === 'a2a'
-    );
-
-    if (!agentCardEntry) {
-      throw new Error(`No A2A agent card URL found for agent ${agentId}`);
-    }
-
-    // Fetch the Agent Card to get the actual messaging endpoint
-    console.log(`📋 Fetching Agent Card from: ${agentCardEntry.endpoint}`);
-    const agentCardResponse = await fetch(agentCardEntry.endpoint);
-    if (!agentCardResponse.ok) {
-      throw new Error(`Failed to fetch agent card from ${agentCardEntry.endpoint}`);
-    }
-
-    const agentCard = await agentCardResponse.json() as any;
-
-    // In A2A v0.3.0, the messaging endpoint is in the "url" field
-    let messagingEndpoint = agentCard.url;
-
-    if (!messagingEndpoint) {
-      throw new Error(`No url (messaging endpoint) found in agent card for agent ${agentId}`);
-    }
-
-    // Replace backend proxy with direct ElizaOS access for agent-to-agent communication
-    // Separate hostname and port replacement for reliability
-    messagingEndpoint = messagingEndpoint
-      .replace('backend.railway.internal', 'agents.railway.internal')  // Hostname: backend -> agents
-      .replace(':4000', ':3333');  // Port: 4000 -> 3333
-
-    console.log(`✅ Resolved A2A messaging endpoint: ${messagingEndpoint}`);
+    console.log(`✅ Resolved A2A messaging endpoint: ${a2aEndpoint}`);
 
     return {
       agentId,
       tokenURI,
-      a2aEndpoint: messagingEndpoint,
-      a2aVersion: agentCardEntry.version || 'unknown',
+      a2aEndpoint,
+      a2aVersion,
       metadata: {
-        name: metadata.name,
-        description: metadata.description,
-        agentType: metadata.agentType,
-        ownerDid: metadata.ownerDid,
+        name: registration.name,
+        description: registration.description,
+        agentType: registration.agentType,
+        ownerDid: registration.ownerDid,
       },
     };
   } catch (error) {
@@ -478,6 +997,32 @@ export async function getAgentA2AEndpoint(agentId: number) {
   }
 }
 
+/**
+ * Get the inquiries on a listing from database, best offer first
+ */
+export async function getListingInquiries(listingId: number, status?: string) {
+  const inquiries = await prisma.inquiry.findMany({
+    where: {
+      listingId: listingId.toString(),
+      ...(status && { status }),
+    },
+    orderBy: [{ offerPrice: "desc" }, { createdAt: "asc" }],
+  });
+
+  return inquiries.map((inquiry) => ({
+    inquiryId: inquiry.inquiryId,
+    listingId: inquiry.listingId,
+    buyerAgentId: inquiry.buyerAgentId,
+    offerPrice: inquiry.offerPrice,
+    message: inquiry.message,
+    status: inquiry.status,
+    createdAt: inquiry.createdAt.toISOString(),
+    escrowStatus: inquiry.escrowStatus,
+    escrowAmount: inquiry.escrowAmount,
+    mandateVcHash: inquiry.mandateVcHash,
+  }));
+}
+
 /**
  * Get inquiry details from database
  */
@@ -505,6 +1050,11 @@ export async function getInquiry(inquiryId: number) {
       status: inquiry.status,
       createdAt: inquiry.createdAt.toISOString(),
       transactionId: inquiry.transactionId,
+      escrowStatus: inquiry.escrowStatus,
+      escrowAmount: inquiry.escrowAmount,
+      mandateVcHash: inquiry.mandateVcHash,
+      reviewHash: inquiry.reviewHash,
+      reviewReport: inquiry.reviewReport ? JSON.parse(inquiry.reviewReport) : null,
       listing: {
         title: inquiry.listing.title,
         description: inquiry.listing.description,
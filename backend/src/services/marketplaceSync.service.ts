@@ -0,0 +1,791 @@
+/**
+ * Marketplace Chain Sync Service
+ * Indexes Marketplace contract events into Prisma so that listings and inquiries
+ * created or updated outside this backend (deploy scripts, other clients) show up.
+ *
+ * Events are read from a pluggable MarketplaceEventSource (Hedera Mirror Node by
+ * default, or a JSON-RPC node such as a local hardhat node), applied with
+ * idempotent upserts, and the source position is persisted in SyncCursor.
+ * Rows that disagree with the chain are corrected and recorded in SyncDivergence.
+ */
+
+import { Interface } from "@ethersproject/abi";
+import { PrismaClient } from "@prisma/client";
+import { emitListingStatusChanged, getAgentA2AEndpoint } from "./marketplace.service";
+import { embedListing } from "./embedding.service";
+
+const prisma = new PrismaClient();
+
+const SYNC_CONFIG = {
+  INTERVAL_MS: 15000,      // Delay between polls
+  BATCH_SIZE: 100,         // Max events fetched per poll
+  RPC_BLOCK_RANGE: 1000,   // Max block range per eth_getLogs request
+} as const;
+
+// Marketplace events indexed by the sync worker (must match contracts/Marketplace.sol)
+const marketplaceEvents = new Interface([
+  "event ListingCreated(uint256 indexed listingId, uint256 indexed sellerAgentId, string title, uint256 basePrice, uint256 expectedPrice, uint256 timestamp)",
+  "event InquirySubmitted(uint256 indexed inquiryId, uint256 indexed listingId, uint256 indexed buyerAgentId, uint256 offerPrice, string message, bytes32 mandateVcHash, bytes32 claimedAttributesHash, bytes32 claimedCapabilitiesHash, uint256 timestamp)",
+  "event ReservationGranted(uint256 indexed listingId, uint256 indexed inquiryId, uint256 buyerAgentId, uint256 sellerAgentId, string reasonCode, bytes32 reviewHash, uint256 timestamp)",
+  "event ListingCompleted(uint256 indexed listingId, uint256 indexed inquiryId, uint256 timestamp)",
+  "event ListingCancelled(uint256 indexed listingId, uint256 inquiryId, uint256 indexed sellerAgentId, uint256 timestamp)",
+  "event ReservationRevoked(uint256 indexed listingId, uint256 indexed inquiryId, uint256 indexed sellerAgentId, string reasonCode, uint256 timestamp)",
+  "event InquiryWithdrawn(uint256 indexed inquiryId, uint256 indexed listingId, uint256 indexed buyerAgentId, uint256 timestamp)",
+  "event EscrowReleased(uint256 indexed listingId, uint256 indexed inquiryId, uint256 indexed sellerAgentId, address recipient, uint256 amount, uint256 timestamp)",
+  "event EscrowRefunded(uint256 indexed listingId, uint256 indexed inquiryId, uint256 indexed buyerAgentId, address recipient, uint256 amount, uint256 timestamp)",
+]);
+
+/**
+ * Raw contract log as returned by an event source
+ */
+export interface MarketplaceLog {
+  topics: string[];
+  data: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Batch of logs in chain order, plus the cursor to resume after them
+ */
+export interface MarketplaceLogBatch {
+  logs: MarketplaceLog[];
+  nextCursor: string | null; // null when the source has nothing new
+}
+
+/**
+ * Pluggable source of Marketplace contract logs
+ * Cursors are opaque strings owned by the source.
+ */
+export interface MarketplaceEventSource {
+  /** Stable name, used as the SyncCursor key */
+  readonly name: string;
+  fetchLogs(cursor: string | null, limit: number): Promise<MarketplaceLogBatch>;
+}
+
+/**
+ * Hedera Mirror Node event source
+ * Pages are followed through the mirror node's links.next, which carries the
+ * position within a timestamp, so many logs sharing one timestamp never stall.
+ * Cursor format: the links.next path of the last page, or
+ * "<consensusTimestamp>:<logIndex>" of the last processed log once there is none
+ */
+export class MirrorNodeEventSource implements MarketplaceEventSource {
+  readonly name: string;
+
+  constructor(private mirrorNodeUrl: string, private contractId: string) {
+    this.name = `mirror:${contractId}`;
+  }
+
+  async fetchLogs(cursor: string | null, limit: number): Promise<MarketplaceLogBatch> {
+    let url: string;
+    let after: { timestamp: string; index: number } | null = null;
+
+    if (cursor?.startsWith("/")) {
+      url = `${this.mirrorNodeUrl}${cursor}`;
+    } else {
+      const query = new URLSearchParams({ order: "asc", limit: String(limit) });
+      if (cursor) {
+        const [timestamp, index] = cursor.split(":");
+        after = { timestamp, index: Number(index) };
+        // gte: a transaction's logs share one timestamp and may straddle a page boundary
+        query.set("timestamp", `gte:${timestamp}`);
+      }
+      url = `${this.mirrorNodeUrl}/api/v1/contracts/${this.contractId}/results/logs?${query}`;
+    }
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Mirror Node request failed: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      logs?: Array<{
+        data: string;
+        index: number;
+        timestamp: string;
+        topics: string[];
+        transaction_hash: string;
+      }>;
+      links?: { next: string | null };
+    };
+
+    const entries = (data.logs || []).filter(
+      (log) => !after || log.timestamp !== after.timestamp || log.index > after.index
+    );
+    const next = data.links?.next ?? null;
+
+    if (entries.length === 0 && !next) {
+      return { logs: [], nextCursor: null };
+    }
+
+    const last = entries[entries.length - 1];
+    return {
+      logs: entries.map((log) => ({
+        topics: log.topics,
+        data: log.data,
+        transactionHash: log.transaction_hash,
+        logIndex: log.index,
+      })),
+      nextCursor: next ?? `${last.timestamp}:${last.index}`,
+    };
+  }
+}
+
+/**
+ * JSON-RPC event source (eth_getLogs), e.g. a local hardhat node or Hashio relay
+ * Cursor format: last fully processed block number
+ */
+export class JsonRpcEventSource implements MarketplaceEventSource {
+  readonly name: string;
+
+  constructor(private rpcUrl: string, private contractAddress: string) {
+    this.name = `rpc:${contractAddress.toLowerCase()}`;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(this.rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`JSON-RPC request failed: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { result?: T; error?: { message: string } };
+    if (data.error) {
+      throw new Error(`JSON-RPC ${method} failed: ${data.error.message}`);
+    }
+    return data.result as T;
+  }
+
+  // Block ranges are processed whole, so `limit` is not applied here
+  async fetchLogs(cursor: string | null, _limit: number): Promise<MarketplaceLogBatch> {
+    const latestBlock = parseInt(await this.rpc<string>("eth_blockNumber", []), 16);
+    const fromBlock = cursor ? Number(cursor) + 1 : 0;
+
+    if (fromBlock > latestBlock) {
+      return { logs: [], nextCursor: null };
+    }
+
+    const toBlock = Math.min(latestBlock, fromBlock + SYNC_CONFIG.RPC_BLOCK_RANGE - 1);
+    const logs = await this.rpc<
+      Array<{ topics: string[]; data: string; transactionHash: string; logIndex: string; blockNumber: string }>
+    >("eth_getLogs", [
+      {
+        address: this.contractAddress,
+        fromBlock: `0x${fromBlock.toString(16)}`,
+        toBlock: `0x${toBlock.toString(16)}`,
+      },
+    ]);
+
+    return {
+      logs: logs.map((log) => ({
+        topics: log.topics,
+        data: log.data,
+        transactionHash: log.transactionHash,
+        logIndex: parseInt(log.logIndex, 16),
+      })),
+      nextCursor: String(toBlock),
+    };
+  }
+}
+
+/**
+ * Result of a single sync pass
+ */
+export interface SyncResult {
+  processed: number;
+  skipped: number;
+  divergences: number;
+  cursor: string | null;
+}
+
+// tinybar (uint256) to HBAR
+function toHbar(value: { toString(): string }): number {
+  return Number(value.toString()) / 100_000_000;
+}
+
+export class MarketplaceSyncService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private divergenceCount = 0;
+
+  constructor(private source: MarketplaceEventSource) {}
+
+  /**
+   * Start polling the event source in the background
+   */
+  start(intervalMs: number = SYNC_CONFIG.INTERVAL_MS) {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`🔁 Marketplace sync started (${this.source.name}, every ${intervalMs}ms)`);
+
+    const tick = async () => {
+      try {
+        const result = await this.syncOnce();
+        if (result.processed > 0 || result.divergences > 0) {
+          console.log(
+            `🔁 Marketplace sync: ${result.processed} events applied, ${result.skipped} skipped, ${result.divergences} divergences (cursor ${result.cursor})`
+          );
+        }
+      } catch (error) {
+        console.error("❌ Marketplace sync failed:", error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop background polling
+   */
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch and apply events until the source is drained
+   * The cursor is persisted after every batch, so a crash replays at most one batch.
+   */
+  async syncOnce(): Promise<SyncResult> {
+    if (this.running) {
+      return { processed: 0, skipped: 0, divergences: 0, cursor: null };
+    }
+    this.running = true;
+
+    const result: SyncResult = { processed: 0, skipped: 0, divergences: 0, cursor: null };
+    this.divergenceCount = 0;
+
+    try {
+      const saved = await prisma.syncCursor.findUnique({ where: { id: this.source.name } });
+      let cursor = saved?.cursor ?? null;
+
+      while (true) {
+        const batch = await this.source.fetchLogs(cursor, SYNC_CONFIG.BATCH_SIZE);
+        if (batch.nextCursor === null) {
+          break;
+        }
+
+        for (const log of batch.logs) {
+          const applied = await this.applyLog(log);
+          if (applied) {
+            result.processed++;
+          } else {
+            result.skipped++;
+          }
+        }
+
+        cursor = batch.nextCursor;
+        await prisma.syncCursor.upsert({
+          where: { id: this.source.name },
+          create: { id: this.source.name, cursor },
+          update: { cursor },
+        });
+      }
+
+      result.cursor = cursor;
+      result.divergences = this.divergenceCount;
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Decode a log and apply it to the DB
+   * Returns false for logs that are not indexed Marketplace events.
+   */
+  private async applyLog(log: MarketplaceLog): Promise<boolean> {
+    let event;
+    try {
+      event = marketplaceEvents.parseLog({ topics: log.topics, data: log.data });
+    } catch {
+      // EscrowDeposited (covered by InquirySubmitted) and other events not indexed here
+      return false;
+    }
+
+    const args = event.args;
+    const tx = log.transactionHash;
+
+    switch (event.name) {
+      case "ListingCreated":
+        await this.onListingCreated(tx, {
+          listingId: args.listingId.toString(),
+          sellerAgentId: Number(args.sellerAgentId.toString()),
+          title: args.title,
+          basePrice: toHbar(args.basePrice),
+          expectedPrice: toHbar(args.expectedPrice),
+        });
+        return true;
+      case "InquirySubmitted":
+        await this.onInquirySubmitted(tx, {
+          inquiryId: args.inquiryId.toString(),
+          listingId: args.listingId.toString(),
+          buyerAgentId: Number(args.buyerAgentId.toString()),
+          offerPrice: toHbar(args.offerPrice),
+          message: args.message,
+        });
+        return true;
+      case "ReservationGranted":
+        await this.onReservationGranted(tx, {
+          listingId: args.listingId.toString(),
+          inquiryId: args.inquiryId.toString(),
+          buyerAgentId: Number(args.buyerAgentId.toString()),
+          reasonCode: args.reasonCode,
+        });
+        return true;
+      case "ListingCompleted":
+        await this.onListingCompleted(tx, {
+          listingId: args.listingId.toString(),
+          inquiryId: args.inquiryId.toString(),
+        });
+        return true;
+      case "ListingCancelled":
+        await this.onListingCancelled(tx, {
+          listingId: args.listingId.toString(),
+          inquiryId: args.inquiryId.toString(),
+        });
+        return true;
+      case "ReservationRevoked":
+        await this.onReservationRevoked(tx, {
+          listingId: args.listingId.toString(),
+          inquiryId: args.inquiryId.toString(),
+          reasonCode: args.reasonCode,
+        });
+        return true;
+      case "InquiryWithdrawn":
+        await this.onInquiryWithdrawn(tx, { inquiryId: args.inquiryId.toString() });
+        return true;
+      case "EscrowReleased":
+      case "EscrowRefunded":
+        await this.onEscrowSettled(event.name, tx, {
+          inquiryId: args.inquiryId.toString(),
+          escrowAmount: toHbar(args.amount),
+        });
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private async reportDivergence(params: {
+    eventName: string;
+    entityType: "listing" | "inquiry";
+    entityId: string;
+    field: string;
+    dbValue: unknown;
+    chainValue: unknown;
+    transactionHash: string;
+  }) {
+    this.divergenceCount++;
+    console.warn(
+      `⚠️ Sync divergence on ${params.entityType} ${params.entityId} (${params.eventName}): ${params.field} db=${params.dbValue} chain=${params.chainValue}`
+    );
+
+    await prisma.syncDivergence.create({
+      data: {
+        source: this.source.name,
+        eventName: params.eventName,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        field: params.field,
+        dbValue: params.dbValue === null || params.dbValue === undefined ? null : String(params.dbValue),
+        chainValue: params.chainValue === null || params.chainValue === undefined ? null : String(params.chainValue),
+        transactionHash: params.transactionHash,
+      },
+    });
+  }
+
+  /**
+   * Compare DB fields with on-chain values and report each mismatch
+   */
+  private async compareFields(
+    eventName: string,
+    entityType: "listing" | "inquiry",
+    entityId: string,
+    transactionHash: string,
+    dbRow: Record<string, unknown>,
+    chain: Record<string, unknown>
+  ): Promise<boolean> {
+    let diverged = false;
+    for (const [field, chainValue] of Object.entries(chain)) {
+      const dbValue = dbRow[field];
+      const equal =
+        typeof chainValue === "number" && typeof dbValue === "number"
+          ? Math.abs(chainValue - dbValue) < 0.0001
+          : dbValue === chainValue;
+      if (!equal) {
+        diverged = true;
+        await this.reportDivergence({ eventName, entityType, entityId, field, dbValue, chainValue, transactionHash });
+      }
+    }
+    return diverged;
+  }
+
+  private async onListingCreated(
+    transactionHash: string,
+    chain: { listingId: string; sellerAgentId: number; title: string; basePrice: number; expectedPrice: number }
+  ) {
+    const { listingId, ...fields } = chain;
+    const existing = await prisma.listing.findUnique({ where: { listingId } });
+
+    if (existing) {
+      const diverged = await this.compareFields("ListingCreated", "listing", listingId, transactionHash, existing, fields);
+      if (diverged) {
+        await prisma.listing.update({ where: { listingId }, data: fields });
+      }
+      return;
+    }
+
+    await prisma.listing.create({
+      data: {
+        listingId,
+        ...fields,
+        description: "", // ListingCreated does not carry the description
+        status: "OPEN",
+        transactionId: transactionHash,
+      },
+    });
+    console.log(`📥 Indexed listing ${listingId} from chain`);
+
+    try {
+      await embedListing({ listingId, title: chain.title, description: "" });
+    } catch (embedError) {
+      console.error(`Failed to embed indexed listing ${listingId}:`, embedError);
+    }
+
+    // Same NegotiationRoom bootstrap as createListing
+    try {
+      const existingRoom = await prisma.negotiationRoom.findUnique({ where: { listingId } });
+      if (!existingRoom) {
+        const a2aInfo = await getAgentA2AEndpoint(chain.sellerAgentId);
+        await prisma.negotiationRoom.create({
+          data: {
+            listingId,
+            sellerAgentId: chain.sellerAgentId,
+            sellerA2AEndpoint: a2aInfo.a2aEndpoint,
+            status: "WAITING",
+          },
+        });
+      }
+    } catch (roomError) {
+      console.error(`Failed to create NegotiationRoom for indexed listing ${listingId}:`, roomError);
+    }
+  }
+
+  private async onInquirySubmitted(
+    transactionHash: string,
+    chain: { inquiryId: string; listingId: string; buyerAgentId: number; offerPrice: number; message: string }
+  ) {
+    const { inquiryId, ...fields } = chain;
+
+    const listing = await prisma.listing.findUnique({ where: { listingId: chain.listingId } });
+    if (!listing) {
+      await this.reportDivergence({
+        eventName: "InquirySubmitted",
+        entityType: "listing",
+        entityId: chain.listingId,
+        field: "row",
+        dbValue: null,
+        chainValue: "exists",
+        transactionHash,
+      });
+      return;
+    }
+
+    const existing = await prisma.inquiry.findUnique({ where: { inquiryId } });
+
+    if (existing) {
+      const diverged = await this.compareFields("InquirySubmitted", "inquiry", inquiryId, transactionHash, existing, fields);
+      if (diverged) {
+        await prisma.inquiry.update({ where: { inquiryId }, data: fields });
+      }
+      return;
+    }
+
+    // createInquiry deposits offerPrice into escrow in the same transaction
+    await prisma.inquiry.create({
+      data: {
+        inquiryId,
+        ...fields,
+        status: "PENDING",
+        transactionId: transactionHash,
+        escrowStatus: chain.offerPrice > 0 ? "HELD" : "NONE",
+        escrowAmount: chain.offerPrice,
+        escrowTxId: chain.offerPrice > 0 ? transactionHash : null,
+      },
+    });
+    console.log(`📥 Indexed inquiry ${inquiryId} from chain`);
+  }
+
+  /**
+   * Load a listing for a state transition, reporting it if missing
+   */
+  private async findListingForTransition(eventName: string, listingId: string, transactionHash: string) {
+    const listing = await prisma.listing.findUnique({ where: { listingId } });
+    if (!listing) {
+      await this.reportDivergence({
+        eventName,
+        entityType: "listing",
+        entityId: listingId,
+        field: "row",
+        dbValue: null,
+        chainValue: "exists",
+        transactionHash,
+      });
+    }
+    return listing;
+  }
+
+  private async onReservationGranted(
+    transactionHash: string,
+    chain: { listingId: string; inquiryId: string; buyerAgentId: number; reasonCode: string }
+  ) {
+    const listing = await this.findListingForTransition("ReservationGranted", chain.listingId, transactionHash);
+    if (!listing) {
+      return;
+    }
+
+    const inquiry = await prisma.inquiry.findUnique({ where: { inquiryId: chain.inquiryId } });
+    if (!inquiry) {
+      await this.reportDivergence({
+        eventName: "ReservationGranted",
+        entityType: "inquiry",
+        entityId: chain.inquiryId,
+        field: "row",
+        dbValue: null,
+        chainValue: "exists",
+        transactionHash,
+      });
+      return;
+    }
+
+    if (inquiry.status !== "ACCEPTED") {
+      await prisma.inquiry.update({ where: { inquiryId: chain.inquiryId }, data: { status: "ACCEPTED" } });
+    }
+
+    if (listing.status === "RESERVED" && listing.reservedInquiryId === chain.inquiryId) {
+      return;
+    }
+
+    await prisma.listing.update({
+      where: { listingId: chain.listingId },
+      data: {
+        status: "RESERVED",
+        reservedInquiryId: chain.inquiryId,
+        escrowStatus: inquiry.escrowAmount > 0 ? "HELD" : "NONE",
+        escrowAmount: inquiry.escrowAmount,
+        escrowTxId: inquiry.escrowTxId,
+      },
+    });
+
+    await emitListingStatusChanged(chain.listingId, {
+      status: "RESERVED",
+      inquiryId: chain.inquiryId,
+      buyerAgentId: chain.buyerAgentId,
+      reasonCode: chain.reasonCode,
+      transactionId: transactionHash,
+    });
+  }
+
+  private async onListingCompleted(transactionHash: string, chain: { listingId: string; inquiryId: string }) {
+    const listing = await this.findListingForTransition("ListingCompleted", chain.listingId, transactionHash);
+    if (!listing || listing.status === "COMPLETED") {
+      return;
+    }
+
+    const released = !!listing.escrowAmount;
+    await prisma.listing.update({
+      where: { listingId: chain.listingId },
+      data: {
+        status: "COMPLETED",
+        reservedInquiryId: chain.inquiryId,
+        ...(released && { escrowStatus: "RELEASED", escrowTxId: transactionHash }),
+      },
+    });
+
+    if (released) {
+      await prisma.inquiry.updateMany({
+        where: { inquiryId: chain.inquiryId },
+        data: { escrowStatus: "RELEASED", escrowTxId: transactionHash },
+      });
+    }
+
+    await emitListingStatusChanged(chain.listingId, {
+      status: "COMPLETED",
+      inquiryId: chain.inquiryId,
+      escrowReleased: listing.escrowAmount ?? 0,
+      transactionId: transactionHash,
+    });
+  }
+
+  private async onListingCancelled(transactionHash: string, chain: { listingId: string; inquiryId: string }) {
+    const listing = await this.findListingForTransition("ListingCancelled", chain.listingId, transactionHash);
+    if (!listing || listing.status === "CANCELLED") {
+      return;
+    }
+
+    // inquiryId is 0 when cancelled from OPEN
+    const reservedInquiryId = chain.inquiryId !== "0" ? chain.inquiryId : null;
+    const refunded = !!reservedInquiryId && !!listing.escrowAmount;
+
+    await prisma.listing.update({
+      where: { listingId: chain.listingId },
+      data: {
+        status: "CANCELLED",
+        ...(refunded && { escrowStatus: "REFUNDED", escrowTxId: transactionHash }),
+      },
+    });
+
+    if (reservedInquiryId && refunded) {
+      await prisma.inquiry.updateMany({
+        where: { inquiryId: reservedInquiryId },
+        data: { escrowStatus: "REFUNDED", escrowTxId: transactionHash },
+      });
+    }
+
+    await emitListingStatusChanged(chain.listingId, {
+      status: "CANCELLED",
+      inquiryId: reservedInquiryId,
+      escrowRefunded: refunded ? listing.escrowAmount : 0,
+      transactionId: transactionHash,
+    });
+  }
+
+  private async onReservationRevoked(
+    transactionHash: string,
+    chain: { listingId: string; inquiryId: string; reasonCode: string }
+  ) {
+    const listing = await this.findListingForTransition("ReservationRevoked", chain.listingId, transactionHash);
+    if (!listing) {
+      return;
+    }
+
+    // Already applied: listing reopened and this inquiry's escrow refunded
+    const inquiry = await prisma.inquiry.findUnique({ where: { inquiryId: chain.inquiryId } });
+    if (listing.status === "OPEN" && listing.reservedInquiryId === null && inquiry?.escrowStatus !== "HELD") {
+      return;
+    }
+
+    const refunded = !!inquiry?.escrowAmount;
+    await prisma.listing.update({
+      where: { listingId: chain.listingId },
+      data: {
+        status: "OPEN",
+        reservedInquiryId: null,
+        ...(refunded && { escrowStatus: "REFUNDED", escrowTxId: transactionHash }),
+      },
+    });
+
+    if (refunded) {
+      await prisma.inquiry.update({
+        where: { inquiryId: chain.inquiryId },
+        data: { escrowStatus: "REFUNDED", escrowTxId: transactionHash },
+      });
+    }
+
+    await emitListingStatusChanged(chain.listingId, {
+      status: "OPEN",
+      inquiryId: chain.inquiryId,
+      reasonCode: chain.reasonCode,
+      escrowRefunded: refunded ? inquiry?.escrowAmount : 0,
+      transactionId: transactionHash,
+    });
+  }
+
+  /**
+   * Load an inquiry for a state transition, reporting it if missing
+   */
+  private async findInquiryForTransition(eventName: string, inquiryId: string, transactionHash: string) {
+    const inquiry = await prisma.inquiry.findUnique({ where: { inquiryId } });
+    if (!inquiry) {
+      await this.reportDivergence({
+        eventName,
+        entityType: "inquiry",
+        entityId: inquiryId,
+        field: "row",
+        dbValue: null,
+        chainValue: "exists",
+        transactionHash,
+      });
+    }
+    return inquiry;
+  }
+
+  private async onInquiryWithdrawn(transactionHash: string, chain: { inquiryId: string }) {
+    const inquiry = await this.findInquiryForTransition("InquiryWithdrawn", chain.inquiryId, transactionHash);
+    if (!inquiry || inquiry.status === "WITHDRAWN") {
+      return;
+    }
+
+    await prisma.inquiry.update({ where: { inquiryId: chain.inquiryId }, data: { status: "WITHDRAWN" } });
+    console.log(`📥 Indexed withdrawal of inquiry ${chain.inquiryId} from chain`);
+  }
+
+  /**
+   * EscrowReleased / EscrowRefunded: the inquiry's deposit left the contract
+   * Listing escrow fields are updated by the listing transition in the same transaction.
+   */
+  private async onEscrowSettled(
+    eventName: "EscrowReleased" | "EscrowRefunded",
+    transactionHash: string,
+    chain: { inquiryId: string; escrowAmount: number }
+  ) {
+    const escrowStatus = eventName === "EscrowReleased" ? "RELEASED" : "REFUNDED";
+
+    const inquiry = await this.findInquiryForTransition(eventName, chain.inquiryId, transactionHash);
+    if (!inquiry) {
+      return;
+    }
+
+    await this.compareFields(eventName, "inquiry", chain.inquiryId, transactionHash, inquiry, {
+      escrowAmount: chain.escrowAmount,
+    });
+
+    if (inquiry.escrowStatus === escrowStatus && inquiry.escrowAmount === chain.escrowAmount) {
+      return;
+    }
+
+    await prisma.inquiry.update({
+      where: { inquiryId: chain.inquiryId },
+      data: { escrowStatus, escrowAmount: chain.escrowAmount, escrowTxId: transactionHash },
+    });
+  }
+}
+
+/**
+ * Create the sync service from environment configuration
+ * MARKETPLACE_SYNC_RPC_URL + MARKETPLACE_CONTRACT_ADDRESS select the JSON-RPC source,
+ * otherwise the Hedera Mirror Node for HEDERA_NETWORK is used with MARKETPLACE_CONTRACT_ID.
+ */
+export async function createMarketplaceSync(source?: MarketplaceEventSource) {
+  if (source) {
+    return new MarketplaceSyncService(source);
+  }
+
+  const rpcUrl = process.env.MARKETPLACE_SYNC_RPC_URL;
+  const contractAddress = process.env.MARKETPLACE_CONTRACT_ADDRESS;
+  if (rpcUrl && contractAddress) {
+    return new MarketplaceSyncService(new JsonRpcEventSource(rpcUrl, contractAddress));
+  }
+
+  const contractId = process.env.MARKETPLACE_CONTRACT_ID;
+  if (!contractId) {
+    throw new Error("MARKETPLACE_CONTRACT_ID must be set");
+  }
+
+  const { mirrorNodeUrl } = await import("../utils/hedera.js");
+  return new MarketplaceSyncService(new MirrorNodeEventSource(mirrorNodeUrl, contractId));
+}
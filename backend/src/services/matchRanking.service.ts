@@ -0,0 +1,222 @@
+/**
+ * Match Ranking Service
+ * Orders the listings semantic search matched for a BuyRequest.
+ *
+ * Each candidate gets four component scores (0-100):
+ * - semantic: the semantic search score
+ * - priceFit: how low the seller's price range sits in the buyer's budget
+ * - reputation: the seller agent's cached ERC-8004 reputation
+ * - experience: how many rated deals the seller agent has completed
+ * The total is their weighted average. Weights come from MATCH_RANKING_WEIGHTS
+ * (JSON, defaults if invalid) and can be overridden per BuyRequest.
+ */
+
+// Agent.reputationScore is on a 0-1000 scale
+export const MAX_REPUTATION_SCORE = 1000;
+
+/**
+ * Relative weight of each component score (need not sum to 1)
+ */
+export interface MatchRankingWeights {
+  semantic: number;
+  priceFit: number;
+  reputation: number;
+  experience: number;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: MatchRankingWeights = {
+  semantic: 0.5,
+  priceFit: 0.2,
+  reputation: 0.2,
+  experience: 0.1,
+};
+
+// Reputation component of sellers nobody has rated yet
+const UNRATED_REPUTATION = 50;
+// Rated deals at which the experience component reaches 50
+const EXPERIENCE_HALF_DEALS = 5;
+
+const RANKING_WEIGHTS = parseRankingWeights(process.env.MATCH_RANKING_WEIGHTS);
+
+export interface RankingCandidate {
+  listingId: string;
+  sellerAgentId: number;
+  basePrice: number;
+  expectedPrice: number;
+  /** Semantic search score (0-100) */
+  semanticScore: number;
+  /** Semantic search explanation */
+  reason: string;
+}
+
+export interface SellerReputation {
+  /** Cached Agent.reputationScore (0-1000) */
+  reputationScore: number;
+  /** Rated deals (Agent.totalTransactions) */
+  totalTransactions: number;
+}
+
+/**
+ * Why a candidate ranked where it did (persisted on the BuyRequest)
+ */
+export interface MatchScoreBreakdown {
+  listingId: string;
+  sellerAgentId: number;
+  reason: string;
+  semantic: number;
+  priceFit: number;
+  reputation: number;
+  experience: number;
+  /** Seller's reputationScore; null while unrated */
+  reputationScore: number | null;
+  totalTransactions: number;
+  total: number;
+}
+
+export interface MatchRanking {
+  weights: MatchRankingWeights;
+  /** Best first */
+  candidates: MatchScoreBreakdown[];
+}
+
+/**
+ * Check and complete a (partial) set of ranking weights
+ * @throws Error if a weight is not a non-negative number, or all are 0
+ */
+export function resolveRankingWeights(
+  overrides: Partial<MatchRankingWeights> = {},
+  base: MatchRankingWeights = DEFAULT_RANKING_WEIGHTS
+): MatchRankingWeights {
+  const weights = { ...base };
+
+  for (const [name, value] of Object.entries(overrides)) {
+    if (!(name in weights)) {
+      throw new Error(`Unknown ranking weight "${name}" (expected ${Object.keys(weights).join(", ")})`);
+    }
+    if (typeof value !== "number" || !isFinite(value) || value < 0) {
+      throw new Error(`Ranking weight "${name}" must be a non-negative number`);
+    }
+    weights[name as keyof MatchRankingWeights] = value;
+  }
+
+  if (Object.values(weights).every((value) => value === 0)) {
+    throw new Error("At least one ranking weight must be positive");
+  }
+
+  return weights;
+}
+
+/**
+ * Read MATCH_RANKING_WEIGHTS
+ * An invalid value is logged and the defaults are used, so a bad setting
+ * never keeps the server from starting.
+ */
+export function parseRankingWeights(raw: string | undefined): MatchRankingWeights {
+  if (!raw) {
+    return DEFAULT_RANKING_WEIGHTS;
+  }
+
+  try {
+    let overrides: unknown;
+    try {
+      overrides = JSON.parse(raw);
+    } catch {
+      throw new Error("MATCH_RANKING_WEIGHTS must be a JSON object of weights");
+    }
+    if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+      throw new Error("MATCH_RANKING_WEIGHTS must be a JSON object of weights");
+    }
+
+    return resolveRankingWeights(overrides as Partial<MatchRankingWeights>);
+  } catch (error) {
+    console.warn(`⚠️ Ignoring MATCH_RANKING_WEIGHTS, using the default weights: ${(error as Error).message}`);
+    return DEFAULT_RANKING_WEIGHTS;
+  }
+}
+
+/**
+ * Ranking weights for a BuyRequest: MATCH_RANKING_WEIGHTS with its overrides applied
+ */
+export function getRankingWeights(overrides?: Partial<MatchRankingWeights>): MatchRankingWeights {
+  return resolveRankingWeights(overrides, RANKING_WEIGHTS);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Where the middle of the seller's [expectedPrice, basePrice] range sits in
+ * the buyer's budget: 100 at minPrice (or below), 0 at maxPrice (or above)
+ */
+function priceFitScore(budget: { minPrice: number; maxPrice: number }, candidate: RankingCandidate): number {
+  const sellerMid = (candidate.basePrice + candidate.expectedPrice) / 2;
+  const span = budget.maxPrice - budget.minPrice;
+
+  if (span <= 0) {
+    return sellerMid <= budget.maxPrice ? 100 : 0;
+  }
+  return clamp(((budget.maxPrice - sellerMid) / span) * 100, 0, 100);
+}
+
+/**
+ * Whether a seller has any rated deals (unrated agents keep the default reputationScore)
+ */
+export function isRated(reputation: SellerReputation | undefined): reputation is SellerReputation {
+  return !!reputation && reputation.totalTransactions > 0;
+}
+
+/**
+ * Score and order candidates, best first
+ * Ties keep the semantic order.
+ */
+export function rankCandidates(
+  budget: { minPrice: number; maxPrice: number },
+  candidates: RankingCandidate[],
+  reputations: Map<number, SellerReputation>,
+  weights: MatchRankingWeights
+): MatchScoreBreakdown[] {
+  const weightSum = weights.semantic + weights.priceFit + weights.reputation + weights.experience;
+
+  const scored = candidates.map((candidate) => {
+    const seller = reputations.get(candidate.sellerAgentId);
+    const rated = isRated(seller);
+    const totalTransactions = seller?.totalTransactions ?? 0;
+
+    const semantic = clamp(candidate.semanticScore, 0, 100);
+    const priceFit = priceFitScore(budget, candidate);
+    const reputation = rated
+      ? clamp((seller.reputationScore / MAX_REPUTATION_SCORE) * 100, 0, 100)
+      : UNRATED_REPUTATION;
+    const experience = (totalTransactions / (totalTransactions + EXPERIENCE_HALF_DEALS)) * 100;
+
+    const total =
+      (semantic * weights.semantic +
+        priceFit * weights.priceFit +
+        reputation * weights.reputation +
+        experience * weights.experience) /
+      weightSum;
+
+    return {
+      listingId: candidate.listingId,
+      sellerAgentId: candidate.sellerAgentId,
+      reason: candidate.reason,
+      semantic: round1(semantic),
+      priceFit: round1(priceFit),
+      reputation: round1(reputation),
+      experience: round1(experience),
+      reputationScore: rated ? seller.reputationScore : null,
+      totalTransactions,
+      total: round1(total),
+    };
+  });
+
+  return scored
+    .map((breakdown, index) => ({ breakdown, index }))
+    .sort((a, b) => b.breakdown.total - a.breakdown.total || a.index - b.index)
+    .map(({ breakdown }) => breakdown);
+}
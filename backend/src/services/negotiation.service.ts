@@ -5,6 +5,7 @@
 
 import { PrismaClient } from "@prisma/client";
 import { io } from "../socket";
+import { cancelContextTasks } from "./a2a.service";
 
 const prisma = new PrismaClient();
 
@@ -18,6 +19,9 @@ export async function getNegotiationRoom(roomId: string) {
       messages: {
         orderBy: { createdAt: 'asc' },
       },
+      settlementSteps: {
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
 
@@ -28,6 +32,28 @@ export async function getNegotiationRoom(roomId: string) {
   return room;
 }
 
+/**
+ * Get a negotiation room on behalf of a user who owns its buyer or seller agent
+ * @throws Error containing "not found" or "not owned"
+ */
+export async function getOwnedNegotiationRoom(roomId: string, userId: string) {
+  const room = await getNegotiationRoom(roomId);
+
+  // buyerAgentId stays null until a buyer is matched
+  const participantIds = [room.buyerAgentId, room.sellerAgentId].filter((id): id is number => id !== null);
+  const participant = await prisma.agent.findFirst({
+    where: {
+      userId,
+      erc8004AgentId: { in: participantIds },
+    },
+  });
+  if (!participant) {
+    throw new Error(`NegotiationRoom ${roomId} is not owned by this user`);
+  }
+
+  return room;
+}
+
 /**
  * Get negotiation room by listing ID
  */
@@ -159,8 +185,9 @@ export async function sendMessage(params: {
 
 /**
  * Update room status
+ * Ending a room as CANCELLED or REJECTED also cancels the agents' unfinished A2A tasks for it.
  */
-export async function updateRoomStatus(roomId: string, status: 'WAITING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED') {
+export async function updateRoomStatus(roomId: string, status: 'WAITING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'REJECTED') {
   const room = await prisma.negotiationRoom.update({
     where: { id: roomId },
     data: { status },
@@ -172,5 +199,9 @@ export async function updateRoomStatus(roomId: string, status: 'WAITING' | 'ACTI
     status,
   });
 
+  if (status === 'CANCELLED' || status === 'REJECTED') {
+    await cancelContextTasks(roomId);
+  }
+
   return room;
 }
@@ -0,0 +1,112 @@
+/**
+ * Negotiation Policy Service
+ * Per-listing limits the seller agent's A2A executor enforces while negotiating.
+ * Listings without a stored policy use defaults derived from their prices.
+ */
+
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_MAX_ROUNDS = 5;
+
+export interface NegotiationPolicy {
+  listingId: string;
+  basePrice: number;
+  floorPrice: number;
+  targetPrice: number;
+  maxRounds: number;
+  autoAcceptPrice: number | null;
+  isDefault: boolean;
+}
+
+/**
+ * Get a listing and check the caller owns its seller agent
+ * @throws Error containing "not found" or "not owned"
+ */
+async function getOwnedListing(listingId: string, userId: string) {
+  const listing = await prisma.listing.findUnique({
+    where: { listingId },
+    include: { negotiationPolicy: true },
+  });
+
+  if (!listing) {
+    throw new Error(`Listing ${listingId} not found`);
+  }
+
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId: listing.sellerAgentId },
+    select: { userId: true },
+  });
+
+  if (!agent || agent.userId !== userId) {
+    throw new Error(`Listing ${listingId} is not owned by the current user`);
+  }
+
+  return listing;
+}
+
+/**
+ * Get the negotiation policy for a listing (seller only)
+ */
+export async function getNegotiationPolicy(listingId: string, userId: string): Promise<NegotiationPolicy> {
+  const listing = await getOwnedListing(listingId, userId);
+  const policy = listing.negotiationPolicy;
+
+  return {
+    listingId,
+    basePrice: listing.basePrice,
+    floorPrice: policy?.floorPrice ?? listing.basePrice,
+    targetPrice: policy?.targetPrice ?? listing.expectedPrice,
+    maxRounds: policy?.maxRounds ?? DEFAULT_MAX_ROUNDS,
+    autoAcceptPrice: policy ? policy.autoAcceptPrice : null,
+    isDefault: !policy,
+  };
+}
+
+/**
+ * Create or update the negotiation policy for a listing (seller only)
+ * The floor can't go below basePrice, so the agent can never accept under the on-chain price.
+ */
+export async function updateNegotiationPolicy(
+  listingId: string,
+  userId: string,
+  updates: {
+    floorPrice?: number;
+    targetPrice?: number;
+    maxRounds?: number;
+    autoAcceptPrice?: number | null;
+  }
+): Promise<NegotiationPolicy> {
+  const current = await getNegotiationPolicy(listingId, userId);
+
+  const next = {
+    floorPrice: updates.floorPrice ?? current.floorPrice,
+    targetPrice: updates.targetPrice ?? current.targetPrice,
+    maxRounds: updates.maxRounds ?? current.maxRounds,
+    autoAcceptPrice: updates.autoAcceptPrice !== undefined ? updates.autoAcceptPrice : current.autoAcceptPrice,
+  };
+
+  if (next.floorPrice < current.basePrice) {
+    throw new Error(`Invalid policy: floorPrice must be at least the listing's basePrice (${current.basePrice} HBAR)`);
+  }
+  if (next.targetPrice < next.floorPrice) {
+    throw new Error("Invalid policy: targetPrice must be at least floorPrice");
+  }
+  if (!Number.isInteger(next.maxRounds) || next.maxRounds < 1) {
+    throw new Error("Invalid policy: maxRounds must be a positive integer");
+  }
+  if (next.autoAcceptPrice !== null && next.autoAcceptPrice < next.floorPrice) {
+    throw new Error("Invalid policy: autoAcceptPrice must be at least floorPrice");
+  }
+
+  await prisma.listingNegotiationPolicy.upsert({
+    where: { listingId },
+    create: { listingId, ...next },
+    update: next,
+  });
+
+  console.log(`📝 Updated negotiation policy for listing ${listingId}`);
+
+  return getNegotiationPolicy(listingId, userId);
+}
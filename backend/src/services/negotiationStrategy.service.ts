@@ -0,0 +1,316 @@
+/**
+ * Negotiation Strategy Service
+ * Buyer-side concession strategies selected per BuyRequest.
+ *
+ * A strategy decides the buyer's next move (price and accept/counter/reject);
+ * the LLM is only used to phrase that move for the seller. Apart from
+ * llm_guided, strategies are pure functions of the negotiation state, so they
+ * can be tuned and tested without OpenAI.
+ */
+
+import type { NegotiationOffer } from "./a2a.service";
+
+export const NEGOTIATION_STRATEGIES = ["fixed_step", "time_decay", "llm_guided"] as const;
+export type NegotiationStrategyName = (typeof NEGOTIATION_STRATEGIES)[number];
+
+export const DEFAULT_NEGOTIATION_STRATEGY: NegotiationStrategyName = "time_decay";
+
+/**
+ * Tunable strategy parameters (all optional)
+ */
+export interface NegotiationStrategyParams {
+  /** Opening offer as a fraction of the seller's asking price (default 0.7) */
+  openingRatio?: number;
+  /** fixed_step: fraction of the buyer's concession range given up per round (default 0.25) */
+  stepFraction?: number;
+  /** time_decay: concession curve; < 1 Boulware (concede late), > 1 conceder (concede early) (default 0.5) */
+  beta?: number;
+  /** Buyer rounds after which the strategy stops conceding and accepts or rejects (default 5) */
+  deadlineRounds?: number;
+}
+
+/**
+ * What the buyer knows when choosing its next move
+ */
+export interface NegotiationState {
+  /** 1-based buyer round */
+  round: number;
+  budget: { min: number; max: number };
+  listing: { basePrice: number; expectedPrice: number };
+  /** Latest price offered by the seller, if any */
+  sellerPrice?: number;
+  /** Buyer's previous offer, if any */
+  lastBuyerPrice?: number;
+}
+
+export interface NegotiationStrategy {
+  readonly name: NegotiationStrategyName;
+  nextOffer(state: NegotiationState): Promise<NegotiationOffer>;
+}
+
+const DEFAULT_PARAMS: Required<NegotiationStrategyParams> = {
+  openingRatio: 0.7,
+  stepFraction: 0.25,
+  beta: 0.5,
+  deadlineRounds: 5,
+};
+
+/**
+ * Round to 0.1 HBAR (the smallest step the agents are told to use)
+ */
+function roundPrice(price: number): number {
+  return Math.round(price * 10) / 10;
+}
+
+/**
+ * Buyer's opening price: a fraction of the asking price, clamped to the budget
+ */
+function openingPrice(state: NegotiationState, params: Required<NegotiationStrategyParams>): number {
+  const asking = state.sellerPrice ?? state.listing.basePrice;
+  return Math.min(state.budget.max, Math.max(state.budget.min, asking * params.openingRatio));
+}
+
+/**
+ * Turn a target price into an offer
+ * Shared rules for every strategy:
+ * - accept when the seller's price is at or below the target
+ * - never go back on an earlier offer, never bid above the seller's price or the budget
+ * - at the deadline, accept anything within budget, otherwise reject
+ */
+export function decide(
+  state: NegotiationState,
+  target: number,
+  params: Required<NegotiationStrategyParams>
+): NegotiationOffer {
+  const { sellerPrice, lastBuyerPrice, budget } = state;
+  const atDeadline = state.round >= params.deadlineRounds;
+
+  if (sellerPrice !== undefined) {
+    if (sellerPrice <= target || (atDeadline && sellerPrice <= budget.max)) {
+      return { type: "accept", price: sellerPrice, currency: "HBAR" };
+    }
+    if (atDeadline) {
+      return { type: "reject", currency: "HBAR" };
+    }
+  }
+
+  let price = Math.min(target, budget.max);
+  if (lastBuyerPrice !== undefined) {
+    price = Math.max(price, lastBuyerPrice);
+  }
+  if (sellerPrice !== undefined) {
+    price = Math.min(price, sellerPrice);
+  }
+
+  return {
+    type: lastBuyerPrice === undefined ? "offer" : "counter_offer",
+    price: roundPrice(price),
+    currency: "HBAR",
+  };
+}
+
+/**
+ * Concede a fixed fraction of the range [opening, budget.max] each round
+ */
+export class FixedStepStrategy implements NegotiationStrategy {
+  readonly name = "fixed_step" as const;
+  private params: Required<NegotiationStrategyParams>;
+
+  constructor(params: NegotiationStrategyParams = {}) {
+    this.params = { ...DEFAULT_PARAMS, ...params };
+  }
+
+  async nextOffer(state: NegotiationState): Promise<NegotiationOffer> {
+    const opening = openingPrice(state, this.params);
+    const step = (state.budget.max - opening) * this.params.stepFraction;
+    const target = Math.min(state.budget.max, opening + step * (state.round - 1));
+    return decide(state, target, this.params);
+  }
+}
+
+/**
+ * Time-dependent concession: target = opening + (max - opening) * t^(1/beta)
+ * where t runs from 0 at the first round to 1 at the deadline
+ */
+export class TimeDecayStrategy implements NegotiationStrategy {
+  readonly name = "time_decay" as const;
+  private params: Required<NegotiationStrategyParams>;
+
+  constructor(params: NegotiationStrategyParams = {}) {
+    this.params = { ...DEFAULT_PARAMS, ...params };
+  }
+
+  async nextOffer(state: NegotiationState): Promise<NegotiationOffer> {
+    const opening = openingPrice(state, this.params);
+    const t = Math.min(1, (state.round - 1) / Math.max(1, this.params.deadlineRounds - 1));
+    const target = opening + (state.budget.max - opening) * Math.pow(t, 1 / this.params.beta);
+    return decide(state, target, this.params);
+  }
+}
+
+/**
+ * Asks the LLM for a target price, then applies the same guardrails as the
+ * deterministic strategies. Falls back to time_decay if the LLM is unavailable.
+ */
+export class LlmGuidedStrategy implements NegotiationStrategy {
+  readonly name = "llm_guided" as const;
+  private params: Required<NegotiationStrategyParams>;
+  private fallback: TimeDecayStrategy;
+
+  constructor(params: NegotiationStrategyParams = {}) {
+    this.params = { ...DEFAULT_PARAMS, ...params };
+    this.fallback = new TimeDecayStrategy(params);
+  }
+
+  async nextOffer(state: NegotiationState): Promise<NegotiationOffer> {
+    try {
+      const content = await completeChat(
+        "You are a pricing advisor for a buyer agent. Respond ONLY with JSON: {\"targetPrice\": number}",
+        `Budget: ${state.budget.min}-${state.budget.max} HBAR
+Seller's asking price: ${state.listing.basePrice} HBAR
+Seller's latest offer: ${state.sellerPrice ?? "none"} HBAR
+Buyer's previous offer: ${state.lastBuyerPrice ?? "none"} HBAR
+Round ${state.round} of ${this.params.deadlineRounds}
+
+What price should the buyer aim for this round?`,
+        { maxTokens: 50, temperature: 0.2, json: true }
+      );
+      const targetPrice = Number(JSON.parse(content).targetPrice);
+
+      if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+        throw new Error(`Invalid target price: ${content}`);
+      }
+
+      return decide(state, targetPrice, this.params);
+    } catch (error: any) {
+      console.warn(`⚠️ llm_guided strategy falling back to time_decay: ${error?.message || error}`);
+      return this.fallback.nextOffer(state);
+    }
+  }
+}
+
+/**
+ * Create a strategy by name
+ */
+export function createNegotiationStrategy(
+  name: string | null | undefined,
+  params: NegotiationStrategyParams = {}
+): NegotiationStrategy {
+  switch (name || DEFAULT_NEGOTIATION_STRATEGY) {
+    case "fixed_step":
+      return new FixedStepStrategy(params);
+    case "time_decay":
+      return new TimeDecayStrategy(params);
+    case "llm_guided":
+      return new LlmGuidedStrategy(params);
+    default:
+      throw new Error(`Unknown negotiation strategy: ${name}`);
+  }
+}
+
+/**
+ * Check a strategy name from user input
+ */
+export function isNegotiationStrategyName(value: unknown): value is NegotiationStrategyName {
+  return NEGOTIATION_STRATEGIES.includes(value as NegotiationStrategyName);
+}
+
+/**
+ * The part of an OpenAI chat completions response read here
+ */
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: { content: string | null };
+  }>;
+}
+
+/**
+ * Call the OpenAI chat completions API
+ */
+async function completeChat(
+  system: string,
+  prompt: string,
+  options: { maxTokens: number; temperature: number; json?: boolean }
+): Promise<string> {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!openaiApiKey) {
+    throw new Error("OPENAI_API_KEY not configured");
+  }
+
+  const openaiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${openaiApiKey}`,
+    },
+    body: JSON.stringify({
+      model: process.env.OPENAI_LARGE_MODEL || "gpt-4o-mini",
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt },
+      ],
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.json ? { response_format: { type: "json_object" } } : {}),
+    }),
+  });
+
+  if (!openaiResponse.ok) {
+    const errorText = await openaiResponse.text();
+    throw new Error(`OpenAI API error: ${openaiResponse.status} ${errorText}`);
+  }
+
+  const openaiData = await openaiResponse.json() as ChatCompletionResponse;
+  const content = openaiData.choices[0]?.message.content;
+  if (!content) {
+    throw new Error("OpenAI API returned no content");
+  }
+  return content.trim();
+}
+
+/**
+ * Template wording used when the LLM can't phrase an offer
+ */
+function templateMessage(offer: NegotiationOffer): string {
+  switch (offer.type) {
+    case "accept":
+      return `I accept your price of ${offer.price} HBAR. Deal!`;
+    case "reject":
+      return "Thank you for your time, but I can't go any higher. I'll pass on this one.";
+    default:
+      return `Would you accept ${offer.price} HBAR?`;
+  }
+}
+
+/**
+ * Write the buyer's message for a decided offer
+ * The LLM may only phrase the move; the price and type are fixed.
+ */
+export async function phraseOffer(
+  offer: NegotiationOffer,
+  context: { listingTitle: string; conversation: string }
+): Promise<string> {
+  const move =
+    offer.type === "reject"
+      ? "politely end the negotiation without a deal"
+      : offer.type === "accept"
+        ? `accept the seller's price of ${offer.price} HBAR`
+        : `propose exactly ${offer.price} HBAR`;
+
+  try {
+    return await completeChat(
+      "You are a professional buyer agent negotiating purchases. You write the message only; the decision is already made.",
+      `You are buying: ${context.listingTitle}
+
+CONVERSATION SO FAR:
+${context.conversation}
+
+Write your next message to the seller. You must ${move}.
+Do not mention any other price. Be concise (max 60 words) and professional.`,
+      { maxTokens: 200, temperature: 0.7 }
+    );
+  } catch (error: any) {
+    console.warn(`⚠️ Could not phrase offer with LLM, using template: ${error?.message || error}`);
+    return templateMessage(offer);
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Reputation Service
+ * Once a negotiation is COMPLETED, the buyer and seller can each rate the other.
+ * Feedback is posted to the ERC-8004 ReputationRegistry from the reviewer's
+ * custodial account, with a feedbackAuth signed by the rated agent's custodial
+ * signer (its NFT owner), which is never provisioned on the rated agent's behalf. The registry's aggregate is cached on Agent
+ * (reputationScore, totalTransactions) for discovery and ranking.
+ */
+
+import { PrivateKey } from "@hashgraph/sdk";
+import { PrismaClient } from "@prisma/client";
+import { erc8004Service } from "./erc8004.service";
+import { AgentSigner, findAgentSigner, getOwnedAgentSigner } from "./signing.service";
+
+const prisma = new PrismaClient();
+
+// tag1 of every feedback this marketplace posts; tag2 is the rated side ("seller"/"buyer")
+const FEEDBACK_TAG = "jimo-market-deal";
+const FEEDBACK_AUTH_TTL_MS = 60 * 60 * 1000;
+// Agent.reputationScore is on a 0-1000 scale, registry scores on 0-100
+const REPUTATION_SCORE_SCALE = 10;
+const RECENT_FEEDBACK_LIMIT = 20;
+
+// DealFeedback rows being posted in this process
+const postingFeedback = new Set<string>();
+
+interface DealFeedbackRecord {
+  id: string;
+  roomId: string;
+  reviewerAgentId: number;
+  subjectAgentId: number;
+  score: number;
+  comment: string | null;
+  status: string;
+  transactionId: string | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+function toFeedbackSummary(feedback: DealFeedbackRecord) {
+  return {
+    id: feedback.id,
+    roomId: feedback.roomId,
+    reviewerAgentId: feedback.reviewerAgentId,
+    subjectAgentId: feedback.subjectAgentId,
+    score: feedback.score,
+    comment: feedback.comment,
+    status: feedback.status,
+    transactionId: feedback.transactionId,
+    error: feedback.error,
+    createdAt: feedback.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Read an agent's aggregate from the ReputationRegistry and cache it on Agent
+ */
+export async function refreshAgentReputation(agentId: number) {
+  const summary = await erc8004Service.getReputationSummary(agentId);
+
+  // Unrated agents keep the default score
+  const reputationScore = summary.feedbackCount > 0 ? summary.averageScore * REPUTATION_SCORE_SCALE : undefined;
+
+  await prisma.agent.updateMany({
+    where: { erc8004AgentId: agentId },
+    data: {
+      ...(reputationScore !== undefined ? { reputationScore } : {}),
+      totalTransactions: summary.feedbackCount,
+    },
+  });
+
+  console.log(`⭐ Agent ${agentId} reputation: ${summary.averageScore}/100 from ${summary.feedbackCount} feedback`);
+
+  return summary;
+}
+
+/**
+ * Rate the other side of a completed negotiation
+ * A FAILED submission can be retried; a SUBMITTED one cannot be changed.
+ * If the rated agent has no signer yet, the feedback stays PENDING until
+ * settlement provisions one (see submitPendingFeedback).
+ * @throws Error containing "not found", "not owned" or "already submitted"
+ */
+export async function submitDealFeedback(params: {
+  roomId: string;
+  userId: string;
+  reviewerAgentId: number;
+  score: number;
+  comment?: string;
+}) {
+  if (!Number.isInteger(params.score) || params.score < 0 || params.score > 100) {
+    throw new Error("score must be an integer between 0 and 100");
+  }
+
+  const room = await prisma.negotiationRoom.findUnique({ where: { id: params.roomId } });
+  if (!room) {
+    throw new Error(`NegotiationRoom ${params.roomId} not found`);
+  }
+  if (room.status !== "COMPLETED") {
+    throw new Error(`Feedback opens once the negotiation is COMPLETED (room is ${room.status})`);
+  }
+
+  if (room.buyerAgentId === null) {
+    throw new Error(`NegotiationRoom ${room.id} has no buyer agent`);
+  }
+
+  const reviewerIsSeller = params.reviewerAgentId === room.sellerAgentId;
+  if (!reviewerIsSeller && params.reviewerAgentId !== room.buyerAgentId) {
+    throw new Error(`Agent ${params.reviewerAgentId} is not part of NegotiationRoom ${room.id}`);
+  }
+  const subjectAgentId: number = reviewerIsSeller ? room.buyerAgentId : room.sellerAgentId;
+
+  // Feedback is sent from the reviewer's account, so the caller must own it
+  const reviewer = await getOwnedAgentSigner(params.reviewerAgentId, params.userId);
+
+  const key = { roomId_reviewerAgentId: { roomId: room.id, reviewerAgentId: params.reviewerAgentId } };
+  const existing = await prisma.dealFeedback.findUnique({ where: key });
+  if (existing && existing.status !== "FAILED") {
+    throw new Error(`Feedback already submitted for NegotiationRoom ${room.id}`);
+  }
+
+  const comment = params.comment?.trim() || null;
+  const pending: DealFeedbackRecord = await prisma.dealFeedback.upsert({
+    where: key,
+    create: {
+      roomId: room.id,
+      reviewerAgentId: params.reviewerAgentId,
+      subjectAgentId,
+      score: params.score,
+      comment,
+    },
+    update: { score: params.score, comment, status: "PENDING", error: null },
+  });
+
+  // feedbackAuth must come from the rated agent's own signer; never provision one for it here
+  const owner = await findAgentSigner(subjectAgentId);
+  if (!owner) {
+    console.log(`⏳ Feedback for agent ${subjectAgentId} waits until it has a signer`);
+    return toFeedbackSummary(pending);
+  }
+
+  const feedback = await postFeedback(pending, reviewerIsSeller, reviewer, owner);
+  return toFeedbackSummary(feedback);
+}
+
+/**
+ * Post PENDING feedback left in a room whose agents now both have signers
+ * Called once settlement has provisioned them; failures are recorded, not thrown.
+ */
+export async function submitPendingFeedback(roomId: string) {
+  const room = await prisma.negotiationRoom.findUnique({ where: { id: roomId } });
+  if (!room) {
+    return;
+  }
+
+  const pending: DealFeedbackRecord[] = await prisma.dealFeedback.findMany({
+    where: { roomId, status: "PENDING" },
+  });
+
+  for (const feedback of pending) {
+    const reviewer = await findAgentSigner(feedback.reviewerAgentId);
+    const owner = await findAgentSigner(feedback.subjectAgentId);
+    if (!reviewer || !owner) {
+      continue;
+    }
+
+    await postFeedback(feedback, feedback.reviewerAgentId === room.sellerAgentId, reviewer, owner).catch(() => {
+      // Recorded as FAILED by postFeedback
+    });
+  }
+}
+
+/**
+ * Send one feedback to the ReputationRegistry and record the outcome
+ * @throws the registry error, after marking the feedback FAILED
+ */
+async function postFeedback(
+  feedback: DealFeedbackRecord,
+  reviewerIsSeller: boolean,
+  reviewer: AgentSigner,
+  owner: AgentSigner
+): Promise<DealFeedbackRecord> {
+  const key = { roomId_reviewerAgentId: { roomId: feedback.roomId, reviewerAgentId: feedback.reviewerAgentId } };
+  const subjectAgentId = feedback.subjectAgentId;
+
+  if (postingFeedback.has(feedback.id)) {
+    return feedback;
+  }
+  postingFeedback.add(feedback.id);
+
+  let submitted: DealFeedbackRecord;
+  try {
+    const clientAddress = `0x${PrivateKey.fromStringECDSA(reviewer.privateKey).publicKey.toEvmAddress()}`;
+    const lastIndex = await erc8004Service.getFeedbackLastIndex(subjectAgentId, clientAddress);
+
+    const feedbackAuth = erc8004Service.createFeedbackAuth({
+      agentId: subjectAgentId,
+      clientAddress,
+      indexLimit: lastIndex + 1,
+      expiresAt: new Date(Date.now() + FEEDBACK_AUTH_TTL_MS),
+      ownerPrivateKey: owner.privateKey,
+    });
+
+    const transactionId = await erc8004Service.giveFeedback(
+      {
+        agentId: subjectAgentId,
+        score: feedback.score,
+        tag1: FEEDBACK_TAG,
+        tag2: reviewerIsSeller ? "buyer" : "seller",
+      },
+      feedbackAuth,
+      reviewer
+    );
+
+    submitted = await prisma.dealFeedback.update({
+      where: key,
+      data: { status: "SUBMITTED", transactionId },
+    });
+  } catch (error: any) {
+    console.error(`❌ Feedback for agent ${subjectAgentId} failed:`, error);
+    await prisma.dealFeedback.update({
+      where: key,
+      data: { status: "FAILED", error: error.message || "Unknown error" },
+    });
+    throw error;
+  } finally {
+    postingFeedback.delete(feedback.id);
+  }
+
+  // The feedback is on-chain either way; the cache catches up on the next read
+  await refreshAgentReputation(subjectAgentId).catch((error: any) =>
+    console.warn(`⚠️ Could not refresh reputation of agent ${subjectAgentId}: ${error.message}`)
+  );
+
+  return submitted;
+}
+
+/**
+ * Feedback left in a negotiation room
+ */
+export async function getRoomFeedback(roomId: string) {
+  const feedback: DealFeedbackRecord[] = await prisma.dealFeedback.findMany({
+    where: { roomId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return feedback.map(toFeedbackSummary);
+}
+
+/**
+ * Reputation of an agent: the registry aggregate (refreshed into the cache),
+ * falling back to the cached values if the registry can't be read
+ * @throws Error containing "not found" if the agent is neither cached nor readable on-chain
+ */
+export async function getAgentReputation(agentId: number) {
+  const summary = await refreshAgentReputation(agentId).catch((error: any) => {
+    console.warn(`⚠️ Using cached reputation of agent ${agentId}: ${error.message}`);
+    return null;
+  });
+
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId: agentId },
+    select: { reputationScore: true, totalTransactions: true },
+  });
+
+  if (!agent && !summary) {
+    throw new Error(`Agent ${agentId} not found`);
+  }
+
+  const recentFeedback: DealFeedbackRecord[] = await prisma.dealFeedback.findMany({
+    where: { subjectAgentId: agentId, status: "SUBMITTED" },
+    orderBy: { createdAt: "desc" },
+    take: RECENT_FEEDBACK_LIMIT,
+  });
+
+  return {
+    agentId,
+    reputationScore:
+      agent?.reputationScore ??
+      (summary && summary.feedbackCount > 0 ? summary.averageScore * REPUTATION_SCORE_SCALE : null),
+    totalTransactions: agent?.totalTransactions ?? summary?.feedbackCount ?? 0,
+    averageScore: summary?.averageScore ?? null,
+    feedbackCount: summary?.feedbackCount ?? null,
+    source: summary ? "chain" : "cache",
+    recentFeedback: recentFeedback.map(toFeedbackSummary),
+  };
+}
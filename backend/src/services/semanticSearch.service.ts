@@ -1,9 +1,16 @@
 /**
  * Semantic Search Service
- * Uses OpenAI to semantically match buy requests with listings
+ * Retrieves candidate listings by embedding similarity, then uses OpenAI
+ * (when configured) to rerank only the shortlist
  */
 
 import OpenAI from 'openai';
+import {
+  EmbeddingProvider,
+  getEmbeddingProvider,
+  getListingEmbeddings,
+  cosineSimilarity,
+} from './embedding.service';
 
 interface ListingInfo {
   listingId: string;
@@ -28,56 +35,106 @@ interface MatchResult {
   reason: string;
 }
 
-class SemanticSearchService {
+// Number of nearest listings passed to the reranker
+export const SHORTLIST_SIZE = 10;
+
+// Listings below this cosine similarity are never considered matches
+export const MIN_SIMILARITY = 0.1;
+
+export class SemanticSearchService {
   private openai: OpenAI | null = null;
 
-  constructor() {
+  constructor(private embeddingProvider: EmbeddingProvider = getEmbeddingProvider()) {
     const apiKey = process.env.OPENAI_API_KEY?.trim();
 
-    // Debug: Log key info
-    console.log('🔑 SemanticSearchService API Key check:');
-    console.log('   Length:', apiKey?.length);
-    console.log('   Starts with:', apiKey?.substring(0, 20));
-    console.log('   Ends with:', apiKey?.substring(apiKey.length - 20));
-    console.log('   Contains "export"?', apiKey?.includes('export'));
-
     if (apiKey) {
       this.openai = new OpenAI({
         apiKey: apiKey,
       });
     } else {
-      console.warn('⚠️  SemanticSearchService: No OPENAI_API_KEY found');
+      console.warn('⚠️  SemanticSearchService: No OPENAI_API_KEY found, using embedding scores only');
     }
   }
 
   /**
-   * Find matching listings for a buy request using AI semantic matching
+   * Find matching listings for a buy request
+   * Listings are ranked by cosine similarity to the request, and the top
+   * SHORTLIST_SIZE are reranked by the LLM when available.
    */
   async findMatchingListings(
     buyRequest: BuyRequestInfo,
     listings: ListingInfo[]
   ): Promise<MatchResult[]> {
-    if (!this.openai) {
-      console.warn('⚠️  OpenAI not configured, returning empty results');
+    if (listings.length === 0) {
       return [];
     }
 
-    if (listings.length === 0) {
+    try {
+      const shortlist = await this.retrieveShortlist(buyRequest, listings);
+
+      if (shortlist.length === 0) {
+        console.log(`🔍 Semantic Search found no similar listings for "${buyRequest.title}"`);
+        return [];
+      }
+
+      const matches = this.openai
+        ? await this.rerank(buyRequest, shortlist)
+        : this.toEmbeddingMatches(shortlist);
+
+      console.log(`🔍 Semantic Search found ${matches.length} matching listings for "${buyRequest.title}"`);
+      matches.forEach(m => {
+        console.log(`   - Listing #${m.listingId}: ${m.score}% - ${m.reason}`);
+      });
+
+      return matches;
+    } catch (error) {
+      console.error('❌ Semantic search failed:', error);
       return [];
     }
+  }
+
+  /**
+   * Cosine top-k retrieval over stored listing embeddings
+   */
+  private async retrieveShortlist(
+    buyRequest: BuyRequestInfo,
+    listings: ListingInfo[]
+  ): Promise<Array<{ listing: ListingInfo; similarity: number }>> {
+    const [queryVector] = await this.embeddingProvider.embed([
+      `${buyRequest.title}\n${buyRequest.description}`,
+    ]);
+    const listingVectors = await getListingEmbeddings(this.embeddingProvider, listings);
+
+    return listings
+      .map((listing) => ({
+        listing,
+        similarity: cosineSimilarity(queryVector, listingVectors.get(listing.listingId) || []),
+      }))
+      .filter(({ similarity }) => similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, SHORTLIST_SIZE);
+  }
 
+  /**
+   * Rerank the shortlist with the LLM
+   * Falls back to embedding order if the LLM call fails.
+   */
+  private async rerank(
+    buyRequest: BuyRequestInfo,
+    shortlist: Array<{ listing: ListingInfo; similarity: number }>
+  ): Promise<MatchResult[]> {
     try {
       // Format listings for AI
-      const listingsText = listings.map((l, i) =>
+      const listingsText = shortlist.map(({ listing: l }, i) =>
         `[${i + 1}] ID: ${l.listingId}, Title: "${l.title}", Description: "${l.description}", Price: ${l.basePrice}-${l.expectedPrice} HBAR`
       ).join('\n');
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.openai!.chat.completions.create({
         model: 'gpt-4o-mini',
         messages: [
           {
             role: 'system',
-            content: `You are a marketplace matching assistant. Your job is to find listings that semantically match a buyer's request.
+            content: `You are a marketplace matching assistant. Your job is to rerank candidate listings that may match a buyer's request.
 
 IMPORTANT: Match based on MEANING, not exact words:
 - "black and white table" matches "White and Black Desk and Chair Set" (same colors, similar furniture)
@@ -108,10 +165,10 @@ Title: "${buyRequest.title}"
 Description: "${buyRequest.description}"
 Budget: ${buyRequest.minPrice}-${buyRequest.maxPrice} HBAR
 
-Available Listings:
+Candidate Listings:
 ${listingsText}
 
-Find all matching listings.`,
+Rerank the candidate listings.`,
           },
         ],
         temperature: 0.1,
@@ -125,23 +182,33 @@ Find all matching listings.`,
       // Handle both array and object with matches key
       const matches: MatchResult[] = Array.isArray(parsed) ? parsed : (parsed.matches || []);
 
-      console.log(`🔍 Semantic Search found ${matches.length} matching listings for "${buyRequest.title}"`);
-      matches.forEach(m => {
-        console.log(`   - Listing #${m.listingId}: ${m.score}% - ${m.reason}`);
-      });
-
-      return matches;
+      // Only accept IDs from the shortlist
+      const shortlistIds = new Set(shortlist.map(({ listing }) => listing.listingId));
+      return matches.filter(m => shortlistIds.has(String(m.listingId)));
     } catch (error) {
-      console.error('❌ Semantic search failed:', error);
-      return [];
+      console.error('❌ Rerank failed, using embedding scores:', error);
+      return this.toEmbeddingMatches(shortlist);
     }
   }
 
+  /**
+   * Score shortlisted listings by similarity alone
+   */
+  private toEmbeddingMatches(
+    shortlist: Array<{ listing: ListingInfo; similarity: number }>
+  ): MatchResult[] {
+    return shortlist.map(({ listing, similarity }) => ({
+      listingId: listing.listingId,
+      score: Math.round(similarity * 100),
+      reason: `Embedding similarity ${similarity.toFixed(2)}`,
+    }));
+  }
+
   /**
    * Check if semantic search is available
    */
   isAvailable(): boolean {
-    return this.openai !== null;
+    return true;
   }
 }
 
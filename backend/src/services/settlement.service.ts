@@ -0,0 +1,237 @@
+/**
+ * Settlement Service
+ * Puts a concluded negotiation on-chain: the buyer submits an inquiry at the
+ * agreed price (depositing escrow), then the seller reserves the listing for it.
+ * If the buyer issued an intent mandate for the room's BuyRequest, the inquiry
+ * claims it and the reservation carries the seller's verification of it.
+ * Each step is recorded on the NegotiationRoom so it can be shown and retried.
+ * The inquiry's transaction ID is saved before it is submitted, so a retry
+ * never deposits escrow twice for one room.
+ */
+
+import { TransactionId } from "@hashgraph/sdk";
+import { PrismaClient } from "@prisma/client";
+import { createInquiry, findSubmittedInquiry, selectReservation } from "./marketplace.service";
+import { getAgentSigner } from "./signing.service";
+import { findActiveMandateId } from "./mandate.service";
+import { submitPendingFeedback } from "./reputation.service";
+import { io } from "../socket";
+
+const prisma = new PrismaClient();
+
+const SETTLEMENT_STEPS = ["create_inquiry", "select_reservation"] as const;
+type SettlementStepName = (typeof SETTLEMENT_STEPS)[number];
+
+const NEGOTIATED_REASON_CODE = "negotiated_price";
+
+// Rooms with a settlement currently running in this process
+const settlingRooms = new Set<string>();
+
+/**
+ * Get settlement status and steps for a room
+ */
+export async function getSettlement(roomId: string) {
+  const room = await prisma.negotiationRoom.findUnique({
+    where: { id: roomId },
+    include: {
+      settlementSteps: {
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!room) {
+    throw new Error(`NegotiationRoom ${roomId} not found`);
+  }
+
+  return {
+    roomId: room.id,
+    listingId: room.listingId,
+    agreedPrice: room.agreedPrice,
+    settlementStatus: room.settlementStatus,
+    steps: room.settlementSteps.map((step) => ({
+      step: step.step,
+      status: step.status,
+      transactionId: step.transactionId,
+      inquiryId: step.inquiryId,
+      error: step.error,
+      attempts: step.attempts,
+      updatedAt: step.updatedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Emit current settlement state to the negotiation room
+ */
+async function emitSettlementProgress(roomId: string) {
+  const settlement = await getSettlement(roomId);
+  io.to(`negotiation:${roomId}`).emit("settlement:progress", settlement);
+  return settlement;
+}
+
+/**
+ * Run one settlement step against the contract
+ * create_inquiry first checks whether its previous submission already landed.
+ */
+async function runStep(
+  step: SettlementStepName,
+  room: { id: string; listingId: string; sellerAgentId: number; buyerAgentId: number; agreedPrice: number },
+  inquiryId: string | null,
+  submittedTxId: string | null
+) {
+  if (step === "create_inquiry") {
+    if (submittedTxId) {
+      const submittedInquiryId = await findSubmittedInquiry(submittedTxId);
+      if (submittedInquiryId) {
+        return { transactionId: submittedTxId, inquiryId: submittedInquiryId };
+      }
+    }
+
+    const signer = await getAgentSigner(room.buyerAgentId);
+    const buyRequest = await prisma.buyRequest.findFirst({
+      where: { negotiationRoomId: room.id },
+      select: { id: true },
+    });
+    const mandateId = buyRequest ? await findActiveMandateId(buyRequest.id, room.buyerAgentId) : null;
+
+    const transactionId = TransactionId.generate(signer.accountId).toString();
+    await prisma.settlementStep.update({
+      where: { roomId_step: { roomId: room.id, step } },
+      data: { transactionId },
+    });
+
+    const result = await createInquiry({
+      buyerAgentId: room.buyerAgentId,
+      listingId: room.listingId,
+      offerPrice: room.agreedPrice,
+      message: `Negotiated price agreed in room ${room.id}`,
+      mandateId,
+      transactionId,
+      ...signer,
+    });
+    return { transactionId: result.transactionId, inquiryId: result.inquiryId };
+  }
+
+  if (!inquiryId) {
+    throw new Error("Cannot select reservation before the inquiry is created");
+  }
+
+  const signer = await getAgentSigner(room.sellerAgentId);
+  const result = await selectReservation({
+    sellerAgentId: room.sellerAgentId,
+    listingId: room.listingId,
+    inquiryId,
+    reasonCode: NEGOTIATED_REASON_CODE,
+    ...signer,
+  });
+  return { transactionId: result.transactionId, inquiryId };
+}
+
+/**
+ * Settle a COMPLETED negotiation on-chain
+ * Steps that already succeeded are skipped, so calling this again retries
+ * from the failed step. Step failures are recorded rather than thrown.
+ */
+export async function settleNegotiation(roomId: string) {
+  const room = await prisma.negotiationRoom.findUnique({ where: { id: roomId } });
+
+  if (!room) {
+    throw new Error(`NegotiationRoom ${roomId} not found`);
+  }
+  if (room.status !== "COMPLETED" || room.agreedPrice === null) {
+    throw new Error(`NegotiationRoom ${roomId} has no agreed price to settle`);
+  }
+  if (room.buyerAgentId === null) {
+    throw new Error(`NegotiationRoom ${roomId} has no buyer agent`);
+  }
+  if (room.settlementStatus === "SETTLED") {
+    return getSettlement(roomId);
+  }
+  if (settlingRooms.has(roomId)) {
+    throw new Error(`Settlement for NegotiationRoom ${roomId} is already in progress`);
+  }
+
+  settlingRooms.add(roomId);
+
+  try {
+    await prisma.negotiationRoom.update({
+      where: { id: roomId },
+      data: { settlementStatus: "IN_PROGRESS" },
+    });
+
+    let inquiryId: string | null = null;
+
+    for (const step of SETTLEMENT_STEPS) {
+      const existing = await prisma.settlementStep.findUnique({
+        where: { roomId_step: { roomId, step } },
+      });
+
+      if (existing?.status === "SUCCEEDED") {
+        inquiryId = existing.inquiryId ?? inquiryId;
+        continue;
+      }
+
+      await prisma.settlementStep.upsert({
+        where: { roomId_step: { roomId, step } },
+        create: { roomId, step, status: "PENDING", attempts: 1 },
+        update: { status: "PENDING", error: null, attempts: { increment: 1 } },
+      });
+      await emitSettlementProgress(roomId);
+
+      try {
+        console.log(`⛓️ Settlement ${roomId}: running ${step}`);
+        const result = await runStep(
+          step,
+          {
+            id: room.id,
+            listingId: room.listingId,
+            sellerAgentId: room.sellerAgentId,
+            buyerAgentId: room.buyerAgentId,
+            agreedPrice: room.agreedPrice,
+          },
+          inquiryId,
+          existing?.transactionId ?? null
+        );
+        inquiryId = result.inquiryId;
+
+        await prisma.settlementStep.update({
+          where: { roomId_step: { roomId, step } },
+          data: {
+            status: "SUCCEEDED",
+            transactionId: result.transactionId,
+            inquiryId: result.inquiryId,
+          },
+        });
+        console.log(`✅ Settlement ${roomId}: ${step} succeeded (${result.transactionId})`);
+      } catch (stepError: any) {
+        console.error(`❌ Settlement ${roomId}: ${step} failed:`, stepError?.message || stepError);
+
+        await prisma.settlementStep.update({
+          where: { roomId_step: { roomId, step } },
+          data: { status: "FAILED", error: stepError?.message || "Unknown error" },
+        });
+        await prisma.negotiationRoom.update({
+          where: { id: roomId },
+          data: { settlementStatus: "FAILED" },
+        });
+        return emitSettlementProgress(roomId);
+      }
+    }
+
+    await prisma.negotiationRoom.update({
+      where: { id: roomId },
+      data: { settlementStatus: "SETTLED" },
+    });
+    console.log(`🎉 Settlement ${roomId}: listing #${room.listingId} reserved at ${room.agreedPrice} HBAR`);
+
+    // Both agents have signers now, so feedback waiting on one can be posted
+    await submitPendingFeedback(roomId).catch((error: any) =>
+      console.warn(`⚠️ Could not post pending feedback for room ${roomId}: ${error.message}`)
+    );
+
+    return emitSettlementProgress(roomId);
+  } finally {
+    settlingRooms.delete(roomId);
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Signing Service
+ * Resolves the Hedera account that signs Marketplace transactions for an agent.
+ *
+ * Each agent gets its own custodial account (ECDSA key with EVM alias) which owns
+ * the agent's ERC-8004 NFT, so msg.sender matches IdentityRegistry.ownerOf(agentId).
+ * The private key is stored encrypted with utils/crypto.ts and only decrypted here.
+ * The key is saved before the NFT moves, so a failed provisioning can be resumed
+ * rather than leaving the NFT on an account nobody holds the key to.
+ */
+
+import {
+  Client,
+  AccountId,
+  PrivateKey,
+  AccountCreateTransaction,
+  Hbar,
+} from "@hashgraph/sdk";
+import { PrismaClient } from "@prisma/client";
+import { encrypt, decrypt } from "../utils/crypto";
+import { erc8004Service } from "./erc8004.service";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_INITIAL_BALANCE_HBAR = 5;
+
+// Provisioning in flight per agent, so concurrent first calls share one account
+const provisioning = new Map<number, Promise<SignerRecord>>();
+
+interface SignerRecord {
+  id: string;
+  accountId: string;
+  evmAddress: string;
+  encryptedPrivateKey: string;
+  transferTxId: string | null;
+}
+
+/**
+ * Account credentials passed to marketplace.service contract calls
+ */
+export interface AgentSigner {
+  accountId: string;
+  privateKey: string;
+}
+
+/**
+ * Get the secret used to encrypt custodial keys
+ */
+function getCustodialSecret(): string {
+  const secret = process.env.CUSTODIAL_KEY_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("CUSTODIAL_KEY_SECRET must be at least 32 characters");
+  }
+  return secret;
+}
+
+/**
+ * Create the manager client that funds custodial accounts
+ */
+function createManagerClient(): Client {
+  const operatorId = process.env.HEDERA_MANAGER_ACCOUNT_ID;
+  const operatorKey = process.env.HEDERA_MANAGER_PRIVATE_KEY;
+
+  if (!operatorId || !operatorKey) {
+    throw new Error("HEDERA_MANAGER_ACCOUNT_ID and HEDERA_MANAGER_PRIVATE_KEY must be set");
+  }
+
+  const network = process.env.HEDERA_NETWORK;
+  if (network !== "testnet" && network !== "mainnet") {
+    throw new Error("HEDERA_NETWORK must be set to testnet or mainnet");
+  }
+
+  const client = network === "testnet" ? Client.forTestnet() : Client.forMainnet();
+  client.setOperator(AccountId.fromString(operatorId), PrivateKey.fromStringECDSA(operatorKey));
+  return client;
+}
+
+/**
+ * Create a custodial account for an agent and store its key
+ * The agent NFT is not moved yet (see transferAgentToSigner).
+ * @throws Error if another process stored a signer for the agent first
+ */
+async function createSignerAccount(agent: { id: string; erc8004AgentId: number }): Promise<SignerRecord> {
+  const client = createManagerClient();
+
+  try {
+    const privateKey = PrivateKey.generateECDSA();
+    const initialBalance = Number(process.env.CUSTODIAL_INITIAL_BALANCE_HBAR) || DEFAULT_INITIAL_BALANCE_HBAR;
+
+    console.log(`🔐 Provisioning custodial signer for agent ${agent.erc8004AgentId}...`);
+
+    const createTx = new AccountCreateTransaction()
+      .setECDSAKeyWithAlias(privateKey.publicKey)
+      .setInitialBalance(new Hbar(initialBalance));
+
+    const createResponse = await createTx.execute(client);
+    const receipt = await createResponse.getReceipt(client);
+
+    if (!receipt.accountId) {
+      throw new Error("Failed to create custodial account");
+    }
+
+    // agentId is @unique: if another process got here first, this fails before any NFT moves
+    return await prisma.agentSigner.create({
+      data: {
+        agentId: agent.id,
+        accountId: receipt.accountId.toString(),
+        evmAddress: `0x${privateKey.publicKey.toEvmAddress()}`,
+        encryptedPrivateKey: encrypt(privateKey.toStringRaw(), getCustodialSecret()),
+      },
+    });
+  } finally {
+    client.close();
+  }
+}
+
+/**
+ * Hand the agent NFT to a stored signer's account
+ * Marketplace checks msg.sender == ownerOf(agentId). Skips the transfer if a
+ * previous attempt already moved the NFT but failed to record it.
+ */
+async function transferAgentToSigner(erc8004AgentId: number, signer: SignerRecord): Promise<SignerRecord> {
+  const { ownerAddress } = await erc8004Service.getAgentInfo(erc8004AgentId);
+
+  const transferTxId = ownerAddress.toLowerCase() === signer.evmAddress.toLowerCase()
+    ? "already-owned"
+    : await erc8004Service.transferAgent(erc8004AgentId, signer.evmAddress);
+
+  const updated = await prisma.agentSigner.update({
+    where: { id: signer.id },
+    data: { transferTxId },
+  });
+
+  console.log(`✅ Custodial signer ${signer.accountId} (${signer.evmAddress}) ready for agent ${erc8004AgentId}`);
+
+  return updated;
+}
+
+/**
+ * Create (or finish provisioning) the custodial signer for an agent
+ */
+async function provisionAgentSigner(
+  agent: { id: string; erc8004AgentId: number },
+  existing: SignerRecord | null
+): Promise<SignerRecord> {
+  const inFlight = provisioning.get(agent.erc8004AgentId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const task = (async () => {
+    const signer = existing ?? (await createSignerAccount(agent));
+    return transferAgentToSigner(agent.erc8004AgentId, signer);
+  })();
+
+  provisioning.set(agent.erc8004AgentId, task);
+  try {
+    return await task;
+  } finally {
+    provisioning.delete(agent.erc8004AgentId);
+  }
+}
+
+/**
+ * Get the signer for an agent, provisioning one on first use
+ * Used for system-initiated transactions (e.g., settlement)
+ */
+export async function getAgentSigner(erc8004AgentId: number): Promise<AgentSigner> {
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId },
+    include: { signer: true },
+  });
+
+  if (!agent) {
+    throw new Error(`Agent ${erc8004AgentId} not found`);
+  }
+
+  const signer = agent.signer?.transferTxId
+    ? agent.signer
+    : await provisionAgentSigner({ id: agent.id, erc8004AgentId }, agent.signer);
+
+  return {
+    accountId: signer.accountId,
+    privateKey: decrypt(signer.encryptedPrivateKey, getCustodialSecret()),
+  };
+}
+
+/**
+ * Get an agent's signer only if it is already provisioned (never creates one)
+ * @returns null while the agent has no signer or its NFT transfer is unfinished
+ */
+export async function findAgentSigner(erc8004AgentId: number): Promise<AgentSigner | null> {
+  const signer = await prisma.agentSigner.findFirst({
+    where: { agent: { erc8004AgentId } },
+  });
+
+  if (!signer?.transferTxId) {
+    return null;
+  }
+
+  return {
+    accountId: signer.accountId,
+    privateKey: decrypt(signer.encryptedPrivateKey, getCustodialSecret()),
+  };
+}
+
+/**
+ * Get the signer for an agent after checking the caller owns it
+ * @throws Error containing "not owned" if the agent belongs to another user
+ */
+export async function getOwnedAgentSigner(erc8004AgentId: number, userId: string): Promise<AgentSigner> {
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId },
+    select: { userId: true },
+  });
+
+  if (!agent) {
+    throw new Error(`Agent ${erc8004AgentId} not found`);
+  }
+
+  if (agent.userId !== userId) {
+    throw new Error(`Agent ${erc8004AgentId} is not owned by the current user`);
+  }
+
+  return getAgentSigner(erc8004AgentId);
+}
+
+/**
+ * Get public signer info (no key material) for display and funding
+ */
+export async function getAgentSignerInfo(erc8004AgentId: number) {
+  const agent = await prisma.agent.findUnique({
+    where: { erc8004AgentId },
+    include: { signer: true },
+  });
+
+  if (!agent) {
+    throw new Error(`Agent ${erc8004AgentId} not found`);
+  }
+
+  return agent.signer
+    ? { accountId: agent.signer.accountId, evmAddress: agent.signer.evmAddress }
+    : null;
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { toValidationBadge, ValidationBadge } from './validation.service';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +14,7 @@ export interface ListingWithNegotiation {
   status: string;
   createdAt: string;
   updatedAt: string;
+  validation: ValidationBadge | null;
   negotiation?: {
     roomId: string;
     buyerAgentId: number | null;
@@ -76,7 +78,8 @@ export async function getUserActivity(userId: string): Promise<UserActivity> {
       where: {
         sellerAgentId: { in: sellerAgentIds }
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: { validations: { where: { status: 'RESPONDED' } } }
     });
 
     console.log(`   Found ${listings.length} listings`);
@@ -99,6 +102,7 @@ export async function getUserActivity(userId: string): Promise<UserActivity> {
           status: listing.status,
           createdAt: listing.createdAt.toISOString(),
           updatedAt: listing.updatedAt.toISOString(),
+          validation: toValidationBadge(listing.validations),
           negotiation: negotiationRoom ? {
             roomId: negotiationRoom.id,
             buyerAgentId: negotiationRoom.buyerAgentId,
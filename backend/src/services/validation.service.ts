@@ -0,0 +1,421 @@
+/**
+ * Validation Service
+ * Sellers can have claims about a listing (condition, authenticity) checked by
+ * the marketplace's validator agent (VALIDATOR_AGENT_ID) through the ERC-8004
+ * ValidationRegistry:
+ * 1. The request document is pinned to IPFS and validationRequest is sent
+ *    from the seller agent's custodial account (its NFT owner)
+ * 2. The validator reviews the claim against the listing with OpenAI, pins its
+ *    response document and answers with validationResponse from its own account
+ * Listings whose claims pass (response >= VALIDATION_PASS_SCORE) carry a
+ * "validated" badge naming the validator agent.
+ */
+
+import crypto from "crypto";
+import OpenAI from "openai";
+import { keccak256 } from "@ethersproject/keccak256";
+import { PrismaClient } from "@prisma/client";
+import { erc8004Service } from "./erc8004.service";
+import { ipfsService } from "./ipfs.service";
+import { getAgentSigner, getAgentSignerInfo, getOwnedAgentSigner } from "./signing.service";
+
+const prisma = new PrismaClient();
+
+export const VALIDATION_CLAIMS = ["condition", "authenticity"] as const;
+export type ValidationClaim = (typeof VALIDATION_CLAIMS)[number];
+
+// Lowest validator response (0-100) at which a claim counts as validated
+export const VALIDATION_PASS_SCORE = 70;
+
+const REQUEST_TYPE = "jimo-market/listing-claim-validation-request/v1";
+const RESPONSE_TYPE = "jimo-market/listing-claim-validation-response/v1";
+const MAX_STATEMENT_LENGTH = 1000;
+
+const CLAIM_GUIDANCE: Record<ValidationClaim, string> = {
+  condition: "Is the stated condition consistent with the listing (wording, details, price for that condition)?",
+  authenticity: "Is the authenticity claim plausible and backed by specifics in the listing (brand details, provenance, receipts)?",
+};
+
+/**
+ * "validated" badge shown on a listing
+ */
+export interface ValidationBadge {
+  validatorAgentIds: number[];
+  claims: string[];
+}
+
+interface ListingValidationRecord {
+  id: string;
+  listingId: string;
+  sellerAgentId: number;
+  validatorAgentId: number;
+  claim: string;
+  statement: string;
+  requestHash: string;
+  requestUri: string | null;
+  requestTxId: string | null;
+  response: number | null;
+  rationale: string | null;
+  responseHash: string | null;
+  responseUri: string | null;
+  responseTxId: string | null;
+  status: string;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toValidationSummary(validation: ListingValidationRecord) {
+  return {
+    id: validation.id,
+    listingId: validation.listingId,
+    sellerAgentId: validation.sellerAgentId,
+    validatorAgentId: validation.validatorAgentId,
+    claim: validation.claim,
+    statement: validation.statement,
+    requestHash: validation.requestHash,
+    requestUri: validation.requestUri,
+    requestTxId: validation.requestTxId,
+    response: validation.response,
+    rationale: validation.rationale,
+    responseUri: validation.responseUri,
+    responseTxId: validation.responseTxId,
+    passed: isPassed(validation),
+    status: validation.status,
+    error: validation.error,
+    createdAt: validation.createdAt.toISOString(),
+    updatedAt: validation.updatedAt.toISOString(),
+  };
+}
+
+export function isValidationClaim(value: unknown): value is ValidationClaim {
+  return VALIDATION_CLAIMS.includes(value as ValidationClaim);
+}
+
+function isPassed(validation: { status: string; response: number | null }): boolean {
+  return validation.status === "RESPONDED" && (validation.response ?? 0) >= VALIDATION_PASS_SCORE;
+}
+
+/**
+ * The ERC-8004 agent acting as validator
+ */
+function getValidatorAgentId(): number {
+  const validatorAgentId = Number(process.env.VALIDATOR_AGENT_ID);
+  if (!Number.isInteger(validatorAgentId) || validatorAgentId <= 0) {
+    throw new Error("VALIDATOR_AGENT_ID must be set to the validator's ERC-8004 agent ID");
+  }
+  return validatorAgentId;
+}
+
+/**
+ * Serialize a validation document and compute the hash recorded on-chain
+ */
+function toDocument(content: Record<string, unknown>): { json: string; hash: string } {
+  const json = JSON.stringify(content, null, 2);
+  return { json, hash: keccak256(Buffer.from(json, "utf-8")) };
+}
+
+/**
+ * "validated" badge of a listing: the claims that passed, and who validated them
+ * Only the latest validation of each claim counts.
+ */
+export function toValidationBadge(validations: ListingValidationRecord[]): ValidationBadge | null {
+  const latest = new Map<string, ListingValidationRecord>();
+  for (const validation of [...validations].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    if (validation.status === "RESPONDED") {
+      latest.set(validation.claim, validation);
+    }
+  }
+
+  const passed = [...latest.values()].filter(isPassed);
+  if (passed.length === 0) {
+    return null;
+  }
+
+  return {
+    validatorAgentIds: [...new Set(passed.map((validation) => validation.validatorAgentId))],
+    claims: passed.map((validation) => validation.claim),
+  };
+}
+
+/**
+ * Ask the validator agent to check claims about a listing
+ * Each claim is its own ValidationRegistry request (tagged with the claim);
+ * the validator answers in the background.
+ * @throws Error containing "not found", "not owned" or "already pending"
+ */
+export async function requestListingValidation(params: {
+  listingId: string;
+  userId: string;
+  claims: Partial<Record<ValidationClaim, string>>;
+}) {
+  const claims = Object.entries(params.claims)
+    .map(([claim, statement]) => [claim, statement?.trim() ?? ""] as [ValidationClaim, string])
+    .filter(([, statement]) => statement);
+  if (claims.length === 0) {
+    throw new Error(`At least one claim is required (${VALIDATION_CLAIMS.join(", ")})`);
+  }
+  for (const [claim, statement] of claims) {
+    if (!isValidationClaim(claim)) {
+      throw new Error(`claim must be one of: ${VALIDATION_CLAIMS.join(", ")}`);
+    }
+    if (statement.length > MAX_STATEMENT_LENGTH) {
+      throw new Error(`The ${claim} claim must be at most ${MAX_STATEMENT_LENGTH} characters`);
+    }
+  }
+
+  const listing = await prisma.listing.findUnique({ where: { listingId: params.listingId } });
+  if (!listing) {
+    throw new Error(`Listing ${params.listingId} not found`);
+  }
+
+  // The registry takes requests from the agent's owner, so the caller must own the seller agent
+  const seller = await getOwnedAgentSigner(listing.sellerAgentId, params.userId);
+
+  const validatorAgentId = getValidatorAgentId();
+  if (validatorAgentId === listing.sellerAgentId) {
+    throw new Error("The validator agent cannot validate its own listings");
+  }
+  // Provisions the validator's account on first use
+  const validator = await getAgentSigner(validatorAgentId)
+    .then(() => getAgentSignerInfo(validatorAgentId))
+    .catch((error: any) => {
+      throw new Error(`Validator agent ${validatorAgentId} is unavailable: ${error.message}`);
+    });
+  if (!validator) {
+    throw new Error(`Validator agent ${validatorAgentId} has no account`);
+  }
+
+  const pending = await prisma.listingValidation.findMany({
+    where: {
+      listingId: listing.listingId,
+      claim: { in: claims.map(([claim]) => claim) },
+      status: { in: ["PENDING", "REQUESTED"] },
+    },
+  });
+  if (pending.length > 0) {
+    throw new Error(`Validation of ${pending.map((v: ListingValidationRecord) => v.claim).join(", ")} is already pending`);
+  }
+
+  const validations: ListingValidationRecord[] = [];
+  for (const [claim, statement] of claims) {
+    const request = toDocument({
+      type: REQUEST_TYPE,
+      listing: {
+        listingId: listing.listingId,
+        sellerAgentId: listing.sellerAgentId,
+        title: listing.title,
+        description: listing.description,
+        basePrice: listing.basePrice,
+        expectedPrice: listing.expectedPrice,
+      },
+      claim,
+      statement,
+      validatorAgentId,
+      requestedAt: new Date().toISOString(),
+      // Repeated requests for the same claim get distinct hashes
+      nonce: crypto.randomUUID(),
+    });
+
+    let validation: ListingValidationRecord = await prisma.listingValidation.create({
+      data: {
+        listingId: listing.listingId,
+        sellerAgentId: listing.sellerAgentId,
+        validatorAgentId,
+        claim,
+        statement,
+        requestHash: request.hash,
+      },
+    });
+
+    try {
+      const requestUri = await ipfsService.uploadJson(request.json, `validation-request-${listing.listingId}-${claim}.json`);
+      const requestTxId = await erc8004Service.requestValidation(
+        {
+          validatorAddress: validator.evmAddress,
+          agentId: listing.sellerAgentId,
+          requestUri,
+          requestHash: request.hash,
+        },
+        seller
+      );
+
+      validation = await prisma.listingValidation.update({
+        where: { id: validation.id },
+        data: { requestUri, requestTxId, status: "REQUESTED" },
+      });
+    } catch (error: any) {
+      console.error(`❌ Validation request for listing ${listing.listingId} (${claim}) failed:`, error);
+      validation = await prisma.listingValidation.update({
+        where: { id: validation.id },
+        data: { status: "FAILED", error: error.message || "Unknown error" },
+      });
+      validations.push(validation);
+      continue;
+    }
+
+    validations.push(validation);
+
+    // The validator answers asynchronously; the listing shows progress via GET .../validations
+    respondAsValidator(validation.id).catch((error) => {
+      console.error(`❌ Validator failed on ${validation.requestHash}:`, error);
+    });
+  }
+
+  return validations.map(toValidationSummary);
+}
+
+/**
+ * Validator's verdict on a claim (0-100) with its reasoning
+ */
+async function assessClaim(
+  listing: { title: string; description: string; basePrice: number; expectedPrice: number },
+  claim: ValidationClaim,
+  statement: string
+): Promise<{ response: number; rationale: string }> {
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY not configured (required by the validator agent)");
+  }
+
+  const openai = new OpenAI({ apiKey });
+  const completion = await openai.chat.completions.create({
+    model: process.env.OPENAI_LARGE_MODEL || "gpt-4o-mini",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are an independent validator for a second-hand marketplace. " +
+          "You check a seller's claim about their listing using only the listing text. " +
+          'Answer with JSON: {"response": <integer 0-100, 100 = fully supported, 0 = contradicted>, "rationale": "<one or two sentences>"}. ' +
+          "Vague or unverifiable claims score below 70.",
+      },
+      {
+        role: "user",
+        content: `Listing title: ${listing.title}
+Listing description: ${listing.description}
+Price range: ${listing.expectedPrice}-${listing.basePrice} HBAR
+
+Claim (${claim}): ${statement}
+
+${CLAIM_GUIDANCE[claim]}`,
+      },
+    ],
+    temperature: 0,
+    max_tokens: 300,
+    response_format: { type: "json_object" },
+  });
+
+  const verdict = JSON.parse(completion.choices[0]?.message?.content || "{}");
+  const response = Math.round(Number(verdict.response));
+  if (!Number.isFinite(response) || response < 0 || response > 100) {
+    throw new Error(`Validator returned an invalid response: ${JSON.stringify(verdict)}`);
+  }
+
+  return { response, rationale: String(verdict.rationale || "") };
+}
+
+/**
+ * Review a requested validation and record the response on the ValidationRegistry
+ */
+async function respondAsValidator(validationId: string) {
+  const validation: ListingValidationRecord | null = await prisma.listingValidation.findUnique({
+    where: { id: validationId },
+  });
+  if (!validation || validation.status !== "REQUESTED") {
+    return;
+  }
+
+  try {
+    const listing = await prisma.listing.findUnique({ where: { listingId: validation.listingId } });
+    if (!listing) {
+      throw new Error(`Listing ${validation.listingId} not found`);
+    }
+
+    const claim = validation.claim as ValidationClaim;
+    const verdict = await assessClaim(listing, claim, validation.statement);
+    console.log(`🔎 Validator scored listing ${validation.listingId} ${claim}: ${verdict.response}/100`);
+
+    const response = toDocument({
+      type: RESPONSE_TYPE,
+      requestHash: validation.requestHash,
+      validatorAgentId: validation.validatorAgentId,
+      claim,
+      response: verdict.response,
+      rationale: verdict.rationale,
+      validatedAt: new Date().toISOString(),
+    });
+    const responseUri = await ipfsService.uploadJson(response.json, `validation-response-${validation.listingId}-${claim}.json`);
+
+    const validator = await getAgentSigner(validation.validatorAgentId);
+    const responseTxId = await erc8004Service.respondToValidation(
+      {
+        requestHash: validation.requestHash,
+        response: verdict.response,
+        responseUri,
+        responseHash: response.hash,
+        tag: claim,
+      },
+      validator
+    );
+
+    await prisma.listingValidation.update({
+      where: { id: validation.id },
+      data: {
+        response: verdict.response,
+        rationale: verdict.rationale,
+        responseHash: response.hash,
+        responseUri,
+        responseTxId,
+        status: "RESPONDED",
+      },
+    });
+  } catch (error: any) {
+    await prisma.listingValidation.update({
+      where: { id: validation.id },
+      data: { status: "FAILED", error: error.message || "Unknown error" },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Pick up validations interrupted by a restart
+ * Requests that reached the registry are answered; ones that never did are marked FAILED
+ * so the seller can request them again.
+ */
+export async function resumeValidations() {
+  const abandoned = await prisma.listingValidation.updateMany({
+    where: { status: "PENDING" },
+    data: { status: "FAILED", error: "Interrupted before the request reached the ValidationRegistry" },
+  });
+
+  const requested: ListingValidationRecord[] = await prisma.listingValidation.findMany({
+    where: { status: "REQUESTED" },
+  });
+  if (abandoned.count > 0 || requested.length > 0) {
+    console.log(`🔎 Resuming ${requested.length} validation(s), ${abandoned.count} abandoned`);
+  }
+
+  for (const validation of requested) {
+    await respondAsValidator(validation.id).catch((error) => {
+      console.error(`❌ Validator failed on ${validation.requestHash}:`, error);
+    });
+  }
+}
+
+/**
+ * Validations of a listing (newest first) and its badge
+ */
+export async function getListingValidations(listingId: string) {
+  const validations: ListingValidationRecord[] = await prisma.listingValidation.findMany({
+    where: { listingId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return {
+    listingId,
+    validation: toValidationBadge(validations),
+    validations: validations.map(toValidationSummary),
+  };
+}
@@ -51,3 +51,54 @@ export interface AgentInfo {
   ownerDid: string | null;
   tokenURI: string;
 }
+
+/**
+ * Aggregate of an agent's ReputationRegistry feedback
+ */
+export interface ReputationSummary {
+  agentId: number;
+  feedbackCount: number;
+  averageScore: number; // 0-100
+}
+
+/**
+ * Feedback to post to the ReputationRegistry
+ */
+export interface AgentFeedback {
+  agentId: number;
+  score: number; // 0-100
+  tag1?: string;
+  tag2?: string;
+}
+
+/**
+ * Validation request posted to the ValidationRegistry by an agent's owner
+ */
+export interface ValidationRequest {
+  validatorAddress: string; // 0x EVM address of the validator agent's account
+  agentId: number; // agent whose work is validated
+  requestUri: string;
+  requestHash: string; // 0x keccak256 of the request document
+}
+
+/**
+ * Validator's answer to a ValidationRequest
+ */
+export interface ValidationResponse {
+  requestHash: string;
+  response: number; // 0-100 (0 = failed, 100 = passed)
+  responseUri: string;
+  responseHash: string; // 0x keccak256 of the response document
+  tag?: string;
+}
+
+/**
+ * On-chain state of a validation request
+ */
+export interface ValidationStatus {
+  validatorAddress: string;
+  agentId: number;
+  response: number;
+  tag: string;
+  lastUpdate: Date | null; // null while unanswered
+}
@@ -8,6 +8,7 @@ declare global {
         hederaAccountId: string;
         did?: string;
         didRegistered?: boolean;
+        agentId?: string;
       };
     }
   }
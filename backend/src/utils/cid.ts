@@ -0,0 +1,201 @@
+/**
+ * IPFS CID utilities
+ * Just enough of the CID, multihash and UnixFS formats to check that a block
+ * fetched from an untrusted gateway is the content its CID names
+ */
+import * as crypto from 'crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// Multicodec codes
+const SHA2_256 = 0x12;
+const CODEC_DAG_PB = 0x70;
+const CODEC_RAW = 0x55;
+const CODEC_JSON = 0x0200;
+const CODEC_DAG_JSON = 0x0129;
+
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number;
+  /** SHA-256 digest of the block */
+  digest: Buffer;
+}
+
+function decodeBase58(text: string): Buffer {
+  let value = 0n;
+  for (const char of text) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    value = value * 58n + BigInt(index);
+  }
+
+  let hex = value === 0n ? '' : value.toString(16);
+  if (hex.length % 2 === 1) {
+    hex = `0${hex}`;
+  }
+  const leadingZeros = text.match(/^1*/)![0].length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]);
+}
+
+function decodeBase32(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+      value &= (1 << bits) - 1;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Read an unsigned varint
+ * @returns The value and the offset just after it
+ */
+function readVarint(bytes: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, offset];
+    }
+    multiplier *= 128;
+  }
+
+  throw new Error('Truncated varint');
+}
+
+/**
+ * Parse a CIDv0 (base58btc "Qm...") or CIDv1 (base32 "b...")
+ * Only SHA-256 multihashes are supported.
+ */
+export function parseCid(cid: string): ParsedCid {
+  let version: 0 | 1;
+  let codec: number;
+  let offset = 0;
+  let bytes: Buffer;
+
+  if (cid.length === 46 && cid.startsWith('Qm')) {
+    version = 0;
+    codec = CODEC_DAG_PB;
+    bytes = decodeBase58(cid);
+  } else if (cid.startsWith('b')) {
+    bytes = decodeBase32(cid.slice(1).toLowerCase());
+    let cidVersion: number;
+    [cidVersion, offset] = readVarint(bytes, offset);
+    if (cidVersion !== 1) {
+      throw new Error(`Unsupported CID version ${cidVersion}`);
+    }
+    version = 1;
+    [codec, offset] = readVarint(bytes, offset);
+  } else {
+    throw new Error(`Unsupported CID encoding: ${cid}`);
+  }
+
+  const [hashCode, lengthOffset] = readVarint(bytes, offset);
+  const [length, digestOffset] = readVarint(bytes, lengthOffset);
+  if (hashCode !== SHA2_256 || length !== 32) {
+    throw new Error(`Unsupported CID hash function 0x${hashCode.toString(16)}`);
+  }
+
+  const digest = bytes.subarray(digestOffset, digestOffset + length);
+  if (digest.length !== length) {
+    throw new Error('Truncated CID digest');
+  }
+
+  return { version, codec, digest: Buffer.from(digest) };
+}
+
+/**
+ * Fields of a protobuf message (varint and length-delimited values only)
+ */
+function readProtobuf(bytes: Buffer): Array<{ field: number; value: number | Buffer }> {
+  const fields: Array<{ field: number; value: number | Buffer }> = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    let key: number;
+    [key, offset] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    if (wireType === 0) {
+      let value: number;
+      [value, offset] = readVarint(bytes, offset);
+      fields.push({ field, value });
+    } else if (wireType === 2) {
+      let length: number;
+      [length, offset] = readVarint(bytes, offset);
+      fields.push({ field, value: bytes.subarray(offset, offset + length) });
+      offset += length;
+    } else if (wireType === 1 || wireType === 5) {
+      offset += wireType === 1 ? 8 : 4;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * File content of a single-block dag-pb (UnixFS) node
+ */
+function readUnixFsFile(block: Buffer): Buffer {
+  const node = readProtobuf(block);
+  // PBNode: 1 = Data, 2 = Links
+  if (node.some(({ field }) => field === 2)) {
+    throw new Error('Content spans multiple blocks');
+  }
+
+  const data = node.find(({ field }) => field === 1)?.value;
+  if (!Buffer.isBuffer(data)) {
+    return Buffer.alloc(0);
+  }
+
+  // UnixFS Data: 1 = Type, 2 = Data
+  const unixFs = readProtobuf(data);
+  const content = unixFs.find(({ field }) => field === 2)?.value;
+  return Buffer.isBuffer(content) ? Buffer.from(content) : Buffer.alloc(0);
+}
+
+/**
+ * Check a raw block against its CID and return the content it holds
+ * @throws Error if the block does not hash to the CID's digest
+ */
+export function verifyCidBlock(cid: string, block: Buffer): Buffer {
+  const parsed = parseCid(cid);
+  const digest = crypto.createHash('sha256').update(block).digest();
+
+  if (!digest.equals(parsed.digest)) {
+    throw new Error(`Content does not match CID ${cid}`);
+  }
+
+  switch (parsed.codec) {
+    case CODEC_DAG_PB:
+      return readUnixFsFile(block);
+    case CODEC_RAW:
+    case CODEC_JSON:
+    case CODEC_DAG_JSON:
+      return block;
+    default:
+      throw new Error(`Unsupported CID codec 0x${parsed.codec.toString(16)}`);
+  }
+}
@@ -16,7 +16,7 @@ const MIRROR_NODE_BASE: Record<string, string> = {
   previewnet: 'https://previewnet.mirrornode.hedera.com',
 };
 
-const mirrorNodeUrl = MIRROR_NODE_BASE[HEDERA_NETWORK];
+export const mirrorNodeUrl = MIRROR_NODE_BASE[HEDERA_NETWORK];
 if (!mirrorNodeUrl) {
   throw new Error(`Unsupported HEDERA_NETWORK "${HEDERA_NETWORK}" for mirror node queries`);
 }
@@ -14,6 +14,7 @@ import "../erc-8004-contracts/contracts/IdentityRegistry.sol";
  * - Reservation: Seller selects buyer to finalize transaction
  * - Completion: Transaction completed
  * - Cancellation: Listing withdrawal or no-show handling
+ * - Escrow: Buyer's offerPrice is held in HBAR until completion or refund
  *
  * ERC-8004 Integration:
  * - agentId is a uint256 tokenId managed by ERC-8004 IdentityRegistry
@@ -90,7 +91,18 @@ contract Marketplace {
      */
     enum InquiryStatus {
         PENDING,    // Pending
-        ACCEPTED    // Accepted
+        ACCEPTED,   // Accepted
+        WITHDRAWN   // Withdrawn by buyer (escrow refunded)
+    }
+
+    /**
+     * @notice Escrowed HBAR for an inquiry
+     * @dev amount is in tinybar (msg.value unit on Hedera)
+     *      depositor is the EOA that funded the inquiry and receives refunds
+     */
+    struct Escrow {
+        address depositor;        // Buyer agent owner who deposited
+        uint256 amount;           // Held amount (unit: tinybar). 0 = released/refunded
     }
 
     // ===== State Variables =====
@@ -107,7 +119,11 @@ contract Marketplace {
     // Finalized inquiry ID per listing
     mapping(uint256 => uint256) public listingReservation;
 
-    // TODO: Add HBAR escrow system (mapping escrowBalance, deposit/refund logic)
+    // Escrowed HBAR per inquiry
+    mapping(uint256 => Escrow) public escrows;
+
+    // Refunds a depositor rejected, claimable with withdrawRefund (tinybar)
+    mapping(address => uint256) public pendingRefunds;
 
     // ===== Events =====
 
@@ -216,6 +232,100 @@ contract Marketplace {
         uint256 timestamp
     );
 
+    /**
+     * @notice Emitted when a buyer withdraws a pending inquiry
+     * @param inquiryId Withdrawn inquiry ID
+     * @param listingId Target listing ID
+     * @param buyerAgentId Buyer agent ID (ERC-8004 agentId)
+     * @param timestamp Withdrawal timestamp
+     */
+    event InquiryWithdrawn(
+        uint256 indexed inquiryId,
+        uint256 indexed listingId,
+        uint256 indexed buyerAgentId,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a buyer deposits HBAR into escrow
+     * @param inquiryId Inquiry ID
+     * @param listingId Target listing ID
+     * @param buyerAgentId Buyer agent ID (ERC-8004 agentId)
+     * @param depositor Address that funded the escrow
+     * @param amount Deposited amount (tinybar)
+     * @param timestamp Deposit timestamp
+     */
+    event EscrowDeposited(
+        uint256 indexed inquiryId,
+        uint256 indexed listingId,
+        uint256 indexed buyerAgentId,
+        address depositor,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when escrowed HBAR is released to the seller
+     * @param listingId Listing ID
+     * @param inquiryId Reserved inquiry ID
+     * @param sellerAgentId Seller agent ID (ERC-8004 agentId)
+     * @param recipient Seller agent owner receiving the funds
+     * @param amount Released amount (tinybar)
+     * @param timestamp Release timestamp
+     */
+    event EscrowReleased(
+        uint256 indexed listingId,
+        uint256 indexed inquiryId,
+        uint256 indexed sellerAgentId,
+        address recipient,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when escrowed HBAR is refunded to the buyer
+     * @param listingId Listing ID
+     * @param inquiryId Refunded inquiry ID
+     * @param buyerAgentId Buyer agent ID (ERC-8004 agentId)
+     * @param recipient Depositor receiving the refund
+     * @param amount Refunded amount (tinybar)
+     * @param timestamp Refund timestamp
+     */
+    event EscrowRefunded(
+        uint256 indexed listingId,
+        uint256 indexed inquiryId,
+        uint256 indexed buyerAgentId,
+        address recipient,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a refund the depositor rejected is credited for later withdrawal
+     * @param recipient Depositor the refund is credited to
+     * @param inquiryId Refunded inquiry ID
+     * @param amount Credited amount (tinybar)
+     * @param timestamp Credit timestamp
+     */
+    event RefundCredited(
+        address indexed recipient,
+        uint256 indexed inquiryId,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a depositor withdraws their credited refunds
+     * @param recipient Depositor receiving the funds
+     * @param amount Withdrawn amount (tinybar)
+     * @param timestamp Withdrawal timestamp
+     */
+    event RefundWithdrawn(
+        address indexed recipient,
+        uint256 amount,
+        uint256 timestamp
+    );
+
     // ===== Constructor =====
 
     /**
@@ -303,8 +413,11 @@ contract Marketplace {
      *
      *      AP2-aligned: Buyer submits CLAIMS, not verified attributes.
      *      Seller will verify off-chain independently (see selectReservation).
+     *
+     *      Escrow: msg.value must equal offerPrice (tinybar). The deposit is held
+     *      until the listing completes (released to seller) or the inquiry is
+     *      refunded (withdrawInquiry / revokeReservation / cancelListing).
      */
-    // TODO: Make payable, deposit msg.value to escrow, verify amount matches offerPrice
     function createInquiry(
         uint256 buyerAgentId,
         uint256 listingId,
@@ -313,10 +426,11 @@ contract Marketplace {
         bytes32 mandateVcHash,
         bytes32 claimedAttributesHash,
         bytes32 claimedCapabilitiesHash
-    ) external /* payable */ onlyAgentOwner(buyerAgentId) returns (uint256) {
+    ) external payable onlyAgentOwner(buyerAgentId) returns (uint256) {
         require(listings[listingId].listingId != 0, "Listing does not exist");
         require(listings[listingId].status == ListingStatus.OPEN, "Listing not open");
         require(buyerAgentId != listings[listingId].sellerAgentId, "Seller cannot inquire own listing");
+        require(msg.value == offerPrice, "Deposit must equal offerPrice");
 
         uint256 inquiryId = _nextInquiryId++;
 
@@ -336,6 +450,11 @@ contract Marketplace {
 
         listingInquiries[listingId].push(inquiryId);
 
+        if (msg.value > 0) {
+            escrows[inquiryId] = Escrow({ depositor: msg.sender, amount: msg.value });
+            emit EscrowDeposited(inquiryId, listingId, buyerAgentId, msg.sender, msg.value, block.timestamp);
+        }
+
         emit InquirySubmitted(
             inquiryId,
             listingId,
@@ -361,6 +480,7 @@ contract Marketplace {
      *
      * @dev Only seller can execute
      *      Reverts if listing is not in OPEN state
+     *      Reverts if the inquiry's escrow does not hold the full offerPrice
      *      After selection, Listing.status becomes RESERVED
      *      Selected Inquiry.status becomes ACCEPTED
      *
@@ -382,6 +502,7 @@ contract Marketplace {
         require(inquiries[inquiryId].inquiryId != 0, "Inquiry does not exist");
         require(inquiries[inquiryId].listingId == listingId, "Inquiry not for this listing");
         require(inquiries[inquiryId].status == InquiryStatus.PENDING, "Inquiry not pending");
+        require(escrows[inquiryId].amount == inquiries[inquiryId].offerPrice, "Escrow not funded");
 
         // Update listing status
         listings[listingId].status = ListingStatus.RESERVED;
@@ -405,13 +526,14 @@ contract Marketplace {
     }
 
     /**
-     * @notice Complete listing (called after payment)
+     * @notice Complete listing (called after delivery)
      * @param sellerAgentId Seller agent ID (caller verification)
      * @param listingId Target listing ID
      *
      * @dev Only seller can execute
      *      Can only complete from RESERVED state
      *      Transitions to COMPLETED state after completion
+     *      Releases the reserved inquiry's escrow to the seller agent owner
      */
     function completeListing(uint256 sellerAgentId, uint256 listingId) external onlyAgentOwner(sellerAgentId) {
         require(listings[listingId].listingId != 0, "Listing does not exist");
@@ -420,11 +542,11 @@ contract Marketplace {
 
         uint256 inquiryId = listingReservation[listingId];
 
-        // TODO: Transfer escrowed HBAR to seller (clear escrow first for reentrancy protection)
-
-        // Transition to completed state
+        // Transition to completed state (before transfer for reentrancy protection)
         listings[listingId].status = ListingStatus.COMPLETED;
 
+        _releaseEscrow(listingId, inquiryId, sellerAgentId);
+
         emit ListingCompleted(listingId, inquiryId, block.timestamp);
     }
 
@@ -436,6 +558,8 @@ contract Marketplace {
      * @dev Only seller can execute
      *      Can cancel from OPEN or RESERVED state
      *      Cannot cancel from COMPLETED state
+     *      Refunds the reserved buyer's escrow if cancelled from RESERVED state.
+     *      Pending inquiries are refunded through withdrawInquiry().
      */
     function cancelListing(uint256 sellerAgentId, uint256 listingId) external onlyAgentOwner(sellerAgentId) {
         require(listings[listingId].listingId != 0, "Listing does not exist");
@@ -450,12 +574,15 @@ contract Marketplace {
         uint256 inquiryId = 0;
         if (listings[listingId].status == ListingStatus.RESERVED) {
             inquiryId = listingReservation[listingId];
-            // TODO: Refund escrowed HBAR to buyer if exists
         }
 
         // Transition to cancelled state
         listings[listingId].status = ListingStatus.CANCELLED;
 
+        if (inquiryId != 0) {
+            _refundEscrow(listingId, inquiryId);
+        }
+
         emit ListingCancelled(listingId, inquiryId, sellerAgentId, block.timestamp);
     }
 
@@ -469,6 +596,7 @@ contract Marketplace {
      *      Can only revoke from RESERVED state
      *      Returns to OPEN state after revocation, allowing selection of next buyer
      *      Reserved Inquiry becomes tombstone (remains ACCEPTED)
+     *      Refunds the reserved buyer's escrow
      */
     function revokeReservation(
         uint256 sellerAgentId,
@@ -482,14 +610,14 @@ contract Marketplace {
         uint256 reservedInquiryId = listingReservation[listingId];
         require(reservedInquiryId != 0, "No reservation");
 
-        // TODO: Refund escrowed HBAR to buyer if exists
-
         // Return to OPEN state
         listings[listingId].status = ListingStatus.OPEN;
 
         // Clear reservation
         listingReservation[listingId] = 0;
 
+        _refundEscrow(listingId, reservedInquiryId);
+
         emit ReservationRevoked(
             listingId,
             reservedInquiryId,
@@ -499,6 +627,91 @@ contract Marketplace {
         );
     }
 
+    /**
+     * @notice Withdraw a pending inquiry and refund its escrow
+     * @param buyerAgentId Buyer agent ID (caller verification)
+     * @param inquiryId Target inquiry ID
+     *
+     * @dev Only the buyer can execute
+     *      Can only withdraw PENDING inquiries (not selected by the seller)
+     *      Inquiry.status becomes WITHDRAWN and can no longer be selected
+     */
+    function withdrawInquiry(uint256 buyerAgentId, uint256 inquiryId) external onlyAgentOwner(buyerAgentId) {
+        require(inquiries[inquiryId].inquiryId != 0, "Inquiry does not exist");
+        require(inquiries[inquiryId].buyerAgentId == buyerAgentId, "Only buyer");
+        require(inquiries[inquiryId].status == InquiryStatus.PENDING, "Inquiry not pending");
+
+        uint256 listingId = inquiries[inquiryId].listingId;
+
+        // Transition to withdrawn state (before transfer for reentrancy protection)
+        inquiries[inquiryId].status = InquiryStatus.WITHDRAWN;
+
+        _refundEscrow(listingId, inquiryId);
+
+        emit InquiryWithdrawn(inquiryId, listingId, buyerAgentId, block.timestamp);
+    }
+
+    /**
+     * @notice Withdraw refunds credited to the caller
+     *
+     * @dev Refunds are credited here when the depositor rejects the transfer,
+     *      so a depositor cannot block cancelListing or revokeReservation
+     *      Clears the balance before transferring (reentrancy protection)
+     */
+    function withdrawRefund() external {
+        uint256 amount = pendingRefunds[msg.sender];
+        require(amount > 0, "No refund to withdraw");
+        pendingRefunds[msg.sender] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Refund withdrawal failed");
+
+        emit RefundWithdrawn(msg.sender, amount, block.timestamp);
+    }
+
+    // ===== Internal Functions =====
+
+    /**
+     * @notice Transfer an inquiry's escrow to the seller agent owner
+     * @dev Clears the escrow before transferring (reentrancy protection)
+     */
+    function _releaseEscrow(uint256 listingId, uint256 inquiryId, uint256 sellerAgentId) private {
+        uint256 amount = escrows[inquiryId].amount;
+        if (amount == 0) {
+            return;
+        }
+        escrows[inquiryId].amount = 0;
+
+        address recipient = identityRegistry.ownerOf(sellerAgentId);
+        (bool success, ) = payable(recipient).call{value: amount}("");
+        require(success, "Escrow release failed");
+
+        emit EscrowReleased(listingId, inquiryId, sellerAgentId, recipient, amount, block.timestamp);
+    }
+
+    /**
+     * @notice Refund an inquiry's escrow to its depositor
+     * @dev Clears the escrow before transferring (reentrancy protection)
+     *      If the depositor rejects the transfer, the refund is credited to
+     *      pendingRefunds instead of reverting the caller's transaction
+     */
+    function _refundEscrow(uint256 listingId, uint256 inquiryId) private {
+        uint256 amount = escrows[inquiryId].amount;
+        if (amount == 0) {
+            return;
+        }
+        escrows[inquiryId].amount = 0;
+
+        address recipient = escrows[inquiryId].depositor;
+        (bool success, ) = payable(recipient).call{value: amount}("");
+        if (!success) {
+            pendingRefunds[recipient] += amount;
+            emit RefundCredited(recipient, inquiryId, amount, block.timestamp);
+        }
+
+        emit EscrowRefunded(listingId, inquiryId, inquiries[inquiryId].buyerAgentId, recipient, amount, block.timestamp);
+    }
+
     // ===== View Functions =====
 
     /**
@@ -519,6 +732,17 @@ contract Marketplace {
         return listingReservation[listingId];
     }
 
+    /**
+     * @notice Get escrow held for an inquiry
+     * @param inquiryId Target inquiry ID
+     * @return depositor Address that funded the escrow
+     * @return amount Held amount (tinybar). 0 if released/refunded or never funded
+     */
+    function getEscrow(uint256 inquiryId) external view returns (address depositor, uint256 amount) {
+        Escrow memory escrow = escrows[inquiryId];
+        return (escrow.depositor, escrow.amount);
+    }
+
     /**
      * @notice Get listing details
      * @param listingId Target listing ID
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockIdentityRegistry
+ * @notice Minimal stand-in for the ERC-8004 IdentityRegistry in Marketplace tests
+ * @dev Only register() and ownerOf() are implemented; Marketplace needs nothing else
+ */
+contract MockIdentityRegistry {
+    uint256 private _nextAgentId = 1;
+
+    mapping(uint256 => address) private _owners;
+
+    /**
+     * @notice Register a new agent owned by the caller
+     * @return agentId Registered agent ID
+     */
+    function register() external returns (uint256 agentId) {
+        agentId = _nextAgentId++;
+        _owners[agentId] = msg.sender;
+    }
+
+    /**
+     * @notice Get the owner of an agent
+     * @param agentId Agent ID
+     * @return Owner address (reverts for unknown agents, like ERC-721)
+     */
+    function ownerOf(uint256 agentId) external view returns (address) {
+        require(_owners[agentId] != address(0), "Unknown agent");
+        return _owners[agentId];
+    }
+}
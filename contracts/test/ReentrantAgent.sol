@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../Marketplace.sol";
+import "./MockIdentityRegistry.sol";
+
+/**
+ * @title ReentrantAgent
+ * @notice Agent owner contract that calls back into Marketplace when it receives HBAR
+ * @dev Used to check that escrow and status are settled before any transfer.
+ *      The re-entrant call's outcome is recorded instead of reverting the transfer.
+ *      Can also reject HBAR outright, like a depositor that refuses refunds.
+ */
+contract ReentrantAgent {
+    Marketplace public immutable marketplace;
+    uint256 public immutable agentId;
+
+    // Call made from receive(); empty for none
+    bytes public reentryCall;
+
+    // Revert in receive() when set
+    bool public rejectPayments;
+
+    // Observed inside receive()
+    bool public reentryAttempted;
+    bool public reentrySucceeded;
+    uint256 public escrowDuringCallback;
+    uint256 public watchedInquiryId;
+
+    constructor(Marketplace _marketplace, MockIdentityRegistry _identityRegistry) {
+        marketplace = _marketplace;
+        agentId = _identityRegistry.register();
+    }
+
+    /**
+     * @notice Set the call to make when HBAR is received, and the escrow to watch
+     */
+    function setReentry(bytes calldata call, uint256 inquiryId) external {
+        reentryCall = call;
+        watchedInquiryId = inquiryId;
+    }
+
+    /**
+     * @notice Reject (or accept again) incoming HBAR
+     */
+    function setRejectPayments(bool reject) external {
+        rejectPayments = reject;
+    }
+
+    /**
+     * @notice Forward any Marketplace call as this agent's owner
+     */
+    function execute(bytes calldata call) external payable returns (bytes memory) {
+        (bool success, bytes memory result) = address(marketplace).call{value: msg.value}(call);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        require(!rejectPayments, "Payments rejected");
+
+        (, escrowDuringCallback) = marketplace.getEscrow(watchedInquiryId);
+
+        if (reentryCall.length > 0 && !reentryAttempted) {
+            reentryAttempted = true;
+            (reentrySucceeded, ) = address(marketplace).call(reentryCall);
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import type { MatchRanking, MatchRankingWeights } from './types';
+
+interface MatchScoreBreakdownProps {
+  ranking: MatchRanking;
+  selectedListingId: number | null;
+}
+
+const COMPONENTS: { key: keyof MatchRankingWeights; label: string }[] = [
+  { key: 'semantic', label: 'Relevance' },
+  { key: 'priceFit', label: 'Price Fit' },
+  { key: 'reputation', label: 'Reputation' },
+  { key: 'experience', label: 'Experience' },
+];
+
+export function MatchScoreBreakdown({ ranking, selectedListingId }: MatchScoreBreakdownProps) {
+  const weightSum = COMPONENTS.reduce((sum, { key }) => sum + ranking.weights[key], 0);
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <h4 className="text-sm font-semibold text-gray-700 mb-1">Why this seller?</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Weighted by{' '}
+        {COMPONENTS.map(({ key, label }) => `${label} ${Math.round((ranking.weights[key] / weightSum) * 100)}%`).join(', ')}
+      </p>
+
+      <div className="space-y-3">
+        {ranking.candidates.map((candidate, index) => {
+          const selected = Number(candidate.listingId) === selectedListingId;
+          return (
+            <div
+              key={candidate.listingId}
+              className={`p-3 rounded-lg bg-white border ${selected ? 'border-green-500' : 'border-gray-200'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-900">
+                  #{index + 1} Listing #{candidate.listingId} · Seller Agent #{candidate.sellerAgentId}
+                  {selected && (
+                    <span className="ml-2 bg-green-100 text-green-700 px-2 py-0.5 rounded-full text-xs">Selected</span>
+                  )}
+                </span>
+                <span className="text-sm font-bold text-gray-900">{candidate.total}</span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+                {COMPONENTS.map(({ key, label }) => (
+                  <div key={key}>
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{label}</span>
+                      <span>{candidate[key]}</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-green-500" style={{ width: `${candidate[key]}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {candidate.reputationScore !== null
+                  ? `Reputation ${candidate.reputationScore}/1000 from ${candidate.totalTransactions} rated deal(s)`
+                  : 'Seller has no rated deals yet'}
+                {candidate.reason && ` · ${candidate.reason}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
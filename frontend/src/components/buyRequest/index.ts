@@ -1,2 +1,3 @@
 export { StepIndicator } from './StepIndicator';
+export { MatchScoreBreakdown } from './MatchScoreBreakdown';
 export * from './types';
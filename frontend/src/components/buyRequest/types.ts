@@ -17,6 +17,49 @@ export interface AgentSearchStatus {
   error?: string;
 }
 
+export interface MatchRankingWeights {
+  semantic: number;
+  priceFit: number;
+  reputation: number;
+  experience: number;
+}
+
+// Component scores are 0-100; reputationScore is the seller's 0-1000 Agent score
+export interface MatchScoreBreakdown {
+  listingId: string;
+  sellerAgentId: number;
+  reason: string;
+  semantic: number;
+  priceFit: number;
+  reputation: number;
+  experience: number;
+  reputationScore: number | null;
+  totalTransactions: number;
+  total: number;
+}
+
+export interface MatchRanking {
+  weights: MatchRankingWeights;
+  candidates: MatchScoreBreakdown[]; // best first
+}
+
+// AP2 intent mandate VC the buyer signed with their DID key
+export interface IntentMandate {
+  id: string;
+  buyRequestId: string;
+  buyerAgentId: number;
+  issuerDid: string;
+  credential: Record<string, unknown>;
+  mandateVcHash: string;
+  maxSpend: number;
+  expiresAt: string;
+  expired: boolean;
+  vcTopicId: string | null;
+  vcSequenceNumber: number | null;
+  publishTxId: string | null;
+  createdAt: string;
+}
+
 export const getStepNumber = (step: AgentSearchStatus['step']): number => {
   const stepMap: Record<string, number> = {
     idle: 0,
@@ -0,0 +1,18 @@
+import type { ValidationBadge } from './types';
+
+interface ValidatedBadgeProps {
+  validation: ValidationBadge;
+}
+
+export function ValidatedBadge({ validation }: ValidatedBadgeProps) {
+  const validators = validation.validatorAgentIds.map((id) => `#${id}`).join(', ');
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 bg-emerald-100 text-emerald-700 border border-emerald-200 px-2 py-0.5 rounded-full text-xs font-semibold"
+      title={`Validated ${validation.claims.join(', ')} by Validator Agent ${validators}`}
+    >
+      ✓ Validated by Agent {validators}
+    </span>
+  );
+}
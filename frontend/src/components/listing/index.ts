@@ -0,0 +1,2 @@
+export { ValidatedBadge } from './ValidatedBadge';
+export * from './types';
@@ -0,0 +1,25 @@
+export interface ValidationBadge {
+  validatorAgentIds: number[];
+  claims: string[];
+}
+
+export interface ListingValidation {
+  id: string;
+  listingId: string;
+  sellerAgentId: number;
+  validatorAgentId: number;
+  claim: 'condition' | 'authenticity';
+  statement: string;
+  requestHash: string;
+  requestUri: string | null;
+  requestTxId: string | null;
+  response: number | null; // 0-100
+  rationale: string | null;
+  responseUri: string | null;
+  responseTxId: string | null;
+  passed: boolean;
+  status: 'PENDING' | 'REQUESTED' | 'RESPONDED' | 'FAILED';
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -99,12 +99,23 @@ export function useAgentWebSocket({
     })
 
     // Listen for agent responses
-    socket.on('agent:message', ({ content, timestamp }) => {
+    // A reply may arrive in several parts; each is shown as soon as it arrives
+    socket.on('agent:message', ({ content, timestamp, partial }) => {
       console.log('📨 Received agent:message event:', {
         content: content?.substring(0, 50),
-        timestamp
+        timestamp,
+        partial
       })
       onAgentMessageRef.current(content, timestamp)
+    })
+
+    // The agent has finished replying to the last message
+    socket.on('agent:replyComplete', ({ replyTo, parts, timedOut }) => {
+      console.log('✅ Agent reply complete:', { replyTo, parts, timedOut })
+      if (parts === 0) {
+        // Replace the "Thinking..." placeholder; a late reply still arrives as agent:message
+        onAgentMessageRef.current('Agent is processing your message...', new Date().toISOString())
+      }
       setIsSending(false)
     })
 
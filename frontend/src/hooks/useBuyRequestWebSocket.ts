@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { io, Socket } from 'socket.io-client'
 import { sessionManager } from '../services/sessionManager'
+import type { MatchRanking } from '../components/buyRequest'
 
 const BACKEND_URL = import.meta.env.VITE_API_URL
 
@@ -13,6 +14,7 @@ interface BuyRequestProgress {
   a2aEndpoint: string | null
   searchError: string | null
   negotiationRoomId: string | null
+  matchScores: MatchRanking | null
 }
 
 interface UseBuyRequestWebSocketProps {
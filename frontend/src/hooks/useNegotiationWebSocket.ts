@@ -15,6 +15,13 @@ interface NegotiationMessage {
   createdAt: string
 }
 
+export interface NegotiationTyping {
+  roomId: string
+  senderAgentId: number
+  /** Reply text so far */
+  text: string
+}
+
 interface NegotiationConcluded {
   roomId: string
   decisionType: 'price_agreed' | 'accepted' | 'rejected'
@@ -22,11 +29,31 @@ interface NegotiationConcluded {
   reason?: string
 }
 
+export interface SettlementStep {
+  step: 'create_inquiry' | 'select_reservation'
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED'
+  transactionId: string | null
+  inquiryId: string | null
+  error: string | null
+  attempts: number
+  updatedAt: string
+}
+
+export interface SettlementProgress {
+  roomId: string
+  listingId: string
+  agreedPrice: number | null
+  settlementStatus: 'NONE' | 'IN_PROGRESS' | 'SETTLED' | 'FAILED'
+  steps: SettlementStep[]
+}
+
 interface UseNegotiationWebSocketProps {
   roomId: string | undefined
   onMessage: (message: NegotiationMessage) => void
+  onTyping?: (data: NegotiationTyping) => void
   onStatusChanged?: (status: string) => void
   onConcluded?: (data: NegotiationConcluded) => void
+  onSettlementProgress?: (data: SettlementProgress) => void
 }
 
 /**
@@ -35,21 +62,27 @@ interface UseNegotiationWebSocketProps {
 export function useNegotiationWebSocket({
   roomId,
   onMessage,
+  onTyping,
   onStatusChanged,
   onConcluded,
+  onSettlementProgress,
 }: UseNegotiationWebSocketProps) {
   const [isConnected, setIsConnected] = useState(false)
   const socketRef = useRef<Socket | null>(null)
   const onMessageRef = useRef(onMessage)
+  const onTypingRef = useRef(onTyping)
   const onStatusChangedRef = useRef(onStatusChanged)
   const onConcludedRef = useRef(onConcluded)
+  const onSettlementProgressRef = useRef(onSettlementProgress)
 
   // Update refs when callbacks change
   useEffect(() => {
     onMessageRef.current = onMessage
+    onTypingRef.current = onTyping
     onStatusChangedRef.current = onStatusChanged
     onConcludedRef.current = onConcluded
-  }, [onMessage, onStatusChanged, onConcluded])
+    onSettlementProgressRef.current = onSettlementProgress
+  }, [onMessage, onTyping, onStatusChanged, onConcluded, onSettlementProgress])
 
   useEffect(() => {
     const session = sessionManager.get()
@@ -92,6 +125,11 @@ export function useNegotiationWebSocket({
       onMessageRef.current(message)
     })
 
+    // Listen for replies being streamed (superseded by negotiation:message)
+    socket.on('negotiation:typing', (data: NegotiationTyping) => {
+      onTypingRef.current?.(data)
+    })
+
     // Listen for status changes
     socket.on('negotiation:statusChanged', ({ status }) => {
       console.log('🔄 Negotiation status changed:', status)
@@ -110,6 +148,12 @@ export function useNegotiationWebSocket({
       onConcludedRef.current?.(data)
     })
 
+    // Listen for on-chain settlement progress (inquiry + reservation)
+    socket.on('settlement:progress', (data: SettlementProgress) => {
+      console.log('⛓️ Settlement progress:', data)
+      onSettlementProgressRef.current?.(data)
+    })
+
     // Error handling
     socket.on('error', ({ message: errorMessage }) => {
       console.error('Negotiation WebSocket error:', errorMessage)
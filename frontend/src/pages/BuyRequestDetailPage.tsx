@@ -1,8 +1,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
-import { StepIndicator, getStepNumber } from '../components/buyRequest';
+import { PrivateKey } from '@hashgraph/sdk';
+import { StepIndicator, MatchScoreBreakdown, getStepNumber } from '../components/buyRequest';
+import type { IntentMandate, MatchRanking } from '../components/buyRequest';
 import { useBuyRequestWebSocket } from '../hooks/useBuyRequestWebSocket';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../services/api';
 
 interface BuyRequest {
   id: string;
@@ -12,6 +16,7 @@ interface BuyRequest {
   minPrice: number;
   maxPrice: number;
   category: string | null;
+  minReputation: number | null;
   status: string;
   createdAt: string;
   // Search progress fields
@@ -22,6 +27,7 @@ interface BuyRequest {
   a2aEndpoint: string | null;
   searchError: string | null;
   negotiationRoomId: string | null;
+  matchScores: MatchRanking | null;
 }
 
 export function BuyRequestDetailPage() {
@@ -30,6 +36,13 @@ export function BuyRequestDetailPage() {
   const [buyRequest, setBuyRequest] = useState<BuyRequest | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { session } = useAuth();
+  const [isBuyer, setIsBuyer] = useState(false);
+  const [mandate, setMandate] = useState<IntentMandate | null>(null);
+  const [mandateMaxSpend, setMandateMaxSpend] = useState('');
+  const [mandateTtlDays, setMandateTtlDays] = useState('7');
+  const [didPrivateKey, setDidPrivateKey] = useState('');
+  const [issuingMandate, setIssuingMandate] = useState(false);
 
   // Handle WebSocket progress updates
   const handleProgress = useCallback((progress: {
@@ -41,6 +54,7 @@ export function BuyRequestDetailPage() {
     a2aEndpoint: string | null;
     searchError: string | null;
     negotiationRoomId: string | null;
+    matchScores: MatchRanking | null;
   }) => {
     setBuyRequest(prev => prev ? {
       ...prev,
@@ -51,6 +65,7 @@ export function BuyRequestDetailPage() {
       a2aEndpoint: progress.a2aEndpoint,
       searchError: progress.searchError,
       negotiationRoomId: progress.negotiationRoomId,
+      matchScores: progress.matchScores ?? prev.matchScores,
     } : null);
   }, []);
 
@@ -81,6 +96,63 @@ export function BuyRequestDetailPage() {
     fetchBuyRequest();
   }, [id]);
 
+  useEffect(() => {
+    if (!id) return;
+    axios.get(`${import.meta.env.VITE_API_URL}/api/marketplace/buy-requests/${id}/mandate`)
+      .then(response => setMandate(response.data))
+      .catch(err => {
+        if (err.response?.status !== 404) console.error('Failed to fetch intent mandate:', err);
+      });
+  }, [id]);
+
+  // Only the buyer can issue a mandate for their agent
+  useEffect(() => {
+    if (!buyRequest || !session?.token) return;
+    api.getAgents(session.token)
+      .then(agents => setIsBuyer(agents.some(agent => agent.erc8004AgentId === Number(buyRequest.buyerAgentId))))
+      .catch(err => console.error('Failed to fetch agents:', err));
+  }, [buyRequest?.buyerAgentId, session?.token]);
+
+  // The DID key only signs the drafted payload here; it is never sent to the server
+  const issueMandate = async () => {
+    if (!id || !session?.token || !buyRequest || issuingMandate) return;
+
+    setIssuingMandate(true);
+    try {
+      const headers = { 'Authorization': `Bearer ${session.token}` };
+      const draft = await axios.post(
+        `${import.meta.env.VITE_API_URL}/api/marketplace/buy-requests/${id}/mandate/draft`,
+        {
+          maxSpend: mandateMaxSpend ? parseFloat(mandateMaxSpend) : buyRequest.maxPrice,
+          ttlDays: parseFloat(mandateTtlDays),
+        },
+        { headers }
+      );
+      const payload: string = draft.data.payload;
+
+      let signature: string;
+      try {
+        const signatureBytes = PrivateKey.fromString(didPrivateKey.trim()).sign(new TextEncoder().encode(payload));
+        signature = Array.from(signatureBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+      } catch {
+        throw new Error('Invalid DID private key');
+      }
+
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_URL}/api/marketplace/buy-requests/${id}/mandate`,
+        { payload, signature },
+        { headers }
+      );
+      setMandate(response.data);
+      setDidPrivateKey('');
+    } catch (err: any) {
+      console.error('Failed to issue intent mandate:', err);
+      alert(err.response?.data?.error || err.message || 'Failed to issue intent mandate');
+    } finally {
+      setIssuingMandate(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -181,6 +253,18 @@ export function BuyRequestDetailPage() {
               </div>
             )}
 
+            {/* Minimum Seller Reputation */}
+            {buyRequest.minReputation !== null && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                  Minimum Seller Reputation
+                </h3>
+                <span className="inline-block bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm">
+                  {buyRequest.minReputation} / 1000
+                </span>
+              </div>
+            )}
+
             {/* Metadata */}
             <div className="border-t pt-4 space-y-3">
               <div className="flex justify-between">
@@ -215,6 +299,97 @@ export function BuyRequestDetailPage() {
           </div>
         </div>
 
+        {/* Intent Mandate Section */}
+        {(mandate || isBuyer) && (
+          <div className="mt-6 bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="bg-gradient-to-r from-amber-500 to-orange-600 px-6 py-4">
+              <h3 className="text-white font-semibold">Intent Mandate</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              {mandate && (
+                <div className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-gray-900">
+                      Max spend {mandate.maxSpend} HBAR
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      mandate.expired ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-700'
+                    }`}>
+                      {mandate.expired ? 'Expired' : `Valid until ${new Date(mandate.expiresAt).toLocaleString()}`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 break-all">Issuer: {mandate.issuerDid}</p>
+                  <p className="text-xs text-gray-500 break-all">
+                    VC hash: <code className="font-mono">{mandate.mandateVcHash}</code>
+                  </p>
+                  {mandate.vcTopicId && (
+                    <a
+                      href={`https://hashscan.io/testnet/topic/${mandate.vcTopicId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs font-mono text-blue-600 hover:underline"
+                    >
+                      VC topic {mandate.vcTopicId} #{mandate.vcSequenceNumber}
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {isBuyer && (!mandate || mandate.expired) && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Authorize your agent to spend up to a limit on this request. The mandate is signed with
+                    your DID private key in this browser and published to the VC topic; sellers verify it
+                    before reserving.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Max Spend (HBAR)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={mandateMaxSpend}
+                        onChange={(e) => setMandateMaxSpend(e.target.value)}
+                        placeholder={String(buyRequest.maxPrice)}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Valid For (days)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="30"
+                        value={mandateTtlDays}
+                        onChange={(e) => setMandateTtlDays(e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">DID Private Key</label>
+                    <input
+                      type="password"
+                      value={didPrivateKey}
+                      onChange={(e) => setDidPrivateKey(e.target.value)}
+                      placeholder="302e0201..."
+                      autoComplete="off"
+                      className="w-full px-3 py-2 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    />
+                  </div>
+                  <button
+                    onClick={issueMandate}
+                    disabled={issuingMandate || !didPrivateKey.trim()}
+                    className="w-full px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {issuingMandate ? 'Signing...' : 'Sign & Issue Mandate'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Agent Search Progress Section */}
         <div className="mt-6 bg-white rounded-lg shadow-md overflow-hidden">
           <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4">
@@ -291,6 +466,14 @@ export function BuyRequestDetailPage() {
               </div>
             )}
 
+            {/* Ranking Breakdown */}
+            {buyRequest.matchScores && buyRequest.matchScores.candidates.length > 0 && (
+              <MatchScoreBreakdown
+                ranking={buyRequest.matchScores}
+                selectedListingId={buyRequest.matchedListingId}
+              />
+            )}
+
             {/* A2A Endpoint Info */}
             {buyRequest.a2aEndpoint && (
               <div>
@@ -1,6 +1,10 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../services/api';
+import { ValidatedBadge } from '../components/listing';
+import type { ListingValidation, ValidationBadge } from '../components/listing';
 
 interface Listing {
   listingId: string;
@@ -14,14 +18,25 @@ interface Listing {
   transactionId: string;
   negotiationRoomId: string | null;
   negotiationRoomStatus: string | null;
+  validation: ValidationBadge | null;
 }
 
+const CLAIMS: { key: ListingValidation['claim']; label: string; placeholder: string }[] = [
+  { key: 'condition', label: 'Condition', placeholder: 'e.g. Lightly used, no scratches, all parts included' },
+  { key: 'authenticity', label: 'Authenticity', placeholder: 'e.g. Genuine, bought from the official store (receipt available)' },
+];
+
 export function ListingDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [listing, setListing] = useState<Listing | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { session } = useAuth();
+  const [validations, setValidations] = useState<ListingValidation[]>([]);
+  const [isSeller, setIsSeller] = useState(false);
+  const [claims, setClaims] = useState<Record<ListingValidation['claim'], string>>({ condition: '', authenticity: '' });
+  const [requestingValidation, setRequestingValidation] = useState(false);
 
   useEffect(() => {
     if (!id) return;
@@ -44,6 +59,59 @@ export function ListingDetailPage() {
     fetchListing();
   }, [id]);
 
+  // Claim validations (the validator answers in the background, so poll while any is in flight)
+  const fetchValidations = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await axios.get(
+        `${import.meta.env.VITE_API_URL}/api/marketplace/listings/${id}/validations`
+      );
+      setValidations(response.data.validations);
+      setListing(prev => prev ? { ...prev, validation: response.data.validation } : prev);
+    } catch (err) {
+      console.error('Failed to fetch validations:', err);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchValidations();
+  }, [fetchValidations]);
+
+  const validationInFlight = validations.some(v => v.status === 'PENDING' || v.status === 'REQUESTED');
+  useEffect(() => {
+    if (!validationInFlight) return;
+    const timer = setInterval(fetchValidations, 5000);
+    return () => clearInterval(timer);
+  }, [validationInFlight, fetchValidations]);
+
+  // Only the seller can ask for validation
+  useEffect(() => {
+    if (!listing || !session?.token) return;
+    api.getAgents(session.token)
+      .then(agents => setIsSeller(agents.some(agent => agent.erc8004AgentId === Number(listing.sellerAgentId))))
+      .catch(err => console.error('Failed to fetch agents:', err));
+  }, [listing?.sellerAgentId, session?.token]);
+
+  const requestValidation = async () => {
+    if (!id || !session?.token || requestingValidation) return;
+
+    setRequestingValidation(true);
+    try {
+      await axios.post(
+        `${import.meta.env.VITE_API_URL}/api/marketplace/listings/${id}/validations`,
+        { claims },
+        { headers: { 'Authorization': `Bearer ${session.token}` } }
+      );
+      setClaims({ condition: '', authenticity: '' });
+      await fetchValidations();
+    } catch (err: any) {
+      console.error('Failed to request validation:', err);
+      alert(err.response?.data?.error || 'Failed to request validation');
+    } finally {
+      setRequestingValidation(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -104,9 +172,12 @@ export function ListingDetailPage() {
           {/* Content */}
           <div className="p-6">
             {/* Title */}
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">
-              {listing.title}
-            </h2>
+            <div className="flex items-center gap-3 mb-4">
+              <h2 className="text-2xl font-bold text-gray-900">
+                {listing.title}
+              </h2>
+              {listing.validation && <ValidatedBadge validation={listing.validation} />}
+            </div>
 
             {/* Description */}
             <div className="mb-6">
@@ -196,6 +267,81 @@ export function ListingDetailPage() {
           </div>
         </div>
 
+        {/* Claim Validation Section */}
+        {(validations.length > 0 || isSeller) && (
+          <div className="mt-6 bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="bg-gradient-to-r from-emerald-600 to-teal-600 px-6 py-4">
+              <h3 className="text-white font-semibold">Claim Validation</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              {validations.map((validation) => (
+                <div key={validation.id} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-semibold text-gray-900 capitalize">{validation.claim}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      validation.status === 'RESPONDED'
+                        ? validation.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        : validation.status === 'FAILED'
+                        ? 'bg-gray-100 text-gray-700'
+                        : 'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {validation.status === 'RESPONDED'
+                        ? `${validation.passed ? 'Passed' : 'Not validated'} (${validation.response}/100)`
+                        : validation.status === 'FAILED'
+                        ? 'Failed'
+                        : 'Awaiting validator'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">"{validation.statement}"</p>
+                  {validation.rationale && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      Validator Agent #{validation.validatorAgentId}: {validation.rationale}
+                    </p>
+                  )}
+                  {validation.error && <p className="text-xs text-red-600 mt-1">{validation.error}</p>}
+                  {validation.responseTxId && (
+                    <a
+                      href={`https://hashscan.io/testnet/transaction/${validation.responseTxId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs font-mono text-blue-600 hover:underline"
+                    >
+                      {validation.responseTxId}
+                    </a>
+                  )}
+                </div>
+              ))}
+
+              {isSeller && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Ask the validator agent to check your claims. Its verdict is recorded on the ERC-8004 ValidationRegistry.
+                  </p>
+                  {CLAIMS.map(({ key, label, placeholder }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                      <input
+                        type="text"
+                        value={claims[key]}
+                        onChange={(e) => setClaims(prev => ({ ...prev, [key]: e.target.value }))}
+                        placeholder={placeholder}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                    </div>
+                  ))}
+                  <button
+                    onClick={requestValidation}
+                    disabled={requestingValidation || !Object.values(claims).some(c => c.trim())}
+                    className="w-full px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {requestingValidation ? 'Requesting...' : 'Request Validation'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Negotiation Room Section */}
         {listing.negotiationRoomId && (
           <div className="mt-6 bg-white rounded-lg shadow-md overflow-hidden">
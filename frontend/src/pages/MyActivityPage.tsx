@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
 import { useAuth } from '../contexts/AuthContext';
+import { ValidatedBadge } from '../components/listing';
+import type { ValidationBadge } from '../components/listing';
 
 interface ListingWithNegotiation {
   id: string;
@@ -13,6 +15,7 @@ interface ListingWithNegotiation {
   expectedPrice: number;
   status: string;
   createdAt: string;
+  validation: ValidationBadge | null;
   negotiation?: {
     roomId: string;
     buyerAgentId: number | null;
@@ -212,6 +215,7 @@ export function MyActivityPage() {
                         <span className="text-gray-500">
                           Agent #{listing.sellerAgentId}
                         </span>
+                        {listing.validation && <ValidatedBadge validation={listing.validation} />}
                       </div>
                     </div>
                     <div className="ml-4 flex flex-col items-end gap-2">
@@ -1,7 +1,9 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from 'axios';
-import { useNegotiationWebSocket } from '../hooks/useNegotiationWebSocket';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../services/api';
+import { useNegotiationWebSocket, NegotiationTyping, SettlementProgress, SettlementStep } from '../hooks/useNegotiationWebSocket';
 
 interface NegotiationRoom {
   id: string;
@@ -11,10 +13,32 @@ interface NegotiationRoom {
   sellerA2AEndpoint: string;
   buyerA2AEndpoint: string | null;
   status: string;
+  agreedPrice: number | null;
+  settlementStatus: SettlementProgress['settlementStatus'];
+  settlementSteps: SettlementStep[];
   createdAt: string;
   updatedAt: string;
 }
 
+const SETTLEMENT_STEP_LABELS: Record<SettlementStep['step'], string> = {
+  create_inquiry: 'Buyer submits inquiry & escrow deposit',
+  select_reservation: 'Seller reserves listing',
+};
+
+interface DealFeedback {
+  id: string;
+  reviewerAgentId: number;
+  subjectAgentId: number;
+  score: number; // 0-100
+  comment: string | null;
+  status: 'PENDING' | 'SUBMITTED' | 'FAILED';
+  transactionId: string | null;
+  error: string | null;
+}
+
+// Star ratings map onto the ERC-8004 0-100 feedback score
+const STAR_SCORE = 20;
+
 interface NegotiationMessage {
   id: string;
   roomId: string;
@@ -35,10 +59,26 @@ export function NegotiationPage() {
   const [error, setError] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
+  const [settlement, setSettlement] = useState<SettlementProgress | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [typing, setTyping] = useState<NegotiationTyping | null>(null);
+  const { session } = useAuth();
+  const [feedback, setFeedback] = useState<DealFeedback[]>([]);
+  const [myAgentId, setMyAgentId] = useState<number | null>(null);
+  const [stars, setStars] = useState(5);
+  const [feedbackComment, setFeedbackComment] = useState('');
+  const [submittingFeedback, setSubmittingFeedback] = useState(false);
 
   // Handle new messages from WebSocket
   const handleMessage = useCallback((message: NegotiationMessage) => {
     setMessages(prev => [...prev, message]);
+    // The completed message replaces the streamed preview
+    setTyping(prev => (prev?.senderAgentId === message.senderAgentId ? null : prev));
+  }, []);
+
+  // Handle a reply being streamed
+  const handleTyping = useCallback((data: NegotiationTyping) => {
+    setTyping(data);
   }, []);
 
   // Handle status changes
@@ -46,11 +86,18 @@ export function NegotiationPage() {
     setRoom(prev => prev ? { ...prev, status } : null);
   }, []);
 
+  // Handle on-chain settlement progress
+  const handleSettlementProgress = useCallback((data: SettlementProgress) => {
+    setSettlement(data);
+  }, []);
+
   // Connect to WebSocket
   const { isConnected } = useNegotiationWebSocket({
     roomId,
     onMessage: handleMessage,
+    onTyping: handleTyping,
     onStatusChanged: handleStatusChanged,
+    onSettlementProgress: handleSettlementProgress,
   });
 
   // Fetch room and messages on mount
@@ -66,6 +113,13 @@ export function NegotiationPage() {
           `${import.meta.env.VITE_API_URL}/api/negotiation/rooms/${roomId}`
         );
         setRoom(roomResponse.data);
+        setSettlement({
+          roomId: roomResponse.data.id,
+          listingId: String(roomResponse.data.listingId),
+          agreedPrice: roomResponse.data.agreedPrice,
+          settlementStatus: roomResponse.data.settlementStatus,
+          steps: roomResponse.data.settlementSteps || [],
+        });
 
         // Fetch messages
         const messagesResponse = await axios.get(
@@ -83,6 +137,32 @@ export function NegotiationPage() {
     fetchData();
   }, [roomId]);
 
+  // Load feedback, and which side of the deal (if any) the user's agents are on
+  useEffect(() => {
+    if (!roomId || room?.status !== 'COMPLETED') return;
+
+    const fetchFeedback = async () => {
+      try {
+        const feedbackResponse = await axios.get(
+          `${import.meta.env.VITE_API_URL}/api/negotiation/rooms/${roomId}/feedback`
+        );
+        setFeedback(feedbackResponse.data.feedback || []);
+
+        if (session?.token) {
+          const agents = await api.getAgents(session.token);
+          const mine = agents.find(
+            (agent) => agent.erc8004AgentId === room.sellerAgentId || agent.erc8004AgentId === room.buyerAgentId
+          );
+          setMyAgentId(mine?.erc8004AgentId ?? null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch feedback:', err);
+      }
+    };
+
+    fetchFeedback();
+  }, [roomId, room?.status, room?.sellerAgentId, room?.buyerAgentId, session?.token]);
+
   // Send message
   const sendMessage = async () => {
     if (!newMessage.trim() || !room || sending) return;
@@ -110,6 +190,49 @@ export function NegotiationPage() {
     }
   };
 
+  // Retry on-chain settlement from the failed step
+  const retrySettlement = async () => {
+    if (!roomId || !session?.token || retrying) return;
+
+    setRetrying(true);
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_URL}/api/negotiation/rooms/${roomId}/settlement`,
+        {},
+        { headers: { 'Authorization': `Bearer ${session.token}` } }
+      );
+      setSettlement(response.data);
+    } catch (err) {
+      console.error('Failed to retry settlement:', err);
+      alert('Failed to retry settlement');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  // Rate the other side on the ERC-8004 ReputationRegistry
+  const submitFeedback = async () => {
+    if (!roomId || !myAgentId || !session?.token || submittingFeedback) return;
+
+    setSubmittingFeedback(true);
+    try {
+      const response = await axios.post(
+        `${import.meta.env.VITE_API_URL}/api/negotiation/rooms/${roomId}/feedback`,
+        { reviewerAgentId: myAgentId, score: stars * STAR_SCORE, comment: feedbackComment },
+        { headers: { 'Authorization': `Bearer ${session.token}` } }
+      );
+      setFeedback(prev => [...prev.filter(f => f.reviewerAgentId !== myAgentId), response.data]);
+      setFeedbackComment('');
+    } catch (err: any) {
+      console.error('Failed to submit feedback:', err);
+      alert(err.response?.data?.error || 'Failed to submit feedback');
+    } finally {
+      setSubmittingFeedback(false);
+    }
+  };
+
+  const myFeedback = feedback.find(f => f.reviewerAgentId === myAgentId);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -193,6 +316,119 @@ export function NegotiationPage() {
         </div>
       </div>
 
+      {/* On-chain Settlement */}
+      {room.status === 'COMPLETED' && settlement && (
+        <div className="bg-white border-b px-4 py-3">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold text-gray-900">
+                On-chain Settlement
+                {settlement.agreedPrice !== null && (
+                  <span className="ml-2 font-normal text-gray-500">
+                    Agreed at {settlement.agreedPrice} HBAR
+                  </span>
+                )}
+              </h2>
+              <span className={`px-2 py-1 rounded text-xs font-semibold ${
+                settlement.settlementStatus === 'SETTLED' ? 'bg-green-100 text-green-800' :
+                settlement.settlementStatus === 'FAILED' ? 'bg-red-100 text-red-800' :
+                settlement.settlementStatus === 'IN_PROGRESS' ? 'bg-blue-100 text-blue-800' :
+                'bg-gray-100 text-gray-800'
+              }`}>
+                {settlement.settlementStatus}
+              </span>
+            </div>
+            <ol className="space-y-1 text-sm">
+              {(Object.keys(SETTLEMENT_STEP_LABELS) as SettlementStep['step'][]).map((stepName) => {
+                const step = settlement.steps.find((s) => s.step === stepName);
+                return (
+                  <li key={stepName} className="flex items-start gap-2">
+                    <span className="w-4">
+                      {step?.status === 'SUCCEEDED' ? '✅' :
+                       step?.status === 'FAILED' ? '❌' :
+                       step?.status === 'PENDING' ? '⏳' : '○'}
+                    </span>
+                    <div className="flex-1">
+                      <span className="text-gray-700">{SETTLEMENT_STEP_LABELS[stepName]}</span>
+                      {step?.transactionId && (
+                        <span className="ml-2 font-mono text-xs text-gray-500">{step.transactionId}</span>
+                      )}
+                      {step?.status === 'FAILED' && step.error && (
+                        <p className="text-xs text-red-600">{step.error}</p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+            {(settlement.settlementStatus === 'FAILED' || settlement.settlementStatus === 'NONE') && (
+              <button
+                onClick={retrySettlement}
+                disabled={retrying}
+                className="mt-2 px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {retrying ? 'Settling...' : settlement.settlementStatus === 'FAILED' ? 'Retry Settlement' : 'Settle On-chain'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Deal Feedback */}
+      {room.status === 'COMPLETED' && (feedback.length > 0 || myAgentId) && (
+        <div className="bg-white border-b px-4 py-3">
+          <div className="max-w-4xl mx-auto">
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Deal Feedback</h2>
+            {feedback.filter(f => f.status === 'SUBMITTED').map((f) => (
+              <div key={f.id} className="text-sm mb-1">
+                <span className="text-gray-500">
+                  {f.reviewerAgentId === room.buyerAgentId ? 'Buyer' : 'Seller'} Agent #{f.reviewerAgentId}:
+                </span>
+                <span className="ml-2 text-yellow-500">
+                  {'★'.repeat(Math.round(f.score / STAR_SCORE))}{'☆'.repeat(5 - Math.round(f.score / STAR_SCORE))}
+                </span>
+                {f.comment && <span className="ml-2 text-gray-700">{f.comment}</span>}
+                {f.transactionId && (
+                  <span className="ml-2 font-mono text-xs text-gray-500">{f.transactionId}</span>
+                )}
+              </div>
+            ))}
+            {myAgentId && myFeedback?.status !== 'SUBMITTED' && (
+              <div className="mt-2 flex items-center gap-2">
+                <div className="flex">
+                  {[1, 2, 3, 4, 5].map((n) => (
+                    <button
+                      key={n}
+                      onClick={() => setStars(n)}
+                      className={`text-xl ${n <= stars ? 'text-yellow-500' : 'text-gray-300'}`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={feedbackComment}
+                  onChange={(e) => setFeedbackComment(e.target.value)}
+                  placeholder={`How was the ${myAgentId === room.sellerAgentId ? 'buyer' : 'seller'}?`}
+                  className="flex-1 px-3 py-1 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={submitFeedback}
+                  disabled={submittingFeedback}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submittingFeedback ? 'Submitting...' : myFeedback?.status === 'FAILED' ? 'Retry Feedback' : 'Submit Feedback'}
+                </button>
+              </div>
+            )}
+            {myFeedback?.status === 'FAILED' && myFeedback.error && (
+              <p className="text-xs text-red-600 mt-1">{myFeedback.error}</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-4 py-4">
         <div className="max-w-4xl mx-auto space-y-4">
@@ -224,6 +460,8 @@ export function NegotiationPage() {
                         msg.sender === 'buyer' ? 'bg-blue-500' : 'bg-gray-100'
                       }`}>
                         {msg.messageType}
+                        {msg.metadata?.offer?.price !== undefined &&
+                          ` · ${msg.metadata.offer.price} ${msg.metadata.offer.currency}`}
                       </span>
                     )}
                   </div>
@@ -239,6 +477,23 @@ export function NegotiationPage() {
               </div>
             ))
           )}
+
+          {typing && (
+            <div className="flex justify-start">
+              <div className="max-w-md px-4 py-3 rounded-lg bg-white border shadow-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-xs font-medium text-gray-500">
+                    {typing.senderAgentId === room?.buyerAgentId ? 'Buyer' : 'Seller'} Agent #{typing.senderAgentId}
+                  </span>
+                  <span className="text-xs text-gray-400">typing...</span>
+                </div>
+                <p className="text-gray-900">
+                  {typing.text}
+                  <span className="animate-pulse">▍</span>
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
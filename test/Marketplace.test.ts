@@ -0,0 +1,291 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const ZERO_HASH = ethers.ZeroHash;
+const PRICE = ethers.parseEther("1");
+
+enum InquiryStatus {
+  PENDING,
+  ACCEPTED,
+  WITHDRAWN,
+}
+
+describe("Marketplace escrow", function () {
+  async function deployFixture() {
+    const [seller, buyer] = await ethers.getSigners();
+
+    const registry = await ethers.deployContract("MockIdentityRegistry");
+    const marketplace = await ethers.deployContract("Marketplace", [await registry.getAddress()]);
+
+    // Agent IDs are sequential: seller 1, buyer 2
+    await registry.connect(seller).register();
+    await registry.connect(buyer).register();
+    const sellerAgentId = 1n;
+    const buyerAgentId = 2n;
+
+    await marketplace.connect(seller).createListing(sellerAgentId, "Desk", "Oak desk", PRICE, PRICE * 2n);
+    const listingId = 1n;
+
+    return { registry, marketplace, seller, buyer, sellerAgentId, buyerAgentId, listingId };
+  }
+
+  async function inquiryFixture() {
+    const fixture = await deployFixture();
+    const { marketplace, buyer, buyerAgentId, listingId } = fixture;
+
+    await marketplace
+      .connect(buyer)
+      .createInquiry(buyerAgentId, listingId, PRICE, "Offer", ZERO_HASH, ZERO_HASH, ZERO_HASH, { value: PRICE });
+
+    return { ...fixture, inquiryId: 1n };
+  }
+
+  async function reservedFixture() {
+    const fixture = await inquiryFixture();
+    const { marketplace, seller, sellerAgentId, listingId, inquiryId } = fixture;
+
+    await marketplace.connect(seller).selectReservation(sellerAgentId, listingId, inquiryId, "highest_offer", ZERO_HASH);
+
+    return fixture;
+  }
+
+  describe("createInquiry", function () {
+    it("should require msg.value to equal offerPrice exactly", async function () {
+      const { marketplace, buyer, buyerAgentId, listingId } = await loadFixture(deployFixture);
+      const inquire = (value: bigint) =>
+        marketplace
+          .connect(buyer)
+          .createInquiry(buyerAgentId, listingId, PRICE, "Offer", ZERO_HASH, ZERO_HASH, ZERO_HASH, { value });
+
+      await expect(inquire(PRICE - 1n)).to.be.revertedWith("Deposit must equal offerPrice");
+      await expect(inquire(PRICE + 1n)).to.be.revertedWith("Deposit must equal offerPrice");
+      await expect(inquire(0n)).to.be.revertedWith("Deposit must equal offerPrice");
+    });
+
+    it("should hold the deposit in escrow", async function () {
+      const { marketplace, buyer, buyerAgentId, listingId } = await loadFixture(deployFixture);
+
+      const tx = marketplace
+        .connect(buyer)
+        .createInquiry(buyerAgentId, listingId, PRICE, "Offer", ZERO_HASH, ZERO_HASH, ZERO_HASH, { value: PRICE });
+
+      await expect(tx).to.changeEtherBalances([buyer, marketplace], [-PRICE, PRICE]);
+      await expect(tx)
+        .to.emit(marketplace, "EscrowDeposited")
+        .withArgs(1n, listingId, buyerAgentId, buyer.address, PRICE, (timestamp: bigint) => timestamp > 0n);
+
+      const [depositor, amount] = await marketplace.getEscrow(1n);
+      expect(depositor).to.equal(buyer.address);
+      expect(amount).to.equal(PRICE);
+    });
+  });
+
+  describe("completeListing", function () {
+    it("should release the escrow to the seller", async function () {
+      const { marketplace, seller, sellerAgentId, listingId, inquiryId } = await loadFixture(reservedFixture);
+
+      const tx = marketplace.connect(seller).completeListing(sellerAgentId, listingId);
+
+      await expect(tx).to.changeEtherBalances([seller, marketplace], [PRICE, -PRICE]);
+      await expect(tx).to.emit(marketplace, "EscrowReleased");
+      await expect(tx).to.emit(marketplace, "ListingCompleted");
+      expect((await marketplace.getEscrow(inquiryId)).amount).to.equal(0n);
+    });
+  });
+
+  describe("cancelListing", function () {
+    it("should refund the reserved buyer", async function () {
+      const { marketplace, seller, buyer, sellerAgentId, buyerAgentId, listingId, inquiryId } =
+        await loadFixture(reservedFixture);
+
+      const tx = marketplace.connect(seller).cancelListing(sellerAgentId, listingId);
+
+      await expect(tx).to.changeEtherBalances([buyer, marketplace], [PRICE, -PRICE]);
+      await expect(tx)
+        .to.emit(marketplace, "EscrowRefunded")
+        .withArgs(listingId, inquiryId, buyerAgentId, buyer.address, PRICE, (timestamp: bigint) => timestamp > 0n);
+      expect((await marketplace.getEscrow(inquiryId)).amount).to.equal(0n);
+    });
+
+    it("should leave pending inquiries' escrow for withdrawInquiry", async function () {
+      const { marketplace, seller, sellerAgentId, listingId, inquiryId } = await loadFixture(inquiryFixture);
+
+      await expect(marketplace.connect(seller).cancelListing(sellerAgentId, listingId)).to.not.emit(
+        marketplace,
+        "EscrowRefunded"
+      );
+      expect((await marketplace.getEscrow(inquiryId)).amount).to.equal(PRICE);
+    });
+  });
+
+  describe("withdrawInquiry", function () {
+    it("should refund the buyer and emit InquiryWithdrawn", async function () {
+      const { marketplace, buyer, buyerAgentId, listingId, inquiryId } = await loadFixture(inquiryFixture);
+
+      const tx = marketplace.connect(buyer).withdrawInquiry(buyerAgentId, inquiryId);
+
+      await expect(tx).to.changeEtherBalances([buyer, marketplace], [PRICE, -PRICE]);
+      await expect(tx).to.emit(marketplace, "EscrowRefunded");
+      await expect(tx)
+        .to.emit(marketplace, "InquiryWithdrawn")
+        .withArgs(inquiryId, listingId, buyerAgentId, (timestamp: bigint) => timestamp > 0n);
+      expect((await marketplace.getInquiry(inquiryId)).status).to.equal(InquiryStatus.WITHDRAWN);
+    });
+
+    it("should not let a withdrawn inquiry be reserved or withdrawn again", async function () {
+      const { marketplace, seller, buyer, sellerAgentId, buyerAgentId, listingId, inquiryId } =
+        await loadFixture(inquiryFixture);
+
+      await marketplace.connect(buyer).withdrawInquiry(buyerAgentId, inquiryId);
+
+      await expect(
+        marketplace.connect(seller).selectReservation(sellerAgentId, listingId, inquiryId, "seller_choice", ZERO_HASH)
+      ).to.be.revertedWith("Inquiry not pending");
+      await expect(marketplace.connect(buyer).withdrawInquiry(buyerAgentId, inquiryId)).to.be.revertedWith(
+        "Inquiry not pending"
+      );
+    });
+
+    it("should only let the buyer withdraw", async function () {
+      const { marketplace, seller, buyerAgentId, inquiryId } = await loadFixture(inquiryFixture);
+
+      await expect(marketplace.connect(seller).withdrawInquiry(buyerAgentId, inquiryId)).to.be.revertedWith(
+        "Not agent owner"
+      );
+    });
+  });
+
+  describe("rejected refunds", function () {
+    async function rejectingBuyerFixture() {
+      const { registry, marketplace, seller, sellerAgentId, listingId } = await deployFixture();
+      const rejecter = await ethers.deployContract("ReentrantAgent", [
+        await marketplace.getAddress(),
+        await registry.getAddress(),
+      ]);
+      const rejecterAgentId = await rejecter.agentId();
+      const inquiryId = 1n;
+
+      await rejecter.execute(
+        marketplace.interface.encodeFunctionData("createInquiry", [
+          rejecterAgentId,
+          listingId,
+          PRICE,
+          "Offer",
+          ZERO_HASH,
+          ZERO_HASH,
+          ZERO_HASH,
+        ]),
+        { value: PRICE }
+      );
+      await marketplace.connect(seller).selectReservation(sellerAgentId, listingId, inquiryId, "highest_offer", ZERO_HASH);
+      await rejecter.setRejectPayments(true);
+
+      return { marketplace, seller, sellerAgentId, listingId, rejecter, inquiryId };
+    }
+
+    it("should credit the refund instead of blocking cancelListing", async function () {
+      const { marketplace, seller, sellerAgentId, listingId, rejecter, inquiryId } =
+        await loadFixture(rejectingBuyerFixture);
+      const rejecterAddress = await rejecter.getAddress();
+
+      const tx = marketplace.connect(seller).cancelListing(sellerAgentId, listingId);
+
+      await expect(tx).to.changeEtherBalances([rejecter, marketplace], [0n, 0n]);
+      await expect(tx)
+        .to.emit(marketplace, "RefundCredited")
+        .withArgs(rejecterAddress, inquiryId, PRICE, (timestamp: bigint) => timestamp > 0n);
+      await expect(tx).to.emit(marketplace, "EscrowRefunded");
+      expect((await marketplace.getEscrow(inquiryId)).amount).to.equal(0n);
+      expect(await marketplace.pendingRefunds(rejecterAddress)).to.equal(PRICE);
+    });
+
+    it("should credit the refund instead of blocking revokeReservation", async function () {
+      const { marketplace, seller, sellerAgentId, listingId, rejecter, inquiryId } =
+        await loadFixture(rejectingBuyerFixture);
+
+      await expect(marketplace.connect(seller).revokeReservation(sellerAgentId, listingId, "Buyer unresponsive"))
+        .to.emit(marketplace, "RefundCredited")
+        .withArgs(await rejecter.getAddress(), inquiryId, PRICE, (timestamp: bigint) => timestamp > 0n);
+    });
+
+    it("should let the depositor withdraw a credited refund once", async function () {
+      const { marketplace, seller, sellerAgentId, listingId, rejecter } = await loadFixture(rejectingBuyerFixture);
+      const withdraw = marketplace.interface.encodeFunctionData("withdrawRefund");
+
+      await marketplace.connect(seller).cancelListing(sellerAgentId, listingId);
+      await rejecter.setRejectPayments(false);
+
+      await expect(rejecter.execute(withdraw)).to.changeEtherBalances([rejecter, marketplace], [PRICE, -PRICE]);
+      expect(await marketplace.pendingRefunds(await rejecter.getAddress())).to.equal(0n);
+      await expect(rejecter.execute(withdraw)).to.be.revertedWith("No refund to withdraw");
+    });
+  });
+
+  describe("reentrancy", function () {
+    it("should clear the escrow and status before refunding", async function () {
+      const { registry, marketplace, listingId } = await loadFixture(deployFixture);
+      const attacker = await ethers.deployContract("ReentrantAgent", [
+        await marketplace.getAddress(),
+        await registry.getAddress(),
+      ]);
+      const attackerAgentId = await attacker.agentId();
+      const inquiryId = 1n;
+
+      await attacker.execute(
+        marketplace.interface.encodeFunctionData("createInquiry", [
+          attackerAgentId,
+          listingId,
+          PRICE,
+          "Offer",
+          ZERO_HASH,
+          ZERO_HASH,
+          ZERO_HASH,
+        ]),
+        { value: PRICE }
+      );
+
+      const withdraw = marketplace.interface.encodeFunctionData("withdrawInquiry", [attackerAgentId, inquiryId]);
+      await attacker.setReentry(withdraw, inquiryId);
+
+      await expect(attacker.execute(withdraw)).to.changeEtherBalances([attacker, marketplace], [PRICE, -PRICE]);
+      expect(await attacker.reentryAttempted()).to.equal(true);
+      expect(await attacker.reentrySucceeded()).to.equal(false);
+      expect(await attacker.escrowDuringCallback()).to.equal(0n);
+    });
+
+    it("should clear the escrow and status before releasing", async function () {
+      const { registry, marketplace, buyer, buyerAgentId } = await loadFixture(deployFixture);
+      const attacker = await ethers.deployContract("ReentrantAgent", [
+        await marketplace.getAddress(),
+        await registry.getAddress(),
+      ]);
+      const attackerAgentId = await attacker.agentId();
+      const listingId = 2n;
+      const inquiryId = 1n;
+
+      await attacker.execute(
+        marketplace.interface.encodeFunctionData("createListing", [attackerAgentId, "Lamp", "Desk lamp", PRICE, PRICE])
+      );
+      await marketplace
+        .connect(buyer)
+        .createInquiry(buyerAgentId, listingId, PRICE, "Offer", ZERO_HASH, ZERO_HASH, ZERO_HASH, { value: PRICE });
+      await attacker.execute(
+        marketplace.interface.encodeFunctionData("selectReservation", [
+          attackerAgentId,
+          listingId,
+          inquiryId,
+          "highest_offer",
+          ZERO_HASH,
+        ])
+      );
+
+      const complete = marketplace.interface.encodeFunctionData("completeListing", [attackerAgentId, listingId]);
+      await attacker.setReentry(complete, inquiryId);
+
+      await expect(attacker.execute(complete)).to.changeEtherBalances([attacker, marketplace], [PRICE, -PRICE]);
+      expect(await attacker.reentrySucceeded()).to.equal(false);
+      expect(await attacker.escrowDuringCallback()).to.equal(0n);
+    });
+  });
+});